@@ -10,6 +10,8 @@ import NotFound from "@/pages/not-found";
 import Login from "@/pages/auth/login";
 import Register from "@/pages/auth/register";
 import TeamInvitation from "@/pages/auth/team-invitation";
+import ForgotPassword from "@/pages/auth/forgot-password";
+import ResetPassword from "@/pages/auth/reset-password";
 import Dashboard from "@/pages/dashboard";
 import Bookings from "@/pages/bookings";
 import Team from "@/pages/team";
@@ -34,6 +36,8 @@ function Router() {
         <Route path="/login" component={Login} />
         <Route path="/register" component={Register} />
         <Route path="/team-invitation" component={TeamInvitation} />
+        <Route path="/forgot-password" component={ForgotPassword} />
+        <Route path="/reset-password" component={ResetPassword} />
         
         {/* App routes */}
         <Route path="/" component={Dashboard} />
@@ -8,8 +8,15 @@ type User = {
   name: string;
   username: string;
   email: string;
+  phone?: string | null;
+  phoneVerifiedAt?: string | null;
+  whatsappOptIn?: boolean;
   role: string;
   teamId: number | null;
+  preferredPosition?: string | null;
+  secondaryPosition?: string | null;
+  notificationSettings?: Record<string, any> | null;
+  isPlatformAdmin?: boolean;
 };
 
 interface AuthContextType {
@@ -31,6 +38,11 @@ const defaultUser = {
   teamId: 1
 };
 
+// Pages people can use without logging in
+const PUBLIC_PATHS = ["/login", "/register", "/forgot-password", "/reset-password"];
+
+const isPublicPath = (location: string) => PUBLIC_PATHS.some(path => location.startsWith(path));
+
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 export function AuthProvider({ children }: { children: ReactNode }) {
@@ -48,7 +60,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         setUser(userData);
       } catch (error) {
         // If not authenticated and not on auth pages, redirect to login
-        if (!location.startsWith("/login") && !location.startsWith("/register")) {
+        if (!isPublicPath(location)) {
           navigate("/login");
         }
       } finally {
@@ -181,7 +193,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
   // Redirect to login if not authenticated on protected routes
   useEffect(() => {
-    if (!isLoading && !isAuthenticated && !location.startsWith("/login") && !location.startsWith("/register")) {
+    if (!isLoading && !isAuthenticated && !isPublicPath(location)) {
       navigate("/login");
     }
   }, [isLoading, isAuthenticated, location, navigate]);
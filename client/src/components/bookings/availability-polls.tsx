@@ -0,0 +1,330 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { apiRequest } from "@/lib/queryClient";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/components/auth/auth-provider";
+import { CreatePollModal } from "./create-poll-modal";
+import type { AvailabilityAnswer, AvailabilityPoll, AvailabilityPollOption } from "@shared/schema";
+
+interface PollOptionSummary extends AvailabilityPollOption {
+  yes: number;
+  maybe: number;
+  no: number;
+}
+
+interface PollSummary {
+  poll: AvailabilityPoll;
+  options: PollOptionSummary[];
+  players: { id: number; name: string }[];
+  responses: { optionId: number; userId: number; answer: AvailabilityAnswer }[];
+  isOpen: boolean;
+}
+
+interface ConversionResult {
+  message: string;
+  registered: number[];
+  waitlisted: number[];
+  notRegistered: { playerId: number; reason: string }[];
+}
+
+const ANSWERS: { value: AvailabilityAnswer; label: string; className: string }[] = [
+  { value: "yes", label: "Yes", className: "bg-green-500 text-white" },
+  { value: "maybe", label: "Maybe", className: "bg-amber-400 text-gray-900" },
+  { value: "no", label: "No", className: "bg-red-500 text-white" },
+];
+
+const ANSWER_CLASSES: Record<string, string> = Object.fromEntries(ANSWERS.map(a => [a.value, a.className]));
+
+const STATUS_LABELS: Record<string, string> = {
+  open: "Open",
+  closed: "Closed",
+  booked: "Booked",
+};
+
+// Shade an option's total by how many players can make it
+function heatClass(option: PollOptionSummary, playerCount: number): string {
+  const share = playerCount > 0 ? (option.yes + option.maybe / 2) / playerCount : 0;
+  if (share >= 0.75) return "bg-green-600 text-white";
+  if (share >= 0.5) return "bg-green-400 text-gray-900";
+  if (share >= 0.25) return "bg-green-200 text-gray-900";
+  return "bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-300";
+}
+
+function PollHeatMap({ pollId }: { pollId: number }) {
+  const { toast } = useToast();
+  const { user } = useAuth();
+  const isAdmin = user?.role === "admin";
+
+  const pollQueryKey = [`/api/availability-polls/${pollId}`];
+
+  const { data, isLoading } = useQuery<PollSummary>({
+    queryKey: pollQueryKey,
+  });
+
+  const answerMutation = useMutation({
+    mutationFn: async (answer: { optionId: number; answer: AvailabilityAnswer }) => {
+      const response = await apiRequest('PUT', `/api/availability-polls/${pollId}/answers`, { answers: [answer] });
+      return response.json();
+    },
+    onSuccess: (summary: PollSummary) => {
+      queryClient.setQueryData(pollQueryKey, summary);
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Error',
+        description: `Failed to save your answer: ${error.message}`,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const closeMutation = useMutation({
+    mutationFn: async () => apiRequest('POST', `/api/availability-polls/${pollId}/close`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: pollQueryKey });
+      queryClient.invalidateQueries({ queryKey: ["/api/availability-polls"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Error',
+        description: `Failed to close poll: ${error.message}`,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const convertMutation = useMutation({
+    mutationFn: async (optionId: number) => {
+      const response = await apiRequest('POST', `/api/availability-polls/${pollId}/convert`, { optionId });
+      return response.json() as Promise<ConversionResult>;
+    },
+    onSuccess: (result) => {
+      const skipped = result.notRegistered.length > 0
+        ? ` ${result.notRegistered.length} couldn't be signed up.`
+        : "";
+      const waitlisted = result.waitlisted.length > 0
+        ? ` ${result.waitlisted.length} on the waitlist.`
+        : "";
+      toast({
+        title: 'Booking created',
+        description: `${result.registered.length} player(s) signed up.${waitlisted}${skipped}`,
+      });
+      queryClient.invalidateQueries({ queryKey: pollQueryKey });
+      queryClient.invalidateQueries({ queryKey: ["/api/availability-polls"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/bookings"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Error',
+        description: `Failed to book option: ${error.message}`,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  if (isLoading || !data) {
+    return <p className="text-sm text-gray-500">Loading poll...</p>;
+  }
+
+  const answerFor = (optionId: number, userId: number) =>
+    data.responses.find(r => r.optionId === optionId && r.userId === userId)?.answer;
+
+  const bestYes = Math.max(0, ...data.options.map(o => o.yes));
+
+  return (
+    <div className="space-y-4">
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm border-separate border-spacing-1">
+          <thead>
+            <tr>
+              <th className="text-left font-medium text-gray-500 min-w-32">Player</th>
+              {data.options.map(option => (
+                <th key={option.id} className="font-medium text-gray-700 dark:text-gray-300 min-w-28 align-top">
+                  <div>{format(new Date(option.startTime), "EEE d MMM")}</div>
+                  <div className="text-xs text-gray-500">
+                    {format(new Date(option.startTime), "HH:mm")}–{format(new Date(option.endTime), "HH:mm")}
+                  </div>
+                  <div className="text-xs text-gray-500 font-normal truncate max-w-32" title={option.location}>
+                    {option.location}
+                  </div>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {data.players.map(player => {
+              const isMe = player.id === user?.id;
+              return (
+                <tr key={player.id}>
+                  <td className={isMe ? "font-medium" : "text-gray-700 dark:text-gray-300"}>
+                    {isMe ? `${player.name} (you)` : player.name}
+                  </td>
+                  {data.options.map(option => {
+                    const answer = answerFor(option.id, player.id);
+                    if (isMe && data.isOpen) {
+                      return (
+                        <td key={option.id}>
+                          <div className="flex gap-0.5 justify-center">
+                            {ANSWERS.map(a => (
+                              <button
+                                key={a.value}
+                                type="button"
+                                title={a.label}
+                                className={`w-7 h-7 rounded text-xs font-medium ${
+                                  answer === a.value ? a.className : "bg-gray-100 text-gray-500 dark:bg-gray-800"
+                                }`}
+                                onClick={() => answerMutation.mutate({ optionId: option.id, answer: a.value })}
+                                disabled={answerMutation.isPending}
+                              >
+                                {a.label.charAt(0)}
+                              </button>
+                            ))}
+                          </div>
+                        </td>
+                      );
+                    }
+                    return (
+                      <td
+                        key={option.id}
+                        className={`h-7 rounded text-center text-xs ${
+                          answer ? ANSWER_CLASSES[answer] : "bg-gray-50 text-gray-400 dark:bg-gray-900"
+                        }`}
+                      >
+                        {answer ? ANSWERS.find(a => a.value === answer)?.label : "–"}
+                      </td>
+                    );
+                  })}
+                </tr>
+              );
+            })}
+            <tr>
+              <td className="font-medium pt-2">Total</td>
+              {data.options.map(option => (
+                <td
+                  key={option.id}
+                  className={`rounded text-center text-xs py-1 ${heatClass(option, data.players.length)} ${
+                    option.yes === bestYes && bestYes > 0 ? "ring-2 ring-green-700" : ""
+                  }`}
+                >
+                  {option.yes} yes · {option.maybe} maybe
+                  {data.poll.chosenOptionId === option.id && <div className="font-semibold">Booked</div>}
+                </td>
+              ))}
+            </tr>
+            {isAdmin && data.poll.status !== "booked" && (
+              <tr>
+                <td />
+                {data.options.map(option => (
+                  <td key={option.id} className="text-center">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => convertMutation.mutate(option.id)}
+                      disabled={convertMutation.isPending || new Date(option.startTime) <= new Date()}
+                    >
+                      Book this
+                    </Button>
+                  </td>
+                ))}
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {isAdmin && data.poll.status === "open" && (
+        <div className="flex justify-end">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => closeMutation.mutate()}
+            disabled={closeMutation.isPending}
+          >
+            Close poll
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function AvailabilityPolls() {
+  const { user } = useAuth();
+  const [showCreatePoll, setShowCreatePoll] = useState(false);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+
+  const { data: polls = [], isLoading } = useQuery<AvailabilityPoll[]>({
+    queryKey: ["/api/availability-polls"],
+  });
+
+  // Booked polls stay visible until their match has been and gone
+  const activePolls = polls.filter(poll => poll.status !== "closed");
+
+  if (isLoading || (activePolls.length === 0 && user?.role !== "admin")) {
+    return null;
+  }
+
+  return (
+    <Card className="mb-6">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle>Availability Polls</CardTitle>
+        {user?.role === "admin" && (
+          <Button variant="outline" size="sm" onClick={() => setShowCreatePoll(true)}>
+            <span className="material-icons text-sm mr-2">how_to_vote</span>
+            New Poll
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {activePolls.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            Not sure when everyone can play? Offer a few times and venues and book the one that suits most players.
+          </p>
+        ) : (
+          activePolls.map(poll => (
+            <div key={poll.id} className="border rounded-md p-3">
+              <button
+                type="button"
+                className="w-full flex items-center justify-between gap-3 text-left"
+                onClick={() => setExpandedId(expandedId === poll.id ? null : poll.id)}
+              >
+                <div>
+                  <p className="font-medium text-gray-900 dark:text-gray-100">{poll.title}</p>
+                  <p className="text-xs text-gray-500">
+                    {poll.format} · {poll.totalSlots} slots
+                    {poll.closesAt && ` · closes ${format(new Date(poll.closesAt), "d MMM, HH:mm")}`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Badge variant={poll.status === "open" ? "default" : "secondary"}>
+                    {STATUS_LABELS[poll.status] || poll.status}
+                  </Badge>
+                  <span className="material-icons text-gray-400">
+                    {expandedId === poll.id ? "expand_less" : "expand_more"}
+                  </span>
+                </div>
+              </button>
+              {expandedId === poll.id && (
+                <div className="mt-3">
+                  <PollHeatMap pollId={poll.id} />
+                </div>
+              )}
+            </div>
+          ))
+        )}
+      </CardContent>
+
+      {showCreatePoll && (
+        <CreatePollModal
+          isOpen={showCreatePoll}
+          onClose={() => setShowCreatePoll(false)}
+        />
+      )}
+    </Card>
+  );
+}
@@ -12,6 +12,7 @@ import { queryClient } from "@/lib/queryClient";
 import { useAuth } from "@/components/auth/auth-provider";
 import { Calendar, Download, Users, ListChecks, PlusCircle } from "lucide-react";
 import { TeamSelection } from "./team-selection";
+import { SeriesOccurrenceActions } from "./series-occurrence-actions";
 import { Booking, User } from "@shared/schema";
 import { BookingFormPlayer, PlayerBookingFormData } from "./booking-form-player";
 
@@ -27,6 +28,8 @@ export function BookingDetailsModal({ isOpen, onClose, booking, onEnterStats }:
   const { toast } = useToast();
   const [isJoining, setIsJoining] = useState(false);
   const [isLeaving, setIsLeaving] = useState(false);
+  const [isConfirming, setIsConfirming] = useState(false);
+  const [isAskingWhatsApp, setIsAskingWhatsApp] = useState(false);
   const [activeTab, setActiveTab] = useState("details");
   
   const { data: attendees, isLoading } = useQuery({
@@ -41,29 +44,58 @@ export function BookingDetailsModal({ isOpen, onClose, booking, onEnterStats }:
     enabled: isOpen && !!booking?.id && !!user?.id,
   });
   
-  const isUserAttending = attendees?.some((attendee: any) => attendee.playerId === user?.id);
+  const { data: waitlist } = useQuery<any[]>({
+    queryKey: [`/api/bookings/${booking?.id}/waitlist`],
+    queryFn: undefined, // Using the default query function from queryClient
+    enabled: isOpen && !!booking?.id,
+  });
+  
+  const attendeeList: any[] = Array.isArray(attendees) ? attendees : [];
+  const confirmedAttendees = attendeeList.filter((attendee: any) => 
+    attendee.status === "confirmed" || attendee.status === "pending"
+  );
+  const userBooking = attendeeList.find((attendee: any) => 
+    attendee.playerId === user?.id && ["confirmed", "pending", "waitlisted"].includes(attendee.status)
+  );
+  const isUserAttending = userBooking?.status === "confirmed";
+  const hasSpotOffer = userBooking?.status === "pending";
+  const isUserWaitlisted = userBooking?.status === "waitlisted";
+  const waitlistPosition = waitlist?.find((entry: any) => entry.playerId === user?.id)?.position;
+  
+  const invalidatePlayerQueries = () => {
+    if (!booking) return;
+    queryClient.invalidateQueries({ queryKey: [`/api/bookings/${booking.id}/players`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/bookings/${booking.id}/waitlist`] });
+    queryClient.invalidateQueries({ queryKey: ["/api/bookings"] });
+    
+    // Joining, leaving and confirming spots move credits
+    queryClient.invalidateQueries({ queryKey: ["/api/user/credits"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/user/transactions"] });
+  };
   
   const handleJoinSession = async () => {
     if (!booking || !user) return;
     
     try {
       setIsJoining(true);
-      await apiRequest("POST", `/api/bookings/${booking.id}/players`, { 
+      const response = await apiRequest("POST", `/api/bookings/${booking.id}/players`, { 
         playerId: user.id 
       });
+      const playerBooking = await response.json();
       
       toast({
         title: "Success",
-        description: "You've joined the session",
+        description: playerBooking.status === "waitlisted"
+          ? "The session is full, so you've been added to the waitlist"
+          : "You've joined the session",
       });
       
-      queryClient.invalidateQueries({ queryKey: [`/api/bookings/${booking.id}/players`] });
-      queryClient.invalidateQueries({ queryKey: ["/api/bookings"] });
+      invalidatePlayerQueries();
     } catch (error) {
       console.error("Error joining session:", error);
       toast({
         title: "Error",
-        description: "Failed to join session. It might be full or you're already attending.",
+        description: "Failed to join session. Check you have enough credits and aren't already attending.",
         variant: "destructive",
       });
     } finally {
@@ -80,11 +112,10 @@ export function BookingDetailsModal({ isOpen, onClose, booking, onEnterStats }:
       
       toast({
         title: "Success",
-        description: "You've left the session",
+        description: isUserAttending ? "You've left the session" : "You've left the waitlist",
       });
       
-      queryClient.invalidateQueries({ queryKey: [`/api/bookings/${booking.id}/players`] });
-      queryClient.invalidateQueries({ queryKey: ["/api/bookings"] });
+      invalidatePlayerQueries();
     } catch (error) {
       console.error("Error leaving session:", error);
       toast({
@@ -97,6 +128,58 @@ export function BookingDetailsModal({ isOpen, onClose, booking, onEnterStats }:
     }
   };
   
+  const handleConfirmSpot = async () => {
+    if (!booking) return;
+    
+    try {
+      setIsConfirming(true);
+      await apiRequest("POST", `/api/bookings/${booking.id}/waitlist/confirm`);
+      
+      toast({
+        title: "Success",
+        description: "Your spot has been confirmed",
+      });
+      
+      invalidatePlayerQueries();
+    } catch (error) {
+      console.error("Error confirming spot:", error);
+      toast({
+        title: "Error",
+        description: "Failed to confirm your spot. The offer may have expired or you may not have enough credits.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsConfirming(false);
+    }
+  };
+  
+  // Message team members who haven't replied yet; they answer IN, OUT or WAITLIST
+  const handleAskOnWhatsApp = async () => {
+    if (!booking) return;
+    
+    try {
+      setIsAskingWhatsApp(true);
+      const response = await apiRequest("POST", `/api/bookings/${booking.id}/whatsapp-rsvp`);
+      const data = await response.json();
+      
+      toast({
+        title: "WhatsApp Sent",
+        description: data.sent > 0
+          ? data.message
+          : "Nobody to ask - players need a phone number on their profile",
+      });
+    } catch (error) {
+      console.error("Error sending WhatsApp RSVP requests:", error);
+      toast({
+        title: "Error",
+        description: "Failed to send WhatsApp messages. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsAskingWhatsApp(false);
+    }
+  };
+  
   const handlePlayerJoin = async (data: PlayerBookingFormData) => {
     if (!booking) return;
     
@@ -114,8 +197,7 @@ export function BookingDetailsModal({ isOpen, onClose, booking, onEnterStats }:
         description: "You've joined the session!",
       });
       
-      queryClient.invalidateQueries({ queryKey: [`/api/bookings/${booking.id}/players`] });
-      queryClient.invalidateQueries({ queryKey: ["/api/bookings"] });
+      invalidatePlayerQueries();
       
       // Close the join tab and show details
       setActiveTab("details");
@@ -192,9 +274,9 @@ export function BookingDetailsModal({ isOpen, onClose, booking, onEnterStats }:
                 <div className="p-4 flex justify-center">
                   <div className="animate-spin w-6 h-6 border-4 border-primary-DEFAULT border-t-transparent rounded-full"></div>
                 </div>
-              ) : attendees && attendees.length > 0 ? (
+              ) : confirmedAttendees.length > 0 ? (
                 <div className="grid grid-cols-3 gap-2">
-                  {attendees.map((attendee: any) => (
+                  {confirmedAttendees.map((attendee: any) => (
                     <Card key={attendee.id} className="p-2 flex flex-col items-center">
                       <div className="w-10 h-10 rounded-full bg-primary-DEFAULT bg-opacity-10 text-primary-DEFAULT dark:text-primary-light flex items-center justify-center">
                         {getInitials(attendee.playerName || "User")}
@@ -210,6 +292,31 @@ export function BookingDetailsModal({ isOpen, onClose, booking, onEnterStats }:
               )}
             </div>
             
+            {waitlist && waitlist.length > 0 && (
+              <div>
+                <h4 className="text-sm font-medium text-gray-500 dark:text-gray-400 mb-2">
+                  Waitlist ({waitlist.length})
+                </h4>
+                <ol className="text-sm text-gray-600 dark:text-gray-400 list-decimal list-inside space-y-1">
+                  {waitlist.map((entry: any) => (
+                    <li key={entry.id}>
+                      {entry.playerId === user?.id ? "You" : entry.playerName || "User"}
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            )}
+            
+            {!isPastBooking && user?.role === "admin" && booking.seriesId && (
+              <>
+                <Separator />
+                <div>
+                  <h4 className="text-sm font-medium text-gray-500 dark:text-gray-400 mb-2">Repeating Session</h4>
+                  <SeriesOccurrenceActions key={booking.id} booking={booking} onClose={onClose} />
+                </div>
+              </>
+            )}
+            
             <div className="flex justify-end">
               <a 
                 href={`/api/calendar/download/${booking.id}`} 
@@ -224,10 +331,10 @@ export function BookingDetailsModal({ isOpen, onClose, booking, onEnterStats }:
           </TabsContent>
           
           <TabsContent value="teams">
-            {attendees && (
+            {!!attendees && (
               <TeamSelection 
                 booking={booking} 
-                playersRegistered={attendees.map((a: any) => ({
+                playersRegistered={confirmedAttendees.map((a: any) => ({
                   id: a.playerId,
                   name: a.playerName,
                   email: a.playerEmail || 'player@example.com'
@@ -237,7 +344,7 @@ export function BookingDetailsModal({ isOpen, onClose, booking, onEnterStats }:
           </TabsContent>
 
           <TabsContent value="join" className="space-y-4">
-            {!isPastBooking && booking.availableSlots > 0 && !isUserAttending && (
+            {!isPastBooking && booking.availableSlots > 0 && !userBooking && (
               <BookingFormPlayer 
                 booking={booking}
                 onSubmit={handlePlayerJoin}
@@ -245,10 +352,61 @@ export function BookingDetailsModal({ isOpen, onClose, booking, onEnterStats }:
                 isPending={isJoining}
               />
             )}
-            {!isPastBooking && booking.availableSlots === 0 && !isUserAttending && (
+            {!isPastBooking && booking.availableSlots === 0 && !userBooking && (
               <div className="p-6 text-center">
                 <p className="text-gray-600 dark:text-gray-400">This session is fully booked.</p>
-                <p className="mt-2 text-sm text-gray-500">Check back later or join another session.</p>
+                <p className="mt-2 text-sm text-gray-500">Join the waitlist and we'll offer you a spot if one opens up.</p>
+                <Button 
+                  type="button" 
+                  onClick={handleJoinSession}
+                  disabled={isJoining}
+                  className="mt-4"
+                >
+                  {isJoining ? "Joining..." : "Join Waitlist"}
+                </Button>
+              </div>
+            )}
+            {!isPastBooking && isUserWaitlisted && (
+              <div className="p-6 text-center">
+                <p className="text-gray-600 dark:text-gray-400">
+                  You are {waitlistPosition ? `number ${waitlistPosition}` : ""} on the waitlist for this session.
+                </p>
+                <Button 
+                  type="button" 
+                  variant="outline" 
+                  onClick={handleLeaveSession}
+                  disabled={isLeaving}
+                  className="mt-4"
+                >
+                  {isLeaving ? "Leaving..." : "Leave Waitlist"}
+                </Button>
+              </div>
+            )}
+            {!isPastBooking && hasSpotOffer && (
+              <div className="p-6 text-center">
+                <p className="text-green-600 dark:text-green-400">A spot has opened up for you!</p>
+                {userBooking?.offerExpiresAt && (
+                  <p className="mt-2 text-sm text-gray-500">
+                    Confirm by {new Date(userBooking.offerExpiresAt).toLocaleString()} or it will go to the next player.
+                  </p>
+                )}
+                <div className="mt-4 flex justify-center space-x-2">
+                  <Button 
+                    type="button" 
+                    onClick={handleConfirmSpot}
+                    disabled={isConfirming}
+                  >
+                    {isConfirming ? "Confirming..." : "Confirm Spot"}
+                  </Button>
+                  <Button 
+                    type="button" 
+                    variant="outline" 
+                    onClick={handleLeaveSession}
+                    disabled={isLeaving}
+                  >
+                    Decline
+                  </Button>
+                </div>
               </div>
             )}
             {!isPastBooking && isUserAttending && (
@@ -300,18 +458,30 @@ export function BookingDetailsModal({ isOpen, onClose, booking, onEnterStats }:
                     )}
                   </Button>
                 ) : (
-                  booking.availableSlots > 0 && (
+                  !userBooking && (
                     <Button 
                       type="button" 
                       onClick={() => setActiveTab("join")}
                       className="w-full sm:w-auto"
                     >
-                      Join Session
+                      {booking.availableSlots > 0 ? "Join Session" : "Join Waitlist"}
                     </Button>
                   )
                 )
               )}
               
+              {!isPastBooking && user?.role === "admin" && (
+                <Button 
+                  type="button" 
+                  variant="outline"
+                  onClick={handleAskOnWhatsApp}
+                  disabled={isAskingWhatsApp}
+                  className="w-full sm:w-auto"
+                >
+                  {isAskingWhatsApp ? "Sending..." : "Ask on WhatsApp"}
+                </Button>
+              )}
+              
               {isPastBooking && user?.role === "admin" && (
                 <Button 
                   type="button" 
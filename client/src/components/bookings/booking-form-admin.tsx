@@ -1,23 +1,44 @@
 import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { useToast } from "@/hooks/use-toast";
 import { format } from "date-fns";
+import type { Venue } from "@shared/schema";
+
+// Picker value for typing a location instead of choosing a venue
+const OTHER_LOCATION = "other";
 
 const bookingFormSchema = z.object({
   title: z.string().min(3, "Title must be at least 3 characters"),
   location: z.string().min(3, "Location is required"),
+  venueId: z.number().nullable().optional(),
   format: z.enum(["5-a-side", "7-a-side", "11-a-side"]),
   startTime: z.string().min(1, "Start time is required"),
   endTime: z.string().min(1, "End time is required"),
   totalSlots: z.number().min(2, "Must have at least 2 slots"),
+  pitchCost: z.number().min(0, "Pitch cost can't be negative").nullable().optional(),
+  creditCost: z.number().int("Credits must be a whole number").min(0, "Credits can't be negative").optional().default(1),
   isRecurring: z.boolean().optional().default(false),
+  frequency: z.enum(["weekly", "fortnightly", "monthly"]).optional().default("weekly"),
+  endType: z.enum(["never", "date", "count"]).optional().default("never"),
+  endDate: z.string().optional(),
+  occurrenceCount: z.number().min(1, "Must repeat at least once").optional(),
+  skipDates: z.array(z.string()).optional().default([]),
   status: z.string().optional().default("active"),
+}).refine(data => !data.isRecurring || data.endType !== "date" || !!data.endDate, {
+  message: "End date is required",
+  path: ["endDate"],
+}).refine(data => !data.isRecurring || data.endType !== "count" || !!data.occurrenceCount, {
+  message: "Number of sessions is required",
+  path: ["occurrenceCount"],
 });
 
 export type BookingFormData = z.infer<typeof bookingFormSchema>;
@@ -32,6 +53,12 @@ export function BookingFormAdmin({ onSubmit, onCancel, selectedDate = new Date()
   const { toast } = useToast();
   const [matchFormat, setMatchFormat] = useState<string>("7-a-side");
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [skipDateInput, setSkipDateInput] = useState("");
+  
+  // The team's venues, to pick from instead of typing the location
+  const { data: venues = [] } = useQuery<Venue[]>({
+    queryKey: ["/api/venues"],
+  });
   
   const defaultStartTime = new Date(selectedDate);
   defaultStartTime.setHours(18, 0, 0); // Default to 6:00 PM
@@ -39,20 +66,43 @@ export function BookingFormAdmin({ onSubmit, onCancel, selectedDate = new Date()
   const defaultEndTime = new Date(selectedDate);
   defaultEndTime.setHours(20, 0, 0); // Default to 8:00 PM
   
-  const { register, handleSubmit, reset, setValue, formState: { errors } } = useForm<BookingFormData>({
+  const { register, handleSubmit, reset, setValue, watch, formState: { errors } } = useForm<BookingFormData>({
     resolver: zodResolver(bookingFormSchema),
     defaultValues: {
       title: "",
       location: "",
+      venueId: null,
       format: "7-a-side",
       startTime: format(defaultStartTime, "yyyy-MM-dd'T'HH:mm"),
       endTime: format(defaultEndTime, "yyyy-MM-dd'T'HH:mm"),
       totalSlots: getDefaultSlots("7-a-side"),
+      pitchCost: null,
+      creditCost: 1,
       isRecurring: false,
+      frequency: "weekly",
+      endType: "never",
+      skipDates: [],
       status: "active"
     }
   });
   
+  const isRecurring = watch("isRecurring");
+  const endType = watch("endType");
+  const skipDates = watch("skipDates") || [];
+  const venueId = watch("venueId");
+  const selectedVenue = venues.find(venue => venue.id === venueId);
+  
+  // The venue's rate is used for the pitch cost unless one is typed in
+  const startTime = watch("startTime");
+  const endTime = watch("endTime");
+  const hours = (new Date(endTime).getTime() - new Date(startTime).getTime()) / (60 * 60 * 1000);
+  const venuePitchCost = selectedVenue?.costPerHour != null && hours > 0
+    ? (selectedVenue.costPerHour * hours).toFixed(2)
+    : undefined;
+  
+  // Without a pitch cost players pay a flat number of credits
+  const pitchCostValue = watch("pitchCost");
+  
   function getDefaultSlots(format: string) {
     switch (format) {
       case "5-a-side": return 10;
@@ -68,6 +118,22 @@ export function BookingFormAdmin({ onSubmit, onCancel, selectedDate = new Date()
     setValue('totalSlots', getDefaultSlots(value));
   };
 
+  const handleVenueChange = (value: string) => {
+    const venue = venues.find(v => String(v.id) === value);
+    setValue("venueId", venue ? venue.id : null);
+    setValue("location", venue ? venue.name : "", { shouldValidate: !!venue });
+  };
+
+  const handleAddSkipDate = () => {
+    if (!skipDateInput || skipDates.includes(skipDateInput)) return;
+    setValue("skipDates", [...skipDates, skipDateInput].sort());
+    setSkipDateInput("");
+  };
+  
+  const handleRemoveSkipDate = (date: string) => {
+    setValue("skipDates", skipDates.filter(d => d !== date));
+  };
+
   const handleFormSubmit = async (data: BookingFormData) => {
     try {
       setIsSubmitting(true);
@@ -98,16 +164,43 @@ export function BookingFormAdmin({ onSubmit, onCancel, selectedDate = new Date()
         {errors.title && <p className="text-sm text-red-500 mt-1">{errors.title.message}</p>}
       </div>
       
-      <div>
-        <Label htmlFor="location">Location</Label>
-        <Input 
-          id="location" 
-          {...register("location")}
-          className="mt-1"
-          placeholder="e.g. Central Park Field #3"
-        />
-        {errors.location && <p className="text-sm text-red-500 mt-1">{errors.location.message}</p>}
-      </div>
+      {venues.length > 0 && (
+        <div>
+          <Label htmlFor="venue">Venue</Label>
+          <Select 
+            onValueChange={handleVenueChange}
+            value={venueId ? String(venueId) : OTHER_LOCATION}
+          >
+            <SelectTrigger id="venue" className="w-full mt-1">
+              <SelectValue placeholder="Select venue" />
+            </SelectTrigger>
+            <SelectContent>
+              {venues.map(venue => (
+                <SelectItem key={venue.id} value={String(venue.id)}>{venue.name}</SelectItem>
+              ))}
+              <SelectItem value={OTHER_LOCATION}>Somewhere else</SelectItem>
+            </SelectContent>
+          </Select>
+          {selectedVenue && (
+            <p className="text-xs text-gray-500 mt-1">
+              {[selectedVenue.address, selectedVenue.notes].filter(Boolean).join(" · ")}
+            </p>
+          )}
+        </div>
+      )}
+      
+      {!selectedVenue && (
+        <div>
+          <Label htmlFor="location">Location</Label>
+          <Input 
+            id="location" 
+            {...register("location")}
+            className="mt-1"
+            placeholder="e.g. Central Park Field #3"
+          />
+          {errors.location && <p className="text-sm text-red-500 mt-1">{errors.location.message}</p>}
+        </div>
+      )}
       
       <div>
         <Label htmlFor="format">Format</Label>
@@ -165,6 +258,144 @@ export function BookingFormAdmin({ onSubmit, onCancel, selectedDate = new Date()
         </p>
       </div>
       
+      <div>
+        <Label htmlFor="pitchCost">Pitch Cost (£)</Label>
+        <Input 
+          id="pitchCost" 
+          type="number"
+          min={0}
+          step="0.01"
+          {...register("pitchCost", { setValueAs: (value) => value === "" || value === null ? null : Number(value) })}
+          className="mt-1"
+          placeholder={venuePitchCost ? `${venuePitchCost} from venue rate` : "Optional"}
+        />
+        {errors.pitchCost && <p className="text-sm text-red-500 mt-1">{errors.pitchCost.message}</p>}
+        <p className="text-xs text-gray-500 mt-1">
+          Split between the players who turn up. Each player's share is worked out from the pitch cost and settled after kickoff.
+        </p>
+      </div>
+      
+      {pitchCostValue == null && !venuePitchCost && (
+        <div>
+          <Label htmlFor="creditCost">Credits per Player</Label>
+          <Input 
+            id="creditCost" 
+            type="number"
+            min={0}
+            {...register("creditCost", { valueAsNumber: true })}
+            className="mt-1"
+          />
+          {errors.creditCost && <p className="text-sm text-red-500 mt-1">{errors.creditCost.message}</p>}
+        </div>
+      )}
+      
+      <div className="flex items-center space-x-2">
+        <Checkbox 
+          id="isRecurring"
+          checked={isRecurring}
+          onCheckedChange={(checked) => setValue("isRecurring", checked === true)}
+        />
+        <Label htmlFor="isRecurring">Repeat this session</Label>
+      </div>
+      
+      {isRecurring && (
+        <div className="space-y-4 rounded-md border p-3">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="frequency">Repeats</Label>
+              <Select 
+                onValueChange={(value) => setValue("frequency", value as "weekly" | "fortnightly" | "monthly")}
+                defaultValue="weekly"
+              >
+                <SelectTrigger id="frequency" className="w-full mt-1">
+                  <SelectValue placeholder="Select frequency" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="weekly">Every week</SelectItem>
+                  <SelectItem value="fortnightly">Every two weeks</SelectItem>
+                  <SelectItem value="monthly">Every month</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            
+            <div>
+              <Label htmlFor="endType">Ends</Label>
+              <Select 
+                onValueChange={(value) => setValue("endType", value as "never" | "date" | "count")}
+                defaultValue="never"
+              >
+                <SelectTrigger id="endType" className="w-full mt-1">
+                  <SelectValue placeholder="Select end" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="never">Never</SelectItem>
+                  <SelectItem value="date">On a date</SelectItem>
+                  <SelectItem value="count">After a number of sessions</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          
+          {endType === "date" && (
+            <div>
+              <Label htmlFor="endDate">End Date</Label>
+              <Input 
+                id="endDate" 
+                type="date"
+                {...register("endDate")}
+                className="mt-1"
+              />
+              {errors.endDate && <p className="text-sm text-red-500 mt-1">{errors.endDate.message}</p>}
+            </div>
+          )}
+          
+          {endType === "count" && (
+            <div>
+              <Label htmlFor="occurrenceCount">Number of Sessions</Label>
+              <Input 
+                id="occurrenceCount" 
+                type="number"
+                {...register("occurrenceCount", { valueAsNumber: true })}
+                className="mt-1"
+              />
+              {errors.occurrenceCount && <p className="text-sm text-red-500 mt-1">{errors.occurrenceCount.message}</p>}
+            </div>
+          )}
+          
+          <div>
+            <Label htmlFor="skipDate">Skip Dates</Label>
+            <div className="flex mt-1 space-x-2">
+              <Input 
+                id="skipDate" 
+                type="date"
+                value={skipDateInput}
+                onChange={(e) => setSkipDateInput(e.target.value)}
+              />
+              <Button type="button" variant="outline" onClick={handleAddSkipDate}>
+                Add
+              </Button>
+            </div>
+            {skipDates.length > 0 && (
+              <div className="flex flex-wrap gap-2 mt-2">
+                {skipDates.map(date => (
+                  <Badge 
+                    key={date} 
+                    variant="secondary" 
+                    className="cursor-pointer"
+                    onClick={() => handleRemoveSkipDate(date)}
+                  >
+                    {date} ✕
+                  </Badge>
+                ))}
+              </div>
+            )}
+            <p className="text-xs text-gray-500 mt-1">
+              No session will be created on these dates (e.g. bank holidays)
+            </p>
+          </div>
+        </div>
+      )}
+      
       <div className="flex justify-end space-x-2 mt-6">
         <Button type="button" variant="outline" onClick={onCancel}>
           Cancel
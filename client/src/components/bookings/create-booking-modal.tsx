@@ -58,11 +58,42 @@ export function CreateBookingModal({ isOpen, onClose, selectedDate = new Date()
         startTime: new Date(data.startTime).toISOString(),
         endTime: new Date(data.endTime).toISOString(),
         availableSlots: data.totalSlots,
+        pitchCost: data.pitchCost ?? undefined, // Left out so a venue's rate can apply
         status: "active", // Set the initial status as active
         teamId: userData.teamId,
         isRecurring: data.isRecurring || false
       };
       
+      // Recurring sessions are created as a series; the server generates the bookings
+      if (data.isRecurring) {
+        await apiRequest("POST", "/api/booking-series", {
+          title: data.title,
+          location: data.location,
+          venueId: data.venueId ?? null,
+          format: data.format,
+          startTime: bookingData.startTime,
+          endTime: bookingData.endTime,
+          totalSlots: data.totalSlots,
+          pitchCost: data.pitchCost ?? undefined,
+          creditCost: data.creditCost,
+          frequency: data.frequency,
+          endDate: data.endType === "date" && data.endDate ? new Date(data.endDate).toISOString() : null,
+          occurrenceCount: data.endType === "count" ? data.occurrenceCount : null,
+          skipDates: data.skipDates
+        });
+        
+        toast({
+          title: "Recurring Booking Created",
+          description: "Upcoming sessions have been added to the calendar",
+        });
+        
+        queryClient.invalidateQueries({ queryKey: ["/api/bookings"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/booking-series"] });
+        setIsSubmitting(false);
+        onClose();
+        return;
+      }
+      
       console.log("Sending booking data:", bookingData);
       
       try {
@@ -0,0 +1,245 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { addDays, format } from "date-fns";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest } from "@/lib/queryClient";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Plus, Trash2 } from "lucide-react";
+import type { Venue } from "@shared/schema";
+
+const OTHER_LOCATION = "other";
+const MAX_OPTIONS = 10;
+
+const DEFAULT_SLOTS: Record<string, number> = {
+  "5-a-side": 10,
+  "7-a-side": 14,
+  "11-a-side": 22,
+};
+
+interface PollOptionForm {
+  startTime: string;
+  endTime: string;
+  venueId: number | null;
+  location: string;
+}
+
+interface CreatePollModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// A week from now at 19:00 for an hour, each further option a day later
+function defaultOption(index: number): PollOptionForm {
+  const start = addDays(new Date(), 7 + index);
+  start.setHours(19, 0, 0, 0);
+  const end = new Date(start.getTime() + 60 * 60 * 1000);
+  return {
+    startTime: format(start, "yyyy-MM-dd'T'HH:mm"),
+    endTime: format(end, "yyyy-MM-dd'T'HH:mm"),
+    venueId: null,
+    location: "",
+  };
+}
+
+export function CreatePollModal({ isOpen, onClose }: CreatePollModalProps) {
+  const { toast } = useToast();
+  const [title, setTitle] = useState("");
+  const [matchFormat, setMatchFormat] = useState("7-a-side");
+  const [totalSlots, setTotalSlots] = useState(String(DEFAULT_SLOTS["7-a-side"]));
+  const [closesAt, setClosesAt] = useState("");
+  const [options, setOptions] = useState<PollOptionForm[]>([defaultOption(0), defaultOption(1)]);
+
+  const { data: venues = [] } = useQuery<Venue[]>({
+    queryKey: ["/api/venues"],
+  });
+
+  const updateOption = (index: number, changes: Partial<PollOptionForm>) => {
+    setOptions(prev => prev.map((option, i) => i === index ? { ...option, ...changes } : option));
+  };
+
+  const handleFormatChange = (value: string) => {
+    setMatchFormat(value);
+    setTotalSlots(String(DEFAULT_SLOTS[value] ?? 14));
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/availability-polls', {
+        title,
+        format: matchFormat,
+        totalSlots: Number(totalSlots),
+        closesAt: closesAt ? new Date(closesAt).toISOString() : null,
+        options: options.map(option => ({
+          startTime: new Date(option.startTime).toISOString(),
+          endTime: new Date(option.endTime).toISOString(),
+          venueId: option.venueId,
+          location: option.venueId ? undefined : option.location,
+        })),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Poll Created',
+        description: 'Your team has been asked which times they can make',
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/availability-polls"] });
+      onClose();
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Error',
+        description: `Failed to create poll: ${error.message}`,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const isValid = title.trim() !== "" &&
+    Number(totalSlots) > 0 &&
+    options.every(option => option.startTime && option.endTime && (option.venueId || option.location.trim()));
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-lg font-heading font-medium text-gray-900 dark:text-gray-100">New Availability Poll</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="poll-title">Title</Label>
+            <Input
+              id="poll-title"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              className="mt-1"
+              placeholder="e.g. Next week's match"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="poll-format">Format</Label>
+              <Select value={matchFormat} onValueChange={handleFormatChange}>
+                <SelectTrigger id="poll-format" className="w-full mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="5-a-side">5-a-side</SelectItem>
+                  <SelectItem value="7-a-side">7-a-side</SelectItem>
+                  <SelectItem value="11-a-side">11-a-side</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="poll-slots">Total Slots</Label>
+              <Input
+                id="poll-slots"
+                type="number"
+                min={1}
+                value={totalSlots}
+                onChange={(e) => setTotalSlots(e.target.value)}
+                className="mt-1"
+              />
+            </div>
+          </div>
+
+          <div>
+            <Label htmlFor="poll-closes">Stop taking answers (optional)</Label>
+            <Input
+              id="poll-closes"
+              type="datetime-local"
+              value={closesAt}
+              onChange={(e) => setClosesAt(e.target.value)}
+              className="mt-1"
+            />
+          </div>
+
+          <div className="space-y-3">
+            <Label>Options</Label>
+            {options.map((option, index) => (
+              <div key={index} className="border rounded-md p-3 space-y-2">
+                <div className="flex items-center justify-between">
+                  <p className="text-sm font-medium">Option {index + 1}</p>
+                  {options.length > 2 && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setOptions(prev => prev.filter((_, i) => i !== index))}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <Input
+                    type="datetime-local"
+                    value={option.startTime}
+                    onChange={(e) => updateOption(index, { startTime: e.target.value })}
+                  />
+                  <Input
+                    type="datetime-local"
+                    value={option.endTime}
+                    onChange={(e) => updateOption(index, { endTime: e.target.value })}
+                  />
+                </div>
+                {venues.length > 0 && (
+                  <Select
+                    value={option.venueId ? String(option.venueId) : OTHER_LOCATION}
+                    onValueChange={(value) => {
+                      const venue = venues.find(v => String(v.id) === value);
+                      updateOption(index, { venueId: venue ? venue.id : null });
+                    }}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select venue" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {venues.map(venue => (
+                        <SelectItem key={venue.id} value={String(venue.id)}>{venue.name}</SelectItem>
+                      ))}
+                      <SelectItem value={OTHER_LOCATION}>Somewhere else</SelectItem>
+                    </SelectContent>
+                  </Select>
+                )}
+                {!option.venueId && (
+                  <Input
+                    value={option.location}
+                    onChange={(e) => updateOption(index, { location: e.target.value })}
+                    placeholder="e.g. Central Park Field #3"
+                  />
+                )}
+              </div>
+            ))}
+            {options.length < MAX_OPTIONS && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setOptions(prev => [...prev, defaultOption(prev.length)])}
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add option
+              </Button>
+            )}
+          </div>
+
+          <div className="flex justify-end gap-2 pt-2">
+            <Button variant="outline" onClick={onClose}>Cancel</Button>
+            <Button
+              onClick={() => createMutation.mutate()}
+              disabled={!isValid || createMutation.isPending}
+            >
+              Send Poll
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,169 @@
+import { useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/components/auth/auth-provider';
+import { Booking, PairConstraint, User } from '@shared/schema';
+import { Link2, Link2Off, Plus, X } from 'lucide-react';
+
+interface PairConstraintsProps {
+  booking: Booking;
+  players: Pick<User, 'id' | 'name'>[];
+}
+
+export function PairConstraints({ booking, players }: PairConstraintsProps) {
+  const { toast } = useToast();
+  const { isAdmin } = useAuth();
+  const [playerAId, setPlayerAId] = useState<string>('');
+  const [playerBId, setPlayerBId] = useState<string>('');
+  const [type, setType] = useState<string>('together');
+  const [scope, setScope] = useState<string>('booking');
+
+  const constraintsQueryKey = [`/api/bookings/${booking.id}/pair-constraints`];
+
+  const { data: constraints } = useQuery<{ team: PairConstraint[], booking: PairConstraint[] }>({
+    queryKey: constraintsQueryKey,
+  });
+
+  const nameOf = (playerId: number) =>
+    players.find(p => p.id === playerId)?.name || `Player ${playerId}`;
+
+  const addMutation = useMutation({
+    mutationFn: async () => {
+      const url = scope === 'team'
+        ? `/api/teams/${booking.teamId}/pair-constraints`
+        : `/api/bookings/${booking.id}/pair-constraints`;
+      return apiRequest('POST', url, {
+        playerAId: Number(playerAId),
+        playerBId: Number(playerBId),
+        type,
+      });
+    },
+    onSuccess: () => {
+      setPlayerAId('');
+      setPlayerBId('');
+      queryClient.invalidateQueries({ queryKey: constraintsQueryKey });
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Error',
+        description: `Failed to add constraint: ${error.message}`,
+        variant: 'destructive',
+      });
+    }
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (constraint: PairConstraint) => {
+      const url = constraint.bookingId === null
+        ? `/api/teams/${booking.teamId}/pair-constraints/${constraint.id}`
+        : `/api/bookings/${booking.id}/pair-constraints/${constraint.id}`;
+      return apiRequest('DELETE', url);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: constraintsQueryKey });
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Error',
+        description: `Failed to remove constraint: ${error.message}`,
+        variant: 'destructive',
+      });
+    }
+  });
+
+  const allConstraints = [...(constraints?.team || []), ...(constraints?.booking || [])];
+
+  const PlayerSelect = ({ value, onChange, placeholder }: { value: string, onChange: (value: string) => void, placeholder: string }) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="h-8">
+        <SelectValue placeholder={placeholder} />
+      </SelectTrigger>
+      <SelectContent>
+        {players.map(player => (
+          <SelectItem key={player.id} value={String(player.id)}>{player.name}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <h4 className="text-sm font-semibold">Pairings</h4>
+        <p className="text-xs text-muted-foreground">
+          Players to keep on the same team or split up when teams are generated
+        </p>
+      </div>
+
+      {allConstraints.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No pairings set</p>
+      ) : (
+        <div className="space-y-1">
+          {allConstraints.map(constraint => (
+            <div key={constraint.id} className="flex items-center justify-between text-sm rounded-md bg-muted/50 px-2 py-1">
+              <div className="flex items-center">
+                {constraint.type === 'together' ? (
+                  <Link2 className="h-4 w-4 mr-2 text-green-600" />
+                ) : (
+                  <Link2Off className="h-4 w-4 mr-2 text-red-600" />
+                )}
+                <span>
+                  {nameOf(constraint.playerAId)} {constraint.type === 'together' ? 'with' : 'apart from'} {nameOf(constraint.playerBId)}
+                </span>
+                <Badge variant="outline" className="ml-2">
+                  {constraint.bookingId === null ? 'Every match' : 'This match'}
+                </Badge>
+              </div>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                onClick={() => removeMutation.mutate(constraint)}
+                disabled={removeMutation.isPending || (constraint.bookingId === null && !isAdmin)}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-2">
+        <PlayerSelect value={playerAId} onChange={setPlayerAId} placeholder="First player" />
+        <PlayerSelect value={playerBId} onChange={setPlayerBId} placeholder="Second player" />
+        <Select value={type} onValueChange={setType}>
+          <SelectTrigger className="h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="together">Keep together</SelectItem>
+            <SelectItem value="apart">Keep apart</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select value={scope} onValueChange={setScope}>
+          <SelectTrigger className="h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="booking">This match only</SelectItem>
+            {isAdmin && <SelectItem value="team">Every match</SelectItem>}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => addMutation.mutate()}
+        disabled={!playerAId || !playerBId || playerAId === playerBId || addMutation.isPending}
+      >
+        <Plus className="h-4 w-4 mr-1" />
+        Add Pairing
+      </Button>
+    </div>
+  );
+}
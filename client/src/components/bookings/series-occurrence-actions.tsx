@@ -0,0 +1,201 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest } from "@/lib/queryClient";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { Booking } from "@shared/schema";
+
+type EditScope = "this" | "following";
+
+interface SeriesOccurrenceActionsProps {
+  booking: Booking;
+  onClose: () => void;
+}
+
+// Admin controls for a session that belongs to a recurring series
+export function SeriesOccurrenceActions({ booking, onClose }: SeriesOccurrenceActionsProps) {
+  const { toast } = useToast();
+  const [isEditing, setIsEditing] = useState(false);
+  const [scope, setScope] = useState<EditScope>("this");
+  const [title, setTitle] = useState(booking.title);
+  const [startTime, setStartTime] = useState(format(new Date(booking.startTime), "yyyy-MM-dd'T'HH:mm"));
+  const [endTime, setEndTime] = useState(format(new Date(booking.endTime), "yyyy-MM-dd'T'HH:mm"));
+  const [totalSlots, setTotalSlots] = useState(String(booking.totalSlots));
+
+  const invalidateBookings = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/bookings"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/booking-series"] });
+  };
+
+  const showError = (action: string) => (error: any) => {
+    toast({
+      title: 'Error',
+      description: `Failed to ${action}: ${error.message}`,
+      variant: 'destructive',
+    });
+  };
+
+  const updateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('PUT', `/api/bookings/${booking.id}`, {
+        scope,
+        title,
+        startTime: new Date(startTime).toISOString(),
+        endTime: new Date(endTime).toISOString(),
+        totalSlots: Number(totalSlots),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Session Updated',
+        description: scope === "following"
+          ? 'This and all following sessions have been updated'
+          : 'Only this session has been changed',
+      });
+      invalidateBookings();
+      onClose();
+    },
+    onError: showError("update session"),
+  });
+
+  const skipMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest('DELETE', `/api/bookings/${booking.id}`);
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Session Skipped',
+        description: 'Anyone booked on it has been refunded',
+      });
+      invalidateBookings();
+      onClose();
+    },
+    onError: showError("skip session"),
+  });
+
+  const stopMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('DELETE', `/api/booking-series/${booking.seriesId}`);
+      return response.json();
+    },
+    onSuccess: (data) => {
+      toast({
+        title: 'Series Stopped',
+        description: `${data.removedCount} upcoming session(s) removed`,
+      });
+      invalidateBookings();
+      onClose();
+    },
+    onError: showError("stop series"),
+  });
+
+  const isBusy = updateMutation.isPending || skipMutation.isPending || stopMutation.isPending;
+  const isValid = title.trim() !== "" && Number(totalSlots) >= 2 && startTime && endTime && endTime > startTime;
+
+  if (!isEditing) {
+    return (
+      <div className="flex flex-wrap gap-2">
+        <Button variant="outline" size="sm" onClick={() => setIsEditing(true)} disabled={isBusy}>
+          Edit
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={isBusy}
+          onClick={() => {
+            if (confirm("Skip this session? It won't be booked again, and anyone on it is refunded.")) {
+              skipMutation.mutate();
+            }
+          }}
+        >
+          Skip this session
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={isBusy}
+          onClick={() => {
+            if (confirm("Stop repeating this session? All upcoming sessions in the series are removed.")) {
+              stopMutation.mutate();
+            }
+          }}
+        >
+          Stop series
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <Label htmlFor="occurrence-title">Title</Label>
+        <Input
+          id="occurrence-title"
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          className="mt-1"
+        />
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <Label htmlFor="occurrence-start">Start Time</Label>
+          <Input
+            id="occurrence-start"
+            type="datetime-local"
+            value={startTime}
+            onChange={(e) => setStartTime(e.target.value)}
+            className="mt-1"
+          />
+        </div>
+        <div>
+          <Label htmlFor="occurrence-end">End Time</Label>
+          <Input
+            id="occurrence-end"
+            type="datetime-local"
+            value={endTime}
+            onChange={(e) => setEndTime(e.target.value)}
+            className="mt-1"
+          />
+        </div>
+      </div>
+      <div>
+        <Label htmlFor="occurrence-slots">Total Slots</Label>
+        <Input
+          id="occurrence-slots"
+          type="number"
+          min={2}
+          value={totalSlots}
+          onChange={(e) => setTotalSlots(e.target.value)}
+          className="mt-1"
+        />
+      </div>
+      <div>
+        <Label htmlFor="occurrence-scope">Apply to</Label>
+        <Select value={scope} onValueChange={(value) => setScope(value as EditScope)}>
+          <SelectTrigger id="occurrence-scope" className="w-full mt-1">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="this">Only this session</SelectItem>
+            <SelectItem value="following">This and all following sessions</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" size="sm" onClick={() => setIsEditing(false)} disabled={isBusy}>
+          Cancel
+        </Button>
+        <Button size="sm" onClick={() => updateMutation.mutate()} disabled={!isValid || isBusy}>
+          Save
+        </Button>
+      </div>
+    </div>
+  );
+}
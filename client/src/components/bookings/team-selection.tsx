@@ -1,14 +1,25 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
+import { useQuery } from '@tanstack/react-query';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
-import { apiRequest } from '@/lib/queryClient';
+import { apiRequest, queryClient } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
-import { Booking, User } from '@shared/schema';
-import { Loader2, User as UserIcon, RefreshCw, MessageCircle, Share } from 'lucide-react';
+import { Booking, MatchLineupEntry, User } from '@shared/schema';
+import { PairConstraints } from './pair-constraints';
+import { Loader2, User as UserIcon, RefreshCw, MessageCircle, Share, Crown, Lock, Save } from 'lucide-react';
+
+type LineupPlayer = MatchLineupEntry & { playerName: string };
+
+interface MatchLineup {
+  bookingId: number;
+  locked: boolean;
+  teamA: LineupPlayer[];
+  teamB: LineupPlayer[];
+}
 
 interface TeamSelectionProps {
   booking: Booking;
@@ -19,21 +30,49 @@ interface TeamSelectionProps {
 export function TeamSelection({ booking, playersRegistered, onTeamsGenerated }: TeamSelectionProps) {
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [isNotifying, setIsNotifying] = useState<boolean>(false);
-  const [teamA, setTeamA] = useState<User[]>([]);
-  const [teamB, setTeamB] = useState<User[]>([]);
+  const [isSaving, setIsSaving] = useState<boolean>(false);
+  const [teamA, setTeamA] = useState<LineupPlayer[]>([]);
+  const [teamB, setTeamB] = useState<LineupPlayer[]>([]);
+  const [hasChanges, setHasChanges] = useState<boolean>(false);
+  const [relaxedConstraints, setRelaxedConstraints] = useState<string[]>([]);
+  const [unsatisfiedConstraints, setUnsatisfiedConstraints] = useState<string[]>([]);
   const [activeTab, setActiveTab] = useState('balanced');
   const { toast } = useToast();
 
-  const generateTeams = async () => {
+  const lineupQueryKey = [`/api/bookings/${booking.id}/lineup`];
+
+  // Load the saved line-up so generated teams survive a refresh
+  const { data: lineup } = useQuery<MatchLineup>({
+    queryKey: lineupQueryKey,
+  });
+
+  const isLocked = lineup?.locked || false;
+
+  useEffect(() => {
+    if (lineup) {
+      setTeamA(lineup.teamA);
+      setTeamB(lineup.teamB);
+      setHasChanges(false);
+    }
+  }, [lineup]);
+
+  const generateTeams = async (mode: 'balanced' | 'position' = 'balanced') => {
     try {
       setIsLoading(true);
       
-      const response = await apiRequest('POST', `/api/bookings/${booking.id}/generate-teams`);
+      const response = await apiRequest('POST', `/api/bookings/${booking.id}/generate-teams`, { mode });
       const data = await response.json();
       
+      setRelaxedConstraints(data.relaxedConstraints || []);
+      setUnsatisfiedConstraints(data.unsatisfiedConstraints || []);
+      
       if (data.success) {
-        setTeamA(data.teamA);
-        setTeamB(data.teamB);
+        if (data.lineup) {
+          setTeamA(data.lineup.teamA);
+          setTeamB(data.lineup.teamB);
+          setHasChanges(false);
+          queryClient.setQueryData(lineupQueryKey, data.lineup);
+        }
         
         if (onTeamsGenerated) {
           onTeamsGenerated(data.teamA, data.teamB);
@@ -50,11 +89,11 @@ export function TeamSelection({ booking, playersRegistered, onTeamsGenerated }:
           variant: 'destructive',
         });
       }
-    } catch (error) {
+    } catch (error: any) {
       console.error('Error generating teams:', error);
       toast({
         title: 'Error',
-        description: 'Failed to generate teams. Please try again.',
+        description: error.message || 'Failed to generate teams. Please try again.',
         variant: 'destructive',
       });
     } finally {
@@ -93,10 +132,64 @@ export function TeamSelection({ booking, playersRegistered, onTeamsGenerated }:
     }
   };
 
+  // Move a player to the other side when they're dropped on it
+  const movePlayer = (playerId: number, side: 'A' | 'B') => {
+    const player = [...teamA, ...teamB].find(p => p.playerId === playerId);
+    if (!player || player.side === side) return;
+
+    const moved = { ...player, side, isCaptain: false, bibColour: (side === 'A' ? teamA : teamB)[0]?.bibColour || null };
+    if (side === 'A') {
+      setTeamB(prev => prev.filter(p => p.playerId !== playerId));
+      setTeamA(prev => [...prev, moved]);
+    } else {
+      setTeamA(prev => prev.filter(p => p.playerId !== playerId));
+      setTeamB(prev => [...prev, moved]);
+    }
+    setHasChanges(true);
+  };
+
+  const setCaptain = (playerId: number, side: 'A' | 'B') => {
+    const setTeam = side === 'A' ? setTeamA : setTeamB;
+    setTeam(prev => prev.map(p => ({ ...p, isCaptain: p.playerId === playerId })));
+    setHasChanges(true);
+  };
+
+  const saveLineup = async () => {
+    try {
+      setIsSaving(true);
+      
+      const players = [...teamA, ...teamB].map(p => ({
+        playerId: p.playerId,
+        side: p.side,
+        position: p.position,
+        bibColour: p.bibColour,
+        isCaptain: p.isCaptain
+      }));
+      
+      const response = await apiRequest('PUT', `/api/bookings/${booking.id}/lineup`, { players });
+      const saved = await response.json();
+      
+      queryClient.setQueryData(lineupQueryKey, saved);
+      setHasChanges(false);
+      
+      toast({
+        title: 'Line-up Saved',
+        description: 'Your changes to the teams have been saved',
+      });
+    } catch (error: any) {
+      console.error('Error saving line-up:', error);
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to save the line-up. Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
   const generatePositionBasedTeams = () => {
-    // In a real implementation, this would call a different API endpoint
-    // For now, we'll use the same balanced teams generation
-    generateTeams();
+    generateTeams('position');
   };
 
   const getInitials = (name: string) => {
@@ -107,23 +200,50 @@ export function TeamSelection({ booking, playersRegistered, onTeamsGenerated }:
       .toUpperCase();
   };
 
-  const TeamList = ({ players, team }: { players: User[], team: string }) => {
-    if (players.length === 0) {
-      return <div className="py-4 text-center text-gray-500">No players selected</div>;
-    }
-
+  const TeamList = ({ players, team }: { players: LineupPlayer[], team: 'A' | 'B' }) => {
     return (
-      <div className="space-y-2">
-        {players.map(player => (
-          <div key={player.id} className="flex items-center p-2 rounded-md bg-muted/50">
+      <div
+        className="space-y-2 min-h-[3rem] rounded-md"
+        onDragOver={(e) => {
+          if (!isLocked) e.preventDefault();
+        }}
+        onDrop={(e) => {
+          e.preventDefault();
+          movePlayer(Number(e.dataTransfer.getData('text/plain')), team);
+        }}
+      >
+        {players.length === 0 ? (
+          <div className="py-4 text-center text-gray-500">No players selected</div>
+        ) : players.map(player => (
+          <div
+            key={player.playerId}
+            className={`flex items-center p-2 rounded-md bg-muted/50 ${isLocked ? '' : 'cursor-move'}`}
+            draggable={!isLocked}
+            onDragStart={(e) => e.dataTransfer.setData('text/plain', String(player.playerId))}
+          >
             <Avatar className="h-8 w-8 mr-2">
-              <AvatarFallback>{getInitials(player.name)}</AvatarFallback>
+              <AvatarFallback>{getInitials(player.playerName)}</AvatarFallback>
             </Avatar>
             <div className="flex flex-1 items-center justify-between">
-              <span className="text-sm font-medium">{player.name}</span>
-              <Badge variant="outline" className="ml-2">
-                {team}
-              </Badge>
+              <span className="text-sm font-medium">{player.playerName}</span>
+              <div className="flex items-center space-x-1">
+                {player.position && (
+                  <Badge variant="secondary">{player.position}</Badge>
+                )}
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6"
+                  title={player.isCaptain ? 'Captain' : 'Make captain'}
+                  onClick={() => setCaptain(player.playerId, team)}
+                  disabled={isLocked}
+                >
+                  <Crown className={`h-4 w-4 ${player.isCaptain ? 'text-yellow-500' : 'text-gray-300'}`} />
+                </Button>
+                <Badge variant="outline" className="ml-2">
+                  {player.bibColour || team}
+                </Badge>
+              </div>
             </div>
           </div>
         ))}
@@ -144,7 +264,15 @@ export function TeamSelection({ booking, playersRegistered, onTeamsGenerated }:
   return (
     <Card className="w-full">
       <CardHeader>
-        <CardTitle>Team Selection</CardTitle>
+        <CardTitle className="flex items-center justify-between">
+          Team Selection
+          {isLocked && (
+            <Badge variant="secondary">
+              <Lock className="h-3 w-3 mr-1" />
+              Locked
+            </Badge>
+          )}
+        </CardTitle>
         <CardDescription>
           Automatically generate balanced teams for {booking.format}
         </CardDescription>
@@ -163,7 +291,8 @@ export function TeamSelection({ booking, playersRegistered, onTeamsGenerated }:
               
               <TabsContent value="balanced" className="mt-4">
                 <p className="text-sm text-muted-foreground mb-4">
-                  Generate balanced teams based on player statistics and previous performance.
+                  Generate balanced teams based on player ratings.
+                  {!isLocked && ' Drag players between teams to adjust them.'}
                 </p>
                 
                 {teamA.length > 0 && teamB.length > 0 ? (
@@ -188,9 +317,20 @@ export function TeamSelection({ booking, playersRegistered, onTeamsGenerated }:
               
               <TabsContent value="position" className="mt-4">
                 <p className="text-sm text-muted-foreground mb-4">
-                  Generate teams based on player positions and preferred roles.
+                  Generate teams that each fill the {booking.format} formation, using players' preferred and secondary positions.
                 </p>
                 
+                {relaxedConstraints.length > 0 && (
+                  <div className="mb-4 rounded-md border border-yellow-200 bg-yellow-50 p-3 text-sm text-yellow-800 dark:border-yellow-900 dark:bg-yellow-950 dark:text-yellow-200">
+                    <p className="font-medium mb-1">Some positions couldn't be filled as preferred:</p>
+                    <ul className="list-disc pl-5 space-y-1">
+                      {relaxedConstraints.map((constraint, index) => (
+                        <li key={index}>{constraint}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+                
                 {teamA.length > 0 && teamB.length > 0 ? (
                   <div className="grid grid-cols-2 gap-4 mt-4">
                     <div>
@@ -211,6 +351,24 @@ export function TeamSelection({ booking, playersRegistered, onTeamsGenerated }:
                 )}
               </TabsContent>
             </Tabs>
+            
+            {unsatisfiedConstraints.length > 0 && (
+              <div className="mt-4 rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-800 dark:border-red-900 dark:bg-red-950 dark:text-red-200">
+                <p className="font-medium mb-1">Some pairings couldn't be kept:</p>
+                <ul className="list-disc pl-5 space-y-1">
+                  {unsatisfiedConstraints.map((constraint, index) => (
+                    <li key={index}>{constraint}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            
+            {!isLocked && (
+              <>
+                <Separator className="my-4" />
+                <PairConstraints booking={booking} players={playersRegistered} />
+              </>
+            )}
           </>
         )}
       </CardContent>
@@ -220,17 +378,33 @@ export function TeamSelection({ booking, playersRegistered, onTeamsGenerated }:
           <Button
             variant="default"
             className="flex-1"
-            onClick={activeTab === 'balanced' ? generateTeams : generatePositionBasedTeams}
-            disabled={isLoading || playersRegistered.length < 2}
+            onClick={activeTab === 'balanced' ? () => generateTeams() : generatePositionBasedTeams}
+            disabled={isLoading || isLocked || playersRegistered.length < 2}
           >
             {isLoading ? (
               <Loader2 className="mr-2 h-4 w-4 animate-spin" />
             ) : (
               <RefreshCw className="mr-2 h-4 w-4" />
             )}
-            Generate Teams
+            {teamA.length > 0 ? 'Regenerate Teams' : 'Generate Teams'}
           </Button>
           
+          {hasChanges && (
+            <Button
+              variant="secondary"
+              className="flex-1"
+              onClick={saveLineup}
+              disabled={isSaving || isLocked}
+            >
+              {isSaving ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Save className="mr-2 h-4 w-4" />
+              )}
+              Save Changes
+            </Button>
+          )}
+          
           <Button
             variant="outline"
             className="flex-1"
@@ -250,7 +424,7 @@ export function TeamSelection({ booking, playersRegistered, onTeamsGenerated }:
           <div className="w-full">
             <Separator className="my-2" />
             <div className="flex items-center justify-between text-sm text-muted-foreground">
-              <span>Created at {new Date().toLocaleTimeString()}</span>
+              <span>Created at {new Date(teamA[0].createdAt).toLocaleTimeString()}</span>
               <Button variant="ghost" size="sm" className="h-8">
                 <Share className="h-4 w-4 mr-1" />
                 Share
@@ -7,22 +7,46 @@ import { useToast } from "@/hooks/use-toast";
 import { Card, CardContent } from "@/components/ui/card";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { FcGoogle } from "react-icons/fc";
-import { SiApple } from "react-icons/si";
+import { FaCalendarAlt, FaMicrosoft } from "react-icons/fa";
 
 interface CalendarIntegrationProps {
   userId: number;
 }
 
+interface ProviderStatus {
+  connected: boolean;
+  isActive?: boolean;
+  lastSynced?: string | null;
+  calendarUrl?: string | null;
+  available?: boolean;
+}
+
+// Providers players connect by signing in
+const OAUTH_PROVIDERS = [
+  { id: "google", name: "Google Calendar", icon: <FcGoogle className="w-8 h-8" /> },
+  { id: "microsoft", name: "Outlook / Microsoft 365", icon: <FaMicrosoft className="w-7 h-7 text-sky-600" /> },
+];
+
+interface CalendarFeedInfo {
+  scope: string;
+  url: string;
+  webcalUrl: string;
+  lastAccessedAt: string | null;
+  rotatedAt: string | null;
+}
+
 export function CalendarIntegration({ userId }: CalendarIntegrationProps) {
   const { toast } = useToast();
-  const [isLoading, setIsLoading] = useState(false);
-  const [isSyncing, setIsSyncing] = useState(false);
+  const [connectingProvider, setConnectingProvider] = useState<string | null>(null);
+  const [syncingProvider, setSyncingProvider] = useState<string | null>(null);
+  const [caldav, setCaldav] = useState({ serverUrl: "", username: "", password: "" });
 
   // Fetch current calendar integrations
-  const { data: integrations, isLoading: isLoadingIntegrations, refetch } = useQuery({
+  const { data: integrations, isLoading: isLoadingIntegrations, refetch } = useQuery<Record<string, ProviderStatus>>({
     queryKey: ['/api/calendar/integrations'],
-    queryFn: undefined,
     refetchOnWindowFocus: false,
   });
 
@@ -68,11 +92,94 @@ export function CalendarIntegration({ userId }: CalendarIntegrationProps) {
     }
   });
 
+  // Mutation to connect a CalDAV calendar
+  const caldavMutation = useMutation({
+    mutationFn: async (connection: typeof caldav) => {
+      const response = await apiRequest('POST', '/api/calendar/integrations/caldav', connection);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Success',
+        description: 'CalDAV calendar connected',
+      });
+      setCaldav({ serverUrl: "", username: "", password: "" });
+      queryClient.invalidateQueries({ queryKey: ['/api/calendar/integrations'] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Error',
+        description: `Failed to connect CalDAV calendar: ${error.message}`,
+        variant: 'destructive',
+      });
+    }
+  });
+
+  // Subscription feed for calendar apps
+  const { data: feed } = useQuery<CalendarFeedInfo>({
+    queryKey: ['/api/calendar/feed'],
+  });
+
+  const feedScopeMutation = useMutation({
+    mutationFn: async (scope: string) => {
+      const response = await apiRequest('PUT', '/api/calendar/feed', { scope });
+      return response.json();
+    },
+    onSuccess: (data: CalendarFeedInfo) => {
+      queryClient.setQueryData(['/api/calendar/feed'], data);
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Error',
+        description: `Failed to update calendar feed: ${error.message}`,
+        variant: 'destructive',
+      });
+    }
+  });
+
+  const rotateFeedMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/calendar/feed/rotate');
+      return response.json();
+    },
+    onSuccess: (data: CalendarFeedInfo) => {
+      toast({
+        title: 'Success',
+        description: 'Calendar link reset. Subscribe again with the new link.',
+      });
+      queryClient.setQueryData(['/api/calendar/feed'], data);
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Error',
+        description: `Failed to reset calendar link: ${error.message}`,
+        variant: 'destructive',
+      });
+    }
+  });
+
+  const handleCopyFeedUrl = async () => {
+    if (!feed) return;
+    try {
+      await navigator.clipboard.writeText(feed.url);
+      toast({
+        title: 'Copied',
+        description: 'Calendar link copied to clipboard',
+      });
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: 'Could not copy the link. Select it and copy it instead.',
+        variant: 'destructive',
+      });
+    }
+  };
+
   // Function to handle manual sync
   const handleSync = async (provider: string) => {
     try {
-      setIsSyncing(true);
-      const response = await apiRequest('POST', `/api/calendar/sync/${provider}`);
+      setSyncingProvider(provider);
+      const response = await apiRequest('POST', '/api/calendar/sync', { provider });
       const data = await response.json();
       
       toast({
@@ -88,33 +195,75 @@ export function CalendarIntegration({ userId }: CalendarIntegrationProps) {
         variant: 'destructive',
       });
     } finally {
-      setIsSyncing(false);
+      setSyncingProvider(null);
     }
   };
 
-  // Function to handle Google auth
-  const handleGoogleAuth = async () => {
+  // Function to send the user to the provider to sign in
+  const handleOAuthConnect = async (provider: string, name: string) => {
     try {
-      setIsLoading(true);
-      const response = await apiRequest('GET', '/api/calendar/auth/google');
+      setConnectingProvider(provider);
+      const response = await apiRequest('GET', `/api/calendar/auth/${provider}`);
       const data = await response.json();
       window.location.href = data.authUrl;
     } catch (error: any) {
       toast({
         title: 'Error',
-        description: `Failed to connect to Google Calendar: ${error.message}`,
+        description: `Failed to connect to ${name}: ${error.message}`,
         variant: 'destructive',
       });
-      setIsLoading(false);
+      setConnectingProvider(null);
     }
   };
 
   // Function to format last synced date
-  const formatLastSynced = (date: string | null) => {
+  const formatLastSynced = (date: string | null | undefined) => {
     if (!date) return 'Never';
     return new Date(date).toLocaleString();
   };
 
+  const describeStatus = (status: ProviderStatus | undefined) => {
+    if (!status?.connected) return "Not connected";
+    return status.isActive ? "Connected and active" : "Connected but inactive";
+  };
+
+  // Controls for a connected calendar, whichever provider it's with
+  const renderConnectedActions = (provider: string, name: string, status: ProviderStatus) => (
+    <>
+      <div className="flex items-center space-x-2">
+        <Switch 
+          id={`${provider}-active`}
+          checked={!!status.isActive}
+          onCheckedChange={(checked) => 
+            toggleActiveMutation.mutate({ provider, isActive: checked })
+          }
+        />
+        <Label htmlFor={`${provider}-active`} className="text-sm">Active</Label>
+      </div>
+      
+      <Button 
+        variant="outline"
+        size="sm"
+        onClick={() => handleSync(provider)}
+        disabled={syncingProvider !== null || !status.isActive}
+      >
+        {syncingProvider === provider ? "Syncing..." : "Sync Now"}
+      </Button>
+      
+      <Button 
+        variant="ghost"
+        size="sm"
+        onClick={() => {
+          if (confirm(`Are you sure you want to disconnect ${name}?`)) {
+            deleteMutation.mutate(provider);
+          }
+        }}
+      >
+        Disconnect
+      </Button>
+    </>
+  );
+
   return (
     <div className="space-y-6">
       <div>
@@ -123,100 +272,180 @@ export function CalendarIntegration({ userId }: CalendarIntegrationProps) {
       </div>
 
       <div className="space-y-4">
-        {/* Google Calendar */}
+        {OAUTH_PROVIDERS.map(({ id, name, icon }) => {
+          const status = integrations?.[id];
+          return (
+            <Card key={id}>
+              <CardContent className="pt-6">
+                <div className="flex items-start justify-between">
+                  <div className="flex items-center space-x-3">
+                    {icon}
+                    <div>
+                      <h4 className="font-medium">{name}</h4>
+                      <p className="text-sm text-gray-500">{describeStatus(status)}</p>
+                      {status?.connected && (
+                        <p className="text-xs text-gray-500 mt-1">
+                          Last synced: {formatLastSynced(status.lastSynced)}
+                        </p>
+                      )}
+                    </div>
+                  </div>
+                  
+                  <div className="flex items-center space-x-3">
+                    {status?.connected ? (
+                      renderConnectedActions(id, name, status)
+                    ) : (
+                      <Button 
+                        variant="outline"
+                        onClick={() => handleOAuthConnect(id, name)}
+                        disabled={connectingProvider !== null || status?.available === false}
+                      >
+                        {connectingProvider === id ? "Connecting..." : "Connect"}
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          );
+        })}
+        
+        {/* CalDAV (iCloud, Fastmail, Nextcloud...) */}
         <Card>
-          <CardContent className="pt-6">
+          <CardContent className="pt-6 space-y-4">
             <div className="flex items-start justify-between">
               <div className="flex items-center space-x-3">
-                <FcGoogle className="w-8 h-8" />
+                <FaCalendarAlt className="w-7 h-7 text-gray-600 dark:text-gray-300" />
                 <div>
-                  <h4 className="font-medium">Google Calendar</h4>
-                  <p className="text-sm text-gray-500">
-                    {integrations?.google ? (
-                      integrations.google.isActive ? "Connected and active" : "Connected but inactive"
-                    ) : "Not connected"}
-                  </p>
-                  {integrations?.google && (
-                    <p className="text-xs text-gray-500 mt-1">
-                      Last synced: {formatLastSynced(integrations.google.lastSyncedAt)}
+                  <h4 className="font-medium">Apple iCloud, Fastmail, Nextcloud (CalDAV)</h4>
+                  <p className="text-sm text-gray-500">{describeStatus(integrations?.caldav)}</p>
+                  {integrations?.caldav?.connected && (
+                    <p className="text-xs text-gray-500 mt-1 break-all">
+                      {integrations.caldav.calendarUrl} · Last synced: {formatLastSynced(integrations.caldav.lastSynced)}
                     </p>
                   )}
                 </div>
               </div>
               
-              <div className="flex items-center space-x-3">
-                {integrations?.google ? (
-                  <>
-                    <div className="flex items-center space-x-2">
-                      <Switch 
-                        id="google-active"
-                        checked={integrations.google.isActive}
-                        onCheckedChange={(checked) => 
-                          toggleActiveMutation.mutate({ provider: 'google', isActive: checked })
-                        }
-                      />
-                      <Label htmlFor="google-active" className="text-sm">Active</Label>
-                    </div>
-                    
-                    <Button 
-                      variant="outline"
-                      size="sm"
-                      onClick={() => handleSync('google')}
-                      disabled={isSyncing || !integrations.google.isActive}
-                    >
-                      {isSyncing ? "Syncing..." : "Sync Now"}
-                    </Button>
-                    
-                    <Button 
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => {
-                        if (confirm("Are you sure you want to disconnect Google Calendar?")) {
-                          deleteMutation.mutate('google');
-                        }
-                      }}
-                    >
-                      Disconnect
-                    </Button>
-                  </>
-                ) : (
-                  <Button 
+              {integrations?.caldav?.connected && (
+                <div className="flex items-center space-x-3">
+                  {renderConnectedActions("caldav", "your CalDAV calendar", integrations.caldav)}
+                </div>
+              )}
+            </div>
+            
+            {!integrations?.caldav?.connected && (
+              <form
+                className="grid gap-3 sm:grid-cols-3"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  caldavMutation.mutate(caldav);
+                }}
+              >
+                <div className="space-y-1 sm:col-span-3">
+                  <Label htmlFor="caldavServerUrl">Server address</Label>
+                  <Input
+                    id="caldavServerUrl"
+                    placeholder="https://caldav.icloud.com"
+                    value={caldav.serverUrl}
+                    onChange={(e) => setCaldav({ ...caldav, serverUrl: e.target.value })}
+                  />
+                  <p className="text-xs text-gray-500">
+                    iCloud: https://caldav.icloud.com · Fastmail: https://caldav.fastmail.com · Nextcloud: https://your-server/remote.php/dav
+                  </p>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="caldavUsername">Username</Label>
+                  <Input
+                    id="caldavUsername"
+                    autoComplete="off"
+                    value={caldav.username}
+                    onChange={(e) => setCaldav({ ...caldav, username: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="caldavPassword">App password</Label>
+                  <Input
+                    id="caldavPassword"
+                    type="password"
+                    autoComplete="new-password"
+                    value={caldav.password}
+                    onChange={(e) => setCaldav({ ...caldav, password: e.target.value })}
+                  />
+                </div>
+                <div className="flex items-end">
+                  <Button
+                    type="submit"
                     variant="outline"
-                    onClick={handleGoogleAuth}
-                    disabled={isLoading}
+                    disabled={caldavMutation.isPending || !caldav.serverUrl || !caldav.username || !caldav.password}
                   >
-                    {isLoading ? "Connecting..." : "Connect"}
+                    {caldavMutation.isPending ? "Connecting..." : "Connect"}
                   </Button>
-                )}
-              </div>
-            </div>
+                </div>
+              </form>
+            )}
           </CardContent>
         </Card>
-        
-        {/* Apple Calendar */}
+
+        {/* Subscription feed */}
         <Card>
-          <CardContent className="pt-6">
-            <div className="flex items-start justify-between">
-              <div className="flex items-center space-x-3">
-                <SiApple className="w-7 h-7" />
-                <div>
-                  <h4 className="font-medium">Apple Calendar</h4>
-                  <p className="text-sm text-gray-500">
-                    Use iCal download from any event
+          <CardContent className="pt-6 space-y-4">
+            <div>
+              <h4 className="font-medium">Calendar Subscription</h4>
+              <p className="text-sm text-gray-500">
+                Subscribe from any calendar app. Changes to times, venues and cancellations show up the next time your calendar refreshes.
+              </p>
+            </div>
+
+            {feed ? (
+              <>
+                <div className="space-y-1">
+                  <Label htmlFor="calendarFeedScope">Include</Label>
+                  <Select
+                    value={feed.scope}
+                    onValueChange={(scope) => feedScopeMutation.mutate(scope)}
+                    disabled={feedScopeMutation.isPending}
+                  >
+                    <SelectTrigger id="calendarFeedScope" className="w-64">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="booked">Matches I'm booked on</SelectItem>
+                      <SelectItem value="team">Whole team schedule</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-1">
+                  <Label htmlFor="calendarFeedUrl">Calendar link</Label>
+                  <div className="flex gap-2">
+                    <Input id="calendarFeedUrl" value={feed.url} readOnly onFocus={(e) => e.target.select()} />
+                    <Button variant="outline" onClick={handleCopyFeedUrl}>Copy</Button>
+                    <Button variant="outline" asChild>
+                      <a href={feed.webcalUrl}>Subscribe</a>
+                    </Button>
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    Anyone with this link can see your matches. Last fetched: {formatLastSynced(feed.lastAccessedAt)}
                   </p>
                 </div>
-              </div>
-              
-              <Button 
-                variant="outline"
-                onClick={() => toast({
-                  title: "Info",
-                  description: "For Apple Calendar, simply download the iCal file from any event and open it with Apple Calendar."
-                })}
-              >
-                Learn How
-              </Button>
-            </div>
+
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => {
+                    if (confirm("Reset your calendar link? Calendars subscribed to the current link will stop updating.")) {
+                      rotateFeedMutation.mutate();
+                    }
+                  }}
+                  disabled={rotateFeedMutation.isPending}
+                >
+                  {rotateFeedMutation.isPending ? "Resetting..." : "Reset link"}
+                </Button>
+              </>
+            ) : (
+              <p className="text-sm text-gray-500">Loading calendar link...</p>
+            )}
           </CardContent>
         </Card>
       </div>
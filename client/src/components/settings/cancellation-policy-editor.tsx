@@ -0,0 +1,315 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Separator } from "@/components/ui/separator";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { apiRequest } from "@/lib/queryClient";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Plus, Trash2 } from "lucide-react";
+import type { CancellationPolicy, User } from "@shared/schema";
+
+interface CancellationPolicyEditorProps {
+  teamId: number;
+}
+
+interface CancellationPreviewRow {
+  bookingId: number;
+  title: string;
+  startTime: string;
+  creditCost: number;
+  hoursBeforeMatch: number;
+  allowed: boolean;
+  message: string;
+  refundPercent: number;
+  refundAmount: number;
+}
+
+export function CancellationPolicyEditor({ teamId }: CancellationPolicyEditorProps) {
+  const { toast } = useToast();
+  const [policy, setPolicy] = useState<CancellationPolicy | null>(null);
+  const [preview, setPreview] = useState<CancellationPreviewRow[] | null>(null);
+
+  const policyQueryKey = [`/api/teams/${teamId}/cancellation-policy`];
+
+  // Fetch the team's current policy
+  const { data: savedPolicy, isLoading } = useQuery<CancellationPolicy>({
+    queryKey: policyQueryKey,
+    refetchOnWindowFocus: false,
+  });
+
+  // Team members that can be exempted
+  const { data: members = [] } = useQuery<Omit<User, "password">[]>({
+    queryKey: [`/api/teams/${teamId}/members`],
+  });
+
+  useEffect(() => {
+    if (savedPolicy) {
+      setPolicy(savedPolicy);
+    }
+  }, [savedPolicy]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: CancellationPolicy) => {
+      const response = await apiRequest('PUT', `/api/teams/${teamId}/cancellation-policy`, data);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Success',
+        description: 'Cancellation policy saved successfully',
+      });
+      queryClient.invalidateQueries({ queryKey: policyQueryKey });
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Error',
+        description: `Failed to save cancellation policy: ${error.message}`,
+        variant: 'destructive',
+      });
+    }
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: async (data: CancellationPolicy) => {
+      const response = await apiRequest('POST', `/api/teams/${teamId}/cancellation-policy/preview`, data);
+      return response.json() as Promise<CancellationPreviewRow[]>;
+    },
+    onSuccess: (rows) => {
+      setPreview(rows);
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Error',
+        description: `Failed to preview cancellation policy: ${error.message}`,
+        variant: 'destructive',
+      });
+    }
+  });
+
+  if (isLoading || !policy) {
+    return <p className="text-sm text-gray-500">Loading cancellation policy...</p>;
+  }
+
+  const updatePolicy = (changes: Partial<CancellationPolicy>) => {
+    setPolicy(prev => prev ? { ...prev, ...changes } : prev);
+    setPreview(null);
+  };
+
+  const updateTier = (index: number, field: "hoursBefore" | "refundPercent", value: string) => {
+    const refundTiers = policy.refundTiers.map((tier, i) =>
+      i === index ? { ...tier, [field]: Number(value) || 0 } : tier
+    );
+    updatePolicy({ refundTiers });
+  };
+
+  const addTier = () => {
+    const lowestHours = Math.min(...policy.refundTiers.map(tier => tier.hoursBefore));
+    updatePolicy({
+      refundTiers: [...policy.refundTiers, { hoursBefore: Math.max(lowestHours - 1, 0), refundPercent: 0 }]
+    });
+  };
+
+  const removeTier = (index: number) => {
+    updatePolicy({ refundTiers: policy.refundTiers.filter((_, i) => i !== index) });
+  };
+
+  const toggleExempt = (playerId: number, checked: boolean) => {
+    const exemptPlayerIds = checked
+      ? [...policy.exemptPlayerIds, playerId]
+      : policy.exemptPlayerIds.filter(id => id !== playerId);
+    updatePolicy({ exemptPlayerIds });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100">Cancellation Policy</h3>
+        <p className="text-sm text-gray-500 dark:text-gray-400">Set how much players get back when they cancel and what missing a match costs</p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <Label htmlFor="maxCancellationsPerMonth">Cancellations allowed per month</Label>
+          <Input
+            id="maxCancellationsPerMonth"
+            type="number"
+            min={0}
+            value={policy.maxCancellationsPerMonth}
+            onChange={(e) => updatePolicy({ maxCancellationsPerMonth: Number(e.target.value) || 0 })}
+            className="mt-1"
+          />
+        </div>
+
+        <div>
+          <Label htmlFor="minHoursBeforeForCancellation">Latest cancellation (hours before kickoff)</Label>
+          <Input
+            id="minHoursBeforeForCancellation"
+            type="number"
+            min={0}
+            value={policy.minHoursBeforeForCancellation}
+            onChange={(e) => updatePolicy({ minHoursBeforeForCancellation: Number(e.target.value) || 0 })}
+            className="mt-1"
+          />
+        </div>
+
+        <div>
+          <Label htmlFor="noShowPenaltyCredits">No-show penalty (credits)</Label>
+          <Input
+            id="noShowPenaltyCredits"
+            type="number"
+            min={0}
+            value={policy.noShowPenaltyCredits}
+            onChange={(e) => updatePolicy({ noShowPenaltyCredits: Number(e.target.value) || 0 })}
+            className="mt-1"
+          />
+        </div>
+
+        <div className="flex items-center justify-between md:pt-6">
+          <Label htmlFor="allowTeamOwnerOverride">Allow team owner override</Label>
+          <Switch
+            id="allowTeamOwnerOverride"
+            checked={policy.allowTeamOwnerOverride}
+            onCheckedChange={(checked) => updatePolicy({ allowTeamOwnerOverride: checked })}
+          />
+        </div>
+      </div>
+
+      <Separator />
+
+      <div>
+        <h4 className="font-medium">Refund Schedule</h4>
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Cancelling at least this many hours before kickoff refunds this share of the booking cost. Later cancellations get nothing back.
+        </p>
+
+        <div className="mt-4 space-y-2">
+          {policy.refundTiers.map((tier, index) => (
+            <div key={index} className="flex items-end space-x-3">
+              <div className="flex-1">
+                <Label htmlFor={`tier-hours-${index}`}>Hours before kickoff</Label>
+                <Input
+                  id={`tier-hours-${index}`}
+                  type="number"
+                  min={0}
+                  value={tier.hoursBefore}
+                  onChange={(e) => updateTier(index, "hoursBefore", e.target.value)}
+                  className="mt-1"
+                />
+              </div>
+              <div className="flex-1">
+                <Label htmlFor={`tier-percent-${index}`}>Refund %</Label>
+                <Input
+                  id={`tier-percent-${index}`}
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={tier.refundPercent}
+                  onChange={(e) => updateTier(index, "refundPercent", e.target.value)}
+                  className="mt-1"
+                />
+              </div>
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => removeTier(index)}
+                disabled={policy.refundTiers.length <= 1}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        <Button variant="outline" size="sm" className="mt-3" onClick={addTier}>
+          <Plus className="h-4 w-4 mr-1" />
+          Add Tier
+        </Button>
+      </div>
+
+      <Separator />
+
+      <div>
+        <h4 className="font-medium">Exempt Players</h4>
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Exempt players can cancel at any time, aren't limited per month and always get a full refund
+        </p>
+
+        <div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-2">
+          {members.map(member => (
+            <div key={member.id} className="flex items-center space-x-2">
+              <Checkbox
+                id={`exempt-${member.id}`}
+                checked={policy.exemptPlayerIds.includes(member.id)}
+                onCheckedChange={(checked) => toggleExempt(member.id, checked === true)}
+              />
+              <Label htmlFor={`exempt-${member.id}`}>{member.name}</Label>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <Separator />
+
+      <div>
+        <div className="flex items-center justify-between">
+          <div>
+            <h4 className="font-medium">Preview</h4>
+            <p className="text-sm text-gray-500 dark:text-gray-400">What a player would get back for cancelling each upcoming match right now</p>
+          </div>
+          <Button
+            variant="outline"
+            onClick={() => previewMutation.mutate(policy)}
+            disabled={previewMutation.isPending}
+          >
+            {previewMutation.isPending ? "Calculating..." : "Preview Refunds"}
+          </Button>
+        </div>
+
+        {preview && (
+          preview.length === 0 ? (
+            <p className="mt-4 text-sm text-gray-500">No upcoming matches to preview</p>
+          ) : (
+            <Table className="mt-4">
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Match</TableHead>
+                  <TableHead>Kickoff</TableHead>
+                  <TableHead>Cost</TableHead>
+                  <TableHead>Refund</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {preview.map(row => (
+                  <TableRow key={row.bookingId}>
+                    <TableCell>{row.title}</TableCell>
+                    <TableCell>{new Date(row.startTime).toLocaleString()}</TableCell>
+                    <TableCell>{row.creditCost} credits</TableCell>
+                    <TableCell>
+                      {row.allowed
+                        ? `${row.refundAmount} credits (${row.refundPercent}%)`
+                        : "Can't cancel"}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )
+        )}
+      </div>
+
+      <div className="flex justify-end">
+        <Button
+          onClick={() => saveMutation.mutate(policy)}
+          disabled={saveMutation.isPending}
+        >
+          {saveMutation.isPending ? "Saving..." : "Save Cancellation Policy"}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { NotificationSuppression, User } from "@shared/schema";
+
+interface DeliveryLogProps {
+  teamId: number;
+}
+
+type SuppressionEntry = NotificationSuppression & { playerName: string | null };
+
+const CHANNELS: Record<string, string> = {
+  in_app: "In-app",
+  whatsapp: "WhatsApp",
+  push: "Push",
+  email: "Email",
+};
+
+const REASONS: Record<string, string> = {
+  type_disabled: "Turned off this kind of notification",
+  channel_disabled: "Turned off this channel",
+  type_channel_disabled: "Turned off this notification on this channel",
+  quiet_hours: "Sent during their quiet hours",
+  no_consent: "Hasn't agreed to WhatsApp messages",
+};
+
+const typeLabel = (type: string) =>
+  type.split("_").map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(" ");
+
+export function DeliveryLog({ teamId }: DeliveryLogProps) {
+  const [playerId, setPlayerId] = useState("all");
+
+  const { data: members } = useQuery<User[]>({
+    queryKey: [`/api/teams/${teamId}/members`],
+  });
+
+  const query = playerId === "all" ? "" : `?userId=${playerId}`;
+  const { data: entries, isLoading } = useQuery<SuppressionEntry[]>({
+    queryKey: [`/api/teams/${teamId}/notification-suppressions${query}`],
+  });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100">Delivery Log</h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Notifications your players weren't sent because of their own notification preferences.
+          </p>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="deliveryLogPlayer" className="sr-only">Player</Label>
+          <Select value={playerId} onValueChange={setPlayerId}>
+            <SelectTrigger id="deliveryLogPlayer" className="w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All players</SelectItem>
+              {members?.map(member => (
+                <SelectItem key={member.id} value={member.id.toString()}>{member.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Loading delivery log...</p>
+      ) : !entries?.length ? (
+        <p className="text-sm text-gray-500">Every notification has been delivered.</p>
+      ) : (
+        <div className="space-y-2">
+          {entries.map(entry => (
+            <div key={entry.id} className="border rounded-md p-3 text-sm">
+              <div className="flex items-center justify-between gap-3">
+                <div className="flex items-center gap-2">
+                  <p className="font-medium">{entry.playerName ?? `Player #${entry.userId}`}</p>
+                  <Badge variant="outline">{CHANNELS[entry.channel] || entry.channel}</Badge>
+                </div>
+                <span className="text-gray-500">{format(new Date(entry.createdAt), "d MMM, HH:mm")}</span>
+              </div>
+              <p className="text-gray-600 dark:text-gray-300">
+                {typeLabel(entry.type)}: {REASONS[entry.reason] || entry.reason}
+              </p>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
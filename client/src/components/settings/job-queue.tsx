@@ -0,0 +1,130 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest } from "@/lib/queryClient";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { Job } from "@shared/schema";
+
+interface JobQueueSummary {
+  counts: Record<string, number>;
+  jobs: Job[];
+}
+
+const STATUSES: Record<string, string> = {
+  pending: "Pending",
+  running: "Running",
+  completed: "Completed",
+  failed: "Failed",
+};
+
+const STATUS_VARIANTS: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
+  pending: "secondary",
+  running: "default",
+  completed: "outline",
+  failed: "destructive",
+};
+
+const jobLabel = (type: string) =>
+  type.split("_").map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(" ");
+
+export function JobQueue() {
+  const { toast } = useToast();
+  const [status, setStatus] = useState("failed");
+
+  const jobsQueryKey = [`/api/admin/jobs?status=${status}`];
+
+  const { data, isLoading } = useQuery<JobQueueSummary>({
+    queryKey: jobsQueryKey,
+    refetchInterval: 30000,
+  });
+
+  const retryMutation = useMutation({
+    mutationFn: async (jobId: number) => {
+      const response = await apiRequest('POST', `/api/admin/jobs/${jobId}/retry`);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Success',
+        description: 'Job queued to run again',
+      });
+      queryClient.invalidateQueries({ queryKey: jobsQueryKey });
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Error',
+        description: `Failed to retry job: ${error.message}`,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100">Background Jobs</h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Reminders, weather updates, recurring bookings and calendar syncs run as queued jobs. Failed jobs are retried automatically before they're marked failed.
+          </p>
+        </div>
+        <Select value={status} onValueChange={setStatus}>
+          <SelectTrigger className="w-36">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(STATUSES).map(([value, label]) => (
+              <SelectItem key={value} value={value}>
+                {label} ({data?.counts[value] ?? 0})
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Loading jobs...</p>
+      ) : !data?.jobs.length ? (
+        <p className="text-sm text-gray-500">No {STATUSES[status].toLowerCase()} jobs.</p>
+      ) : (
+        <div className="space-y-2">
+          {data.jobs.map(job => (
+            <div key={job.id} className="border rounded-md p-3 text-sm">
+              <div className="flex items-center justify-between gap-3">
+                <div className="flex items-center gap-2">
+                  <p className="font-medium">{jobLabel(job.type)}</p>
+                  <Badge variant={STATUS_VARIANTS[job.status] || "outline"}>{STATUSES[job.status] || job.status}</Badge>
+                </div>
+                {job.status === "failed" && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => retryMutation.mutate(job.id)}
+                    disabled={retryMutation.isPending}
+                  >
+                    Retry
+                  </Button>
+                )}
+              </div>
+              {job.key && <p className="text-gray-500 font-mono text-xs mt-1">{job.key}</p>}
+              <p className="text-gray-500 mt-1">
+                {job.status === "completed" && job.completedAt
+                  ? `Completed ${format(new Date(job.completedAt), "d MMM, HH:mm")}`
+                  : `Runs ${format(new Date(job.runAt), "d MMM, HH:mm")}`}
+                {" · "}
+                {job.attempts}/{job.maxAttempts} attempts
+              </p>
+              {job.lastError && (
+                <p className="text-red-600 mt-1">{job.lastError}</p>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,251 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest } from "@/lib/queryClient";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { MessageTemplateOverride } from "@shared/schema";
+
+interface MessageTemplatesEditorProps {
+  teamId: number;
+}
+
+interface TeamMessageTemplate {
+  type: string;
+  channel: string;
+  description: string;
+  variables: string[];
+  default: { subject?: string; body: string };
+  override: MessageTemplateOverride | null;
+}
+
+interface MessageTemplateList {
+  locales: string[];
+  templates: TeamMessageTemplate[];
+}
+
+interface TemplatePreview {
+  subject: string | null;
+  body: string;
+  unknownVariables: string[];
+}
+
+const CHANNELS: Record<string, string> = {
+  in_app: "In-app",
+  whatsapp: "WhatsApp",
+  email: "Email",
+  push: "Push",
+};
+
+const templateLabel = (type: string) =>
+  type.split("_").map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(" ");
+
+export function MessageTemplatesEditor({ teamId }: MessageTemplatesEditorProps) {
+  const { toast } = useToast();
+  const [locale, setLocale] = useState("en");
+  const [editing, setEditing] = useState<TeamMessageTemplate | null>(null);
+  const [subject, setSubject] = useState("");
+  const [body, setBody] = useState("");
+  const [preview, setPreview] = useState<TemplatePreview | null>(null);
+
+  const templatesQueryKey = [`/api/teams/${teamId}/message-templates?locale=${locale}`];
+
+  const { data, isLoading } = useQuery<MessageTemplateList>({
+    queryKey: templatesQueryKey,
+  });
+
+  const startEditing = (template: TeamMessageTemplate) => {
+    setEditing(template);
+    setSubject(template.override?.subject ?? template.default.subject ?? "");
+    setBody(template.override?.body ?? template.default.body);
+    setPreview(null);
+  };
+
+  const onError = (verb: string) => (error: any) => {
+    toast({
+      title: 'Error',
+      description: `Failed to ${verb} message template: ${error.message}`,
+      variant: 'destructive',
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (template: TeamMessageTemplate) => {
+      const response = await apiRequest('PUT', `/api/teams/${teamId}/message-templates/${template.type}/${template.channel}`, {
+        subject: template.channel === "whatsapp" ? null : subject,
+        body,
+        locale,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Success',
+        description: 'Message template saved',
+      });
+      setEditing(null);
+      queryClient.invalidateQueries({ queryKey: templatesQueryKey });
+    },
+    onError: onError('save'),
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: async (template: TeamMessageTemplate) => {
+      await apiRequest('DELETE', `/api/teams/${teamId}/message-templates/${template.type}/${template.channel}?locale=${locale}`);
+    },
+    onSuccess: () => {
+      setEditing(null);
+      queryClient.invalidateQueries({ queryKey: templatesQueryKey });
+    },
+    onError: onError('reset'),
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: async (template: TeamMessageTemplate) => {
+      const response = await apiRequest('POST', `/api/teams/${teamId}/message-templates/${template.type}/preview`, {
+        subject: template.channel === "whatsapp" ? null : subject,
+        body,
+      });
+      return response.json() as Promise<TemplatePreview>;
+    },
+    onSuccess: setPreview,
+    onError: onError('preview'),
+  });
+
+  const isEditing = (template: TeamMessageTemplate) =>
+    editing?.type === template.type && editing?.channel === template.channel;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100">Message Templates</h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Change the wording of the messages your players get. Variables in double braces, like {"{{booking.title}}"}, are filled in when the message is sent.
+          </p>
+        </div>
+        {data && data.locales.length > 1 && (
+          <Select value={locale} onValueChange={(value) => { setLocale(value); setEditing(null); }}>
+            <SelectTrigger className="w-28">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {data.locales.map(value => (
+                <SelectItem key={value} value={value}>{value}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Loading message templates...</p>
+      ) : (
+        <div className="space-y-3">
+          {data?.templates.map(template => (
+            <div key={`${template.type}-${template.channel}`} className="border rounded-md p-3">
+              <div className="flex items-start justify-between gap-3">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <p className="font-medium">{templateLabel(template.type)}</p>
+                    <Badge variant="outline">{CHANNELS[template.channel] || template.channel}</Badge>
+                    {template.override && <Badge>Customised</Badge>}
+                  </div>
+                  <p className="text-sm text-gray-500">{template.description}</p>
+                </div>
+                {!isEditing(template) && (
+                  <Button variant="outline" size="sm" onClick={() => startEditing(template)}>
+                    Edit
+                  </Button>
+                )}
+              </div>
+
+              {isEditing(template) && (
+                <div className="mt-3 space-y-3">
+                  {template.channel !== "whatsapp" && (
+                    <div>
+                      <Label htmlFor="templateSubject">{template.channel === "email" ? "Subject" : "Title"}</Label>
+                      <Input
+                        id="templateSubject"
+                        value={subject}
+                        onChange={(e) => setSubject(e.target.value)}
+                        className="mt-1"
+                      />
+                    </div>
+                  )}
+                  <div>
+                    <Label htmlFor="templateBody">Message</Label>
+                    <Textarea
+                      id="templateBody"
+                      value={body}
+                      onChange={(e) => setBody(e.target.value)}
+                      rows={template.channel === "email" ? 6 : 3}
+                      className="mt-1"
+                    />
+                  </div>
+                  <div className="flex flex-wrap gap-1">
+                    {template.variables.map(variable => (
+                      <Badge
+                        key={variable}
+                        variant="secondary"
+                        className="cursor-pointer font-mono"
+                        onClick={() => setBody(current => `${current}{{${variable}}}`)}
+                      >
+                        {`{{${variable}}}`}
+                      </Badge>
+                    ))}
+                  </div>
+
+                  {preview && (
+                    <div className="rounded-md bg-gray-50 dark:bg-gray-800 p-3 text-sm">
+                      {preview.subject && <p className="font-medium">{preview.subject}</p>}
+                      <p className="whitespace-pre-line">{preview.body}</p>
+                      {preview.unknownVariables.length > 0 && (
+                        <p className="mt-2 text-red-600">
+                          Unknown variable(s): {preview.unknownVariables.map(name => `{{${name}}}`).join(", ")}
+                        </p>
+                      )}
+                    </div>
+                  )}
+
+                  <div className="flex justify-end gap-2">
+                    {template.override && (
+                      <Button
+                        variant="ghost"
+                        onClick={() => resetMutation.mutate(template)}
+                        disabled={resetMutation.isPending}
+                      >
+                        Reset to Default
+                      </Button>
+                    )}
+                    <Button variant="ghost" onClick={() => setEditing(null)}>
+                      Cancel
+                    </Button>
+                    <Button
+                      variant="outline"
+                      onClick={() => previewMutation.mutate(template)}
+                      disabled={!body.trim() || previewMutation.isPending}
+                    >
+                      Preview
+                    </Button>
+                    <Button
+                      onClick={() => saveMutation.mutate(template)}
+                      disabled={!body.trim() || saveMutation.isPending}
+                    >
+                      Save
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
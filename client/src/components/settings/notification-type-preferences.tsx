@@ -0,0 +1,84 @@
+import { useQuery } from "@tanstack/react-query";
+import { Checkbox } from "@/components/ui/checkbox";
+
+type ChannelPreferences = Record<string, Record<string, boolean>>;
+
+interface NotificationTypePreferencesProps {
+  value: ChannelPreferences;
+  onChange: (value: ChannelPreferences) => void;
+}
+
+interface NotificationTypeInfo {
+  type: string;
+  description: string;
+  channels: string[];
+}
+
+const CHANNELS: Record<string, string> = {
+  in_app: "In-app",
+  email: "Email",
+  whatsapp: "WhatsApp",
+  push: "Push",
+};
+
+const typeLabel = (type: string) =>
+  type.split("_").map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(" ");
+
+export function NotificationTypePreferences({ value, onChange }: NotificationTypePreferencesProps) {
+  const { data: types, isLoading } = useQuery<NotificationTypeInfo[]>({
+    queryKey: ["/api/notification-types"],
+  });
+
+  // Channels are on unless turned off, so only "off" is stored
+  const isEnabled = (type: string, channel: string) => value[type]?.[channel] !== false;
+
+  const toggle = (type: string, channel: string, enabled: boolean) => {
+    const { [channel]: _, ...others } = value[type] || {};
+    const channels = enabled ? others : { ...others, [channel]: false };
+    const { [type]: __, ...rest } = value;
+
+    onChange(Object.keys(channels).length > 0 ? { ...rest, [type]: channels } : rest);
+  };
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-500">Loading notification types...</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-gray-500 dark:text-gray-400">
+            <th className="py-2 font-medium">Notification</th>
+            {Object.entries(CHANNELS).map(([channel, label]) => (
+              <th key={channel} className="py-2 px-3 font-medium text-center">{label}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {types?.map(info => (
+            <tr key={info.type} className="border-t">
+              <td className="py-2 pr-3">
+                <p className="font-medium">{typeLabel(info.type)}</p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">{info.description}</p>
+              </td>
+              {Object.keys(CHANNELS).map(channel => (
+                <td key={channel} className="py-2 px-3 text-center">
+                  {info.channels.includes(channel) ? (
+                    <Checkbox
+                      checked={isEnabled(info.type, channel)}
+                      onCheckedChange={(checked) => toggle(info.type, channel, checked === true)}
+                      aria-label={`${typeLabel(info.type)} by ${CHANNELS[channel]}`}
+                    />
+                  ) : (
+                    <span className="text-gray-300 dark:text-gray-600">-</span>
+                  )}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,181 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { apiRequest } from "@/lib/queryClient";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { Booking, PitchCostEntry, Team } from "@shared/schema";
+
+interface PricingSettingsProps {
+  teamId: number;
+}
+
+interface PitchCostLedger {
+  entries: PitchCostEntry[];
+  balance: number;
+}
+
+const ROUNDING_RULES: Record<string, string> = {
+  up: "Round up (organiser never tops up)",
+  nearest: "Round to the nearest credit",
+  down: "Round down (players never overpay)",
+};
+
+const formatPounds = (amount: number) =>
+  `${amount < 0 ? "-" : ""}£${Math.abs(amount).toFixed(2)}`;
+
+export function PricingSettings({ teamId }: PricingSettingsProps) {
+  const { toast } = useToast();
+  const [costRounding, setCostRounding] = useState("up");
+  const [creditValue, setCreditValue] = useState("7");
+
+  const { data: team } = useQuery<Team>({
+    queryKey: [`/api/teams/${teamId}`],
+  });
+
+  const { data: ledger, isLoading } = useQuery<PitchCostLedger>({
+    queryKey: [`/api/teams/${teamId}/pitch-costs`],
+  });
+
+  // Booking titles for the ledger
+  const { data: bookings = [] } = useQuery<Booking[]>({
+    queryKey: ["/api/bookings"],
+  });
+
+  useEffect(() => {
+    if (team) {
+      setCostRounding(team.costRounding || "up");
+      setCreditValue(String(team.creditValue ?? 7));
+    }
+  }, [team]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('PUT', `/api/teams/${teamId}`, {
+        costRounding,
+        creditValue: Number(creditValue),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Success',
+        description: 'Pricing settings saved',
+      });
+      queryClient.invalidateQueries({ queryKey: [`/api/teams/${teamId}`] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Error',
+        description: `Failed to save pricing settings: ${error.message}`,
+        variant: 'destructive',
+      });
+    }
+  });
+
+  const bookingTitle = (bookingId: number) =>
+    bookings.find(booking => booking.id === bookingId)?.title || `Booking #${bookingId}`;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100">Pitch Costs</h3>
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Bookings with a pitch cost charge each player their share in credits. Once a match kicks off the cost is split between the players who held a place, and any difference from what they paid is refunded or charged.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <Label>Rounding</Label>
+          <Select value={costRounding} onValueChange={setCostRounding}>
+            <SelectTrigger className="mt-1">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(ROUNDING_RULES).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label htmlFor="creditValue">Credit value (£)</Label>
+          <Input
+            id="creditValue"
+            type="number"
+            min={1}
+            value={creditValue}
+            onChange={(e) => setCreditValue(e.target.value)}
+            className="mt-1"
+          />
+        </div>
+      </div>
+
+      <Button
+        onClick={() => saveMutation.mutate()}
+        disabled={!creditValue || Number(creditValue) < 1 || saveMutation.isPending}
+      >
+        Save Pricing
+      </Button>
+
+      <Separator />
+
+      <div>
+        <div className="flex items-center justify-between">
+          <h4 className="font-medium">Organiser Ledger</h4>
+          {ledger && (
+            <span className={`text-sm font-medium ${ledger.balance < 0 ? "text-red-600" : "text-green-600"}`}>
+              Balance: {formatPounds(ledger.balance)}
+            </span>
+          )}
+        </div>
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          A surplus is collected above the pitch cost; a top-up is what you covered yourself.
+        </p>
+      </div>
+
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Loading pitch costs...</p>
+      ) : !ledger || ledger.entries.length === 0 ? (
+        <p className="text-sm text-gray-500">No matches settled yet</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Match</TableHead>
+              <TableHead>Pitch</TableHead>
+              <TableHead>Players</TableHead>
+              <TableHead>Each paid</TableHead>
+              <TableHead>Collected</TableHead>
+              <TableHead>Surplus / top-up</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {ledger.entries.map(entry => (
+              <TableRow key={entry.id}>
+                <TableCell>
+                  <p>{bookingTitle(entry.bookingId)}</p>
+                  <p className="text-xs text-gray-500">{format(new Date(entry.createdAt), "d MMM yyyy")}</p>
+                </TableCell>
+                <TableCell>{formatPounds(entry.pitchCost)}</TableCell>
+                <TableCell>{entry.playerCount}</TableCell>
+                <TableCell>{entry.creditsPerPlayer} credit(s)</TableCell>
+                <TableCell>{formatPounds(entry.collected)}</TableCell>
+                <TableCell className={entry.amount < 0 ? "text-red-600" : "text-green-600"}>
+                  {formatPounds(entry.amount)}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+}
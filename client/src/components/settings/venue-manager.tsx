@@ -0,0 +1,334 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest } from "@/lib/queryClient";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { MapPin, Pencil, Plus, Trash2 } from "lucide-react";
+import type { Venue } from "@shared/schema";
+
+const SURFACE_TYPES: Record<string, string> = {
+  grass: "Grass",
+  artificial_grass: "Artificial grass",
+  "3g": "3G",
+  "4g": "4G",
+  indoor_court: "Indoor court",
+};
+
+const PITCH_SIZES = ["5-a-side", "7-a-side", "11-a-side"];
+
+interface VenueFormState {
+  name: string;
+  address: string;
+  latitude: string;
+  longitude: string;
+  surfaceType: string;
+  isIndoor: boolean;
+  pitchSizes: string[];
+  costPerHour: string;
+  notes: string;
+}
+
+const EMPTY_FORM: VenueFormState = {
+  name: "",
+  address: "",
+  latitude: "",
+  longitude: "",
+  surfaceType: "",
+  isIndoor: false,
+  pitchSizes: [],
+  costPerHour: "",
+  notes: "",
+};
+
+function toFormState(venue: Venue): VenueFormState {
+  return {
+    name: venue.name,
+    address: venue.address || "",
+    latitude: venue.latitude?.toString() ?? "",
+    longitude: venue.longitude?.toString() ?? "",
+    surfaceType: venue.surfaceType || "",
+    isIndoor: venue.isIndoor ?? false,
+    pitchSizes: (venue.pitchSizes as string[] | null) || [],
+    costPerHour: venue.costPerHour?.toString() ?? "",
+    notes: venue.notes || "",
+  };
+}
+
+// Empty inputs are sent as null so they clear the field
+const toNumber = (value: string) => value.trim() === "" ? null : Number(value);
+
+export function VenueManager() {
+  const { toast } = useToast();
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [form, setForm] = useState<VenueFormState>(EMPTY_FORM);
+
+  const { data: venues = [], isLoading } = useQuery<Venue[]>({
+    queryKey: ["/api/venues"],
+  });
+
+  const closeForm = () => {
+    setIsFormOpen(false);
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const data = {
+        name: form.name,
+        address: form.address || null,
+        latitude: toNumber(form.latitude),
+        longitude: toNumber(form.longitude),
+        surfaceType: form.surfaceType || null,
+        isIndoor: form.isIndoor,
+        pitchSizes: form.pitchSizes,
+        costPerHour: toNumber(form.costPerHour),
+        notes: form.notes || null,
+      };
+      const response = editingId
+        ? await apiRequest('PUT', `/api/venues/${editingId}`, data)
+        : await apiRequest('POST', '/api/venues', data);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: 'Success',
+        description: editingId ? 'Venue updated' : 'Venue added',
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/venues"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/bookings"] });
+      closeForm();
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Error',
+        description: `Failed to save venue: ${error.message}`,
+        variant: 'destructive',
+      });
+    }
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => apiRequest('DELETE', `/api/venues/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/venues"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Error',
+        description: `Failed to delete venue: ${error.message}`,
+        variant: 'destructive',
+      });
+    }
+  });
+
+  const updateForm = (changes: Partial<VenueFormState>) => {
+    setForm(prev => ({ ...prev, ...changes }));
+  };
+
+  const togglePitchSize = (size: string, checked: boolean) => {
+    updateForm({
+      pitchSizes: checked
+        ? [...form.pitchSizes, size]
+        : form.pitchSizes.filter(s => s !== size)
+    });
+  };
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-500">Loading venues...</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between">
+        <div>
+          <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100">Venues</h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Pitches your team plays at. Picking a venue when creating a booking keeps the location consistent and lets forecasts use its exact position.
+          </p>
+        </div>
+        {!isFormOpen && (
+          <Button variant="outline" size="sm" onClick={() => setIsFormOpen(true)}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add Venue
+          </Button>
+        )}
+      </div>
+
+      {venues.length === 0 && !isFormOpen && (
+        <p className="text-sm text-gray-500">No venues added yet</p>
+      )}
+
+      <div className="space-y-2">
+        {venues.map(venue => (
+          <div key={venue.id} className="flex items-start justify-between rounded-md border px-3 py-2">
+            <div>
+              <p className="font-medium flex items-center">
+                <MapPin className="h-4 w-4 mr-1 text-gray-500" />
+                {venue.name}
+              </p>
+              {venue.address && <p className="text-sm text-gray-500">{venue.address}</p>}
+              <div className="flex flex-wrap gap-1 mt-1">
+                {venue.surfaceType && <Badge variant="outline">{SURFACE_TYPES[venue.surfaceType] || venue.surfaceType}</Badge>}
+                <Badge variant="outline">{venue.isIndoor ? "Indoor" : "Outdoor"}</Badge>
+                {((venue.pitchSizes as string[] | null) || []).map(size => (
+                  <Badge key={size} variant="secondary">{size}</Badge>
+                ))}
+                {venue.costPerHour !== null && <Badge variant="secondary">£{venue.costPerHour}/hour</Badge>}
+              </div>
+              {venue.notes && <p className="text-xs text-gray-500 mt-1">{venue.notes}</p>}
+            </div>
+            <div className="flex space-x-2">
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => {
+                  setEditingId(venue.id);
+                  setForm(toFormState(venue));
+                  setIsFormOpen(true);
+                }}
+              >
+                <Pencil className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => deleteMutation.mutate(venue.id)}
+                disabled={deleteMutation.isPending}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {isFormOpen && (
+        <div className="space-y-4 rounded-md border p-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="venueName">Name</Label>
+              <Input
+                id="venueName"
+                value={form.name}
+                onChange={(e) => updateForm({ name: e.target.value })}
+                className="mt-1"
+                placeholder="e.g. Hackney Marshes"
+              />
+            </div>
+            <div>
+              <Label htmlFor="venueAddress">Address</Label>
+              <Input
+                id="venueAddress"
+                value={form.address}
+                onChange={(e) => updateForm({ address: e.target.value })}
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label htmlFor="venueLatitude">Latitude</Label>
+              <Input
+                id="venueLatitude"
+                type="number"
+                step="any"
+                value={form.latitude}
+                onChange={(e) => updateForm({ latitude: e.target.value })}
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label htmlFor="venueLongitude">Longitude</Label>
+              <Input
+                id="venueLongitude"
+                type="number"
+                step="any"
+                value={form.longitude}
+                onChange={(e) => updateForm({ longitude: e.target.value })}
+                className="mt-1"
+              />
+            </div>
+            <div>
+              <Label>Surface</Label>
+              <Select value={form.surfaceType} onValueChange={(value) => updateForm({ surfaceType: value })}>
+                <SelectTrigger className="mt-1">
+                  <SelectValue placeholder="Select surface" />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(SURFACE_TYPES).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="venueCost">Cost per hour (£)</Label>
+              <Input
+                id="venueCost"
+                type="number"
+                min={0}
+                step="0.01"
+                value={form.costPerHour}
+                onChange={(e) => updateForm({ costPerHour: e.target.value })}
+                className="mt-1"
+              />
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="venueIndoor">Indoor</Label>
+            <Switch
+              id="venueIndoor"
+              checked={form.isIndoor}
+              onCheckedChange={(checked) => updateForm({ isIndoor: checked })}
+            />
+          </div>
+
+          <div>
+            <Label>Pitch sizes</Label>
+            <div className="flex space-x-4 mt-2">
+              {PITCH_SIZES.map(size => (
+                <div key={size} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`pitch-${size}`}
+                    checked={form.pitchSizes.includes(size)}
+                    onCheckedChange={(checked) => togglePitchSize(size, checked === true)}
+                  />
+                  <Label htmlFor={`pitch-${size}`}>{size}</Label>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <Label htmlFor="venueNotes">Notes</Label>
+            <Textarea
+              id="venueNotes"
+              value={form.notes}
+              onChange={(e) => updateForm({ notes: e.target.value })}
+              className="mt-1"
+              placeholder="Parking, door codes, changing rooms..."
+            />
+          </div>
+
+          <div className="flex justify-end space-x-2">
+            <Button variant="outline" onClick={closeForm}>
+              Cancel
+            </Button>
+            <Button onClick={() => saveMutation.mutate()} disabled={!form.name || saveMutation.isPending}>
+              {editingId ? "Save Venue" : "Add Venue"}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,191 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest } from "@/lib/queryClient";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Plus, Trash2 } from "lucide-react";
+import type { WeatherRule } from "@shared/schema";
+
+interface WeatherRulesEditorProps {
+  teamId: number;
+}
+
+const METRICS: Record<string, { label: string, unit: string }> = {
+  wind_speed: { label: "Wind speed", unit: "km/h" },
+  precipitation: { label: "Chance of rain", unit: "%" },
+  temperature: { label: "Temperature", unit: "°C" },
+  humidity: { label: "Humidity", unit: "%" },
+};
+
+export function WeatherRulesEditor({ teamId }: WeatherRulesEditorProps) {
+  const { toast } = useToast();
+  const [metric, setMetric] = useState("wind_speed");
+  const [comparison, setComparison] = useState("above");
+  const [threshold, setThreshold] = useState("40");
+  const [action, setAction] = useState("warn");
+
+  const rulesQueryKey = [`/api/teams/${teamId}/weather-rules`];
+
+  const { data: rules = [], isLoading } = useQuery<WeatherRule[]>({
+    queryKey: rulesQueryKey,
+  });
+
+  const onError = (verb: string) => (error: any) => {
+    toast({
+      title: 'Error',
+      description: `Failed to ${verb} weather rule: ${error.message}`,
+      variant: 'destructive',
+    });
+  };
+
+  const addMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/teams/${teamId}/weather-rules`, {
+        metric,
+        comparison,
+        threshold: Number(threshold),
+        action,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: rulesQueryKey });
+    },
+    onError: onError('add'),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, changes }: { id: number, changes: Partial<WeatherRule> }) => {
+      const response = await apiRequest('PUT', `/api/teams/${teamId}/weather-rules/${id}`, changes);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: rulesQueryKey });
+    },
+    onError: onError('update'),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => apiRequest('DELETE', `/api/teams/${teamId}/weather-rules/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: rulesQueryKey });
+    },
+    onError: onError('delete'),
+  });
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-500">Loading weather rules...</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100">Weather Rules</h3>
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Booked players are warned when a match forecast breaks one of these rules. Rules can also ask you to approve calling the match off, which refunds every player in full.
+        </p>
+      </div>
+
+      {rules.length === 0 ? (
+        <p className="text-sm text-gray-500">No weather rules set</p>
+      ) : (
+        <div className="space-y-2">
+          {rules.map(rule => {
+            const { label, unit } = METRICS[rule.metric] || { label: rule.metric, unit: "" };
+            return (
+              <div key={rule.id} className="flex items-center justify-between rounded-md border px-3 py-2">
+                <div>
+                  <p className="text-sm font-medium">
+                    {label} {rule.comparison} {rule.threshold}{unit}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {rule.action === "suggest_cancel" ? "Warn players and ask to cancel" : "Warn players"}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-3">
+                  <Switch
+                    checked={rule.isActive ?? true}
+                    onCheckedChange={(checked) => updateMutation.mutate({ id: rule.id, changes: { isActive: checked } })}
+                  />
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    onClick={() => deleteMutation.mutate(rule.id)}
+                    disabled={deleteMutation.isPending}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+        <div>
+          <Label>Forecast</Label>
+          <Select value={metric} onValueChange={setMetric}>
+            <SelectTrigger className="mt-1">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(METRICS).map(([value, { label }]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label>Is</Label>
+          <Select value={comparison} onValueChange={setComparison}>
+            <SelectTrigger className="mt-1">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="above">Above</SelectItem>
+              <SelectItem value="below">Below</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label htmlFor="weatherThreshold">Threshold ({METRICS[metric].unit})</Label>
+          <Input
+            id="weatherThreshold"
+            type="number"
+            value={threshold}
+            onChange={(e) => setThreshold(e.target.value)}
+            className="mt-1"
+          />
+        </div>
+        <div>
+          <Label>Then</Label>
+          <Select value={action} onValueChange={setAction}>
+            <SelectTrigger className="mt-1">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="warn">Warn players</SelectItem>
+              <SelectItem value="suggest_cancel">Warn and ask to cancel</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => addMutation.mutate()}
+        disabled={threshold === "" || addMutation.isPending}
+      >
+        <Plus className="h-4 w-4 mr-1" />
+        Add Rule
+      </Button>
+    </div>
+  );
+}
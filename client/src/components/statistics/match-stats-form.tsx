@@ -9,6 +9,7 @@ import { z } from "zod";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient } from "@/lib/queryClient";
+import { useQuery } from "@tanstack/react-query";
 
 const matchStatsSchema = z.object({
   teamScore: z.number().min(0, "Score cannot be negative"),
@@ -27,6 +28,13 @@ export function MatchStatsForm({ bookingId, onComplete }: MatchStatsFormProps) {
   const { toast } = useToast();
   const [isSubmitting, setIsSubmitting] = useState(false);
   
+  // When teams were picked from the squad, the result is Team A against Team B
+  const { data: lineup } = useQuery<{ teamA: unknown[], teamB: unknown[] }>({
+    queryKey: [`/api/bookings/${bookingId}/lineup`],
+    enabled: !!bookingId,
+  });
+  const hasLineup = !!lineup && lineup.teamA.length > 0 && lineup.teamB.length > 0;
+  
   const { register, handleSubmit, formState: { errors } } = useForm<MatchStatsData>({
     resolver: zodResolver(matchStatsSchema),
     defaultValues: {
@@ -74,7 +82,7 @@ export function MatchStatsForm({ bookingId, onComplete }: MatchStatsFormProps) {
         <form id="match-stats-form" onSubmit={handleSubmit(onSubmit)} className="space-y-4">
           <div className="grid grid-cols-2 gap-4">
             <div>
-              <Label htmlFor="teamScore">Our Score</Label>
+              <Label htmlFor="teamScore">{hasLineup ? "Team A Score" : "Our Score"}</Label>
               <Input
                 id="teamScore"
                 type="number"
@@ -87,7 +95,7 @@ export function MatchStatsForm({ bookingId, onComplete }: MatchStatsFormProps) {
               )}
             </div>
             <div>
-              <Label htmlFor="opponentScore">Opponent Score</Label>
+              <Label htmlFor="opponentScore">{hasLineup ? "Team B Score" : "Opponent Score"}</Label>
               <Input
                 id="opponentScore"
                 type="number"
@@ -4,6 +4,7 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
@@ -12,6 +13,7 @@ import { useToast } from "@/hooks/use-toast";
 import { queryClient } from "@/lib/queryClient";
 import { useQuery } from "@tanstack/react-query";
 import { getInitials } from "@/lib/utils";
+import type { MatchLineupEntry } from "@shared/schema";
 
 const playerStatsSchema = z.object({
   goals: z.number().min(0, "Cannot be negative"),
@@ -43,6 +45,15 @@ export function PlayerStatsForm({ bookingId, playerId, playerName, onComplete, o
     enabled: !!bookingId && !!playerId,
   });
   
+  // Which side the player was on, if teams were picked for the match
+  const { data: lineup } = useQuery<{ teamA: MatchLineupEntry[], teamB: MatchLineupEntry[] }>({
+    queryKey: [`/api/bookings/${bookingId}/lineup`],
+    enabled: !!bookingId,
+  });
+  
+  const lineupEntry = [...(lineup?.teamA || []), ...(lineup?.teamB || [])]
+    .find(entry => entry.playerId === playerId);
+  
   const { register, handleSubmit, formState: { errors }, setValue } = useForm<PlayerStatsData>({
     resolver: zodResolver(playerStatsSchema),
     defaultValues: {
@@ -120,6 +131,11 @@ export function PlayerStatsForm({ bookingId, playerId, playerName, onComplete, o
             {getInitials(playerName)}
           </div>
           <CardTitle>{playerName}</CardTitle>
+          {lineupEntry && (
+            <Badge variant="outline" className="ml-auto">
+              Team {lineupEntry.side}{lineupEntry.bibColour ? ` (${lineupEntry.bibColour})` : ""}
+            </Badge>
+          )}
         </div>
       </CardHeader>
       <CardContent>
@@ -0,0 +1,67 @@
+import { apiRequest } from "./queryClient";
+
+const SERVICE_WORKER_URL = "/sw.js";
+
+// Browsers want the VAPID key as bytes, the server sends it base64url encoded
+function urlBase64ToUint8Array(base64String: string): Uint8Array {
+  const padding = "=".repeat((4 - (base64String.length % 4)) % 4);
+  const base64 = (base64String + padding).replace(/-/g, "+").replace(/_/g, "/");
+  const raw = window.atob(base64);
+  return Uint8Array.from(raw, (char) => char.charCodeAt(0));
+}
+
+export function isPushSupported(): boolean {
+  return "serviceWorker" in navigator && "PushManager" in window && "Notification" in window;
+}
+
+async function getRegistration(): Promise<ServiceWorkerRegistration> {
+  return (await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL))
+    ?? navigator.serviceWorker.register(SERVICE_WORKER_URL);
+}
+
+/**
+ * Ask for permission and register this device for push notifications.
+ * Throws if the browser doesn't support push, permission is refused or the
+ * server doesn't have push set up.
+ */
+export async function subscribeToPush(): Promise<void> {
+  if (!isPushSupported()) {
+    throw new Error("This browser doesn't support push notifications");
+  }
+
+  const permission = await Notification.requestPermission();
+  if (permission !== "granted") {
+    throw new Error("Notifications are blocked for this site");
+  }
+
+  const registration = await getRegistration();
+  await navigator.serviceWorker.ready;
+
+  let subscription = await registration.pushManager.getSubscription();
+  if (!subscription) {
+    const response = await apiRequest("GET", "/api/push/vapid-public-key");
+    const { publicKey } = await response.json();
+
+    subscription = await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: urlBase64ToUint8Array(publicKey),
+    });
+  }
+
+  await apiRequest("POST", "/api/push/subscriptions", subscription.toJSON());
+}
+
+/**
+ * Stop push notifications on this device
+ */
+export async function unsubscribeFromPush(): Promise<void> {
+  if (!isPushSupported()) return;
+
+  const registration = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL);
+  const subscription = await registration?.pushManager.getSubscription();
+  if (!subscription) return;
+
+  const { endpoint } = subscription;
+  await subscription.unsubscribe();
+  await apiRequest("DELETE", "/api/push/subscriptions", { endpoint });
+}
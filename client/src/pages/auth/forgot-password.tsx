@@ -0,0 +1,104 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { Card, CardHeader, CardTitle, CardDescription, CardContent, CardFooter } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { apiRequest } from "@/lib/queryClient";
+import { passwordResetRequestSchema } from "@shared/schema";
+
+type ForgotPasswordData = z.infer<typeof passwordResetRequestSchema>;
+
+export default function ForgotPassword() {
+  const [sentMessage, setSentMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const { register, handleSubmit, formState: { errors, isSubmitting } } = useForm<ForgotPasswordData>({
+    resolver: zodResolver(passwordResetRequestSchema),
+    defaultValues: {
+      email: "",
+    },
+  });
+
+  const onSubmit = async (data: ForgotPasswordData) => {
+    try {
+      setError(null);
+      const response = await apiRequest("POST", "/api/auth/forgot-password", data);
+      const result = await response.json();
+      setSentMessage(result.message);
+    } catch (err) {
+      setError("Something went wrong. Please try again.");
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-100 dark:bg-gray-900 px-4 py-8">
+      <div className="max-w-md w-full space-y-8">
+        <div className="text-center">
+          <div className="flex items-center justify-center">
+            <span className="material-icons text-primary-DEFAULT dark:text-primary-light text-4xl mr-2">sports_soccer</span>
+            <h1 className="text-3xl font-heading font-bold text-primary-DEFAULT dark:text-primary-light">KickBook</h1>
+          </div>
+          <p className="mt-2 text-gray-600 dark:text-gray-400">Football Team Management App</p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-xl">Forgot your password?</CardTitle>
+            <CardDescription>Enter the email address on your account and we'll send you a link to choose a new one</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {sentMessage ? (
+              <div className="text-sm text-gray-700 dark:text-gray-300 bg-green-50 dark:bg-green-900/20 p-3 rounded">
+                {sentMessage}. Check your inbox, and your spam folder if it doesn't arrive in a few minutes.
+              </div>
+            ) : (
+              <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+                <div>
+                  <Label htmlFor="email">Email</Label>
+                  <Input
+                    id="email"
+                    type="email"
+                    autoComplete="email"
+                    {...register("email")}
+                    className="mt-1"
+                  />
+                  {errors.email && (
+                    <p className="text-sm text-red-500 mt-1">{errors.email.message}</p>
+                  )}
+                </div>
+
+                {error && (
+                  <div className="text-sm text-red-500 bg-red-50 dark:bg-red-900/20 p-2 rounded">
+                    {error}
+                  </div>
+                )}
+
+                <Button
+                  type="submit"
+                  className="w-full"
+                  disabled={isSubmitting}
+                >
+                  {isSubmitting ? "Sending..." : "Send reset link"}
+                </Button>
+              </form>
+            )}
+          </CardContent>
+          <CardFooter className="flex justify-center">
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Remembered it?{" "}
+              <Link href="/login">
+                <a className="text-primary-DEFAULT hover:text-primary-dark dark:text-primary-light dark:hover:text-primary-light font-medium">
+                  Log in
+                </a>
+              </Link>
+            </p>
+          </CardFooter>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -69,7 +69,14 @@ export default function Login() {
                 )}
               </div>
               <div>
-                <Label htmlFor="password">Password</Label>
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="password">Password</Label>
+                  <Link href="/forgot-password">
+                    <a className="text-sm text-primary-DEFAULT hover:text-primary-dark dark:text-primary-light dark:hover:text-primary-light">
+                      Forgot password?
+                    </a>
+                  </Link>
+                </div>
                 <Input 
                   id="password" 
                   type="password" 
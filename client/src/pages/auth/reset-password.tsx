@@ -0,0 +1,143 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { Card, CardHeader, CardTitle, CardDescription, CardContent, CardFooter } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { newPasswordSchema } from "@shared/schema";
+
+const resetPasswordFormSchema = z.object({
+  newPassword: newPasswordSchema,
+  confirmPassword: z.string(),
+}).refine(data => data.newPassword === data.confirmPassword, {
+  message: "Passwords don't match",
+  path: ["confirmPassword"],
+});
+
+type ResetPasswordData = z.infer<typeof resetPasswordFormSchema>;
+
+export default function ResetPassword() {
+  const token = new URLSearchParams(window.location.search).get("token") || "";
+  const [resetMessage, setResetMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const { register, handleSubmit, formState: { errors, isSubmitting } } = useForm<ResetPasswordData>({
+    resolver: zodResolver(resetPasswordFormSchema),
+    defaultValues: {
+      newPassword: "",
+      confirmPassword: "",
+    },
+  });
+
+  const onSubmit = async (data: ResetPasswordData) => {
+    setError(null);
+
+    // Read the server's reason, e.g. an expired or already used link
+    const response = await fetch("/api/auth/reset-password", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ token, newPassword: data.newPassword }),
+      credentials: "include"
+    });
+    const result = await response.json().catch(() => ({}));
+
+    if (!response.ok) {
+      setError(result.message || "Something went wrong. Please try again.");
+      return;
+    }
+
+    setResetMessage(result.message);
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-100 dark:bg-gray-900 px-4 py-8">
+      <div className="max-w-md w-full space-y-8">
+        <div className="text-center">
+          <div className="flex items-center justify-center">
+            <span className="material-icons text-primary-DEFAULT dark:text-primary-light text-4xl mr-2">sports_soccer</span>
+            <h1 className="text-3xl font-heading font-bold text-primary-DEFAULT dark:text-primary-light">KickBook</h1>
+          </div>
+          <p className="mt-2 text-gray-600 dark:text-gray-400">Football Team Management App</p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-xl">Choose a new password</CardTitle>
+            <CardDescription>It needs at least 8 characters</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {!token ? (
+              <div className="text-sm text-red-500 bg-red-50 dark:bg-red-900/20 p-2 rounded">
+                This reset link is incomplete. Open the link from your email again, or ask for a new one.
+              </div>
+            ) : resetMessage ? (
+              <div className="text-sm text-gray-700 dark:text-gray-300 bg-green-50 dark:bg-green-900/20 p-3 rounded">
+                {resetMessage}
+              </div>
+            ) : (
+              <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+                <div>
+                  <Label htmlFor="newPassword">New Password</Label>
+                  <Input
+                    id="newPassword"
+                    type="password"
+                    autoComplete="new-password"
+                    {...register("newPassword")}
+                    className="mt-1"
+                  />
+                  {errors.newPassword && (
+                    <p className="text-sm text-red-500 mt-1">{errors.newPassword.message}</p>
+                  )}
+                </div>
+                <div>
+                  <Label htmlFor="confirmPassword">Confirm New Password</Label>
+                  <Input
+                    id="confirmPassword"
+                    type="password"
+                    autoComplete="new-password"
+                    {...register("confirmPassword")}
+                    className="mt-1"
+                  />
+                  {errors.confirmPassword && (
+                    <p className="text-sm text-red-500 mt-1">{errors.confirmPassword.message}</p>
+                  )}
+                </div>
+
+                {error && (
+                  <div className="text-sm text-red-500 bg-red-50 dark:bg-red-900/20 p-2 rounded">
+                    {error}
+                  </div>
+                )}
+
+                <Button
+                  type="submit"
+                  className="w-full"
+                  disabled={isSubmitting}
+                >
+                  {isSubmitting ? "Saving..." : "Reset password"}
+                </Button>
+              </form>
+            )}
+          </CardContent>
+          <CardFooter className="flex justify-center gap-4">
+            <Link href="/login">
+              <a className="text-sm text-primary-DEFAULT hover:text-primary-dark dark:text-primary-light dark:hover:text-primary-light font-medium">
+                Log in
+              </a>
+            </Link>
+            {!resetMessage && (
+              <Link href="/forgot-password">
+                <a className="text-sm text-primary-DEFAULT hover:text-primary-dark dark:text-primary-light dark:hover:text-primary-light font-medium">
+                  Send a new link
+                </a>
+              </Link>
+            )}
+          </CardFooter>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -8,6 +8,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Label } from "@/components/ui/label";
 import { BookingDetailsModal } from "@/components/bookings/booking-details-modal";
 import { CreateBookingModal } from "@/components/bookings/create-booking-modal";
+import { AvailabilityPolls } from "@/components/bookings/availability-polls";
 import { useAuth } from "@/components/auth/auth-provider";
 import { useQuery } from "@tanstack/react-query";
 import { formatTimeRange, getBookingStatusColor, getBookingStatusText } from "@/lib/utils";
@@ -78,6 +79,8 @@ export default function Bookings() {
         }
       />
       
+      <AvailabilityPolls />
+      
       <Card className="mb-6">
         <CardHeader>
           <CardTitle>Filter Bookings</CardTitle>
@@ -9,7 +9,7 @@ import { Badge } from '@/components/ui/badge';
 import { apiRequest } from '@/lib/queryClient';
 import { useAuth } from '@/components/auth/auth-provider';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Bell, Check, Trash, Calendar, Award, CreditCard, Users, Info } from 'lucide-react';
+import { Bell, Check, Trash, Calendar, Award, CreditCard, Users, Info, CloudRain } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { formatDistanceToNow } from 'date-fns';
 
@@ -22,18 +22,23 @@ type Notification = {
   isRead: boolean;
   createdAt: string;
   bookingId: number | null;
+  metadata?: { alertId?: number } | null;
 };
 
 // Component for rendering a single notification
 const NotificationItem = ({ 
   notification, 
   onMarkAsRead,
-  onDelete 
+  onDelete,
+  onWeatherDecision
 }: { 
   notification: Notification; 
   onMarkAsRead: (id: number) => void;
   onDelete: (id: number) => void;
+  onWeatherDecision: (alertId: number, decision: 'approve' | 'dismiss') => void;
 }) => {
+  const alertId = notification.type === 'weather_cancel_approval' ? notification.metadata?.alertId : undefined;
+
   const getIcon = () => {
     switch (notification.type) {
       case 'match_reminder':
@@ -46,6 +51,9 @@ const NotificationItem = ({
         return <CreditCard className="h-5 w-5 text-green-500" />;
       case 'team_invitation':
         return <Users className="h-5 w-5 text-purple-500" />;
+      case 'weather_warning':
+      case 'weather_cancel_approval':
+        return <CloudRain className="h-5 w-5 text-orange-500" />;
       default:
         return <Info className="h-5 w-5 text-gray-500" />;
     }
@@ -66,6 +74,16 @@ const NotificationItem = ({
               )}
             </div>
             <p className="text-sm text-gray-600 dark:text-gray-300">{notification.message}</p>
+            {alertId && (
+              <div className="flex gap-2 mt-3">
+                <Button size="sm" variant="destructive" onClick={() => onWeatherDecision(alertId, 'approve')}>
+                  Cancel Match
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => onWeatherDecision(alertId, 'dismiss')}>
+                  Play On
+                </Button>
+              </div>
+            )}
             <p className="text-xs text-gray-400 mt-2">
               {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
             </p>
@@ -174,6 +192,28 @@ export default function NotificationsPage() {
     }
   });
 
+  // Approve or dismiss calling a match off for the weather
+  const weatherDecisionMutation = useMutation({
+    mutationFn: ({ alertId, decision }: { alertId: number; decision: 'approve' | 'dismiss' }) =>
+      apiRequest('POST', `/api/weather-alerts/${alertId}/${decision}`),
+    onSuccess: (_data, { decision }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/bookings'] });
+      toast({
+        title: decision === 'approve' ? "Match canceled" : "Playing on",
+        description: decision === 'approve'
+          ? "The match has been canceled and all players refunded."
+          : "The weather alert has been dismissed.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to respond to the weather alert.",
+        variant: "destructive",
+      });
+    }
+  });
+
   // Handle marking a notification as read
   const handleMarkAsRead = (id: number) => {
     markAsReadMutation.mutate(id);
@@ -246,6 +286,7 @@ export default function NotificationsPage() {
                       notification={notification} 
                       onMarkAsRead={handleMarkAsRead}
                       onDelete={handleDeleteNotification}
+                      onWeatherDecision={(alertId, decision) => weatherDecisionMutation.mutate({ alertId, decision })}
                     />
                   ))
                 )}
@@ -268,6 +309,7 @@ export default function NotificationsPage() {
                       notification={notification} 
                       onMarkAsRead={handleMarkAsRead}
                       onDelete={handleDeleteNotification}
+                      onWeatherDecision={(alertId, decision) => weatherDecisionMutation.mutate({ alertId, decision })}
                     />
                   ))
                 )}
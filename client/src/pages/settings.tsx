@@ -6,6 +6,7 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Separator } from "@/components/ui/separator";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useAuth } from "@/components/auth/auth-provider";
@@ -13,7 +14,16 @@ import { useTheme } from "@/lib/theme";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { queryClient } from "@/lib/queryClient";
+import { isPushSupported, subscribeToPush, unsubscribeFromPush } from "@/lib/push";
 import { CalendarIntegration } from "@/components/settings/calendar-integration";
+import { CancellationPolicyEditor } from "@/components/settings/cancellation-policy-editor";
+import { WeatherRulesEditor } from "@/components/settings/weather-rules-editor";
+import { VenueManager } from "@/components/settings/venue-manager";
+import { PricingSettings } from "@/components/settings/pricing-settings";
+import { MessageTemplatesEditor } from "@/components/settings/message-templates-editor";
+import { DeliveryLog } from "@/components/settings/delivery-log";
+import { JobQueue } from "@/components/settings/job-queue";
+import { NotificationTypePreferences } from "@/components/settings/notification-type-preferences";
 
 export default function Settings() {
   const { user, logout } = useAuth();
@@ -30,6 +40,16 @@ export default function Settings() {
     confirmPassword: "",
   });
   
+  const [positions, setPositions] = useState({
+    preferredPosition: user?.preferredPosition || "none",
+    secondaryPosition: user?.secondaryPosition || "none",
+  });
+  
+  const [phone, setPhone] = useState(user?.phone || "");
+  const [codeSent, setCodeSent] = useState(false);
+  const [verificationCode, setVerificationCode] = useState("");
+  const [whatsappOptIn, setWhatsappOptIn] = useState(user?.whatsappOptIn ?? false);
+  
   const [teamForm, setTeamForm] = useState({
     name: "",
     location: "",
@@ -38,10 +58,14 @@ export default function Settings() {
   
   const [notifications, setNotifications] = useState({
     emailNotifications: true,
+    emailDigest: "off",
     pushNotifications: true,
     matchReminders: true,
     statsUpdates: true,
     teamAnnouncements: true,
+    quietHours: { enabled: false, start: "22:00", end: "07:00", timezone: undefined as string | undefined },
+    types: {} as Record<string, Record<string, boolean>>,
+    ...user?.notificationSettings,
   });
   
   const handleProfileFormChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -54,33 +78,27 @@ export default function Settings() {
     setTeamForm(prev => ({ ...prev, [name]: value }));
   };
   
-  const handleNotificationChange = (name: string, checked: boolean) => {
+  const handleNotificationChange = (name: string, checked: boolean | string) => {
     setNotifications(prev => ({ ...prev, [name]: checked }));
   };
   
+  // Quiet hours are kept in the time zone they were set in
+  const browserTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  
+  const handleQuietHoursChange = (name: "enabled" | "start" | "end", value: boolean | string) => {
+    setNotifications(prev => ({
+      ...prev,
+      quietHours: { ...prev.quietHours, [name]: value, timezone: browserTimeZone }
+    }));
+  };
+  
   const handleSaveProfile = async () => {
     try {
       setIsUpdating(true);
       
-      // Validate password fields
-      if (profileForm.newPassword && profileForm.newPassword !== profileForm.confirmPassword) {
-        toast({
-          title: "Error",
-          description: "New passwords don't match",
-          variant: "destructive",
-        });
-        return;
-      }
-      
       // Only send necessary fields
       const data: any = { name: profileForm.name, email: profileForm.email };
       
-      // Only include password fields if changing password
-      if (profileForm.currentPassword && profileForm.newPassword) {
-        data.currentPassword = profileForm.currentPassword;
-        data.newPassword = profileForm.newPassword;
-      }
-      
       await apiRequest("PUT", `/api/users/${user?.id}`, data);
       
       toast({
@@ -88,22 +106,186 @@ export default function Settings() {
         description: "Your profile has been successfully updated",
       });
       
-      // Clear password fields
+      // Invalidate user data cache to refresh
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/me"] });
+      
+    } catch (error) {
+      console.error("Error updating profile:", error);
+      toast({
+        title: "Error",
+        description: "Failed to update profile. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+  
+  const handleChangePassword = async () => {
+    if (profileForm.newPassword !== profileForm.confirmPassword) {
+      toast({
+        title: "Error",
+        description: "New passwords don't match",
+        variant: "destructive",
+      });
+      return;
+    }
+    
+    try {
+      setIsUpdating(true);
+      
+      await apiRequest("PUT", `/api/users/${user?.id}/password`, {
+        currentPassword: profileForm.currentPassword,
+        newPassword: profileForm.newPassword,
+      });
+      
+      toast({
+        title: "Password Changed",
+        description: "Use your new password next time you log in",
+      });
+      
       setProfileForm(prev => ({
         ...prev,
         currentPassword: "",
         newPassword: "",
         confirmPassword: "",
       }));
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to change password. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+  
+  // Send a code to the number; it's only saved once the code is entered
+  const handleSendPhoneCode = async () => {
+    try {
+      setIsUpdating(true);
+      
+      const response = await apiRequest("PUT", `/api/players/${user?.id}/phone`, { phone });
+      const result = await response.json();
+      
+      setCodeSent(true);
+      setVerificationCode("");
+      toast({
+        title: "Code Sent",
+        description: result.message,
+      });
+    } catch (error: any) {
+      console.error("Error sending verification code:", error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to send a verification code. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+  
+  const handleVerifyPhone = async () => {
+    try {
+      setIsUpdating(true);
+      
+      await apiRequest("POST", `/api/players/${user?.id}/phone/verify`, {
+        code: verificationCode,
+        whatsappOptIn,
+      });
+      
+      setCodeSent(false);
+      setVerificationCode("");
+      toast({
+        title: "Phone Number Verified",
+        description: whatsappOptIn
+          ? "You can now reply to match messages on WhatsApp"
+          : "Turn on WhatsApp messages to get match messages",
+      });
       
-      // Invalidate user data cache to refresh
       queryClient.invalidateQueries({ queryKey: ["/api/auth/me"] });
+    } catch (error: any) {
+      console.error("Error verifying phone number:", error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to verify phone number. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+  
+  const handleRemovePhone = async () => {
+    try {
+      setIsUpdating(true);
       
+      await apiRequest("DELETE", `/api/players/${user?.id}/phone`);
+      
+      setPhone("");
+      setCodeSent(false);
+      toast({
+        title: "Phone Number Removed",
+        description: "You won't get any more WhatsApp messages",
+      });
+      
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/me"] });
+    } catch (error: any) {
+      console.error("Error removing phone number:", error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to remove phone number. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+  
+  const handleWhatsAppConsentChange = async (optIn: boolean) => {
+    try {
+      setIsUpdating(true);
+      
+      await apiRequest("PUT", `/api/players/${user?.id}/messaging-consent`, {
+        whatsappOptIn: optIn,
+      });
+      
+      setWhatsappOptIn(optIn);
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/me"] });
+    } catch (error: any) {
+      console.error("Error updating WhatsApp consent:", error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update WhatsApp messages. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+  
+  const handleSavePositions = async () => {
+    try {
+      setIsUpdating(true);
+      
+      await apiRequest("PUT", `/api/players/${user?.id}/positions`, {
+        preferredPosition: positions.preferredPosition === "none" ? null : positions.preferredPosition,
+        secondaryPosition: positions.secondaryPosition === "none" ? null : positions.secondaryPosition,
+      });
+      
+      toast({
+        title: "Positions Updated",
+        description: "Your playing positions have been saved",
+      });
+      
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/me"] });
     } catch (error) {
-      console.error("Error updating profile:", error);
+      console.error("Error updating positions:", error);
       toast({
         title: "Error",
-        description: "Failed to update profile. Please try again.",
+        description: "Failed to update positions. Your secondary position must differ from your preferred one.",
         variant: "destructive",
       });
     } finally {
@@ -148,6 +330,24 @@ export default function Settings() {
         description: "Your notification preferences have been saved",
       });
       
+      // Push is turned on or off for this device as well as in the preferences
+      if (isPushSupported()) {
+        try {
+          if (notifications.pushNotifications) {
+            await subscribeToPush();
+          } else {
+            await unsubscribeFromPush();
+          }
+        } catch (error: any) {
+          toast({
+            title: "Push Notifications",
+            description: error.message || "Couldn't set up push notifications on this device",
+            variant: "destructive",
+          });
+        }
+      }
+      
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/me"] });
     } catch (error) {
       console.error("Error updating notifications:", error);
       toast({
@@ -198,6 +398,54 @@ export default function Settings() {
                   Team
                 </TabsTrigger>
               )}
+              {user?.role === "admin" && (
+                <TabsTrigger 
+                  value="cancellations" 
+                  className="rounded-none data-[state=active]:border-b-2 data-[state=active]:border-primary-DEFAULT py-3 px-6"
+                >
+                  Cancellations
+                </TabsTrigger>
+              )}
+              {user?.role === "admin" && (
+                <TabsTrigger 
+                  value="weather" 
+                  className="rounded-none data-[state=active]:border-b-2 data-[state=active]:border-primary-DEFAULT py-3 px-6"
+                >
+                  Weather
+                </TabsTrigger>
+              )}
+              {user?.role === "admin" && (
+                <TabsTrigger 
+                  value="venues" 
+                  className="rounded-none data-[state=active]:border-b-2 data-[state=active]:border-primary-DEFAULT py-3 px-6"
+                >
+                  Venues
+                </TabsTrigger>
+              )}
+              {user?.role === "admin" && (
+                <TabsTrigger 
+                  value="pricing" 
+                  className="rounded-none data-[state=active]:border-b-2 data-[state=active]:border-primary-DEFAULT py-3 px-6"
+                >
+                  Pricing
+                </TabsTrigger>
+              )}
+              {user?.role === "admin" && (
+                <TabsTrigger 
+                  value="messages" 
+                  className="rounded-none data-[state=active]:border-b-2 data-[state=active]:border-primary-DEFAULT py-3 px-6"
+                >
+                  Messages
+                </TabsTrigger>
+              )}
+              {user?.isPlatformAdmin && (
+                <TabsTrigger 
+                  value="jobs" 
+                  className="rounded-none data-[state=active]:border-b-2 data-[state=active]:border-primary-DEFAULT py-3 px-6"
+                >
+                  Jobs
+                </TabsTrigger>
+              )}
               <TabsTrigger 
                 value="notifications" 
                 className="rounded-none data-[state=active]:border-b-2 data-[state=active]:border-primary-DEFAULT py-3 px-6"
@@ -251,9 +499,149 @@ export default function Settings() {
               
               <Separator />
               
+              <div>
+                <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100">Playing Positions</h3>
+                <p className="text-sm text-gray-500 dark:text-gray-400">Used to put you in the right place when teams are picked</p>
+                
+                <div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="preferredPosition">Preferred Position</Label>
+                    <Select
+                      value={positions.preferredPosition}
+                      onValueChange={(value) => setPositions(prev => ({ ...prev, preferredPosition: value }))}
+                    >
+                      <SelectTrigger id="preferredPosition" className="mt-1">
+                        <SelectValue placeholder="Select a position" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">No preference</SelectItem>
+                        <SelectItem value="GK">Goalkeeper</SelectItem>
+                        <SelectItem value="DEF">Defender</SelectItem>
+                        <SelectItem value="MID">Midfielder</SelectItem>
+                        <SelectItem value="ATT">Attacker</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label htmlFor="secondaryPosition">Secondary Position</Label>
+                    <Select
+                      value={positions.secondaryPosition}
+                      onValueChange={(value) => setPositions(prev => ({ ...prev, secondaryPosition: value }))}
+                    >
+                      <SelectTrigger id="secondaryPosition" className="mt-1">
+                        <SelectValue placeholder="Select a position" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">No preference</SelectItem>
+                        <SelectItem value="GK">Goalkeeper</SelectItem>
+                        <SelectItem value="DEF">Defender</SelectItem>
+                        <SelectItem value="MID">Midfielder</SelectItem>
+                        <SelectItem value="ATT">Attacker</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+                
+                <div className="mt-4 flex justify-end">
+                  <Button variant="outline" onClick={handleSavePositions} disabled={isUpdating}>
+                    Save Positions
+                  </Button>
+                </div>
+              </div>
+              
+              <Separator />
+              
+              <div>
+                <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100">WhatsApp</h3>
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                  Reply IN, OUT or WAITLIST to match messages to join, drop out or queue for a spot
+                </p>
+                
+                <div className="mt-4">
+                  <Label htmlFor="phone">Phone Number</Label>
+                  <Input
+                    id="phone"
+                    type="tel"
+                    value={phone}
+                    onChange={(e) => setPhone(e.target.value)}
+                    className="mt-1"
+                    placeholder="+44 7123 456789"
+                  />
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                    {user?.phone && user?.phoneVerifiedAt
+                      ? `Verified: ${user.phone}`
+                      : "Include your country code. We'll send you a code to check it's yours."}
+                  </p>
+                </div>
+                
+                {codeSent && (
+                  <div className="mt-4 space-y-3">
+                    <div>
+                      <Label htmlFor="verificationCode">Verification Code</Label>
+                      <Input
+                        id="verificationCode"
+                        inputMode="numeric"
+                        autoComplete="one-time-code"
+                        value={verificationCode}
+                        onChange={(e) => setVerificationCode(e.target.value)}
+                        className="mt-1"
+                      />
+                    </div>
+                    <div className="flex items-center justify-between">
+                      <Label htmlFor="verifyOptIn">Send me match messages on WhatsApp</Label>
+                      <Switch
+                        id="verifyOptIn"
+                        checked={whatsappOptIn}
+                        onCheckedChange={setWhatsappOptIn}
+                      />
+                    </div>
+                  </div>
+                )}
+                
+                <div className="mt-4 flex justify-end gap-2">
+                  {user?.phone && (
+                    <Button variant="outline" onClick={handleRemovePhone} disabled={isUpdating}>
+                      Remove Number
+                    </Button>
+                  )}
+                  {codeSent ? (
+                    <Button onClick={handleVerifyPhone} disabled={isUpdating || verificationCode.trim() === ""}>
+                      Verify
+                    </Button>
+                  ) : (
+                    <Button
+                      variant="outline"
+                      onClick={handleSendPhoneCode}
+                      disabled={isUpdating || phone.trim() === "" || (phone === user?.phone && !!user?.phoneVerifiedAt)}
+                    >
+                      Send Code
+                    </Button>
+                  )}
+                </div>
+                
+                {user?.phone && user?.phoneVerifiedAt && (
+                  <div className="mt-4 flex items-center justify-between">
+                    <div>
+                      <Label htmlFor="whatsappOptIn">WhatsApp Messages</Label>
+                      <p className="text-sm text-gray-500 dark:text-gray-400">
+                        Get match messages and booking updates on WhatsApp. You can also reply STOP or START.
+                      </p>
+                    </div>
+                    <Switch
+                      id="whatsappOptIn"
+                      checked={user.whatsappOptIn ?? false}
+                      onCheckedChange={handleWhatsAppConsentChange}
+                      disabled={isUpdating}
+                    />
+                  </div>
+                )}
+              </div>
+              
+              <Separator />
+              
               <div>
                 <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100">Security</h3>
-                <p className="text-sm text-gray-500 dark:text-gray-400">Update your password</p>
+                <p className="text-sm text-gray-500 dark:text-gray-400">Change your password. It needs at least 8 characters.</p>
                 
                 <div className="mt-4 space-y-4">
                   <div>
@@ -262,6 +650,7 @@ export default function Settings() {
                       id="currentPassword"
                       name="currentPassword"
                       type="password"
+                      autoComplete="current-password"
                       value={profileForm.currentPassword}
                       onChange={handleProfileFormChange}
                       className="mt-1"
@@ -274,6 +663,7 @@ export default function Settings() {
                       id="newPassword"
                       name="newPassword"
                       type="password"
+                      autoComplete="new-password"
                       value={profileForm.newPassword}
                       onChange={handleProfileFormChange}
                       className="mt-1"
@@ -286,11 +676,22 @@ export default function Settings() {
                       id="confirmPassword"
                       name="confirmPassword"
                       type="password"
+                      autoComplete="new-password"
                       value={profileForm.confirmPassword}
                       onChange={handleProfileFormChange}
                       className="mt-1"
                     />
                   </div>
+                  
+                  <div className="flex justify-end">
+                    <Button
+                      variant="outline"
+                      onClick={handleChangePassword}
+                      disabled={isUpdating || !profileForm.currentPassword || !profileForm.newPassword}
+                    >
+                      Change Password
+                    </Button>
+                  </div>
                 </div>
               </div>
               
@@ -382,6 +783,36 @@ export default function Settings() {
               </div>
             </TabsContent>
             
+            <TabsContent value="cancellations" className="p-6 space-y-6 focus:outline-none">
+              {user?.teamId && <CancellationPolicyEditor teamId={user.teamId} />}
+            </TabsContent>
+            
+            <TabsContent value="weather" className="p-6 space-y-6 focus:outline-none">
+              {user?.teamId && <WeatherRulesEditor teamId={user.teamId} />}
+            </TabsContent>
+            
+            <TabsContent value="venues" className="p-6 space-y-6 focus:outline-none">
+              <VenueManager />
+            </TabsContent>
+            
+            <TabsContent value="pricing" className="p-6 space-y-6 focus:outline-none">
+              {user?.teamId && <PricingSettings teamId={user.teamId} />}
+            </TabsContent>
+            
+            <TabsContent value="messages" className="p-6 space-y-6 focus:outline-none">
+              {user?.teamId && (
+                <>
+                  <MessageTemplatesEditor teamId={user.teamId} />
+                  <Separator />
+                  <DeliveryLog teamId={user.teamId} />
+                </>
+              )}
+            </TabsContent>
+            
+            <TabsContent value="jobs" className="p-6 space-y-6 focus:outline-none">
+              <JobQueue />
+            </TabsContent>
+            
             <TabsContent value="notifications" className="p-6 space-y-6 focus:outline-none">
               <div>
                 <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100">Notification Preferences</h3>
@@ -400,6 +831,28 @@ export default function Settings() {
                     />
                   </div>
                   
+                  {notifications.emailNotifications && (
+                    <div className="flex items-center justify-between">
+                      <div className="space-y-0.5">
+                        <Label htmlFor="emailDigest">Email Digest</Label>
+                        <p className="text-sm text-gray-500 dark:text-gray-400">Get one email with everything you haven't read instead of an email each time</p>
+                      </div>
+                      <Select
+                        value={notifications.emailDigest}
+                        onValueChange={(value) => handleNotificationChange("emailDigest", value)}
+                      >
+                        <SelectTrigger id="emailDigest" className="w-40">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="off">Send each email</SelectItem>
+                          <SelectItem value="daily">Daily digest</SelectItem>
+                          <SelectItem value="weekly">Weekly digest</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+                  
                   <Separator />
                   
                   <div className="flex items-center justify-between">
@@ -455,6 +908,56 @@ export default function Settings() {
                       onCheckedChange={(checked) => handleNotificationChange("teamAnnouncements", checked)}
                     />
                   </div>
+                  
+                  <Separator />
+                  
+                  <div className="flex items-center justify-between">
+                    <div className="space-y-0.5">
+                      <Label htmlFor="quietHours">Quiet Hours</Label>
+                      <p className="text-sm text-gray-500 dark:text-gray-400">No emails, WhatsApp messages or push notifications during these hours. Notifications still appear in the app.</p>
+                    </div>
+                    <Switch
+                      id="quietHours"
+                      checked={notifications.quietHours.enabled}
+                      onCheckedChange={(checked) => handleQuietHoursChange("enabled", checked)}
+                    />
+                  </div>
+                  
+                  {notifications.quietHours.enabled && (
+                    <div className="flex items-center gap-3">
+                      <Label htmlFor="quietHoursStart" className="text-sm">From</Label>
+                      <Input
+                        id="quietHoursStart"
+                        type="time"
+                        value={notifications.quietHours.start}
+                        onChange={(e) => handleQuietHoursChange("start", e.target.value)}
+                        className="w-32"
+                      />
+                      <Label htmlFor="quietHoursEnd" className="text-sm">to</Label>
+                      <Input
+                        id="quietHoursEnd"
+                        type="time"
+                        value={notifications.quietHours.end}
+                        onChange={(e) => handleQuietHoursChange("end", e.target.value)}
+                        className="w-32"
+                      />
+                      <span className="text-sm text-gray-500 dark:text-gray-400">
+                        {notifications.quietHours.timezone || browserTimeZone}
+                      </span>
+                    </div>
+                  )}
+                </div>
+              </div>
+              
+              <div>
+                <h3 className="text-lg font-medium text-gray-900 dark:text-gray-100">By Notification</h3>
+                <p className="text-sm text-gray-500 dark:text-gray-400">Choose where you get each kind of notification</p>
+                
+                <div className="mt-4">
+                  <NotificationTypePreferences
+                    value={notifications.types}
+                    onChange={(types) => setNotifications(prev => ({ ...prev, types }))}
+                  />
                 </div>
               </div>
               
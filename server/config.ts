@@ -17,12 +17,97 @@ export const MATCH_FORMATS = [
   { value: "11-a-side", label: "11-a-side" }
 ];
 
+// Formation each side lines up in for a match format, as players per position.
+// Positions are filled in this order, so the scarcest come first.
+export const FORMATIONS: Record<string, Record<string, number>> = {
+  "5-a-side": { GK: 1, DEF: 2, ATT: 2 },
+  "7-a-side": { GK: 1, DEF: 2, MID: 2, ATT: 2 },
+  "11-a-side": { GK: 1, DEF: 4, MID: 4, ATT: 2 }
+};
+
+// Recurring booking series settings
+export const RECURRING_BOOKINGS = {
+  // Supported repeat frequencies
+  FREQUENCIES: ["weekly", "fortnightly", "monthly"],
+  
+  // How far ahead occurrences are generated as real bookings (in days)
+  MATERIALIZE_DAYS_AHEAD: 56,
+  
+  // Hard cap on occurrences per series so a rule without an end can't run away
+  MAX_OCCURRENCES: 104
+};
+
+// Credit ledger accounts. Every posting moves credits from one account to another.
+export const LEDGER_ACCOUNTS = {
+  // Credits bought through Stripe
+  STRIPE: "platform:stripe",
+  
+  // Referral bonuses and other promotional credits
+  PROMOTIONS: "platform:promotions",
+  
+  // Manual corrections by an admin
+  ADJUSTMENTS: "platform:adjustments",
+  
+  // Balances that existed before the ledger was introduced
+  OPENING_BALANCE: "platform:opening-balance",
+  
+  // A player's credit wallet
+  user: (userId: number) => `user:${userId}`,
+  
+  // Credits earned by a team owner from bookings
+  teamOwner: (ownerId: number) => `team-owner:${ownerId}`
+};
+
+/**
+ * Get the account on the other side of a credit adjustment to a user's wallet
+ * @param type Credit transaction type
+ * @param teamOwnerId Team owner involved, for refunds, penalties and cost adjustments
+ */
+export function getLedgerCounterAccount(type: string, teamOwnerId?: number): string {
+  switch (type) {
+    case "purchase":
+      return LEDGER_ACCOUNTS.STRIPE;
+    case "referral_bonus":
+      return LEDGER_ACCOUNTS.PROMOTIONS;
+    case "refund":
+    case "no_show_penalty":
+    case "cost_adjustment":
+      return teamOwnerId ? LEDGER_ACCOUNTS.teamOwner(teamOwnerId) : LEDGER_ACCOUNTS.ADJUSTMENTS;
+    default:
+      return LEDGER_ACCOUNTS.ADJUSTMENTS;
+  }
+}
+
+/**
+ * Get the user a ledger account belongs to, if it's a user wallet
+ */
+export function getLedgerAccountUserId(account: string): number | null {
+  const match = /^user:(\d+)$/.exec(account);
+  return match ? parseInt(match[1]) : null;
+}
+
 // Roles in the system
 export const USER_ROLES = {
   ADMIN: "admin",
   PLAYER: "player"
 };
 
+// People who run the service itself, across every team
+export const PLATFORM_ADMINS = {
+  // Email addresses allowed into platform-wide tools such as the job queue (comma-separated)
+  EMAILS: (process.env.PLATFORM_ADMIN_EMAILS || "")
+    .split(",")
+    .map(email => email.trim().toLowerCase())
+    .filter(Boolean)
+};
+
+/**
+ * Check whether a user runs the service rather than just a team
+ */
+export function isPlatformAdmin(user: { email: string }): boolean {
+  return PLATFORM_ADMINS.EMAILS.includes(user.email.toLowerCase());
+}
+
 // Cancellation policy
 export const CANCELLATION_POLICY = {
   // Maximum number of cancellations allowed per month
@@ -35,6 +120,154 @@ export const CANCELLATION_POLICY = {
   DEFAULT_REFUND_PERCENTAGE: 100
 };
 
+// Waitlist settings
+export const WAITLIST = {
+  // How long a promoted player has to confirm a freed-up spot (in minutes)
+  CONFIRMATION_WINDOW_MINUTES: parseInt(process.env.WAITLIST_CONFIRMATION_WINDOW_MINUTES || "120"),
+  
+  // How often expired offers are checked and passed on (in minutes)
+  OFFER_CHECK_INTERVAL_MINUTES: 5
+};
+
+// Match line-up settings
+export const LINEUPS = {
+  // Bib colours given to each side when teams are generated
+  DEFAULT_BIB_COLOURS: {
+    A: "Orange",
+    B: "Blue"
+  } as Record<string, string>
+};
+
+// Skill rating settings (Elo-style)
+export const PLAYER_RATINGS = {
+  // Rating given to players with no rated matches
+  INITIAL_RATING: 1500,
+  
+  // Maximum rating change per match once a player is established
+  K_FACTOR: 24,
+  
+  // Larger changes while a player's rating is still settling
+  PROVISIONAL_K_FACTOR: 40,
+  PROVISIONAL_GAMES: 5,
+  
+  // Rating difference at which the stronger side is expected to win ~91% of the time
+  SCALE: 400,
+  
+  // Rating assumed for opponents outside the team, who aren't rated
+  EXTERNAL_OPPONENT_RATING: 1500
+};
+
+// Pitch cost splitting
+export const PRICING = {
+  // How each player's share is rounded to whole credits when a team hasn't chosen
+  DEFAULT_ROUNDING: "up",
+  
+  // Value of a credit (in £) when a team hasn't set one
+  DEFAULT_CREDIT_VALUE: 7,
+  
+  // How often played matches are checked for pitch costs to settle (in minutes)
+  SETTLEMENT_INTERVAL_MINUTES: 60
+};
+
+// Weather forecast settings
+export const WEATHER = {
+  // Forecast source: "open-meteo", "openweather", "mock" (deterministic, offline)
+  // or "fixture" (replays recorded responses, offline)
+  PROVIDER: process.env.WEATHER_PROVIDER || "mock",
+  
+  // API key for the OpenWeather provider
+  OPENWEATHER_API_KEY: process.env.OPENWEATHER_API_KEY || "",
+  
+  // Recorded responses used by the fixture provider
+  FIXTURE_PATH: process.env.WEATHER_FIXTURE_PATH || "server/fixtures/weather.json",
+  
+  // Set to a live provider name to record its responses into the fixture file
+  FIXTURE_RECORD_FROM: process.env.WEATHER_FIXTURE_RECORD_FROM || "",
+  
+  // How long a fetched forecast is reused before asking the provider again (in minutes)
+  FORECAST_CACHE_MINUTES: 60,
+  
+  // Only bookings this close get forecasts - further out they aren't reliable (in days)
+  FORECAST_DAYS_AHEAD: 7,
+  
+  // How often forecasts for upcoming bookings are refreshed (in hours)
+  UPDATE_INTERVAL_HOURS: 12,
+  
+  // Give up on a provider request after this long (in milliseconds)
+  REQUEST_TIMEOUT_MS: 10000
+};
+
+// WhatsApp Business (Meta Cloud API) webhook settings
+export const WHATSAPP = {
+  // Token Meta sends back when subscribing the webhook
+  VERIFY_TOKEN: process.env.WHATSAPP_VERIFY_TOKEN || "",
+  
+  // App secret used to check the X-Hub-Signature-256 header on webhook calls.
+  // Without it webhook calls are refused.
+  APP_SECRET: process.env.WHATSAPP_APP_SECRET || "",
+  
+  // Accept unsigned webhook calls when no app secret is set. Development only:
+  // anyone could post a reply as any player.
+  ALLOW_UNSIGNED_WEBHOOKS: process.env.NODE_ENV === "development" &&
+    process.env.WHATSAPP_ALLOW_UNSIGNED_WEBHOOKS === "true",
+  
+  // Replies that a player can send to a match message
+  RSVP_REPLIES: ["IN", "OUT", "WAITLIST"],
+  
+  // Replies that opt a player out of, or back in to, WhatsApp messages
+  OPT_OUT_REPLIES: ["STOP", "UNSUBSCRIBE"],
+  OPT_IN_REPLIES: ["START", "SUBSCRIBE"]
+};
+
+// Phone number verification settings
+export const PHONE_VERIFICATION = {
+  // How codes are sent: "whatsapp", "sms" or "test" (kept in memory, nothing is sent)
+  SENDER: process.env.PHONE_VERIFICATION_SENDER || "test",
+  
+  // Twilio account used by the SMS sender
+  TWILIO_ACCOUNT_SID: process.env.TWILIO_ACCOUNT_SID || "",
+  TWILIO_AUTH_TOKEN: process.env.TWILIO_AUTH_TOKEN || "",
+  TWILIO_FROM_NUMBER: process.env.TWILIO_FROM_NUMBER || "",
+  
+  // Digits in a verification code
+  CODE_LENGTH: 6,
+  
+  // How long a code can be used for (in minutes)
+  CODE_EXPIRY_MINUTES: 10,
+  
+  // Wrong guesses allowed before the code stops working
+  MAX_ATTEMPTS: 5,
+  
+  // Wait before another code can be sent (in seconds)
+  RESEND_COOLDOWN_SECONDS: 60,
+  
+  // Give up on a sender request after this long (in milliseconds)
+  REQUEST_TIMEOUT_MS: 10000
+};
+
+// Password settings
+export const PASSWORDS = {
+  // bcrypt cost factor. Raising it rehashes each password the next time its owner logs in.
+  BCRYPT_ROUNDS: parseInt(process.env.BCRYPT_ROUNDS || "12"),
+  
+  // How long a reset link can be used for (in minutes)
+  RESET_TOKEN_EXPIRY_MINUTES: 60,
+  
+  // Wait before another reset link can be sent to the same account (in seconds)
+  RESET_REQUEST_COOLDOWN_SECONDS: 60
+};
+
+// Message template settings
+export const MESSAGE_TEMPLATES = {
+  // Language used when a message doesn't ask for one. Also decides how dates
+  // and times are written, e.g. "en-GB" gives "19 Oct 2026, 18:30".
+  DEFAULT_LOCALE: process.env.MESSAGE_LOCALE || "en-GB",
+  
+  // Language the built-in templates are written in. Translations and team
+  // overrides fall back to it when they don't cover a message.
+  FALLBACK_LOCALE: "en"
+};
+
 // Notification settings
 export const NOTIFICATION_SETTINGS = {
   // Send match reminder X hours before the match
@@ -43,10 +276,127 @@ export const NOTIFICATION_SETTINGS = {
   // Default notification settings for users
   DEFAULT_USER_SETTINGS: {
     emailNotifications: true,
+    emailDigest: "off" as const,
     pushNotifications: true,
     matchReminders: true,
     bookingConfirmations: true,
     cancellationAlerts: true,
-    teamUpdates: true
+    teamUpdates: true,
+    statsUpdates: true,
+    teamAnnouncements: true,
+    quietHours: {
+      enabled: false,
+      start: "22:00",
+      end: "07:00"
+    },
+    types: {} as Record<string, Partial<Record<"in_app" | "whatsapp" | "email" | "push", boolean>>>
   }
-};
\ No newline at end of file
+};
+
+// Email settings
+export const EMAIL = {
+  // How emails are sent: "smtp", "sendgrid", "file" (written to FILE_DIR) or
+  // "memory" (kept in memory, nothing is sent)
+  TRANSPORT: process.env.EMAIL_TRANSPORT || "memory",
+  
+  // Sender shown on every email
+  FROM: process.env.EMAIL_FROM || "KickBook <no-reply@kickbook.app>",
+  
+  // SMTP server used by the smtp transport
+  SMTP_HOST: process.env.SMTP_HOST || "",
+  SMTP_PORT: parseInt(process.env.SMTP_PORT || "587"),
+  SMTP_SECURE: process.env.SMTP_SECURE === "true", // TLS from the start (port 465) rather than STARTTLS
+  SMTP_USER: process.env.SMTP_USER || "",
+  SMTP_PASSWORD: process.env.SMTP_PASSWORD || "",
+  
+  // API key used by the sendgrid transport
+  SENDGRID_API_KEY: process.env.SENDGRID_API_KEY || "",
+  
+  // Where the file transport writes emails
+  FILE_DIR: process.env.EMAIL_FILE_DIR || "tmp/emails",
+  
+  // Links in emails point here
+  APP_URL: process.env.APP_URL || "http://localhost:5000",
+  
+  // Digests go out from this hour (server time), weekly ones on this day (0 = Sunday)
+  DIGEST_HOUR: 7,
+  DIGEST_WEEKDAY: 1,
+  
+  // How often to check for digests that are due (in minutes)
+  DIGEST_CHECK_INTERVAL_MINUTES: 30
+};
+// Web push settings
+export const PUSH = {
+  // VAPID keys identify this server to browsers' push services.
+  // Generate a pair with `npx web-push generate-vapid-keys`
+  VAPID_PUBLIC_KEY: process.env.VAPID_PUBLIC_KEY || "",
+  VAPID_PRIVATE_KEY: process.env.VAPID_PRIVATE_KEY || "",
+  
+  // Contact push services can use if there's a problem with our messages
+  VAPID_SUBJECT: process.env.VAPID_SUBJECT || "mailto:support@kickbook.app",
+  
+  // How long a push service keeps trying to deliver a message (in seconds)
+  TTL_SECONDS: 60 * 60 * 12,
+  
+  // How often to remove subscriptions that have expired (in hours)
+  CLEANUP_INTERVAL_HOURS: 24
+};
+
+// Calendar integration settings
+export const CALENDAR = {
+  // How often connected calendars are brought up to date (in hours)
+  SYNC_INTERVAL_HOURS: 6,
+  
+  // Feed URLs start with this; calendar apps fetch them from outside, so it must be public
+  FEED_BASE_URL: process.env.APP_URL || "http://localhost:5000",
+  
+  // Feeds keep matches this many days after they've been played
+  FEED_PAST_DAYS: 30,
+  
+  // How often calendar apps are asked to refresh a feed (in minutes)
+  FEED_REFRESH_MINUTES: 60,
+  
+  // "live" talks to the calendar providers' APIs; "memory" keeps events in
+  // memory and connects without a real OAuth app, for development and tests
+  PROVIDER_MODE: process.env.CALENDAR_PROVIDER_MODE
+    || (process.env.GOOGLE_CLIENT_ID || process.env.MICROSOFT_CLIENT_ID ? "live" : "memory"),
+  
+  // Google OAuth app that players connect their calendars to
+  GOOGLE_CLIENT_ID: process.env.GOOGLE_CLIENT_ID || "",
+  GOOGLE_CLIENT_SECRET: process.env.GOOGLE_CLIENT_SECRET || "",
+  GOOGLE_REDIRECT_URI: process.env.GOOGLE_REDIRECT_URI || "http://localhost:5000/api/calendar/google/callback",
+  
+  // Microsoft app that players connect Outlook/Microsoft 365 calendars to
+  MICROSOFT_CLIENT_ID: process.env.MICROSOFT_CLIENT_ID || "",
+  MICROSOFT_CLIENT_SECRET: process.env.MICROSOFT_CLIENT_SECRET || "",
+  MICROSOFT_TENANT: process.env.MICROSOFT_TENANT || "common", // "common" lets both work and personal accounts sign in
+  MICROSOFT_REDIRECT_URI: process.env.MICROSOFT_REDIRECT_URI || "http://localhost:5000/api/calendar/microsoft/callback",
+  
+  // Serve a local CalDAV server at /dev/caldav to connect to in development and tests
+  CALDAV_STAND_IN: process.env.CALDAV_STAND_IN === "true",
+  
+  // Access tokens expiring within this many minutes are refreshed before syncing
+  TOKEN_REFRESH_MARGIN_MINUTES: 5
+};
+
+// Background job queue settings
+export const JOBS = {
+  // How often each instance looks for jobs that are due (in seconds)
+  POLL_INTERVAL_SECONDS: 15,
+  
+  // Most jobs an instance runs each time it polls
+  BATCH_SIZE: 10,
+  
+  // How long an instance has to finish a job before another can take it over (in seconds)
+  LEASE_SECONDS: 5 * 60,
+  
+  // Tries before a job is marked failed
+  MAX_ATTEMPTS: 5,
+  
+  // Wait before a retry doubles each time, from RETRY_BASE_SECONDS up to RETRY_MAX_SECONDS
+  RETRY_BASE_SECONDS: 30,
+  RETRY_MAX_SECONDS: 60 * 60,
+  
+  // How long completed and failed jobs are kept (in days)
+  RETENTION_DAYS: 14
+};
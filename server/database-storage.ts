@@ -4,13 +4,31 @@ import {
   PlayerStats, InsertPlayerStats, Achievement, PlayerAchievement,
   CreditTransaction, InsertCreditTransaction, Notification, InsertNotification,
   CalendarIntegration, InsertCalendarIntegration,
-  users, teams, bookings, playerBookings, matchStats, playerStats,
+  BookingSeries, InsertBookingSeries, CreditLedgerEntry, PlayerRating, InsertPlayerRating,
+  MatchLineupEntry, InsertMatchLineupEntry, PairConstraint, InsertPairConstraint,
+  LocationGeocode, InsertLocationGeocode, Venue, InsertVenue, WeatherRule, InsertWeatherRule, WeatherAlert, InsertWeatherAlert,
+  PitchCostEntry, InsertPitchCostEntry, WhatsAppMessage, InsertWhatsAppMessage,
+  PhoneVerification, InsertPhoneVerification, PasswordResetToken, InsertPasswordResetToken,
+  MessagingConsent, InsertMessagingConsent,
+  MessageTemplateOverride, InsertMessageTemplateOverride, EmailDigest, InsertEmailDigest,
+  NotificationSuppression, InsertNotificationSuppression, PushSubscription, InsertPushSubscription,
+  Job, InsertJob, CalendarFeed, InsertCalendarFeed, CalendarEventLink, InsertCalendarEventLink,
+  AvailabilityPoll, InsertAvailabilityPoll, AvailabilityPollOption, InsertAvailabilityPollOption,
+  AvailabilityPollResponse, InsertAvailabilityPollResponse,
+  users, teams, venues, bookings, playerBookings, matchStats, playerStats,
   achievements, playerAchievements, creditTransactions, notifications,
-  calendarIntegrations
+  calendarIntegrations, bookingSeries, creditLedgerEntries, playerRatings, matchLineups, pairConstraints, locationGeocodes,
+  weatherRules, weatherAlerts, pitchCostEntries, whatsappMessages, phoneVerifications, passwordResetTokens, messagingConsents,
+  messageTemplateOverrides, emailDigests, notificationSuppressions, pushSubscriptions, jobs, calendarFeeds, calendarEventLinks, availabilityPolls, availabilityPollOptions, availabilityPollResponses, SLOT_HOLDING_STATUSES,
+  BOOKING_CALENDAR_FIELDS
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, and } from "drizzle-orm";
-import { IStorage } from "./storage";
+import { eq, and, or, asc, desc, gt, inArray, isNotNull, isNull, lt, lte, ne, sql } from "drizzle-orm";
+import { randomUUID } from "crypto";
+import { IStorage, LedgerTransfer } from "./storage";
+import { LEDGER_ACCOUNTS, getLedgerAccountUserId, getLedgerCounterAccount } from "./config";
+
+type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
 
 export class DatabaseStorage implements IStorage {
   // Users
@@ -28,6 +46,11 @@ export class DatabaseStorage implements IStorage {
     const [user] = await db.select().from(users).where(eq(users.email, email));
     return user;
   }
+  
+  async getUserByPhone(phone: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.phone, phone));
+    return user;
+  }
 
   async createUser(insertUser: InsertUser): Promise<User> {
     const [user] = await db.insert(users).values(insertUser).returning();
@@ -42,6 +65,10 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  async getAllUsers(): Promise<User[]> {
+    return await db.select().from(users);
+  }
+
   // Teams
   async getTeam(id: number): Promise<Team | undefined> {
     const [team] = await db.select().from(teams).where(eq(teams.id, id));
@@ -69,6 +96,37 @@ export class DatabaseStorage implements IStorage {
     return team;
   }
 
+  // Venues
+  async getVenue(id: number): Promise<Venue | undefined> {
+    const [venue] = await db.select().from(venues).where(eq(venues.id, id));
+    return venue;
+  }
+
+  async getVenuesByTeam(teamId: number): Promise<Venue[]> {
+    return await db.select()
+      .from(venues)
+      .where(eq(venues.teamId, teamId))
+      .orderBy(asc(venues.name));
+  }
+
+  async createVenue(insertVenue: InsertVenue): Promise<Venue> {
+    const [venue] = await db.insert(venues).values(insertVenue).returning();
+    return venue;
+  }
+
+  async updateVenue(id: number, update: Partial<Venue>): Promise<Venue | undefined> {
+    const [venue] = await db.update(venues)
+      .set(update)
+      .where(eq(venues.id, id))
+      .returning();
+    return venue;
+  }
+
+  async deleteVenue(id: number): Promise<boolean> {
+    const result = await db.delete(venues).where(eq(venues.id, id)).returning();
+    return result.length > 0;
+  }
+
   // Bookings
   async getBooking(id: number): Promise<Booking | undefined> {
     const [booking] = await db.select().from(bookings).where(eq(bookings.id, id));
@@ -85,8 +143,10 @@ export class DatabaseStorage implements IStorage {
   }
 
   async updateBooking(id: number, update: Partial<Booking>): Promise<Booking | undefined> {
+    // Calendar apps only pick up a changed event if its SEQUENCE goes up
+    const bumpSequence = BOOKING_CALENDAR_FIELDS.some(field => field in update);
     const [booking] = await db.update(bookings)
-      .set(update)
+      .set(bumpSequence ? { ...update, calendarSequence: sql`${bookings.calendarSequence} + 1` } : update)
       .where(eq(bookings.id, id))
       .returning();
     return booking;
@@ -102,6 +162,40 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  async getBookingsBySeries(seriesId: number): Promise<Booking[]> {
+    return await db.select()
+      .from(bookings)
+      .where(eq(bookings.seriesId, seriesId))
+      .orderBy(asc(bookings.startTime));
+  }
+
+  // Booking Series
+  async getBookingSeries(id: number): Promise<BookingSeries | undefined> {
+    const [series] = await db.select().from(bookingSeries).where(eq(bookingSeries.id, id));
+    return series;
+  }
+
+  async getBookingSeriesByTeam(teamId: number): Promise<BookingSeries[]> {
+    return await db.select().from(bookingSeries).where(eq(bookingSeries.teamId, teamId));
+  }
+
+  async getActiveBookingSeries(): Promise<BookingSeries[]> {
+    return await db.select().from(bookingSeries).where(eq(bookingSeries.isActive, true));
+  }
+
+  async createBookingSeries(insertSeries: InsertBookingSeries): Promise<BookingSeries> {
+    const [series] = await db.insert(bookingSeries).values(insertSeries).returning();
+    return series;
+  }
+
+  async updateBookingSeries(id: number, update: Partial<BookingSeries>): Promise<BookingSeries | undefined> {
+    const [series] = await db.update(bookingSeries)
+      .set(update)
+      .where(eq(bookingSeries.id, id))
+      .returning();
+    return series;
+  }
+
   // Player Bookings
   async getPlayerBooking(id: number): Promise<PlayerBooking | undefined> {
     const [playerBooking] = await db.select().from(playerBookings).where(eq(playerBookings.id, id));
@@ -116,8 +210,21 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(playerBookings).where(eq(playerBookings.playerId, playerId));
   }
 
+  async getPlayerBookingsByStatus(status: string): Promise<PlayerBooking[]> {
+    return await db.select().from(playerBookings).where(eq(playerBookings.status, status));
+  }
+
   async createPlayerBooking(insertPlayerBooking: InsertPlayerBooking): Promise<PlayerBooking> {
     const [playerBooking] = await db.insert(playerBookings).values(insertPlayerBooking).returning();
+    
+    // Update available slots (waitlisted players don't take a slot)
+    const booking = await this.getBooking(playerBooking.bookingId);
+    if (booking && booking.availableSlots > 0 && SLOT_HOLDING_STATUSES.includes(playerBooking.status)) {
+      await this.updateBooking(booking.id, {
+        availableSlots: booking.availableSlots - 1
+      });
+    }
+    
     return playerBooking;
   }
 
@@ -131,8 +238,18 @@ export class DatabaseStorage implements IStorage {
 
   async deletePlayerBooking(id: number): Promise<boolean> {
     try {
-      const result = await db.delete(playerBookings).where(eq(playerBookings.id, id));
-      return !!result.rowCount;
+      const [playerBooking] = await db.delete(playerBookings).where(eq(playerBookings.id, id)).returning();
+      if (!playerBooking) return false;
+      
+      // Restore available slot
+      const booking = await this.getBooking(playerBooking.bookingId);
+      if (booking && SLOT_HOLDING_STATUSES.includes(playerBooking.status)) {
+        await this.updateBooking(booking.id, {
+          availableSlots: booking.availableSlots + 1
+        });
+      }
+      
+      return true;
     } catch (error) {
       console.error("Error deleting player booking:", error);
       return false;
@@ -199,7 +316,86 @@ export class DatabaseStorage implements IStorage {
     
     return stats;
   }
+  
+  // Match Line-ups
+  async getMatchLineup(bookingId: number): Promise<MatchLineupEntry[]> {
+    return await db.select()
+      .from(matchLineups)
+      .where(eq(matchLineups.bookingId, bookingId))
+      .orderBy(asc(matchLineups.id));
+  }
+  
+  async replaceMatchLineup(bookingId: number, entries: InsertMatchLineupEntry[]): Promise<MatchLineupEntry[]> {
+    return await db.transaction(async (tx) => {
+      await tx.delete(matchLineups).where(eq(matchLineups.bookingId, bookingId));
+      
+      if (entries.length === 0) return [];
+      
+      return await tx.insert(matchLineups)
+        .values(entries.map(entry => ({ ...entry, bookingId })))
+        .returning();
+    });
+  }
+  
+  // Pair Constraints
+  async getPairConstraint(id: number): Promise<PairConstraint | undefined> {
+    const [constraint] = await db.select().from(pairConstraints).where(eq(pairConstraints.id, id));
+    return constraint;
+  }
+
+  async getPairConstraintsByTeam(teamId: number): Promise<PairConstraint[]> {
+    return await db.select()
+      .from(pairConstraints)
+      .where(and(eq(pairConstraints.teamId, teamId), isNull(pairConstraints.bookingId)));
+  }
 
+  async getPairConstraintsByBooking(bookingId: number): Promise<PairConstraint[]> {
+    return await db.select().from(pairConstraints).where(eq(pairConstraints.bookingId, bookingId));
+  }
+
+  async createPairConstraint(insertConstraint: InsertPairConstraint): Promise<PairConstraint> {
+    const [constraint] = await db.insert(pairConstraints).values(insertConstraint).returning();
+    return constraint;
+  }
+
+  async deletePairConstraint(id: number): Promise<boolean> {
+    const result = await db.delete(pairConstraints).where(eq(pairConstraints.id, id)).returning();
+    return result.length > 0;
+  }
+  
+  // Player Ratings
+  async getPlayerRatingHistory(playerId: number): Promise<PlayerRating[]> {
+    return await db.select()
+      .from(playerRatings)
+      .where(eq(playerRatings.playerId, playerId))
+      .orderBy(asc(playerRatings.id));
+  }
+  
+  async getLatestPlayerRating(playerId: number): Promise<PlayerRating | undefined> {
+    const [rating] = await db.select()
+      .from(playerRatings)
+      .where(eq(playerRatings.playerId, playerId))
+      .orderBy(desc(playerRatings.id))
+      .limit(1);
+    return rating;
+  }
+  
+  async getPlayerRatingsByBooking(bookingId: number): Promise<PlayerRating[]> {
+    return await db.select().from(playerRatings).where(eq(playerRatings.bookingId, bookingId));
+  }
+  
+  async replaceMatchRatings(bookingId: number, ratings: InsertPlayerRating[]): Promise<PlayerRating[]> {
+    return await db.transaction(async (tx) => {
+      await tx.delete(playerRatings).where(eq(playerRatings.bookingId, bookingId));
+      
+      if (ratings.length === 0) return [];
+      
+      return await tx.insert(playerRatings)
+        .values(ratings.map(rating => ({ ...rating, bookingId })))
+        .returning();
+    });
+  }
+  
   // Stripe
   async updateUserStripeInfo(userId: number, stripeCustomerId: string, stripeSubscriptionId: string): Promise<User | undefined> {
     const [user] = await db.update(users)
@@ -436,95 +632,298 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  async markNotificationsEmailed(ids: number[], emailedAt: Date): Promise<void> {
+    if (ids.length === 0) return;
+    
+    await db.update(notifications)
+      .set({ emailedAt })
+      .where(inArray(notifications.id, ids));
+  }
+
+  // Email Digests
+  async getEmailDigest(userId: number, frequency: string, period: string): Promise<EmailDigest | undefined> {
+    const [digest] = await db.select()
+      .from(emailDigests)
+      .where(and(
+        eq(emailDigests.userId, userId),
+        eq(emailDigests.frequency, frequency),
+        eq(emailDigests.period, period)
+      ));
+    return digest;
+  }
+
+  async createEmailDigest(insertDigest: InsertEmailDigest): Promise<EmailDigest | undefined> {
+    const [digest] = await db.insert(emailDigests)
+      .values(insertDigest)
+      .onConflictDoNothing()
+      .returning();
+    return digest;
+  }
+
+  // Notification Suppressions
+  async createNotificationSuppression(insertSuppression: InsertNotificationSuppression): Promise<NotificationSuppression> {
+    const [suppression] = await db.insert(notificationSuppressions).values(insertSuppression).returning();
+    return suppression;
+  }
+
+  async getNotificationSuppressionsByTeam(
+    teamId: number,
+    filter: { userId?: number; bookingId?: number } = {}
+  ): Promise<NotificationSuppression[]> {
+    const conditions = [eq(notificationSuppressions.teamId, teamId)];
+    if (filter.userId !== undefined) conditions.push(eq(notificationSuppressions.userId, filter.userId));
+    if (filter.bookingId !== undefined) conditions.push(eq(notificationSuppressions.bookingId, filter.bookingId));
+    
+    return await db.select()
+      .from(notificationSuppressions)
+      .where(and(...conditions))
+      .orderBy(desc(notificationSuppressions.id));
+  }
+
+  async getNotificationSuppressionsByUser(userId: number): Promise<NotificationSuppression[]> {
+    return await db.select()
+      .from(notificationSuppressions)
+      .where(eq(notificationSuppressions.userId, userId))
+      .orderBy(desc(notificationSuppressions.id));
+  }
+
+  // Push Subscriptions
+  async getPushSubscriptionsByUser(userId: number): Promise<PushSubscription[]> {
+    return await db.select()
+      .from(pushSubscriptions)
+      .where(eq(pushSubscriptions.userId, userId));
+  }
+
+  async savePushSubscription(insertSubscription: InsertPushSubscription): Promise<PushSubscription> {
+    const [subscription] = await db.insert(pushSubscriptions)
+      .values(insertSubscription)
+      .onConflictDoUpdate({
+        target: pushSubscriptions.endpoint,
+        set: {
+          userId: insertSubscription.userId,
+          p256dh: insertSubscription.p256dh,
+          auth: insertSubscription.auth,
+          userAgent: insertSubscription.userAgent ?? null,
+          expiresAt: insertSubscription.expiresAt ?? null
+        }
+      })
+      .returning();
+    return subscription;
+  }
+
+  async deletePushSubscription(endpoint: string): Promise<boolean> {
+    const result = await db.delete(pushSubscriptions)
+      .where(eq(pushSubscriptions.endpoint, endpoint))
+      .returning();
+    return result.length > 0;
+  }
+
+  async markPushSubscriptionUsed(id: number, usedAt: Date): Promise<void> {
+    await db.update(pushSubscriptions)
+      .set({ lastUsedAt: usedAt })
+      .where(eq(pushSubscriptions.id, id));
+  }
+
+  async deleteExpiredPushSubscriptions(before: Date): Promise<number> {
+    const result = await db.delete(pushSubscriptions)
+      .where(and(isNotNull(pushSubscriptions.expiresAt), lte(pushSubscriptions.expiresAt, before)))
+      .returning();
+    return result.length;
+  }
+
+  // Jobs
+  async getJob(id: number): Promise<Job | undefined> {
+    const [job] = await db.select().from(jobs).where(eq(jobs.id, id));
+    return job;
+  }
+
+  async getJobByKey(key: string): Promise<Job | undefined> {
+    const [job] = await db.select().from(jobs).where(eq(jobs.key, key));
+    return job;
+  }
+
+  async createJob(insertJob: InsertJob): Promise<Job | undefined> {
+    const [job] = await db.insert(jobs)
+      .values(insertJob)
+      .onConflictDoNothing()
+      .returning();
+    return job;
+  }
+
+  async updateJob(id: number, jobData: Partial<Job>): Promise<Job | undefined> {
+    const [job] = await db.update(jobs)
+      .set({ ...jobData, updatedAt: new Date() })
+      .where(eq(jobs.id, id))
+      .returning();
+    return job;
+  }
+
+  async claimDueJobs(workerId: string, now: Date, leaseUntil: Date, limit: number): Promise<Job[]> {
+    return await db.transaction(async (tx) => {
+      // SKIP LOCKED lets several instances claim at once without taking the same job
+      const due = await tx.select({ id: jobs.id })
+        .from(jobs)
+        .where(or(
+          and(eq(jobs.status, "pending"), lte(jobs.runAt, now)),
+          and(eq(jobs.status, "running"), lt(jobs.lockedUntil, now))
+        ))
+        .orderBy(asc(jobs.runAt))
+        .limit(limit)
+        .for("update", { skipLocked: true });
+      
+      if (due.length === 0) return [];
+      
+      return await tx.update(jobs)
+        .set({
+          status: "running",
+          lockedBy: workerId,
+          lockedUntil: leaseUntil,
+          attempts: sql`${jobs.attempts} + 1`,
+          updatedAt: now
+        })
+        .where(inArray(jobs.id, due.map(job => job.id)))
+        .returning();
+    });
+  }
+
+  async updateLeasedJob(id: number, workerId: string, jobData: Partial<Job>): Promise<Job | undefined> {
+    const [job] = await db.update(jobs)
+      .set({ ...jobData, updatedAt: new Date() })
+      .where(and(eq(jobs.id, id), eq(jobs.status, "running"), eq(jobs.lockedBy, workerId)))
+      .returning();
+    return job;
+  }
+
+  async getJobs(filter: { status?: string; type?: string; limit?: number } = {}): Promise<Job[]> {
+    const conditions = [];
+    if (filter.status !== undefined) conditions.push(eq(jobs.status, filter.status));
+    if (filter.type !== undefined) conditions.push(eq(jobs.type, filter.type));
+    
+    return await db.select()
+      .from(jobs)
+      .where(and(...conditions))
+      .orderBy(desc(jobs.id))
+      .limit(filter.limit ?? 100);
+  }
+
+  async countJobsByStatus(): Promise<Record<string, number>> {
+    const rows = await db.select({
+      status: jobs.status,
+      count: sql<number>`count(*)::int`
+    })
+      .from(jobs)
+      .groupBy(jobs.status);
+    
+    return Object.fromEntries(rows.map(row => [row.status, row.count]));
+  }
+
+  async deleteFinishedJobs(before: Date): Promise<number> {
+    const result = await db.delete(jobs)
+      .where(and(inArray(jobs.status, ["completed", "failed"]), lt(jobs.updatedAt, before)))
+      .returning();
+    return result.length;
+  }
+
   // Get all bookings (used for notification service)
   async getAllBookings(): Promise<Booking[]> {
     return await db.select().from(bookings);
   }
 
   // Credits and Transactions
+  // The ledger is the source of truth; users.credits is a cached copy kept in step by each posting
   async getUserCredits(userId: number): Promise<number> {
-    const user = await this.getUser(userId);
-    if (!user) return 0;
-    return user.credits || 0;
+    const [result] = await db.select({ balance: sql<number>`coalesce(sum(${creditLedgerEntries.amount}), 0)::int` })
+      .from(creditLedgerEntries)
+      .where(eq(creditLedgerEntries.account, LEDGER_ACCOUNTS.user(userId)));
+    return result?.balance || 0;
   }
 
-  async addUserCredits(userId: number, amount: number, type: string, description?: string, teamOwnerId?: number): Promise<User> {
-    // Begin transaction
+  async addUserCredits(
+    userId: number,
+    amount: number,
+    type: string,
+    description?: string,
+    teamOwnerId?: number,
+    idempotencyKey?: string
+  ): Promise<User> {
     const user = await this.getUser(userId);
     if (!user) {
       throw new Error(`User with ID ${userId} not found`);
     }
 
-    const currentCredits = user.credits || 0;
-    const updatedUser = await this.updateUser(userId, { credits: currentCredits + amount });
-    
+    const counterAccount = getLedgerCounterAccount(type, teamOwnerId);
+    const userAccount = LEDGER_ACCOUNTS.user(userId);
+
+    await db.transaction(async (tx) => {
+      const posted = await this.insertLedgerTransfer(tx, {
+        idempotencyKey: idempotencyKey || `${type}:${userId}:${randomUUID()}`,
+        fromAccount: amount >= 0 ? counterAccount : userAccount,
+        toAccount: amount >= 0 ? userAccount : counterAccount,
+        amount: Math.abs(amount),
+        type,
+        description: description || `Credit adjustment: ${type}`
+      });
+
+      // A replayed posting has already been recorded
+      if (!posted) return;
+
+      await tx.insert(creditTransactions).values({
+        userId,
+        amount,
+        type,
+        description: description || `Credit adjustment: ${type}`,
+        teamOwnerId,
+        status: "completed"
+      });
+    });
+
+    const updatedUser = await this.getUser(userId);
     if (!updatedUser) {
       throw new Error(`Failed to update user ${userId} with credits`);
     }
 
-    // Create a transaction record
-    await this.createCreditTransaction({
-      userId,
-      amount,
-      type,
-      description: description || `Credit adjustment: ${type}`,
-      teamOwnerId,
-      status: "completed"
-    });
-
     return updatedUser;
   }
 
   async useUserCredits(userId: number, amount: number, bookingId: number, description?: string): Promise<boolean> {
-    const user = await this.getUser(userId);
-    if (!user) {
-      throw new Error(`User with ID ${userId} not found`);
-    }
+    const booking = await this.getBooking(bookingId);
+    const team = booking ? await this.getTeam(booking.teamId) : undefined;
 
-    const currentCredits = user.credits || 0;
-    if (currentCredits < amount) {
-      return false; // Not enough credits
-    }
+    return await db.transaction(async (tx) => {
+      const [user] = await tx.select().from(users).where(eq(users.id, userId)).for("update");
+      if (!user) {
+        throw new Error(`User with ID ${userId} not found`);
+      }
 
-    // Deduct credits (negative amount)
-    await this.updateUser(userId, { credits: currentCredits - amount });
+      if ((user.credits || 0) < amount) {
+        return false; // Not enough credits
+      }
 
-    // Create a transaction record with negative amount to indicate usage
-    await this.createCreditTransaction({
-      userId,
-      amount: -amount,
-      type: "booking",
-      bookingId,
-      description: description || `Booking payment: ID ${bookingId}`,
-      status: "completed"
-    });
+      // Credits go to the team owner's earnings account
+      const posted = await this.insertLedgerTransfer(tx, {
+        idempotencyKey: `booking-use:${bookingId}:user:${userId}`,
+        fromAccount: LEDGER_ACCOUNTS.user(userId),
+        toAccount: team ? LEDGER_ACCOUNTS.teamOwner(team.ownerId) : LEDGER_ACCOUNTS.ADJUSTMENTS,
+        amount,
+        type: "booking",
+        bookingId,
+        description: description || `Booking payment: ID ${bookingId}`
+      });
 
-    // Find the team owner to credit them
-    const booking = await this.getBooking(bookingId);
-    if (booking) {
-      const team = await this.getTeam(booking.teamId);
-      if (team) {
-        // Create a transaction record for the team owner (crediting them)
-        await this.createCreditTransaction({
-          userId: team.ownerId,
-          amount: amount, // Positive amount for the team owner
-          type: "booking_payment",
+      if (posted) {
+        await tx.insert(creditTransactions).values({
+          userId,
+          amount: -amount,
+          type: "booking",
           bookingId,
-          description: `Payment for booking ID ${bookingId}`,
-          teamOwnerId: team.ownerId,
+          description: description || `Booking payment: ID ${bookingId}`,
+          teamOwnerId: team?.ownerId,
           status: "completed"
         });
-
-        // Add credits to the team owner
-        const teamOwner = await this.getUser(team.ownerId);
-        if (teamOwner) {
-          const ownerCredits = teamOwner.credits || 0;
-          await this.updateUser(team.ownerId, { credits: ownerCredits + amount });
-        }
       }
-    }
 
-    return true;
+      return true;
+    });
   }
 
   async getTransactionsByUser(userId: number): Promise<CreditTransaction[]> {
@@ -554,6 +953,558 @@ export class DatabaseStorage implements IStorage {
     return transaction;
   }
   
+  async getTransactionByPaymentIntent(paymentIntentId: string): Promise<CreditTransaction | undefined> {
+    const [transaction] = await db.select()
+      .from(creditTransactions)
+      .where(eq(creditTransactions.paymentIntentId, paymentIntentId));
+    return transaction;
+  }
+  
+  // Credit Ledger
+  async postLedgerTransfer(transfer: LedgerTransfer): Promise<boolean> {
+    return await db.transaction(async (tx) => this.insertLedgerTransfer(tx, transfer));
+  }
+  
+  async getLedgerEntriesByUser(userId: number): Promise<CreditLedgerEntry[]> {
+    return await db.select()
+      .from(creditLedgerEntries)
+      .where(eq(creditLedgerEntries.account, LEDGER_ACCOUNTS.user(userId)))
+      .orderBy(creditLedgerEntries.createdAt);
+  }
+  
+  async getLedgerBalances(): Promise<Map<number, number>> {
+    const rows = await db.select({
+      userId: creditLedgerEntries.userId,
+      balance: sql<number>`coalesce(sum(${creditLedgerEntries.amount}), 0)::int`
+    })
+      .from(creditLedgerEntries)
+      .where(isNotNull(creditLedgerEntries.userId))
+      .groupBy(creditLedgerEntries.userId);
+    
+    return new Map(rows.map(row => [row.userId as number, row.balance]));
+  }
+  
+  // Postings update the cached balance under the same row lock, so the sum and the write can't drift apart
+  async resyncUserCredits(userId: number): Promise<User | undefined> {
+    return await db.transaction(async (tx) => {
+      const [user] = await tx.select().from(users).where(eq(users.id, userId)).for("update");
+      if (!user) return undefined;
+      
+      const [result] = await tx.select({ balance: sql<number>`coalesce(sum(${creditLedgerEntries.amount}), 0)::int` })
+        .from(creditLedgerEntries)
+        .where(eq(creditLedgerEntries.account, LEDGER_ACCOUNTS.user(userId)));
+      
+      const [updatedUser] = await tx.update(users)
+        .set({ credits: result?.balance || 0 })
+        .where(eq(users.id, userId))
+        .returning();
+      return updatedUser;
+    });
+  }
+  
+  /**
+   * Write both sides of a posting and update the cached balance of any user wallet involved.
+   * Returns false without writing anything if the idempotency key was already posted.
+   */
+  private async insertLedgerTransfer(tx: DbTransaction, transfer: LedgerTransfer): Promise<boolean> {
+    if (transfer.amount <= 0) {
+      throw new Error("Ledger transfers must move a positive amount");
+    }
+    
+    const sides = [
+      { account: transfer.fromAccount, amount: -transfer.amount },
+      { account: transfer.toAccount, amount: transfer.amount }
+    ];
+    
+    const inserted = await tx.insert(creditLedgerEntries)
+      .values(sides.map(side => ({
+        idempotencyKey: transfer.idempotencyKey,
+        account: side.account,
+        userId: getLedgerAccountUserId(side.account),
+        amount: side.amount,
+        type: transfer.type,
+        bookingId: transfer.bookingId,
+        paymentIntentId: transfer.paymentIntentId,
+        description: transfer.description
+      })))
+      .onConflictDoNothing()
+      .returning();
+    
+    if (inserted.length === 0) return false;
+    
+    for (const entry of inserted) {
+      if (entry.userId) {
+        await tx.update(users)
+          .set({ credits: sql`coalesce(${users.credits}, 0) + ${entry.amount}` })
+          .where(eq(users.id, entry.userId));
+      }
+    }
+    
+    return true;
+  }
+  
+  // Booking credit operations
+  // Each runs in a single transaction with the booking row locked, so concurrent
+  // joins can't oversell slots and a failed step rolls back the whole operation
+  async joinBookingWithCredits(bookingId: number, playerId: number): Promise<PlayerBooking> {
+    return await db.transaction(async (tx) => {
+      const [booking] = await tx.select().from(bookings)
+        .where(eq(bookings.id, bookingId))
+        .for("update");
+      
+      if (!booking) {
+        throw new Error("Booking not found");
+      }
+      
+      if (booking.availableSlots <= 0) {
+        throw new Error("No available slots for this booking");
+      }
+      
+      const [playerBooking] = await tx.insert(playerBookings)
+        .values({ playerId, bookingId, status: "confirmed" })
+        .returning();
+      
+      await this.chargeForPlayerBooking(tx, playerBooking, booking);
+      
+      await tx.update(bookings)
+        .set({ availableSlots: sql`${bookings.availableSlots} - 1` })
+        .where(eq(bookings.id, bookingId));
+      
+      return playerBooking;
+    });
+  }
+  
+  async confirmPlayerBookingWithCredits(playerBookingId: number): Promise<PlayerBooking> {
+    return await db.transaction(async (tx) => {
+      const [playerBooking] = await tx.select().from(playerBookings)
+        .where(eq(playerBookings.id, playerBookingId))
+        .for("update");
+      
+      if (!playerBooking || playerBooking.status !== "pending") {
+        throw new Error("No spot is currently offered to this player");
+      }
+      
+      const [booking] = await tx.select().from(bookings).where(eq(bookings.id, playerBooking.bookingId));
+      if (!booking) {
+        throw new Error("Booking not found");
+      }
+      
+      await this.chargeForPlayerBooking(tx, playerBooking, booking);
+      
+      // The slot was already held while the offer was open
+      const [confirmed] = await tx.update(playerBookings)
+        .set({ status: "confirmed", waitlistPosition: null, offerExpiresAt: null })
+        .where(eq(playerBookings.id, playerBookingId))
+        .returning();
+      
+      return confirmed;
+    });
+  }
+  
+  async cancelPlayerBookingWithRefund(playerBookingId: number, refundAmount: number, reason: string): Promise<PlayerBooking> {
+    return await db.transaction(async (tx) => {
+      const [playerBooking] = await tx.select().from(playerBookings)
+        .where(eq(playerBookings.id, playerBookingId))
+        .for("update");
+      
+      if (!playerBooking || !SLOT_HOLDING_STATUSES.includes(playerBooking.status)) {
+        throw new Error("Player booking is not active");
+      }
+      
+      const [booking] = await tx.select().from(bookings).where(eq(bookings.id, playerBooking.bookingId));
+      if (!booking) {
+        throw new Error("Booking not found");
+      }
+      
+      const [team] = await tx.select().from(teams).where(eq(teams.id, booking.teamId));
+      
+      if (refundAmount > 0) {
+        // Refunds come back out of the team owner's earnings
+        const posted = await this.insertLedgerTransfer(tx, {
+          idempotencyKey: `booking-refund:${playerBooking.id}`,
+          fromAccount: team ? LEDGER_ACCOUNTS.teamOwner(team.ownerId) : LEDGER_ACCOUNTS.ADJUSTMENTS,
+          toAccount: LEDGER_ACCOUNTS.user(playerBooking.playerId),
+          amount: refundAmount,
+          type: "refund",
+          bookingId: booking.id,
+          description: `Refund for ${booking.title}: ${reason}`
+        });
+        
+        if (posted) {
+          await tx.insert(creditTransactions).values({
+            userId: playerBooking.playerId,
+            amount: refundAmount,
+            type: "refund",
+            bookingId: booking.id,
+            teamOwnerId: team?.ownerId,
+            description: `Refund for ${booking.title}: ${reason}`,
+            status: "completed"
+          });
+        }
+      }
+      
+      const [canceled] = await tx.update(playerBookings)
+        .set({
+          status: "canceled",
+          cancellationReason: reason,
+          refundAmount: refundAmount > 0 ? refundAmount : null,
+          offerExpiresAt: null,
+          canceledAt: new Date()
+        })
+        .where(eq(playerBookings.id, playerBookingId))
+        .returning();
+      
+      // Release the slot
+      await tx.update(bookings)
+        .set({ availableSlots: sql`${bookings.availableSlots} + 1` })
+        .where(eq(bookings.id, booking.id));
+      
+      return canceled;
+    });
+  }
+  
+  async offerWaitlistSpot(playerBookingId: number, offerExpiresAt: Date): Promise<PlayerBooking | undefined> {
+    return await db.transaction(async (tx) => {
+      const [playerBooking] = await tx.select().from(playerBookings)
+        .where(eq(playerBookings.id, playerBookingId))
+        .for("update");
+      
+      if (!playerBooking || playerBooking.status !== "waitlisted") return undefined;
+      
+      // Hold the slot, unless someone else took the last one
+      const [held] = await tx.update(bookings)
+        .set({ availableSlots: sql`${bookings.availableSlots} - 1` })
+        .where(and(eq(bookings.id, playerBooking.bookingId), gt(bookings.availableSlots, 0)))
+        .returning();
+      
+      if (!held) return undefined;
+      
+      const [offered] = await tx.update(playerBookings)
+        .set({ status: "pending", offerExpiresAt })
+        .where(eq(playerBookings.id, playerBookingId))
+        .returning();
+      
+      return offered;
+    });
+  }
+  
+  async expireWaitlistOffer(playerBookingId: number): Promise<PlayerBooking | undefined> {
+    return await db.transaction(async (tx) => {
+      const [expired] = await tx.update(playerBookings)
+        .set({ status: "expired", offerExpiresAt: null })
+        .where(and(eq(playerBookings.id, playerBookingId), eq(playerBookings.status, "pending")))
+        .returning();
+      
+      if (!expired) return undefined;
+      
+      // Release the held slot
+      await tx.update(bookings)
+        .set({ availableSlots: sql`${bookings.availableSlots} + 1` })
+        .where(eq(bookings.id, expired.bookingId));
+      
+      return expired;
+    });
+  }
+  
+  /**
+   * Charge a player the booking's credit cost, paid to the team owner's earnings.
+   * Throws if the player's balance doesn't cover it so the caller's transaction rolls back.
+   */
+  private async chargeForPlayerBooking(tx: DbTransaction, playerBooking: PlayerBooking, booking: Booking): Promise<void> {
+    const cost = booking.creditCost || 0;
+    if (cost <= 0) return;
+    
+    // Lock the player's balance until the charge is written
+    const [player] = await tx.select().from(users)
+      .where(eq(users.id, playerBooking.playerId))
+      .for("update");
+    
+    if (!player) {
+      throw new Error(`User with ID ${playerBooking.playerId} not found`);
+    }
+    
+    if ((player.credits || 0) < cost) {
+      throw new Error("Insufficient credits to join this booking");
+    }
+    
+    const [team] = await tx.select().from(teams).where(eq(teams.id, booking.teamId));
+    
+    const posted = await this.insertLedgerTransfer(tx, {
+      idempotencyKey: `booking-charge:${playerBooking.id}`,
+      fromAccount: LEDGER_ACCOUNTS.user(playerBooking.playerId),
+      toAccount: team ? LEDGER_ACCOUNTS.teamOwner(team.ownerId) : LEDGER_ACCOUNTS.ADJUSTMENTS,
+      amount: cost,
+      type: "booking",
+      bookingId: booking.id,
+      description: `Booking payment: ${booking.title}`
+    });
+    
+    if (posted) {
+      await tx.insert(creditTransactions).values({
+        userId: playerBooking.playerId,
+        amount: -cost,
+        type: "booking",
+        bookingId: booking.id,
+        teamOwnerId: team?.ownerId,
+        description: `Booking payment: ${booking.title}`,
+        status: "completed"
+      });
+    }
+  }
+  
+  // Location Geocode methods
+  async getLocationGeocode(query: string): Promise<LocationGeocode | undefined> {
+    const [geocode] = await db.select().from(locationGeocodes).where(eq(locationGeocodes.query, query));
+    return geocode;
+  }
+  
+  async saveLocationGeocode(insertGeocode: InsertLocationGeocode): Promise<LocationGeocode> {
+    const [geocode] = await db.insert(locationGeocodes)
+      .values(insertGeocode)
+      .onConflictDoUpdate({
+        target: locationGeocodes.query,
+        set: {
+          latitude: insertGeocode.latitude,
+          longitude: insertGeocode.longitude,
+          resolvedName: insertGeocode.resolvedName,
+          provider: insertGeocode.provider
+        }
+      })
+      .returning();
+    return geocode;
+  }
+  
+  // Weather Rule methods
+  async getWeatherRule(id: number): Promise<WeatherRule | undefined> {
+    const [rule] = await db.select().from(weatherRules).where(eq(weatherRules.id, id));
+    return rule;
+  }
+  
+  async getWeatherRulesByTeam(teamId: number): Promise<WeatherRule[]> {
+    return await db.select().from(weatherRules).where(eq(weatherRules.teamId, teamId));
+  }
+  
+  async createWeatherRule(insertRule: InsertWeatherRule): Promise<WeatherRule> {
+    const [rule] = await db.insert(weatherRules).values(insertRule).returning();
+    return rule;
+  }
+  
+  async updateWeatherRule(id: number, updateData: Partial<WeatherRule>): Promise<WeatherRule | undefined> {
+    const [rule] = await db.update(weatherRules)
+      .set(updateData)
+      .where(eq(weatherRules.id, id))
+      .returning();
+    return rule;
+  }
+  
+  async deleteWeatherRule(id: number): Promise<boolean> {
+    const result = await db.delete(weatherRules).where(eq(weatherRules.id, id)).returning();
+    return result.length > 0;
+  }
+  
+  // Weather Alert methods
+  async getWeatherAlert(id: number): Promise<WeatherAlert | undefined> {
+    const [alert] = await db.select().from(weatherAlerts).where(eq(weatherAlerts.id, id));
+    return alert;
+  }
+  
+  async getWeatherAlertsByBooking(bookingId: number): Promise<WeatherAlert[]> {
+    return await db.select().from(weatherAlerts).where(eq(weatherAlerts.bookingId, bookingId));
+  }
+  
+  async createWeatherAlert(insertAlert: InsertWeatherAlert): Promise<WeatherAlert | undefined> {
+    const [alert] = await db.insert(weatherAlerts)
+      .values(insertAlert)
+      .onConflictDoNothing()
+      .returning();
+    return alert;
+  }
+  
+  async updateWeatherAlert(id: number, updateData: Partial<WeatherAlert>): Promise<WeatherAlert | undefined> {
+    const [alert] = await db.update(weatherAlerts)
+      .set(updateData)
+      .where(eq(weatherAlerts.id, id))
+      .returning();
+    return alert;
+  }
+  
+  // Pitch Cost Ledger methods
+  async getPitchCostEntryByBooking(bookingId: number): Promise<PitchCostEntry | undefined> {
+    const [entry] = await db.select().from(pitchCostEntries).where(eq(pitchCostEntries.bookingId, bookingId));
+    return entry;
+  }
+  
+  async getPitchCostEntriesByTeam(teamId: number): Promise<PitchCostEntry[]> {
+    return await db.select()
+      .from(pitchCostEntries)
+      .where(eq(pitchCostEntries.teamId, teamId))
+      .orderBy(desc(pitchCostEntries.createdAt));
+  }
+  
+  async createPitchCostEntry(insertEntry: InsertPitchCostEntry): Promise<PitchCostEntry | undefined> {
+    const [entry] = await db.insert(pitchCostEntries)
+      .values(insertEntry)
+      .onConflictDoNothing()
+      .returning();
+    return entry;
+  }
+  
+  // WhatsApp Message methods
+  async getWhatsAppMessage(messageId: string): Promise<WhatsAppMessage | undefined> {
+    const [message] = await db.select().from(whatsappMessages).where(eq(whatsappMessages.messageId, messageId));
+    return message;
+  }
+  
+  async createWhatsAppMessage(insertMessage: InsertWhatsAppMessage): Promise<WhatsAppMessage | undefined> {
+    const [message] = await db.insert(whatsappMessages)
+      .values(insertMessage)
+      .onConflictDoNothing()
+      .returning();
+    return message;
+  }
+  
+  // Phone Verification methods
+  async getLatestPhoneVerification(userId: number): Promise<PhoneVerification | undefined> {
+    const [verification] = await db.select()
+      .from(phoneVerifications)
+      .where(eq(phoneVerifications.userId, userId))
+      .orderBy(desc(phoneVerifications.id))
+      .limit(1);
+    return verification;
+  }
+  
+  async createPhoneVerification(insertVerification: InsertPhoneVerification): Promise<PhoneVerification> {
+    const [verification] = await db.insert(phoneVerifications).values(insertVerification).returning();
+    return verification;
+  }
+  
+  async updatePhoneVerification(id: number, updateData: Partial<PhoneVerification>): Promise<PhoneVerification | undefined> {
+    const [verification] = await db.update(phoneVerifications)
+      .set(updateData)
+      .where(eq(phoneVerifications.id, id))
+      .returning();
+    return verification;
+  }
+  
+  // A single conditional update, so parallel guesses can't all slip under the limit
+  async claimPhoneVerificationAttempt(id: number, maxAttempts: number): Promise<PhoneVerification | undefined> {
+    const [verification] = await db.update(phoneVerifications)
+      .set({ attempts: sql`${phoneVerifications.attempts} + 1` })
+      .where(and(
+        eq(phoneVerifications.id, id),
+        lt(phoneVerifications.attempts, maxAttempts)
+      ))
+      .returning();
+    return verification;
+  }
+  
+  // Password Reset Token methods
+  async getPasswordResetTokenByHash(tokenHash: string): Promise<PasswordResetToken | undefined> {
+    const [token] = await db.select()
+      .from(passwordResetTokens)
+      .where(eq(passwordResetTokens.tokenHash, tokenHash));
+    return token;
+  }
+  
+  async getLatestPasswordResetToken(userId: number): Promise<PasswordResetToken | undefined> {
+    const [token] = await db.select()
+      .from(passwordResetTokens)
+      .where(eq(passwordResetTokens.userId, userId))
+      .orderBy(desc(passwordResetTokens.id))
+      .limit(1);
+    return token;
+  }
+  
+  async createPasswordResetToken(insertToken: InsertPasswordResetToken): Promise<PasswordResetToken> {
+    const [token] = await db.insert(passwordResetTokens).values(insertToken).returning();
+    return token;
+  }
+  
+  async usePasswordResetToken(id: number): Promise<boolean> {
+    // Only one request can claim the token, even if two arrive together
+    const result = await db.update(passwordResetTokens)
+      .set({ usedAt: new Date() })
+      .where(and(eq(passwordResetTokens.id, id), isNull(passwordResetTokens.usedAt)))
+      .returning();
+    return result.length > 0;
+  }
+  
+  async expirePasswordResetTokens(userId: number): Promise<void> {
+    await db.update(passwordResetTokens)
+      .set({ usedAt: new Date() })
+      .where(and(eq(passwordResetTokens.userId, userId), isNull(passwordResetTokens.usedAt)));
+  }
+  
+  // Messaging Consent methods
+  async getMessagingConsentsByUser(userId: number): Promise<MessagingConsent[]> {
+    return await db.select()
+      .from(messagingConsents)
+      .where(eq(messagingConsents.userId, userId))
+      .orderBy(desc(messagingConsents.createdAt));
+  }
+  
+  async createMessagingConsent(insertConsent: InsertMessagingConsent): Promise<MessagingConsent> {
+    const [consent] = await db.insert(messagingConsents).values(insertConsent).returning();
+    return consent;
+  }
+  
+  // Message Template Override methods
+  async getMessageTemplateOverridesByTeam(teamId: number): Promise<MessageTemplateOverride[]> {
+    return await db.select()
+      .from(messageTemplateOverrides)
+      .where(eq(messageTemplateOverrides.teamId, teamId));
+  }
+  
+  async getMessageTemplateOverride(
+    teamId: number,
+    type: string,
+    channel: string,
+    locale: string
+  ): Promise<MessageTemplateOverride | undefined> {
+    const [override] = await db.select()
+      .from(messageTemplateOverrides)
+      .where(and(
+        eq(messageTemplateOverrides.teamId, teamId),
+        eq(messageTemplateOverrides.type, type),
+        eq(messageTemplateOverrides.channel, channel),
+        eq(messageTemplateOverrides.locale, locale)
+      ));
+    return override;
+  }
+  
+  async saveMessageTemplateOverride(insertOverride: InsertMessageTemplateOverride): Promise<MessageTemplateOverride> {
+    const [override] = await db.insert(messageTemplateOverrides)
+      .values(insertOverride)
+      .onConflictDoUpdate({
+        target: [
+          messageTemplateOverrides.teamId,
+          messageTemplateOverrides.type,
+          messageTemplateOverrides.channel,
+          messageTemplateOverrides.locale
+        ],
+        set: {
+          subject: insertOverride.subject ?? null,
+          body: insertOverride.body,
+          updatedBy: insertOverride.updatedBy ?? null,
+          updatedAt: new Date()
+        }
+      })
+      .returning();
+    return override;
+  }
+  
+  async deleteMessageTemplateOverride(teamId: number, type: string, channel: string, locale: string): Promise<boolean> {
+    const result = await db.delete(messageTemplateOverrides)
+      .where(and(
+        eq(messageTemplateOverrides.teamId, teamId),
+        eq(messageTemplateOverrides.type, type),
+        eq(messageTemplateOverrides.channel, channel),
+        eq(messageTemplateOverrides.locale, locale)
+      ))
+      .returning();
+    return result.length > 0;
+  }
+  
   // Calendar Integration methods
   async getCalendarIntegration(id: number): Promise<CalendarIntegration | undefined> {
     const [integration] = await db.select()
@@ -572,6 +1523,149 @@ export class DatabaseStorage implements IStorage {
     return integration;
   }
   
+  async getActiveCalendarIntegrations(): Promise<CalendarIntegration[]> {
+    return await db.select()
+      .from(calendarIntegrations)
+      .where(eq(calendarIntegrations.isActive, true));
+  }
+  
+  // Calendar Event Links
+  async getCalendarEventLink(integrationId: number, bookingId: number): Promise<CalendarEventLink | undefined> {
+    const [link] = await db.select()
+      .from(calendarEventLinks)
+      .where(and(
+        eq(calendarEventLinks.integrationId, integrationId),
+        eq(calendarEventLinks.bookingId, bookingId)
+      ));
+    return link;
+  }
+  
+  async getCalendarEventLinksByIntegration(integrationId: number): Promise<CalendarEventLink[]> {
+    return await db.select()
+      .from(calendarEventLinks)
+      .where(eq(calendarEventLinks.integrationId, integrationId));
+  }
+  
+  async getCalendarEventLinksByBooking(bookingId: number): Promise<CalendarEventLink[]> {
+    return await db.select()
+      .from(calendarEventLinks)
+      .where(eq(calendarEventLinks.bookingId, bookingId));
+  }
+  
+  async saveCalendarEventLink(insertLink: InsertCalendarEventLink): Promise<CalendarEventLink> {
+    const syncedAt = insertLink.syncedAt ?? new Date();
+    const [link] = await db.insert(calendarEventLinks)
+      .values({ ...insertLink, syncedAt })
+      .onConflictDoUpdate({
+        target: [calendarEventLinks.integrationId, calendarEventLinks.bookingId],
+        set: {
+          externalEventId: insertLink.externalEventId,
+          syncedSequence: insertLink.syncedSequence,
+          syncedAt
+        }
+      })
+      .returning();
+    return link;
+  }
+  
+  async deleteCalendarEventLink(id: number): Promise<boolean> {
+    const result = await db.delete(calendarEventLinks)
+      .where(eq(calendarEventLinks.id, id))
+      .returning();
+    return result.length > 0;
+  }
+  
+  // Calendar Feeds
+  async getCalendarFeedByUser(userId: number): Promise<CalendarFeed | undefined> {
+    const [feed] = await db.select().from(calendarFeeds).where(eq(calendarFeeds.userId, userId));
+    return feed;
+  }
+  
+  async getCalendarFeedByToken(token: string): Promise<CalendarFeed | undefined> {
+    const [feed] = await db.select().from(calendarFeeds).where(eq(calendarFeeds.token, token));
+    return feed;
+  }
+  
+  async createCalendarFeed(insertFeed: InsertCalendarFeed): Promise<CalendarFeed> {
+    const [feed] = await db.insert(calendarFeeds).values(insertFeed).returning();
+    return feed;
+  }
+  
+  async updateCalendarFeed(id: number, update: Partial<CalendarFeed>): Promise<CalendarFeed | undefined> {
+    const [feed] = await db.update(calendarFeeds)
+      .set(update)
+      .where(eq(calendarFeeds.id, id))
+      .returning();
+    return feed;
+  }
+  
+  // Availability Polls
+  async getAvailabilityPoll(id: number): Promise<AvailabilityPoll | undefined> {
+    const [poll] = await db.select().from(availabilityPolls).where(eq(availabilityPolls.id, id));
+    return poll;
+  }
+  
+  async getAvailabilityPollsByTeam(teamId: number): Promise<AvailabilityPoll[]> {
+    return await db.select()
+      .from(availabilityPolls)
+      .where(eq(availabilityPolls.teamId, teamId))
+      .orderBy(desc(availabilityPolls.createdAt));
+  }
+  
+  async createAvailabilityPoll(insertPoll: InsertAvailabilityPoll): Promise<AvailabilityPoll> {
+    const [poll] = await db.insert(availabilityPolls).values(insertPoll).returning();
+    return poll;
+  }
+  
+  async updateAvailabilityPoll(id: number, update: Partial<AvailabilityPoll>): Promise<AvailabilityPoll | undefined> {
+    const [poll] = await db.update(availabilityPolls)
+      .set(update)
+      .where(eq(availabilityPolls.id, id))
+      .returning();
+    return poll;
+  }
+  
+  async claimAvailabilityPoll(id: number): Promise<AvailabilityPoll | undefined> {
+    // Only one request can book the poll, even if two arrive together
+    const [poll] = await db.update(availabilityPolls)
+      .set({ status: "booked" })
+      .where(and(eq(availabilityPolls.id, id), ne(availabilityPolls.status, "booked")))
+      .returning();
+    return poll;
+  }
+  
+  async getAvailabilityPollOptions(pollId: number): Promise<AvailabilityPollOption[]> {
+    return await db.select()
+      .from(availabilityPollOptions)
+      .where(eq(availabilityPollOptions.pollId, pollId))
+      .orderBy(availabilityPollOptions.startTime);
+  }
+  
+  async createAvailabilityPollOption(insertOption: InsertAvailabilityPollOption): Promise<AvailabilityPollOption> {
+    const [option] = await db.insert(availabilityPollOptions).values(insertOption).returning();
+    return option;
+  }
+  
+  async getAvailabilityPollResponses(pollId: number): Promise<AvailabilityPollResponse[]> {
+    return await db.select()
+      .from(availabilityPollResponses)
+      .where(eq(availabilityPollResponses.pollId, pollId));
+  }
+  
+  async saveAvailabilityPollResponse(insertResponse: InsertAvailabilityPollResponse): Promise<AvailabilityPollResponse> {
+    const [response] = await db.insert(availabilityPollResponses)
+      .values(insertResponse)
+      .onConflictDoUpdate({
+        target: [availabilityPollResponses.optionId, availabilityPollResponses.userId],
+        set: {
+          answer: insertResponse.answer,
+          updatedAt: new Date()
+        }
+      })
+      .returning();
+    return response;
+  }
+  
   async createCalendarIntegration(integration: InsertCalendarIntegration): Promise<CalendarIntegration> {
     try {
       const [newIntegration] = await db.insert(calendarIntegrations)
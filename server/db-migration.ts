@@ -13,7 +13,9 @@ export async function runMigrations() {
       ALTER TABLE users 
       ADD COLUMN IF NOT EXISTS cancellations_this_month INTEGER DEFAULT 0,
       ADD COLUMN IF NOT EXISTS last_cancellation_reset TIMESTAMP,
-      ADD COLUMN IF NOT EXISTS notification_settings JSONB
+      ADD COLUMN IF NOT EXISTS notification_settings JSONB,
+      ADD COLUMN IF NOT EXISTS preferred_position TEXT,
+      ADD COLUMN IF NOT EXISTS secondary_position TEXT
     `);
     console.log("✓ Users table updated");
 
@@ -31,16 +33,52 @@ export async function runMigrations() {
       ADD COLUMN IF NOT EXISTS credit_cost INTEGER DEFAULT 1,
       ADD COLUMN IF NOT EXISTS weather_data JSONB,
       ADD COLUMN IF NOT EXISTS status TEXT DEFAULT 'active',
-      ADD COLUMN IF NOT EXISTS cancel_reason TEXT
+      ADD COLUMN IF NOT EXISTS cancel_reason TEXT,
+      ADD COLUMN IF NOT EXISTS series_id INTEGER,
+      ADD COLUMN IF NOT EXISTS series_occurrence_start TIMESTAMP,
+      ADD COLUMN IF NOT EXISTS is_series_exception BOOLEAN DEFAULT FALSE
     `);
     console.log("✓ Bookings table updated");
 
+    // Create booking_series table for recurring bookings
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS booking_series (
+        id SERIAL PRIMARY KEY,
+        team_id INTEGER NOT NULL,
+        created_by INTEGER NOT NULL,
+        title TEXT NOT NULL,
+        location TEXT NOT NULL,
+        format TEXT NOT NULL,
+        first_start_time TIMESTAMP NOT NULL,
+        duration_minutes INTEGER NOT NULL,
+        total_slots INTEGER NOT NULL,
+        credit_cost INTEGER DEFAULT 1,
+        frequency TEXT NOT NULL,
+        end_date TIMESTAMP,
+        occurrence_count INTEGER,
+        skip_dates JSONB,
+        is_active BOOLEAN NOT NULL DEFAULT TRUE,
+        last_materialized_at TIMESTAMP,
+        created_at TIMESTAMP DEFAULT NOW() NOT NULL
+      )
+    `);
+    
+    // Prevent the scheduler from generating the same occurrence twice
+    await db.execute(sql`
+      CREATE UNIQUE INDEX IF NOT EXISTS bookings_series_occurrence_idx
+      ON bookings (series_id, series_occurrence_start)
+      WHERE series_id IS NOT NULL
+    `);
+    console.log("✓ Booking series table created (if not exists)");
+
     // Add new player_bookings fields
     await db.execute(sql`
       ALTER TABLE player_bookings 
       ADD COLUMN IF NOT EXISTS cancellation_reason TEXT,
       ADD COLUMN IF NOT EXISTS refund_amount INTEGER,
-      ADD COLUMN IF NOT EXISTS canceled_at TIMESTAMP
+      ADD COLUMN IF NOT EXISTS canceled_at TIMESTAMP,
+      ADD COLUMN IF NOT EXISTS waitlist_position INTEGER,
+      ADD COLUMN IF NOT EXISTS offer_expires_at TIMESTAMP
     `);
     console.log("✓ Player bookings table updated");
 
@@ -72,10 +110,554 @@ export async function runMigrations() {
       ALTER TABLE credit_transactions
       DROP CONSTRAINT IF EXISTS credit_transactions_type_check,
       ADD CONSTRAINT credit_transactions_type_check 
-      CHECK (type IN ('purchase', 'booking', 'cancellation', 'refund', 'referral_bonus', 'admin_adjustment'))
+      CHECK (type IN ('purchase', 'booking', 'cancellation', 'refund', 'referral_bonus', 'admin_adjustment', 'no_show_penalty', 'cost_adjustment'))
     `);
     console.log("✓ Credit transactions constraints updated");
 
+    await db.execute(sql`
+      ALTER TABLE credit_transactions
+      ADD COLUMN IF NOT EXISTS payment_intent_id TEXT
+    `);
+    console.log("✓ Credit transactions table updated");
+
+    // Create the double-entry credit ledger
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS credit_ledger_entries (
+        id SERIAL PRIMARY KEY,
+        idempotency_key TEXT NOT NULL,
+        account TEXT NOT NULL,
+        user_id INTEGER,
+        amount INTEGER NOT NULL,
+        type TEXT NOT NULL,
+        booking_id INTEGER,
+        payment_intent_id TEXT,
+        description TEXT,
+        created_at TIMESTAMP DEFAULT NOW() NOT NULL
+      )
+    `);
+    
+    // One entry per account per posting, so replaying a posting is a no-op
+    await db.execute(sql`
+      CREATE UNIQUE INDEX IF NOT EXISTS credit_ledger_entries_idempotency_idx
+      ON credit_ledger_entries (idempotency_key, account)
+    `);
+    
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS credit_ledger_entries_user_idx
+      ON credit_ledger_entries (user_id)
+    `);
+    
+    // One-off data migrations record themselves here so they never run twice
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS migration_markers (
+        name TEXT PRIMARY KEY,
+        applied_at TIMESTAMP NOT NULL DEFAULT NOW()
+      )
+    `);
+    
+    // Seed the ledger with existing balances so it starts in agreement with users.credits.
+    // This runs once, in the same statement that sets its marker; balances changed
+    // outside the ledger later are left for the credit discrepancy report.
+    await db.execute(sql`
+      WITH marker AS (
+        INSERT INTO migration_markers (name) VALUES ('credit-ledger-opening-balances')
+        ON CONFLICT DO NOTHING
+        RETURNING name
+      ), seeded AS (
+        INSERT INTO credit_ledger_entries (idempotency_key, account, user_id, amount, type, description)
+        SELECT 'opening-balance:' || u.id, 'user:' || u.id, u.id, u.credits, 'opening_balance', 'Opening balance'
+        FROM users u
+        WHERE EXISTS (SELECT 1 FROM marker)
+          AND COALESCE(u.credits, 0) <> 0
+          AND NOT EXISTS (SELECT 1 FROM credit_ledger_entries e WHERE e.user_id = u.id)
+        ON CONFLICT DO NOTHING
+        RETURNING idempotency_key, amount
+      )
+      INSERT INTO credit_ledger_entries (idempotency_key, account, user_id, amount, type, description)
+      SELECT idempotency_key, 'platform:opening-balance', NULL, -amount, 'opening_balance', 'Opening balance'
+      FROM seeded
+    `);
+    console.log("✓ Credit ledger table created (if not exists)");
+
+    // Create match line-up table
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS match_lineups (
+        id SERIAL PRIMARY KEY,
+        booking_id INTEGER NOT NULL,
+        player_id INTEGER NOT NULL,
+        side TEXT NOT NULL CHECK (side IN ('A', 'B')),
+        position TEXT,
+        bib_colour TEXT,
+        is_captain BOOLEAN NOT NULL DEFAULT FALSE,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+      )
+    `);
+    
+    await db.execute(sql`
+      CREATE UNIQUE INDEX IF NOT EXISTS match_lineups_booking_player_idx
+      ON match_lineups (booking_id, player_id)
+    `);
+    console.log("✓ Match line-ups table created (if not exists)");
+
+    // Create team-balancing pair constraints table
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS pair_constraints (
+        id SERIAL PRIMARY KEY,
+        team_id INTEGER NOT NULL,
+        booking_id INTEGER,
+        player_a_id INTEGER NOT NULL,
+        player_b_id INTEGER NOT NULL,
+        type TEXT NOT NULL CHECK (type IN ('together', 'apart')),
+        created_by INTEGER NOT NULL,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+      )
+    `);
+    
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS pair_constraints_team_idx
+      ON pair_constraints (team_id)
+    `);
+    console.log("✓ Pair constraints table created (if not exists)");
+
+    // Create player rating history table
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS player_ratings (
+        id SERIAL PRIMARY KEY,
+        player_id INTEGER NOT NULL,
+        booking_id INTEGER NOT NULL,
+        rating REAL NOT NULL,
+        previous_rating REAL NOT NULL,
+        change REAL NOT NULL,
+        games_played INTEGER NOT NULL,
+        result TEXT NOT NULL,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+      )
+    `);
+    
+    await db.execute(sql`
+      CREATE UNIQUE INDEX IF NOT EXISTS player_ratings_player_booking_idx
+      ON player_ratings (player_id, booking_id)
+    `);
+    console.log("✓ Player ratings table created (if not exists)");
+
+    // Create geocoding cache table
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS location_geocodes (
+        id SERIAL PRIMARY KEY,
+        query TEXT NOT NULL UNIQUE,
+        latitude REAL NOT NULL,
+        longitude REAL NOT NULL,
+        resolved_name TEXT,
+        provider TEXT NOT NULL,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+      )
+    `);
+    console.log("✓ Location geocodes table created (if not exists)");
+
+    // Create weather rules and alerts tables
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS weather_rules (
+        id SERIAL PRIMARY KEY,
+        team_id INTEGER NOT NULL,
+        metric TEXT NOT NULL CHECK (metric IN ('wind_speed', 'precipitation', 'temperature', 'humidity')),
+        comparison TEXT NOT NULL CHECK (comparison IN ('above', 'below')),
+        threshold REAL NOT NULL,
+        action TEXT NOT NULL DEFAULT 'warn' CHECK (action IN ('warn', 'suggest_cancel')),
+        is_active BOOLEAN DEFAULT TRUE,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+      )
+    `);
+    
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS weather_alerts (
+        id SERIAL PRIMARY KEY,
+        booking_id INTEGER NOT NULL,
+        rule_id INTEGER NOT NULL,
+        value REAL NOT NULL,
+        status TEXT NOT NULL CHECK (status IN ('warned', 'pending_approval', 'approved', 'dismissed')),
+        resolved_by INTEGER,
+        resolved_at TIMESTAMP,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+      )
+    `);
+    
+    await db.execute(sql`
+      CREATE UNIQUE INDEX IF NOT EXISTS weather_alerts_booking_rule_idx
+      ON weather_alerts (booking_id, rule_id)
+    `);
+    console.log("✓ Weather rules and alerts tables created (if not exists)");
+
+    // Create venues table and link bookings to it, keeping the legacy location text
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS venues (
+        id SERIAL PRIMARY KEY,
+        team_id INTEGER NOT NULL,
+        name TEXT NOT NULL,
+        address TEXT,
+        latitude REAL,
+        longitude REAL,
+        surface_type TEXT,
+        is_indoor BOOLEAN DEFAULT FALSE,
+        pitch_sizes JSON,
+        cost_per_hour REAL,
+        notes TEXT,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+      )
+    `);
+    
+    await db.execute(sql`
+      ALTER TABLE bookings 
+      ADD COLUMN IF NOT EXISTS venue_id INTEGER
+    `);
+    
+    await db.execute(sql`
+      ALTER TABLE booking_series 
+      ADD COLUMN IF NOT EXISTS venue_id INTEGER
+    `);
+    console.log("✓ Venues table created and linked to bookings (if not exists)");
+
+    // Add pitch cost splitting columns and the organiser's pitch cost ledger
+    await db.execute(sql`
+      ALTER TABLE teams 
+      ADD COLUMN IF NOT EXISTS cost_rounding TEXT DEFAULT 'up'
+    `);
+    
+    await db.execute(sql`
+      ALTER TABLE bookings 
+      ADD COLUMN IF NOT EXISTS pitch_cost REAL
+    `);
+    
+    await db.execute(sql`
+      ALTER TABLE booking_series 
+      ADD COLUMN IF NOT EXISTS pitch_cost REAL
+    `);
+    
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS pitch_cost_entries (
+        id SERIAL PRIMARY KEY,
+        team_id INTEGER NOT NULL,
+        booking_id INTEGER NOT NULL UNIQUE,
+        pitch_cost REAL NOT NULL,
+        player_count INTEGER NOT NULL,
+        credits_per_player INTEGER NOT NULL,
+        credit_value INTEGER NOT NULL,
+        collected REAL NOT NULL,
+        amount REAL NOT NULL,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+      )
+    `);
+    console.log("✓ Pitch cost splitting columns and ledger created (if not exists)");
+
+    // WhatsApp replies: players' phone numbers and a log of messages
+    await db.execute(sql`
+      ALTER TABLE users 
+      ADD COLUMN IF NOT EXISTS phone TEXT UNIQUE
+    `);
+    
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS whatsapp_messages (
+        id SERIAL PRIMARY KEY,
+        message_id TEXT NOT NULL UNIQUE,
+        direction TEXT NOT NULL CHECK (direction IN ('inbound', 'outbound')),
+        phone TEXT NOT NULL,
+        user_id INTEGER,
+        booking_id INTEGER,
+        body TEXT,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+      )
+    `);
+    console.log("✓ WhatsApp phone numbers and message log created (if not exists)");
+
+    // Phone number verification and messaging consent
+    await db.execute(sql`
+      ALTER TABLE users 
+      ADD COLUMN IF NOT EXISTS phone_verified_at TIMESTAMP,
+      ADD COLUMN IF NOT EXISTS whatsapp_opt_in BOOLEAN NOT NULL DEFAULT false
+    `);
+    
+    // Numbers saved before verification existed were digits only and never
+    // verified, so they're cleared and players verify them again
+    await db.execute(sql`
+      UPDATE users SET phone = NULL 
+      WHERE phone IS NOT NULL AND phone_verified_at IS NULL
+    `);
+    
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS phone_verifications (
+        id SERIAL PRIMARY KEY,
+        user_id INTEGER NOT NULL,
+        phone TEXT NOT NULL,
+        code_hash TEXT NOT NULL,
+        channel TEXT NOT NULL,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        expires_at TIMESTAMP NOT NULL,
+        verified_at TIMESTAMP,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+      )
+    `);
+    
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS messaging_consents (
+        id SERIAL PRIMARY KEY,
+        user_id INTEGER NOT NULL,
+        channel TEXT NOT NULL,
+        opted_in BOOLEAN NOT NULL,
+        source TEXT NOT NULL CHECK (source IN ('profile', 'verification', 'reply')),
+        phone TEXT,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+      )
+    `);
+    console.log("✓ Phone verification and messaging consent tables created (if not exists)");
+
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS message_template_overrides (
+        id SERIAL PRIMARY KEY,
+        team_id INTEGER NOT NULL,
+        type TEXT NOT NULL,
+        channel TEXT NOT NULL CHECK (channel IN ('in_app', 'whatsapp', 'email')),
+        locale TEXT NOT NULL DEFAULT 'en',
+        subject TEXT,
+        body TEXT NOT NULL,
+        updated_by INTEGER,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+      )
+    `);
+    
+    // One override per team, message type, channel and language
+    await db.execute(sql`
+      CREATE UNIQUE INDEX IF NOT EXISTS message_template_overrides_team_template_idx
+      ON message_template_overrides (team_id, type, channel, locale)
+    `);
+    console.log("✓ Message template overrides table created (if not exists)");
+
+    await db.execute(sql`
+      ALTER TABLE notifications 
+      ADD COLUMN IF NOT EXISTS emailed_at TIMESTAMP
+    `);
+    
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS email_digests (
+        id SERIAL PRIMARY KEY,
+        user_id INTEGER NOT NULL,
+        frequency TEXT NOT NULL CHECK (frequency IN ('daily', 'weekly')),
+        period TEXT NOT NULL,
+        notification_count INTEGER NOT NULL,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+      )
+    `);
+    
+    // One digest per player per period, so a restart can't send it twice
+    await db.execute(sql`
+      CREATE UNIQUE INDEX IF NOT EXISTS email_digests_user_period_idx
+      ON email_digests (user_id, frequency, period)
+    `);
+    console.log("✓ Email digests table created (if not exists)");
+
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS notification_suppressions (
+        id SERIAL PRIMARY KEY,
+        user_id INTEGER NOT NULL,
+        team_id INTEGER,
+        booking_id INTEGER,
+        type TEXT NOT NULL,
+        channel TEXT NOT NULL,
+        reason TEXT NOT NULL,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+      )
+    `);
+    
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS notification_suppressions_team_idx
+      ON notification_suppressions (team_id, created_at)
+    `);
+    console.log("✓ Notification suppressions table created (if not exists)");
+
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS push_subscriptions (
+        id SERIAL PRIMARY KEY,
+        user_id INTEGER NOT NULL,
+        endpoint TEXT NOT NULL,
+        p256dh TEXT NOT NULL,
+        auth TEXT NOT NULL,
+        user_agent TEXT,
+        expires_at TIMESTAMP,
+        last_used_at TIMESTAMP,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+      )
+    `);
+    
+    await db.execute(sql`
+      CREATE UNIQUE INDEX IF NOT EXISTS push_subscriptions_endpoint_idx
+      ON push_subscriptions (endpoint)
+    `);
+    
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS push_subscriptions_user_idx
+      ON push_subscriptions (user_id)
+    `);
+    console.log("✓ Push subscriptions table created (if not exists)");
+
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS jobs (
+        id SERIAL PRIMARY KEY,
+        type TEXT NOT NULL,
+        key TEXT,
+        payload JSONB,
+        status TEXT NOT NULL DEFAULT 'pending',
+        run_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        attempts INTEGER NOT NULL DEFAULT 0,
+        max_attempts INTEGER NOT NULL DEFAULT 5,
+        locked_by TEXT,
+        locked_until TIMESTAMP,
+        last_error TEXT,
+        completed_at TIMESTAMP,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+      )
+    `);
+    
+    await db.execute(sql`
+      CREATE UNIQUE INDEX IF NOT EXISTS jobs_key_idx
+      ON jobs (key)
+    `);
+    
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS jobs_status_run_at_idx
+      ON jobs (status, run_at)
+    `);
+    console.log("✓ Jobs table created (if not exists)");
+
+    await db.execute(sql`
+      ALTER TABLE bookings 
+      ADD COLUMN IF NOT EXISTS calendar_sequence INTEGER NOT NULL DEFAULT 0
+    `);
+    console.log("✓ Calendar sequence column added to bookings table (if not exists)");
+
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS calendar_feeds (
+        id SERIAL PRIMARY KEY,
+        user_id INTEGER NOT NULL,
+        token TEXT NOT NULL,
+        scope TEXT NOT NULL DEFAULT 'booked',
+        last_accessed_at TIMESTAMP,
+        rotated_at TIMESTAMP,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+      )
+    `);
+    
+    await db.execute(sql`
+      CREATE UNIQUE INDEX IF NOT EXISTS calendar_feeds_user_idx
+      ON calendar_feeds (user_id)
+    `);
+    
+    await db.execute(sql`
+      CREATE UNIQUE INDEX IF NOT EXISTS calendar_feeds_token_idx
+      ON calendar_feeds (token)
+    `);
+    console.log("✓ Calendar feeds table created (if not exists)");
+
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS calendar_event_links (
+        id SERIAL PRIMARY KEY,
+        integration_id INTEGER NOT NULL,
+        booking_id INTEGER NOT NULL,
+        external_event_id TEXT NOT NULL,
+        synced_sequence INTEGER NOT NULL,
+        synced_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+      )
+    `);
+    
+    await db.execute(sql`
+      CREATE UNIQUE INDEX IF NOT EXISTS calendar_event_links_integration_booking_idx
+      ON calendar_event_links (integration_id, booking_id)
+    `);
+    
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS calendar_event_links_booking_idx
+      ON calendar_event_links (booking_id)
+    `);
+    console.log("✓ Calendar event links table created (if not exists)");
+
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS availability_polls (
+        id SERIAL PRIMARY KEY,
+        team_id INTEGER NOT NULL,
+        created_by INTEGER NOT NULL,
+        title TEXT NOT NULL,
+        format TEXT NOT NULL,
+        total_slots INTEGER NOT NULL,
+        status TEXT NOT NULL DEFAULT 'open',
+        closes_at TIMESTAMP,
+        chosen_option_id INTEGER,
+        booking_id INTEGER,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+      )
+    `);
+    
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS availability_polls_team_idx
+      ON availability_polls (team_id)
+    `);
+    
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS availability_poll_options (
+        id SERIAL PRIMARY KEY,
+        poll_id INTEGER NOT NULL,
+        start_time TIMESTAMP NOT NULL,
+        end_time TIMESTAMP NOT NULL,
+        venue_id INTEGER,
+        location TEXT NOT NULL,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+      )
+    `);
+    
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS availability_poll_options_poll_idx
+      ON availability_poll_options (poll_id)
+    `);
+    
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS availability_poll_responses (
+        id SERIAL PRIMARY KEY,
+        poll_id INTEGER NOT NULL,
+        option_id INTEGER NOT NULL,
+        user_id INTEGER NOT NULL,
+        answer TEXT NOT NULL,
+        updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+      )
+    `);
+    
+    await db.execute(sql`
+      CREATE UNIQUE INDEX IF NOT EXISTS availability_poll_responses_option_user_idx
+      ON availability_poll_responses (option_id, user_id)
+    `);
+    
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS availability_poll_responses_poll_idx
+      ON availability_poll_responses (poll_id)
+    `);
+    console.log("✓ Availability poll tables created (if not exists)");
+
+    await db.execute(sql`
+      CREATE TABLE IF NOT EXISTS password_reset_tokens (
+        id SERIAL PRIMARY KEY,
+        user_id INTEGER NOT NULL,
+        token_hash TEXT NOT NULL UNIQUE,
+        expires_at TIMESTAMP NOT NULL,
+        used_at TIMESTAMP,
+        created_at TIMESTAMP NOT NULL DEFAULT NOW()
+      )
+    `);
+    
+    await db.execute(sql`
+      CREATE INDEX IF NOT EXISTS password_reset_tokens_user_idx
+      ON password_reset_tokens (user_id)
+    `);
+    console.log("✓ Password reset tokens table created (if not exists)");
+
     console.log("✓ All migrations completed successfully!");
   } catch (error) {
     console.error("Migration error:", error);
@@ -2,11 +2,24 @@ import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { runMigrations } from "./db-migration";
-import { scheduleMatchReminders } from "./services/notification-service";
+import { scheduleMatchReminders, scheduleEmailDigests } from "./services/notification-service";
 import { scheduleWeatherUpdates } from "./services/weather-service";
+import { scheduleRecurringBookings } from "./services/recurring-booking-service";
+import { scheduleWaitlistOffers } from "./services/waitlist-service";
+import { scheduleCostSettlements } from "./services/pricing-service";
+import { schedulePushSubscriptionCleanup } from "./services/push-service";
+import { scheduleCalendarSync } from "./services/calendar-service";
+import { startJobWorker } from "./services/job-service";
+import { createCalDavStandIn } from "./services/caldav-stand-in";
+import { CALENDAR } from "./config";
 
 const app = express();
-app.use(express.json());
+app.use(express.json({
+  // Keep the body as received so webhook signatures can be checked
+  verify: (req, _res, buf) => {
+    (req as any).rawBody = buf;
+  }
+}));
 app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
@@ -48,6 +61,12 @@ app.use((req, res, next) => {
     log("Error running database migrations: " + error);
   }
 
+  // A local CalDAV server to connect calendars to without a real account
+  if (CALENDAR.CALDAV_STAND_IN) {
+    app.use("/dev/caldav", createCalDavStandIn().router);
+    log("CalDAV stand-in serving at /dev/caldav (username \"player\", password \"app-password\")");
+  }
+
   const server = await registerRoutes(app);
 
   // Initialize background services
@@ -59,6 +78,34 @@ app.use((req, res, next) => {
     // Initialize weather forecast service
     scheduleWeatherUpdates();
     log("Weather forecast service initialized");
+
+    // Initialize recurring booking generation
+    scheduleRecurringBookings();
+    log("Recurring booking service initialized");
+
+    // Initialize waitlist offer expiry
+    scheduleWaitlistOffers();
+    log("Waitlist service initialized");
+    
+    // Initialize pitch cost settlement
+    scheduleCostSettlements();
+    log("Pricing service initialized");
+    
+    // Initialize daily and weekly email digests
+    scheduleEmailDigests();
+    log("Email digest service initialized");
+    
+    // Initialize removal of expired push subscriptions
+    schedulePushSubscriptionCleanup();
+    log("Push subscription cleanup initialized");
+    
+    // Initialize syncing of connected calendars
+    scheduleCalendarSync();
+    log("Calendar sync service initialized");
+    
+    // Start running queued jobs, now every service has registered its handlers
+    startJobWorker();
+    log("Job worker initialized");
   } catch (error) {
     log("Error initializing background services: " + error);
   }
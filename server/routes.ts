@@ -7,7 +7,6 @@ import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
 import { z } from "zod";
 import Stripe from "stripe";
-import bcrypt from "bcrypt";
 import { 
   insertUserSchema, 
   insertTeamSchema, 
@@ -16,14 +15,110 @@ import {
   insertMatchStatsSchema,
   insertPlayerStatsSchema,
   insertNotificationSchema,
+  insertBookingSeriesSchema,
+  cancellationPolicySchema,
+  lineupUpdateSchema,
+  playerPositionsSchema,
+  playerPhoneSchema,
+  phoneVerificationCodeSchema,
+  messagingConsentSchema,
+  messageTemplateOverrideSchema,
+  notificationSettingsSchema,
+  pushSubscriptionSchema,
+  calendarFeedScopeSchema,
+  caldavConnectionSchema,
+  CALENDAR_PROVIDERS,
+  JOB_STATUSES,
+  type JobStatus,
+  MESSAGE_CHANNELS,
+  type MessageChannel,
+  insertWeatherRuleSchema,
+  COST_ROUNDING_RULES,
   teams as teamSchema
 } from "@shared/schema";
-import { processCancellation, cancelEntireBooking } from "./services/cancellation-service";
+import {
+  processCancellation,
+  cancelEntireBooking,
+  getTeamCancellationPolicy,
+  previewCancellation,
+  processNoShow,
+  sortRefundTiers
+} from "./services/cancellation-service";
 import { getWeatherForBooking } from "./services/weather-service";
+import { approveWeatherCancellation, dismissWeatherAlert } from "./services/weather-alert-service";
+import { createVenue, updateVenue, deleteVenue, resolveBookingVenue } from "./services/venue-service";
+import { priceBooking, previewBookingCost, settleBookingCost, getCreditsPaid } from "./services/pricing-service";
+import {
+  createAvailabilityPoll,
+  getAvailabilityPollSummary,
+  respondToAvailabilityPoll,
+  closeAvailabilityPoll,
+  convertAvailabilityPollOption
+} from "./services/availability-poll-service";
 import { sendNotification, NotificationType } from "./services/notification-service";
-import { calendarService } from "./services/calendar-service";
+import { getNotificationSettings } from "./services/notification-preferences";
+import { isPushConfigured, removePushSubscription, savePushSubscription } from "./services/push-service";
+import { getJobQueueSummary, retryJob } from "./services/job-service";
+import {
+  getAvailableLocales,
+  getTeamMessageTemplates,
+  isNotificationType,
+  listMessageTemplates,
+  previewMessageTemplate,
+  resetTeamMessageTemplate,
+  saveTeamMessageTemplate
+} from "./services/message-template-service";
+import { calendarService, queueBookingCalendarSync } from "./services/calendar-service";
+import { getMissingProviderSettings } from "./services/calendar-providers";
+import {
+  buildCalendarFeed,
+  getCalendarFeedInfo,
+  getOrCreateCalendarFeed,
+  rotateCalendarFeedToken,
+  updateCalendarFeedScope
+} from "./services/calendar-feed-service";
 import { whatsappService } from "./services/whatsapp-service";
+import {
+  changePassword,
+  hashPassword,
+  requestPasswordReset,
+  resetPassword,
+  verifyPassword
+} from "./services/password-service";
+import { verifyWebhookSignature, processWebhookPayload, sendRsvpRequests } from "./services/whatsapp-rsvp-service";
+import {
+  requestPhoneVerification,
+  confirmPhoneVerification,
+  removePhoneNumber,
+  setWhatsAppConsent,
+  getConsentHistory
+} from "./services/phone-verification-service";
 import { teamSelectionService } from "./services/team-selection-service";
+import { getPlayerRating, updateRatingsForMatch } from "./services/rating-service";
+import { getLineup, isLineupLocked, saveGeneratedLineup, updateLineup } from "./services/lineup-service";
+import {
+  materializeSeries,
+  updateSeriesRule,
+  updateSeriesOccurrence,
+  skipSeriesOccurrence,
+  stopSeries,
+  type SeriesEditScope
+} from "./services/recurring-booking-service";
+import {
+  joinBooking,
+  getWaitlist,
+  getActivePlayerBooking,
+  confirmWaitlistOffer,
+  leaveWaitlist,
+  promoteNextFromWaitlist
+} from "./services/waitlist-service";
+import {
+  recordCreditPurchase,
+  recordFailedCreditPurchase,
+  getCreditDiscrepancies,
+  repairCreditBalances
+} from "./services/credit-ledger-service";
+import { PUSH, RECURRING_BOOKINGS, WHATSAPP, isPlatformAdmin } from "./config";
 import { eq } from "drizzle-orm";
 import { db } from "./db";
 
@@ -71,7 +166,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return done(null, false, { message: "Incorrect username" });
       }
       
-      if (user.password !== password) { // In production, use proper password hashing
+      if (!(await verifyPassword(user, password))) {
         return done(null, false, { message: "Incorrect password" });
       }
       
@@ -120,7 +215,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Create user
-      const newUser = await storage.createUser(userData);
+      const newUser = await storage.createUser({
+        ...userData,
+        password: await hashPassword(userData.password)
+      });
       
       // Remove password from response
       const { password, ...userWithoutPassword } = newUser;
@@ -134,7 +232,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/auth/login", passport.authenticate("local"), (req, res) => {
     // If this function is called, authentication was successful
     const { password, ...userWithoutPassword } = req.user as any;
-    res.json(userWithoutPassword);
+    res.json({ ...userWithoutPassword, isPlatformAdmin: isPlatformAdmin(req.user as any) });
   });
 
   app.post("/api/auth/logout", (req, res) => {
@@ -152,7 +250,34 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
     
     const { password, ...userWithoutPassword } = req.user as any;
-    res.json(userWithoutPassword);
+    res.json({ ...userWithoutPassword, isPlatformAdmin: isPlatformAdmin(req.user as any) });
+  });
+
+  // Always answers the same way, so it can't be used to check which emails have accounts
+  app.post("/api/auth/forgot-password", async (req, res) => {
+    try {
+      const result = await requestPasswordReset(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: result.message, errors: result.errors });
+      }
+      
+      res.json({ message: result.message });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/auth/reset-password", async (req, res) => {
+    try {
+      const result = await resetPassword(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: result.message, errors: result.errors });
+      }
+      
+      res.json({ message: result.message });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
   });
 
   // Middleware to check if user is authenticated
@@ -177,6 +302,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
     next();
   };
 
+  // Middleware for tools that reach across every team, so a team admin isn't enough
+  const requirePlatformAdmin = (req: any, res: any, next: any) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+    
+    if (!isPlatformAdmin(req.user as any)) {
+      return res.status(403).json({ message: "Not authorized" });
+    }
+    
+    next();
+  };
+
   // Team routes
   app.get("/api/teams", requireAuth, async (req, res) => {
     try {
@@ -285,6 +423,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "Not authorized to update this team" });
       }
       
+      if (req.body.costRounding !== undefined && !COST_ROUNDING_RULES.includes(req.body.costRounding)) {
+        return res.status(400).json({ message: `Cost rounding must be one of: ${COST_ROUNDING_RULES.join(", ")}` });
+      }
+      
       const updatedTeam = await storage.updateTeam(teamId, req.body);
       res.json(updatedTeam);
     } catch (error: any) {
@@ -292,6 +434,198 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Cancellation policy routes
+  app.get("/api/teams/:id/cancellation-policy", requireAuth, async (req, res) => {
+    try {
+      const teamId = parseInt(req.params.id);
+      const team = await storage.getTeam(teamId);
+      
+      if (!team) {
+        return res.status(404).json({ message: "Team not found" });
+      }
+      
+      const user = req.user as any;
+      
+      if (user.teamId !== teamId && team.ownerId !== user.id) {
+        return res.status(403).json({ message: "Not authorized to view this team" });
+      }
+      
+      res.json(getTeamCancellationPolicy(team));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.put("/api/teams/:id/cancellation-policy", requireAdmin, async (req, res) => {
+    try {
+      const teamId = parseInt(req.params.id);
+      const team = await storage.getTeam(teamId);
+      
+      if (!team) {
+        return res.status(404).json({ message: "Team not found" });
+      }
+      
+      const user = req.user as any;
+      
+      // Ensure user is the owner of the team
+      if (team.ownerId !== user.id) {
+        return res.status(403).json({ message: "Not authorized to update this team" });
+      }
+      
+      const parseResult = cancellationPolicySchema.safeParse(req.body);
+      
+      if (!parseResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid cancellation policy data", 
+          errors: parseResult.error.errors 
+        });
+      }
+      
+      const policy = parseResult.data;
+      
+      // Exemptions only make sense for players on this team
+      const members = await storage.getTeamMembers(teamId);
+      const memberIds = new Set(members.map(member => member.id));
+      const unknownPlayerIds = policy.exemptPlayerIds.filter(id => !memberIds.has(id));
+      
+      if (unknownPlayerIds.length > 0) {
+        return res.status(400).json({ 
+          message: `Exempt players are not members of this team: ${unknownPlayerIds.join(", ")}` 
+        });
+      }
+      
+      const cancellationPolicy = {
+        ...policy,
+        refundTiers: sortRefundTiers(policy.refundTiers),
+        exemptPlayerIds: Array.from(new Set(policy.exemptPlayerIds))
+      };
+      
+      await storage.updateTeam(teamId, { cancellationPolicy });
+      res.json(cancellationPolicy);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Show what cancelling each upcoming booking right now would refund under a draft policy
+  app.post("/api/teams/:id/cancellation-policy/preview", requireAdmin, async (req, res) => {
+    try {
+      const teamId = parseInt(req.params.id);
+      const team = await storage.getTeam(teamId);
+      
+      if (!team) {
+        return res.status(404).json({ message: "Team not found" });
+      }
+      
+      const user = req.user as any;
+      
+      if (team.ownerId !== user.id) {
+        return res.status(403).json({ message: "Not authorized to view this team" });
+      }
+      
+      const parseResult = cancellationPolicySchema.safeParse(req.body);
+      
+      if (!parseResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid cancellation policy data", 
+          errors: parseResult.error.errors 
+        });
+      }
+      
+      const now = new Date();
+      const bookings = await storage.getBookingsByTeam(teamId);
+      const upcoming = bookings
+        .filter(booking => booking.status !== "canceled" && new Date(booking.startTime) > now)
+        .sort((a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime());
+      
+      res.json(upcoming.map(booking => ({
+        title: booking.title,
+        startTime: booking.startTime,
+        creditCost: booking.creditCost || 0,
+        ...previewCancellation(booking, parseResult.data, undefined, now)
+      })));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Team-wide pair constraints for team balancing
+  app.get("/api/teams/:id/pair-constraints", requireAuth, async (req, res) => {
+    try {
+      const teamId = parseInt(req.params.id);
+      const team = await storage.getTeam(teamId);
+      
+      if (!team) {
+        return res.status(404).json({ message: "Team not found" });
+      }
+      
+      const user = req.user as any;
+      
+      if (user.teamId !== teamId && team.ownerId !== user.id) {
+        return res.status(403).json({ message: "Not authorized to view this team" });
+      }
+      
+      res.json(await storage.getPairConstraintsByTeam(teamId));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/teams/:id/pair-constraints", requireAdmin, async (req, res) => {
+    try {
+      const teamId = parseInt(req.params.id);
+      const team = await storage.getTeam(teamId);
+      
+      if (!team) {
+        return res.status(404).json({ message: "Team not found" });
+      }
+      
+      const user = req.user as any;
+      
+      // Ensure user is the owner of the team
+      if (team.ownerId !== user.id) {
+        return res.status(403).json({ message: "Not authorized to update this team" });
+      }
+      
+      const result = await teamSelectionService.addPairConstraint(team, null, user.id, req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: result.message, errors: result.errors });
+      }
+      
+      res.status(201).json(result.constraint);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.delete("/api/teams/:id/pair-constraints/:constraintId", requireAdmin, async (req, res) => {
+    try {
+      const teamId = parseInt(req.params.id);
+      const constraintId = parseInt(req.params.constraintId);
+      const team = await storage.getTeam(teamId);
+      
+      if (!team) {
+        return res.status(404).json({ message: "Team not found" });
+      }
+      
+      const user = req.user as any;
+      
+      if (team.ownerId !== user.id) {
+        return res.status(403).json({ message: "Not authorized to update this team" });
+      }
+      
+      const constraint = await storage.getPairConstraint(constraintId);
+      if (!constraint || constraint.teamId !== teamId || constraint.bookingId !== null) {
+        return res.status(404).json({ message: "Constraint not found" });
+      }
+      
+      await storage.deletePairConstraint(constraintId);
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
   // Team members routes
   app.get("/api/teams/:id/members", requireAuth, async (req, res) => {
     try {
@@ -364,7 +698,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       const newUser = await storage.createUser({
         username,
-        password,
+        password: await hashPassword(password),
         email,
         name,
         role,
@@ -380,8 +714,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Booking routes
-  app.get("/api/bookings", requireAuth, async (req, res) => {
+  // Venue routes
+  app.get("/api/venues", requireAuth, async (req, res) => {
     try {
       const user = req.user as any;
       
@@ -389,138 +723,943 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "User not associated with a team" });
       }
       
-      const bookings = await storage.getBookingsByTeam(user.teamId);
-      res.json(bookings);
+      res.json(await storage.getVenuesByTeam(user.teamId));
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
 
-  app.post("/api/bookings", requireAdmin, async (req, res) => {
+  app.post("/api/venues", requireAdmin, async (req, res) => {
     try {
-      console.log("Received booking data:", JSON.stringify(req.body, null, 2));
-      
-      // Pre-process the dates in the request body
-      // Convert ISO strings to Date objects before validation
-      const processedData = {
-        ...req.body,
-        startTime: req.body.startTime ? new Date(req.body.startTime) : undefined,
-        endTime: req.body.endTime ? new Date(req.body.endTime) : undefined
-      };
-      
-      console.log("Pre-processed booking data:", processedData);
-      console.log("Required schema:", insertBookingSchema);
-      
-      const parseResult = insertBookingSchema.safeParse(processedData);
-      
-      if (!parseResult.success) {
-        console.error("Validation error details:", parseResult.error.errors);
-        return res.status(400).json({ 
-          message: "Invalid booking data", 
-          errors: parseResult.error.errors,
-          receivedData: processedData
-        });
-      }
-      
-      const bookingData = parseResult.data;
       const user = req.user as any;
       
-      console.log("User data:", user);
-      
       if (!user.teamId) {
         return res.status(400).json({ message: "User not associated with a team" });
       }
       
-      // Set team id from user
-      bookingData.teamId = user.teamId;
-      
-      console.log("Final booking data to be saved:", bookingData);
+      const result = await createVenue(user.teamId, req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: result.message, errors: result.errors });
+      }
       
-      const newBooking = await storage.createBooking(bookingData);
-      console.log("Booking created successfully:", newBooking);
-      res.status(201).json(newBooking);
+      res.status(201).json(result.venue);
     } catch (error: any) {
-      console.error("Error creating booking:", error);
       res.status(500).json({ message: error.message });
     }
   });
 
-  app.get("/api/bookings/:id", requireAuth, async (req, res) => {
+  app.get("/api/venues/:id", requireAuth, async (req, res) => {
     try {
-      const bookingId = parseInt(req.params.id);
-      const booking = await storage.getBooking(bookingId);
+      const venueId = parseInt(req.params.id);
+      const venue = await storage.getVenue(venueId);
       
-      if (!booking) {
-        return res.status(404).json({ message: "Booking not found" });
+      if (!venue) {
+        return res.status(404).json({ message: "Venue not found" });
       }
       
       const user = req.user as any;
       
-      // Ensure user belongs to the team with this booking
-      if (user.teamId !== booking.teamId) {
-        return res.status(403).json({ message: "Not authorized to view this booking" });
+      if (user.teamId !== venue.teamId) {
+        return res.status(403).json({ message: "Not authorized to view this venue" });
       }
       
-      res.json(booking);
+      res.json(venue);
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
 
-  app.put("/api/bookings/:id", requireAdmin, async (req, res) => {
+  app.put("/api/venues/:id", requireAdmin, async (req, res) => {
     try {
-      const bookingId = parseInt(req.params.id);
-      const booking = await storage.getBooking(bookingId);
+      const venueId = parseInt(req.params.id);
+      const venue = await storage.getVenue(venueId);
       
-      if (!booking) {
-        return res.status(404).json({ message: "Booking not found" });
+      if (!venue) {
+        return res.status(404).json({ message: "Venue not found" });
       }
       
       const user = req.user as any;
       
-      // Ensure user belongs to the team with this booking
-      if (user.teamId !== booking.teamId) {
-        return res.status(403).json({ message: "Not authorized to update this booking" });
+      if (user.teamId !== venue.teamId) {
+        return res.status(403).json({ message: "Not authorized to update this venue" });
       }
       
-      const updatedBooking = await storage.updateBooking(bookingId, req.body);
-      res.json(updatedBooking);
+      const result = await updateVenue(venue, req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: result.message, errors: result.errors });
+      }
+      
+      res.json(result.venue);
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
 
-  app.delete("/api/bookings/:id", requireAdmin, async (req, res) => {
+  app.delete("/api/venues/:id", requireAdmin, async (req, res) => {
     try {
-      const bookingId = parseInt(req.params.id);
-      const booking = await storage.getBooking(bookingId);
+      const venueId = parseInt(req.params.id);
+      const venue = await storage.getVenue(venueId);
       
-      if (!booking) {
-        return res.status(404).json({ message: "Booking not found" });
+      if (!venue) {
+        return res.status(404).json({ message: "Venue not found" });
       }
       
       const user = req.user as any;
       
-      // Ensure user belongs to the team with this booking
-      if (user.teamId !== booking.teamId) {
-        return res.status(403).json({ message: "Not authorized to delete this booking" });
+      if (user.teamId !== venue.teamId) {
+        return res.status(403).json({ message: "Not authorized to delete this venue" });
       }
       
-      await storage.deleteBooking(bookingId);
-      res.json({ message: "Booking deleted successfully" });
+      const result = await deleteVenue(venue);
+      if (!result.success) {
+        return res.status(400).json({ message: result.message });
+      }
+      
+      res.json({ message: result.message });
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
 
-  // Player booking routes
-  app.get("/api/bookings/:id/players", requireAuth, async (req, res) => {
+  // Availability poll routes
+  app.get("/api/availability-polls", requireAuth, async (req, res) => {
     try {
-      const bookingId = parseInt(req.params.id);
-      const booking = await storage.getBooking(bookingId);
+      const user = req.user as any;
       
-      if (!booking) {
-        return res.status(404).json({ message: "Booking not found" });
+      if (!user.teamId) {
+        return res.status(400).json({ message: "User not associated with a team" });
+      }
+      
+      res.json(await storage.getAvailabilityPollsByTeam(user.teamId));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/availability-polls", requireAdmin, async (req, res) => {
+    try {
+      const user = req.user as any;
+      
+      if (!user.teamId) {
+        return res.status(400).json({ message: "User not associated with a team" });
+      }
+      
+      const result = await createAvailabilityPoll(user.teamId, user.id, req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: result.message, errors: result.errors });
+      }
+      
+      res.status(201).json(result.poll);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/availability-polls/:id", requireAuth, async (req, res) => {
+    try {
+      const pollId = parseInt(req.params.id);
+      const summary = await getAvailabilityPollSummary(pollId);
+      
+      if (!summary) {
+        return res.status(404).json({ message: "Poll not found" });
+      }
+      
+      const user = req.user as any;
+      
+      if (user.teamId !== summary.poll.teamId) {
+        return res.status(403).json({ message: "Not authorized to view this poll" });
+      }
+      
+      res.json(summary);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.put("/api/availability-polls/:id/answers", requireAuth, async (req, res) => {
+    try {
+      const pollId = parseInt(req.params.id);
+      const user = req.user as any;
+      
+      const result = await respondToAvailabilityPoll(pollId, user, req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: result.message, errors: result.errors });
+      }
+      
+      res.json(await getAvailabilityPollSummary(pollId));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/availability-polls/:id/close", requireAdmin, async (req, res) => {
+    try {
+      const pollId = parseInt(req.params.id);
+      const poll = await storage.getAvailabilityPoll(pollId);
+      
+      if (!poll) {
+        return res.status(404).json({ message: "Poll not found" });
+      }
+      
+      const user = req.user as any;
+      
+      if (user.teamId !== poll.teamId) {
+        return res.status(403).json({ message: "Not authorized to close this poll" });
+      }
+      
+      const result = await closeAvailabilityPoll(poll);
+      if (!result.success) {
+        return res.status(400).json({ message: result.message });
+      }
+      
+      res.json(result.poll);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/availability-polls/:id/convert", requireAdmin, async (req, res) => {
+    try {
+      const pollId = parseInt(req.params.id);
+      const poll = await storage.getAvailabilityPoll(pollId);
+      
+      if (!poll) {
+        return res.status(404).json({ message: "Poll not found" });
+      }
+      
+      const user = req.user as any;
+      
+      if (user.teamId !== poll.teamId) {
+        return res.status(403).json({ message: "Not authorized to book this poll" });
+      }
+      
+      const parseResult = z.object({ optionId: z.number().int() }).safeParse(req.body);
+      if (!parseResult.success) {
+        return res.status(400).json({ message: "Invalid option", errors: parseResult.error.errors });
+      }
+      
+      const result = await convertAvailabilityPollOption(poll, parseResult.data.optionId);
+      if (!result.success) {
+        return res.status(400).json({ message: result.message });
+      }
+      
+      res.status(201).json(result);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Booking routes
+  app.get("/api/bookings", requireAuth, async (req, res) => {
+    try {
+      const user = req.user as any;
+      
+      if (!user.teamId) {
+        return res.status(400).json({ message: "User not associated with a team" });
+      }
+      
+      const bookings = await storage.getBookingsByTeam(user.teamId);
+      res.json(bookings);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/bookings", requireAdmin, async (req, res) => {
+    try {
+      console.log("Received booking data:", JSON.stringify(req.body, null, 2));
+      
+      // Pre-process the dates in the request body
+      // Convert ISO strings to Date objects before validation
+      const processedData = {
+        ...req.body,
+        startTime: req.body.startTime ? new Date(req.body.startTime) : undefined,
+        endTime: req.body.endTime ? new Date(req.body.endTime) : undefined
+      };
+      
+      console.log("Pre-processed booking data:", processedData);
+      console.log("Required schema:", insertBookingSchema);
+      
+      const parseResult = insertBookingSchema.safeParse(processedData);
+      
+      if (!parseResult.success) {
+        console.error("Validation error details:", parseResult.error.errors);
+        return res.status(400).json({ 
+          message: "Invalid booking data", 
+          errors: parseResult.error.errors,
+          receivedData: processedData
+        });
+      }
+      
+      const bookingData = parseResult.data;
+      const user = req.user as any;
+      
+      console.log("User data:", user);
+      
+      if (!user.teamId) {
+        return res.status(400).json({ message: "User not associated with a team" });
+      }
+      
+      // Set team id from user
+      bookingData.teamId = user.teamId;
+      
+      // A picked venue supplies the location text
+      const venueResult = await resolveBookingVenue(user.teamId, bookingData.venueId, bookingData.location);
+      if (!venueResult.success) {
+        return res.status(400).json({ message: venueResult.message });
+      }
+      bookingData.venueId = venueResult.venueId ?? null;
+      bookingData.location = venueResult.location!;
+      
+      // A pitch cost sets each player's share
+      const team = await storage.getTeam(user.teamId);
+      if (team) {
+        const pricing = await priceBooking(team, bookingData);
+        if (pricing.pitchCost !== undefined) bookingData.pitchCost = pricing.pitchCost;
+        if (pricing.creditCost !== undefined) bookingData.creditCost = pricing.creditCost;
+      }
+      
+      console.log("Final booking data to be saved:", bookingData);
+      
+      const newBooking = await storage.createBooking(bookingData);
+      console.log("Booking created successfully:", newBooking);
+      await queueBookingCalendarSync(newBooking);
+      res.status(201).json(newBooking);
+    } catch (error: any) {
+      console.error("Error creating booking:", error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/bookings/:id", requireAuth, async (req, res) => {
+    try {
+      const bookingId = parseInt(req.params.id);
+      const booking = await storage.getBooking(bookingId);
+      
+      if (!booking) {
+        return res.status(404).json({ message: "Booking not found" });
+      }
+      
+      const user = req.user as any;
+      
+      // Ensure user belongs to the team with this booking
+      if (user.teamId !== booking.teamId) {
+        return res.status(403).json({ message: "Not authorized to view this booking" });
+      }
+      
+      res.json(booking);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.put("/api/bookings/:id", requireAdmin, async (req, res) => {
+    try {
+      const bookingId = parseInt(req.params.id);
+      const booking = await storage.getBooking(bookingId);
+      
+      if (!booking) {
+        return res.status(404).json({ message: "Booking not found" });
+      }
+      
+      const user = req.user as any;
+      
+      // Ensure user belongs to the team with this booking
+      if (user.teamId !== booking.teamId) {
+        return res.status(403).json({ message: "Not authorized to update this booking" });
+      }
+      
+      // A picked venue supplies the location text
+      const venueResult = await resolveBookingVenue(booking.teamId, req.body.venueId, req.body.location);
+      if (!venueResult.success) {
+        return res.status(400).json({ message: venueResult.message });
+      }
+      if (venueResult.venueId !== undefined) {
+        req.body.venueId = venueResult.venueId;
+        req.body.location = venueResult.location;
+      }
+      
+      // Re-price when the pitch cost or anything it depends on changes. A new
+      // venue without a pitch cost given brings its own rate.
+      const pricingFields = ["pitchCost", "venueId", "startTime", "endTime", "totalSlots"];
+      const team = await storage.getTeam(booking.teamId);
+      if (team && pricingFields.some(field => req.body[field] !== undefined)) {
+        const pricing = await priceBooking(team, {
+          pitchCost: req.body.pitchCost !== undefined
+            ? req.body.pitchCost
+            : req.body.venueId !== undefined ? undefined : booking.pitchCost,
+          venueId: req.body.venueId !== undefined ? req.body.venueId : booking.venueId,
+          startTime: req.body.startTime ? new Date(req.body.startTime) : booking.startTime,
+          endTime: req.body.endTime ? new Date(req.body.endTime) : booking.endTime,
+          totalSlots: req.body.totalSlots ?? booking.totalSlots
+        });
+        if (pricing.pitchCost !== undefined) req.body.pitchCost = pricing.pitchCost;
+        if (pricing.creditCost !== undefined) req.body.creditCost = pricing.creditCost;
+      }
+      
+      // Occurrences of a recurring series can be edited on their own or
+      // together with all following occurrences
+      if (booking.seriesId) {
+        const { scope = "this", ...changes } = req.body;
+        
+        if (scope !== "this" && scope !== "following") {
+          return res.status(400).json({ message: "Scope must be 'this' or 'following'" });
+        }
+        
+        const updatedBooking = await updateSeriesOccurrence(bookingId, {
+          ...changes,
+          startTime: changes.startTime ? new Date(changes.startTime) : undefined,
+          endTime: changes.endTime ? new Date(changes.endTime) : undefined
+        }, scope as SeriesEditScope);
+        return res.json(updatedBooking);
+      }
+      
+      const updatedBooking = await storage.updateBooking(bookingId, req.body);
+      if (updatedBooking) {
+        await queueBookingCalendarSync(updatedBooking);
+      }
+      res.json(updatedBooking);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.delete("/api/bookings/:id", requireAdmin, async (req, res) => {
+    try {
+      const bookingId = parseInt(req.params.id);
+      const booking = await storage.getBooking(bookingId);
+      
+      if (!booking) {
+        return res.status(404).json({ message: "Booking not found" });
+      }
+      
+      const user = req.user as any;
+      
+      // Ensure user belongs to the team with this booking
+      if (user.teamId !== booking.teamId) {
+        return res.status(403).json({ message: "Not authorized to delete this booking" });
+      }
+      
+      // A series would otherwise generate the occurrence again
+      if (booking.seriesId) {
+        await skipSeriesOccurrence(booking, user.id);
+        return res.json({ message: "Session skipped" });
+      }
+      
+      await storage.deleteBooking(bookingId);
+      await queueBookingCalendarSync(booking, true);
+      res.json({ message: "Booking deleted successfully" });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Pitch cost routes
+  app.get("/api/bookings/:id/cost", requireAuth, async (req, res) => {
+    try {
+      const bookingId = parseInt(req.params.id);
+      const booking = await storage.getBooking(bookingId);
+      
+      if (!booking) {
+        return res.status(404).json({ message: "Booking not found" });
+      }
+      
+      const user = req.user as any;
+      
+      // Ensure user belongs to the team with this booking
+      if (user.teamId !== booking.teamId) {
+        return res.status(403).json({ message: "Not authorized to view this booking" });
+      }
+      
+      const preview = await previewBookingCost(booking);
+      if (!preview) {
+        return res.status(404).json({ message: "This booking has no pitch cost" });
+      }
+      
+      res.json(preview);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+  
+  app.post("/api/bookings/:id/settle-cost", requireAdmin, async (req, res) => {
+    try {
+      const bookingId = parseInt(req.params.id);
+      const booking = await storage.getBooking(bookingId);
+      
+      if (!booking) {
+        return res.status(404).json({ message: "Booking not found" });
+      }
+      
+      const user = req.user as any;
+      
+      // Ensure user belongs to the team with this booking
+      if (user.teamId !== booking.teamId) {
+        return res.status(403).json({ message: "Not authorized to settle this booking" });
+      }
+      
+      const result = await settleBookingCost(bookingId);
+      if (!result.success) {
+        return res.status(400).json({ message: result.message });
+      }
+      
+      res.json(result);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+  
+  app.get("/api/teams/:id/pitch-costs", requireAdmin, async (req, res) => {
+    try {
+      const teamId = parseInt(req.params.id);
+      const team = await storage.getTeam(teamId);
+      
+      if (!team) {
+        return res.status(404).json({ message: "Team not found" });
+      }
+      
+      const user = req.user as any;
+      
+      // Ensure user is the owner of the team
+      if (team.ownerId !== user.id) {
+        return res.status(403).json({ message: "Not authorized to view this team's pitch costs" });
+      }
+      
+      const entries = await storage.getPitchCostEntriesByTeam(teamId);
+      const balance = Math.round(entries.reduce((sum, entry) => sum + entry.amount, 0) * 100) / 100;
+      
+      res.json({ entries, balance });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Message templates: the team's wording for each notification, by channel
+  app.get("/api/teams/:id/message-templates", requireAdmin, async (req, res) => {
+    try {
+      const teamId = parseInt(req.params.id);
+      const team = await storage.getTeam(teamId);
+      
+      if (!team) {
+        return res.status(404).json({ message: "Team not found" });
+      }
+      
+      const user = req.user as any;
+      
+      if (team.ownerId !== user.id) {
+        return res.status(403).json({ message: "Not authorized to view this team's message templates" });
+      }
+      
+      const locale = typeof req.query.locale === "string" ? req.query.locale : undefined;
+      
+      res.json({
+        locales: getAvailableLocales(),
+        templates: await getTeamMessageTemplates(teamId, locale)
+      });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+  
+  app.put("/api/teams/:id/message-templates/:type/:channel", requireAdmin, async (req, res) => {
+    try {
+      const teamId = parseInt(req.params.id);
+      const team = await storage.getTeam(teamId);
+      
+      if (!team) {
+        return res.status(404).json({ message: "Team not found" });
+      }
+      
+      const user = req.user as any;
+      
+      if (team.ownerId !== user.id) {
+        return res.status(403).json({ message: "Not authorized to update this team's message templates" });
+      }
+      
+      const { type, channel } = req.params;
+      if (!isNotificationType(type) || !(MESSAGE_CHANNELS as readonly string[]).includes(channel)) {
+        return res.status(404).json({ message: "Message template not found" });
+      }
+      
+      const parseResult = messageTemplateOverrideSchema.safeParse(req.body);
+      
+      if (!parseResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid message template", 
+          errors: parseResult.error.errors 
+        });
+      }
+      
+      const result = await saveTeamMessageTemplate(teamId, type, channel as MessageChannel, parseResult.data, user.id);
+      if (!result.success) {
+        return res.status(400).json({ message: result.message });
+      }
+      
+      res.json(result.override);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+  
+  // Go back to the built-in wording
+  app.delete("/api/teams/:id/message-templates/:type/:channel", requireAdmin, async (req, res) => {
+    try {
+      const teamId = parseInt(req.params.id);
+      const team = await storage.getTeam(teamId);
+      
+      if (!team) {
+        return res.status(404).json({ message: "Team not found" });
+      }
+      
+      const user = req.user as any;
+      
+      if (team.ownerId !== user.id) {
+        return res.status(403).json({ message: "Not authorized to update this team's message templates" });
+      }
+      
+      const { type, channel } = req.params;
+      if (!isNotificationType(type) || !(MESSAGE_CHANNELS as readonly string[]).includes(channel)) {
+        return res.status(404).json({ message: "Message template not found" });
+      }
+      
+      const locale = typeof req.query.locale === "string" ? req.query.locale : undefined;
+      const deleted = await resetTeamMessageTemplate(teamId, type, channel as MessageChannel, locale);
+      
+      if (!deleted) {
+        return res.status(404).json({ message: "Message template override not found" });
+      }
+      
+      res.json({ message: "Message template reset to the default" });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+  
+  // Fill in draft wording with sample values
+  app.post("/api/teams/:id/message-templates/:type/preview", requireAdmin, async (req, res) => {
+    try {
+      const teamId = parseInt(req.params.id);
+      const team = await storage.getTeam(teamId);
+      
+      if (!team) {
+        return res.status(404).json({ message: "Team not found" });
+      }
+      
+      const user = req.user as any;
+      
+      if (team.ownerId !== user.id) {
+        return res.status(403).json({ message: "Not authorized to view this team's message templates" });
+      }
+      
+      const { type } = req.params;
+      if (!isNotificationType(type)) {
+        return res.status(404).json({ message: "Message template not found" });
+      }
+      
+      const parseResult = messageTemplateOverrideSchema.safeParse(req.body);
+      
+      if (!parseResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid message template", 
+          errors: parseResult.error.errors 
+        });
+      }
+      
+      res.json(previewMessageTemplate(type, parseResult.data));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+  
+  // Notifications players on the team weren't sent because of their preferences
+  app.get("/api/teams/:id/notification-suppressions", requireAdmin, async (req, res) => {
+    try {
+      const teamId = parseInt(req.params.id);
+      const team = await storage.getTeam(teamId);
+      
+      if (!team) {
+        return res.status(404).json({ message: "Team not found" });
+      }
+      
+      const user = req.user as any;
+      
+      if (team.ownerId !== user.id) {
+        return res.status(403).json({ message: "Not authorized to view this team's delivery log" });
+      }
+      
+      const userId = req.query.userId ? parseInt(req.query.userId as string) : undefined;
+      const bookingId = req.query.bookingId ? parseInt(req.query.bookingId as string) : undefined;
+      
+      const suppressions = await storage.getNotificationSuppressionsByTeam(teamId, { userId, bookingId });
+      const members = await storage.getTeamMembers(teamId);
+      const names = new Map(members.map(member => [member.id, member.name]));
+      
+      res.json(suppressions.map(suppression => ({
+        ...suppression,
+        playerName: names.get(suppression.userId) ?? null
+      })));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+  
+  // Background jobs: counts by status and the most recent jobs
+  app.get("/api/admin/jobs", requirePlatformAdmin, async (req, res) => {
+    try {
+      const status = typeof req.query.status === "string" ? req.query.status : undefined;
+      if (status && !(JOB_STATUSES as readonly string[]).includes(status)) {
+        return res.status(400).json({ message: `Status must be one of: ${JOB_STATUSES.join(", ")}` });
+      }
+      
+      const type = typeof req.query.type === "string" ? req.query.type : undefined;
+      
+      res.json(await getJobQueueSummary({ status: status as JobStatus | undefined, type }));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+  
+  app.post("/api/admin/jobs/:id/retry", requirePlatformAdmin, async (req, res) => {
+    try {
+      const result = await retryJob(parseInt(req.params.id));
+      
+      if (!result.success) {
+        return res.status(400).json({ message: result.message });
+      }
+      
+      res.json(result.job);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Recurring booking series routes
+  const bookingSeriesRuleSchema = z.object({
+    frequency: z.enum(RECURRING_BOOKINGS.FREQUENCIES as [string, ...string[]]),
+    endDate: z.date().nullable().optional(),
+    occurrenceCount: z.number().int().min(1).max(RECURRING_BOOKINGS.MAX_OCCURRENCES).nullable().optional(),
+    skipDates: z.array(z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Skip dates must be yyyy-MM-dd")).optional()
+  });
+  
+  app.get("/api/booking-series", requireAuth, async (req, res) => {
+    try {
+      const user = req.user as any;
+      
+      if (!user.teamId) {
+        return res.status(400).json({ message: "User not associated with a team" });
+      }
+      
+      const series = await storage.getBookingSeriesByTeam(user.teamId);
+      res.json(series);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+  
+  app.post("/api/booking-series", requireAdmin, async (req, res) => {
+    try {
+      const user = req.user as any;
+      
+      if (!user.teamId) {
+        return res.status(400).json({ message: "User not associated with a team" });
+      }
+      
+      const startTime = req.body.startTime ? new Date(req.body.startTime) : undefined;
+      const endTime = req.body.endTime ? new Date(req.body.endTime) : undefined;
+      
+      if (!startTime || !endTime || endTime <= startTime) {
+        return res.status(400).json({ message: "A valid start and end time are required" });
+      }
+      
+      // A picked venue supplies the location text
+      const venueResult = await resolveBookingVenue(user.teamId, req.body.venueId, req.body.location);
+      if (!venueResult.success) {
+        return res.status(400).json({ message: venueResult.message });
+      }
+      
+      // A pitch cost sets each player's share
+      const team = await storage.getTeam(user.teamId);
+      const pricing = team
+        ? await priceBooking(team, {
+            pitchCost: req.body.pitchCost,
+            venueId: venueResult.venueId,
+            startTime,
+            endTime,
+            totalSlots: req.body.totalSlots
+          })
+        : {};
+      
+      const processedData = {
+        title: req.body.title,
+        location: venueResult.location,
+        venueId: venueResult.venueId ?? null,
+        format: req.body.format,
+        totalSlots: req.body.totalSlots,
+        creditCost: pricing.creditCost ?? req.body.creditCost,
+        pitchCost: pricing.pitchCost ?? null,
+        frequency: req.body.frequency,
+        firstStartTime: startTime,
+        durationMinutes: Math.round((endTime.getTime() - startTime.getTime()) / (60 * 1000)),
+        endDate: req.body.endDate ? new Date(req.body.endDate) : null,
+        occurrenceCount: req.body.occurrenceCount || null,
+        skipDates: req.body.skipDates || [],
+        teamId: user.teamId,
+        createdBy: user.id
+      };
+      
+      const parseResult = insertBookingSeriesSchema
+        .merge(bookingSeriesRuleSchema)
+        .safeParse(processedData);
+      
+      if (!parseResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid booking series data", 
+          errors: parseResult.error.errors 
+        });
+      }
+      
+      const series = await storage.createBookingSeries(parseResult.data);
+      const bookings = await materializeSeries(series);
+      
+      res.status(201).json({ series, bookings });
+    } catch (error: any) {
+      console.error("Error creating booking series:", error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+  
+  app.get("/api/booking-series/:id", requireAuth, async (req, res) => {
+    try {
+      const seriesId = parseInt(req.params.id);
+      const series = await storage.getBookingSeries(seriesId);
+      
+      if (!series) {
+        return res.status(404).json({ message: "Booking series not found" });
+      }
+      
+      const user = req.user as any;
+      
+      // Ensure user belongs to the team with this series
+      if (user.teamId !== series.teamId) {
+        return res.status(403).json({ message: "Not authorized to view this booking series" });
+      }
+      
+      const bookings = await storage.getBookingsBySeries(seriesId);
+      res.json({ series, bookings });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+  
+  app.put("/api/booking-series/:id", requireAdmin, async (req, res) => {
+    try {
+      const seriesId = parseInt(req.params.id);
+      const series = await storage.getBookingSeries(seriesId);
+      
+      if (!series) {
+        return res.status(404).json({ message: "Booking series not found" });
+      }
+      
+      const user = req.user as any;
+      
+      // Ensure user belongs to the team with this series
+      if (user.teamId !== series.teamId) {
+        return res.status(403).json({ message: "Not authorized to update this booking series" });
+      }
+      
+      const parseResult = bookingSeriesRuleSchema
+        .omit({ frequency: true })
+        .extend({
+          title: z.string().min(1).optional(),
+          location: z.string().min(1).optional(),
+          venueId: z.number().int().nullable().optional(),
+          format: z.string().optional(),
+          totalSlots: z.number().int().min(2).optional(),
+          creditCost: z.number().int().min(0).optional(),
+          pitchCost: z.number().min(0).nullable().optional()
+        })
+        .safeParse({
+          ...req.body,
+          endDate: req.body.endDate ? new Date(req.body.endDate) : req.body.endDate
+        });
+      
+      if (!parseResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid booking series data", 
+          errors: parseResult.error.errors 
+        });
+      }
+      
+      const changes = parseResult.data;
+      
+      // A picked venue supplies the location text
+      const venueResult = await resolveBookingVenue(series.teamId, changes.venueId, changes.location);
+      if (!venueResult.success) {
+        return res.status(400).json({ message: venueResult.message });
+      }
+      if (venueResult.venueId !== undefined) {
+        changes.venueId = venueResult.venueId;
+        changes.location = venueResult.location;
+      }
+      
+      // Re-price when the pitch cost, venue or slots change
+      const team = await storage.getTeam(series.teamId);
+      if (team && (changes.pitchCost !== undefined || changes.venueId !== undefined || changes.totalSlots !== undefined)) {
+        const startTime = new Date(series.firstStartTime);
+        const pricing = await priceBooking(team, {
+          pitchCost: changes.pitchCost !== undefined
+            ? changes.pitchCost
+            : changes.venueId !== undefined ? undefined : series.pitchCost,
+          venueId: changes.venueId !== undefined ? changes.venueId : series.venueId,
+          startTime,
+          endTime: new Date(startTime.getTime() + series.durationMinutes * 60 * 1000),
+          totalSlots: changes.totalSlots ?? series.totalSlots
+        });
+        if (pricing.pitchCost !== undefined) changes.pitchCost = pricing.pitchCost;
+        if (pricing.creditCost !== undefined) changes.creditCost = pricing.creditCost;
+      }
+      
+      const updatedSeries = await updateSeriesRule(seriesId, changes, user.id);
+      res.json(updatedSeries);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+  
+  app.delete("/api/booking-series/:id", requireAdmin, async (req, res) => {
+    try {
+      const seriesId = parseInt(req.params.id);
+      const series = await storage.getBookingSeries(seriesId);
+      
+      if (!series) {
+        return res.status(404).json({ message: "Booking series not found" });
+      }
+      
+      const user = req.user as any;
+      
+      // Ensure user belongs to the team with this series
+      if (user.teamId !== series.teamId) {
+        return res.status(403).json({ message: "Not authorized to stop this booking series" });
+      }
+      
+      const removedCount = await stopSeries(seriesId, user.id);
+      res.json({ 
+        message: "Booking series stopped successfully",
+        removedCount
+      });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Player booking routes
+  app.get("/api/bookings/:id/players", requireAuth, async (req, res) => {
+    try {
+      const bookingId = parseInt(req.params.id);
+      const booking = await storage.getBooking(bookingId);
+      
+      if (!booking) {
+        return res.status(404).json({ message: "Booking not found" });
       }
       
       const user = req.user as any;
@@ -553,27 +1692,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "Not authorized to join this booking" });
       }
       
-      // Check if booking has available slots
-      if (booking.availableSlots <= 0) {
-        return res.status(400).json({ message: "No available slots for this booking" });
-      }
-      
-      // Check if player already joined
-      const existingBooking = await storage.getPlayerBookingsByPlayer(user.id);
-      const alreadyJoined = existingBooking.some(pb => pb.bookingId === bookingId);
+      // Joins the waitlist instead when there are no available slots
+      const result = await joinBooking(bookingId, user.id);
       
-      if (alreadyJoined) {
-        return res.status(400).json({ message: "Player already joined this booking" });
+      if (!result.success) {
+        return res.status(400).json({ message: result.message });
       }
       
-      const playerBookingData = {
-        playerId: user.id,
-        bookingId,
-        status: "confirmed"
-      };
-      
-      const newPlayerBooking = await storage.createPlayerBooking(playerBookingData);
-      res.status(201).json(newPlayerBooking);
+      res.status(201).json(result.playerBooking);
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
@@ -592,21 +1718,91 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       const user = req.user as any;
       
-      // Ensure user is either the player or an admin
-      if (user.id !== playerId && user.role !== "admin") {
+      // Ensure user is either the player or an admin of the booking's team
+      if (user.id !== playerId && (user.role !== "admin" || user.teamId !== booking.teamId)) {
         return res.status(403).json({ message: "Not authorized to remove this player" });
       }
       
-      // Find the player booking
-      const playerBookings = await storage.getPlayerBookingsByBooking(bookingId);
-      const playerBooking = playerBookings.find(pb => pb.playerId === playerId);
+      // Find the player booking
+      const playerBooking = await getActivePlayerBooking(bookingId, playerId);
+      
+      if (!playerBooking) {
+        return res.status(404).json({ message: "Player booking not found" });
+      }
+      
+      if (playerBooking.status === "waitlisted" || playerBooking.status === "pending") {
+        await leaveWaitlist(playerBooking);
+        return res.json({ message: "Player removed from waitlist successfully" });
+      }
+      
+      // Players leaving themselves are refunded according to the cancellation policy
+      if (user.id === playerId) {
+        const result = await processCancellation(playerId, bookingId, "Left session");
+        
+        if (!result.success) {
+          return res.status(400).json({ message: result.message });
+        }
+        
+        return res.json({ message: result.message });
+      }
+      
+      // Players removed by an admin get back everything they paid, which may differ from today's credit cost
+      await storage.cancelPlayerBookingWithRefund(
+        playerBooking.id,
+        await getCreditsPaid(playerId, playerBooking.id, bookingId),
+        "Removed by admin"
+      );
+      
+      // Offer the freed slot to the next player on the waitlist
+      await promoteNextFromWaitlist(bookingId);
+      
+      res.json({ message: "Player removed from booking successfully" });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Waitlist routes
+  app.get("/api/bookings/:id/waitlist", requireAuth, async (req, res) => {
+    try {
+      const bookingId = parseInt(req.params.id);
+      const booking = await storage.getBooking(bookingId);
+      
+      if (!booking) {
+        return res.status(404).json({ message: "Booking not found" });
+      }
+      
+      const user = req.user as any;
+      
+      // Ensure user belongs to the team with this booking
+      if (user.teamId !== booking.teamId) {
+        return res.status(403).json({ message: "Not authorized to view this booking" });
+      }
+      
+      const waitlist = await getWaitlist(bookingId);
+      res.json(waitlist.map((pb, index) => ({ ...pb, position: index + 1 })));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/bookings/:id/waitlist/confirm", requireAuth, async (req, res) => {
+    try {
+      const bookingId = parseInt(req.params.id);
+      const booking = await storage.getBooking(bookingId);
+      
+      if (!booking) {
+        return res.status(404).json({ message: "Booking not found" });
+      }
+      
+      const user = req.user as any;
+      const result = await confirmWaitlistOffer(bookingId, user.id);
       
-      if (!playerBooking) {
-        return res.status(404).json({ message: "Player booking not found" });
+      if (!result.success) {
+        return res.status(400).json({ message: result.message });
       }
       
-      await storage.deletePlayerBooking(playerBooking.id);
-      res.json({ message: "Player removed from booking successfully" });
+      res.json(result.playerBooking);
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
@@ -668,6 +1864,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       };
       
       const newStats = await storage.createMatchStats(statsData);
+      
+      // Rate everyone who played from the result
+      await updateRatingsForMatch(bookingId);
+      
       res.status(201).json(newStats);
     } catch (error: any) {
       res.status(500).json({ message: error.message });
@@ -709,6 +1909,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       const updatedStats = await storage.updateMatchStats(existingStats.id, updatedStatsData);
+      
+      // Re-rate the match if the result changed
+      await updateRatingsForMatch(bookingId);
+      
       res.json(updatedStats);
     } catch (error: any) {
       res.status(500).json({ message: error.message });
@@ -812,32 +2016,388 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const playerStats = await storage.getPlayerStatsByBooking(bookingId);
       const existingStats = playerStats.find(ps => ps.playerId === playerId);
       
-      if (!existingStats) {
-        return res.status(404).json({ message: "Stats not found for this player and booking" });
+      if (!existingStats) {
+        return res.status(404).json({ message: "Stats not found for this player and booking" });
+      }
+      
+      const updatedStats = await storage.updatePlayerStats(existingStats.id, req.body);
+      
+      // Check for achievements after updating stats
+      await storage.checkPlayerAchievements(playerId);
+      
+      res.json(updatedStats);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Player achievements routes
+  app.get("/api/achievements", requireAuth, async (req, res) => {
+    try {
+      const achievements = await storage.getAchievements();
+      res.json(achievements);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/players/:id/achievements", requireAuth, async (req, res) => {
+    try {
+      const playerId = parseInt(req.params.id);
+      const player = await storage.getUser(playerId);
+      
+      if (!player) {
+        return res.status(404).json({ message: "Player not found" });
+      }
+      
+      const user = req.user as any;
+      
+      // Ensure user belongs to the same team as the player
+      if (user.teamId !== player.teamId) {
+        return res.status(403).json({ message: "Not authorized to view achievements for this player" });
+      }
+      
+      const achievements = await storage.getPlayerAchievements(playerId);
+      res.json(achievements);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+  
+  // Update the positions a player prefers to play
+  app.put("/api/players/:id/positions", requireAuth, async (req, res) => {
+    try {
+      const playerId = parseInt(req.params.id);
+      const player = await storage.getUser(playerId);
+      
+      if (!player) {
+        return res.status(404).json({ message: "Player not found" });
+      }
+      
+      const user = req.user as any;
+      
+      // Players set their own positions; team admins can set them for their players
+      const isTeamAdmin = user.role === "admin" && player.teamId !== null && user.teamId === player.teamId;
+      if (user.id !== playerId && !isTeamAdmin) {
+        return res.status(403).json({ message: "Not authorized to update positions for this player" });
+      }
+      
+      const parseResult = playerPositionsSchema.safeParse(req.body);
+      
+      if (!parseResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid position data", 
+          errors: parseResult.error.errors 
+        });
+      }
+      
+      const updatedPlayer = await storage.updateUser(playerId, parseResult.data);
+      
+      if (!updatedPlayer) {
+        return res.status(404).json({ message: "Player not found" });
+      }
+      
+      const { password, ...playerWithoutPassword } = updatedPlayer;
+      res.json(playerWithoutPassword);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+  
+  // Phone numbers are only saved once the player enters the code sent to them
+  app.put("/api/players/:id/phone", requireAuth, async (req, res) => {
+    try {
+      const playerId = parseInt(req.params.id);
+      const user = req.user as any;
+      
+      // Players can only set their own number
+      if (user.id !== playerId) {
+        return res.status(403).json({ message: "Not authorized to update this player's phone number" });
+      }
+      
+      const parseResult = playerPhoneSchema.safeParse(req.body);
+      
+      if (!parseResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid phone number", 
+          errors: parseResult.error.errors 
+        });
+      }
+      
+      const player = await storage.getUser(playerId);
+      if (!player) {
+        return res.status(404).json({ message: "Player not found" });
+      }
+      
+      const result = await requestPhoneVerification(player, parseResult.data.phone);
+      if (!result.success) {
+        return res.status(400).json({ message: result.message });
+      }
+      
+      res.json({ message: result.message, expiresAt: result.expiresAt });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+  
+  app.post("/api/players/:id/phone/verify", requireAuth, async (req, res) => {
+    try {
+      const playerId = parseInt(req.params.id);
+      const user = req.user as any;
+      
+      if (user.id !== playerId) {
+        return res.status(403).json({ message: "Not authorized to verify this player's phone number" });
+      }
+      
+      const parseResult = phoneVerificationCodeSchema.safeParse(req.body);
+      
+      if (!parseResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid verification code", 
+          errors: parseResult.error.errors 
+        });
+      }
+      
+      const player = await storage.getUser(playerId);
+      if (!player) {
+        return res.status(404).json({ message: "Player not found" });
+      }
+      
+      const result = await confirmPhoneVerification(player, parseResult.data.code, parseResult.data.whatsappOptIn);
+      if (!result.success || !result.user) {
+        return res.status(400).json({ message: result.message });
+      }
+      
+      const { password, ...playerWithoutPassword } = result.user;
+      res.json(playerWithoutPassword);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+  
+  app.delete("/api/players/:id/phone", requireAuth, async (req, res) => {
+    try {
+      const playerId = parseInt(req.params.id);
+      const user = req.user as any;
+      
+      if (user.id !== playerId) {
+        return res.status(403).json({ message: "Not authorized to remove this player's phone number" });
+      }
+      
+      const player = await storage.getUser(playerId);
+      if (!player) {
+        return res.status(404).json({ message: "Player not found" });
+      }
+      
+      const updatedPlayer = await removePhoneNumber(player);
+      if (!updatedPlayer) {
+        return res.status(404).json({ message: "Player not found" });
+      }
+      
+      const { password, ...playerWithoutPassword } = updatedPlayer;
+      res.json(playerWithoutPassword);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+  
+  // A player's WhatsApp consent and the record of every change to it
+  app.get("/api/players/:id/messaging-consent", requireAuth, async (req, res) => {
+    try {
+      const playerId = parseInt(req.params.id);
+      const user = req.user as any;
+      
+      if (user.id !== playerId) {
+        return res.status(403).json({ message: "Not authorized to view this player's messaging consent" });
+      }
+      
+      const player = await storage.getUser(playerId);
+      if (!player) {
+        return res.status(404).json({ message: "Player not found" });
+      }
+      
+      res.json({
+        phone: player.phone,
+        phoneVerifiedAt: player.phoneVerifiedAt,
+        whatsappOptIn: player.whatsappOptIn,
+        history: await getConsentHistory(playerId)
+      });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+  
+  app.put("/api/players/:id/messaging-consent", requireAuth, async (req, res) => {
+    try {
+      const playerId = parseInt(req.params.id);
+      const user = req.user as any;
+      
+      if (user.id !== playerId) {
+        return res.status(403).json({ message: "Not authorized to update this player's messaging consent" });
+      }
+      
+      const parseResult = messagingConsentSchema.safeParse(req.body);
+      
+      if (!parseResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid consent data", 
+          errors: parseResult.error.errors 
+        });
+      }
+      
+      const player = await storage.getUser(playerId);
+      if (!player) {
+        return res.status(404).json({ message: "Player not found" });
+      }
+      
+      const result = await setWhatsAppConsent(player, parseResult.data.whatsappOptIn, "profile");
+      if (!result.success) {
+        return res.status(400).json({ message: result.message });
+      }
+      
+      res.json({ message: result.message, whatsappOptIn: result.user?.whatsappOptIn ?? player.whatsappOptIn });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+  
+  // Notification types and the channels each can be sent on, for the preferences page
+  app.get("/api/notification-types", requireAuth, async (req, res) => {
+    try {
+      res.json(listMessageTemplates().map(template => ({
+        type: template.type,
+        description: template.description,
+        channels: Object.keys(template.channels)
+      })));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+  
+  // Notifications a player wasn't sent because of their preferences
+  app.get("/api/players/:id/notification-suppressions", requireAuth, async (req, res) => {
+    try {
+      const playerId = parseInt(req.params.id);
+      const user = req.user as any;
+      
+      if (user.id !== playerId) {
+        return res.status(403).json({ message: "Not authorized to view this player's delivery log" });
+      }
+      
+      res.json(await storage.getNotificationSuppressionsByUser(playerId));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+  
+  app.put("/api/users/:id/password", requireAuth, async (req, res) => {
+    try {
+      const userId = parseInt(req.params.id);
+      const user = req.user as any;
+      
+      if (user.id !== userId) {
+        return res.status(403).json({ message: "Not authorized to change this user's password" });
+      }
+      
+      const result = await changePassword(user, req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: result.message, errors: result.errors });
+      }
+      
+      res.json({ message: result.message });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+  
+  // Notification preferences, including email and digest settings
+  app.put("/api/users/:id/notifications", requireAuth, async (req, res) => {
+    try {
+      const userId = parseInt(req.params.id);
+      const user = req.user as any;
+      
+      if (user.id !== userId) {
+        return res.status(403).json({ message: "Not authorized to update this user's notification settings" });
+      }
+      
+      const parseResult = notificationSettingsSchema.safeParse(req.body);
+      
+      if (!parseResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid notification settings", 
+          errors: parseResult.error.errors 
+        });
+      }
+      
+      const existingUser = await storage.getUser(userId);
+      if (!existingUser) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      const updatedUser = await storage.updateUser(userId, {
+        notificationSettings: { ...getNotificationSettings(existingUser), ...parseResult.data }
+      });
+      if (!updatedUser) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      res.json(getNotificationSettings(updatedUser));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+  
+  // Key the browser needs to subscribe to push notifications from this server
+  app.get("/api/push/vapid-public-key", requireAuth, async (req, res) => {
+    if (!isPushConfigured()) {
+      return res.status(503).json({ message: "Push notifications are not set up on this server" });
+    }
+    
+    res.json({ publicKey: PUSH.VAPID_PUBLIC_KEY });
+  });
+  
+  // Register this device for push notifications
+  app.post("/api/push/subscriptions", requireAuth, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const parseResult = pushSubscriptionSchema.safeParse(req.body);
+      
+      if (!parseResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid push subscription", 
+          errors: parseResult.error.errors 
+        });
       }
       
-      const updatedStats = await storage.updatePlayerStats(existingStats.id, req.body);
-      
-      // Check for achievements after updating stats
-      await storage.checkPlayerAchievements(playerId);
-      
-      res.json(updatedStats);
+      const subscription = await savePushSubscription(user.id, parseResult.data, req.get("user-agent"));
+      res.status(201).json({ id: subscription.id, endpoint: subscription.endpoint });
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
-
-  // Player achievements routes
-  app.get("/api/achievements", requireAuth, async (req, res) => {
+  
+  app.delete("/api/push/subscriptions", requireAuth, async (req, res) => {
     try {
-      const achievements = await storage.getAchievements();
-      res.json(achievements);
+      const user = req.user as any;
+      const { endpoint } = req.body;
+      
+      if (typeof endpoint !== "string" || !endpoint) {
+        return res.status(400).json({ message: "Endpoint is required" });
+      }
+      
+      const removed = await removePushSubscription(user.id, endpoint);
+      if (!removed) {
+        return res.status(404).json({ message: "Push subscription not found" });
+      }
+      
+      res.json({ message: "Push notifications turned off on this device" });
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
-
-  app.get("/api/players/:id/achievements", requireAuth, async (req, res) => {
+  
+  // Get player skill rating and its history
+  app.get("/api/players/:id/rating", requireAuth, async (req, res) => {
     try {
       const playerId = parseInt(req.params.id);
       const player = await storage.getUser(playerId);
@@ -849,12 +2409,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const user = req.user as any;
       
       // Ensure user belongs to the same team as the player
-      if (user.teamId !== player.teamId) {
-        return res.status(403).json({ message: "Not authorized to view achievements for this player" });
+      if (user.teamId !== player.teamId && user.id !== playerId) {
+        return res.status(403).json({ message: "Not authorized to view the rating for this player" });
       }
       
-      const achievements = await storage.getPlayerAchievements(playerId);
-      res.json(achievements);
+      const rating = await getPlayerRating(playerId);
+      const history = await storage.getPlayerRatingHistory(playerId);
+      
+      res.json({
+        ...rating,
+        history
+      });
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
@@ -917,7 +2482,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           // Create admin user
           admin = await storage.createUser({
             username: "admin",
-            password: "password",
+            password: await hashPassword("password"),
             email: "admin@example.com",
             name: "John Coach",
             role: "admin"
@@ -974,7 +2539,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
           let player = await storage.getUserByUsername(playerDetail.username);
           
           if (!player) {
-            player = await storage.createUser(playerDetail);
+            player = await storage.createUser({
+              ...playerDetail,
+              password: await hashPassword(playerDetail.password)
+            });
           } else {
             // Update team ID if needed
             if (player.teamId !== team.id) {
@@ -1023,7 +2591,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
               startTime: new Date(now.getTime() + 4 * 24 * 60 * 60 * 1000), // 4 days from now
               endTime: new Date(now.getTime() + 4 * 24 * 60 * 60 * 1000 + 2 * 60 * 60 * 1000), // 2 hours later
               totalSlots: 14,
-              availableSlots: 11
+              availableSlots: 14 // Reduced as the demo players below join
             },
             {
               teamId: team.id,
@@ -1640,7 +3208,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         name,
         email,
         username,
-        password,
+        password: await hashPassword(password),
         role: 'player',
         teamId,
         isActive: true,
@@ -1697,11 +3265,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
           }
         });
         
-        // Create a pending transaction
+        // Create a pending transaction, completed by the webhook once Stripe confirms payment
         await storage.createCreditTransaction({
           type: 'purchase',
           amount: amount,
           userId: userId,
+          paymentIntentId: paymentIntent.id,
           status: 'pending',
           description: `Purchase of ${amount} credits`
         });
@@ -1745,18 +3314,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
           const userId = parseInt(metadata.userId);
           const credits = parseInt(metadata.credits);
           
-          // Add credits to the user
-          await storage.addUserCredits(userId, credits, 'purchase', 'Credit purchase successful');
-          
-          // Update related transaction status
-          const transactions = await storage.getTransactionsByUser(userId);
-          const pendingTransaction = transactions.find(
-            tx => tx.type === 'purchase' && tx.amount === credits && tx.status === 'pending'
-          );
-          
-          if (pendingTransaction) {
-            await storage.updateTransactionStatus(pendingTransaction.id, 'completed');
-          }
+          // Posts to the ledger once per PaymentIntent, so webhook retries are safe
+          await recordCreditPurchase(paymentIntent.id, userId, credits);
         }
       } catch (error) {
         console.error('Error processing payment success webhook:', error);
@@ -1768,18 +3327,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         const metadata = paymentIntent.metadata;
         
         if (metadata.type === 'credit_purchase') {
-          const userId = parseInt(metadata.userId);
-          const credits = parseInt(metadata.credits);
-          
           // Update transaction status to failed
-          const transactions = await storage.getTransactionsByUser(userId);
-          const pendingTransaction = transactions.find(
-            tx => tx.type === 'purchase' && tx.amount === credits && tx.status === 'pending'
-          );
-          
-          if (pendingTransaction) {
-            await storage.updateTransactionStatus(pendingTransaction.id, 'failed');
-          }
+          await recordFailedCreditPurchase(paymentIntent.id);
         }
       } catch (error) {
         console.error('Error processing payment failure webhook:', error);
@@ -1824,6 +3373,50 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get('/api/credits/ledger', requireAuth, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const entries = await storage.getLedgerEntriesByUser(user.id);
+      const balance = await storage.getUserCredits(user.id);
+      
+      res.json({ balance, entries });
+    } catch (error) {
+      console.error('Error fetching credit ledger:', error);
+      res.status(500).json({ message: 'Failed to fetch credit ledger' });
+    }
+  });
+
+  // Credit reconciliation - compares cached balances against the ledger
+  app.get('/api/admin/credits/reconciliation', requireAdmin, async (req, res) => {
+    try {
+      const user = req.user as any;
+      if (!user.teamId) {
+        return res.status(400).json({ message: 'User not associated with a team' });
+      }
+      
+      const discrepancies = await getCreditDiscrepancies(user.teamId);
+      res.json({ discrepancies });
+    } catch (error) {
+      console.error('Error reconciling credits:', error);
+      res.status(500).json({ message: 'Failed to reconcile credits' });
+    }
+  });
+
+  app.post('/api/admin/credits/reconciliation/repair', requireAdmin, async (req, res) => {
+    try {
+      const user = req.user as any;
+      if (!user.teamId) {
+        return res.status(400).json({ message: 'User not associated with a team' });
+      }
+      
+      const repaired = await repairCreditBalances(user.teamId);
+      res.json({ repaired });
+    } catch (error) {
+      console.error('Error repairing credit balances:', error);
+      res.status(500).json({ message: 'Failed to repair credit balances' });
+    }
+  });
+
   // Achievement API endpoints
   app.get('/api/achievements', async (req, res) => {
     try {
@@ -2083,21 +3676,80 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Otherwise, check if the user has booked this match
-      const playerBookings = await storage.getPlayerBookingsByBooking(bookingId);
-      const userBooking = playerBookings.find(pb => pb.playerId === user.id);
+      const userBooking = await getActivePlayerBooking(bookingId, user.id);
       
       if (!userBooking) {
         return res.status(403).json({ message: "You haven't booked this match" });
       }
       
       // Process individual cancellation
-      const result = await processCancellation(userBooking.id, reason);
+      const result = await processCancellation(user.id, bookingId, reason);
       return res.json(result);
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
 
+  // What cancelling right now would refund the current user
+  app.get("/api/bookings/:id/cancellation-preview", requireAuth, async (req, res) => {
+    try {
+      const bookingId = parseInt(req.params.id);
+      const user = req.user as any;
+      
+      const booking = await storage.getBooking(bookingId);
+      if (!booking) {
+        return res.status(404).json({ message: "Booking not found" });
+      }
+      
+      // Ensure user belongs to the team with this booking
+      if (user.teamId !== booking.teamId) {
+        return res.status(403).json({ message: "Not authorized to view this booking" });
+      }
+      
+      const team = await storage.getTeam(booking.teamId);
+      if (!team) {
+        return res.status(404).json({ message: "Team not found" });
+      }
+      
+      // Base the refund on what the user paid, if they're booked on it
+      const playerBooking = await getActivePlayerBooking(bookingId, user.id);
+      const creditsPaid = playerBooking
+        ? await getCreditsPaid(user.id, playerBooking.id, bookingId)
+        : undefined;
+      
+      res.json(previewCancellation(booking, getTeamCancellationPolicy(team), user.id, new Date(), creditsPaid));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/bookings/:id/players/:playerId/no-show", requireAdmin, async (req, res) => {
+    try {
+      const bookingId = parseInt(req.params.id);
+      const playerId = parseInt(req.params.playerId);
+      const user = req.user as any;
+      
+      const booking = await storage.getBooking(bookingId);
+      if (!booking) {
+        return res.status(404).json({ message: "Booking not found" });
+      }
+      
+      const team = await storage.getTeam(booking.teamId);
+      if (!team || team.ownerId !== user.id) {
+        return res.status(403).json({ message: "Not authorized to manage this booking" });
+      }
+      
+      const result = await processNoShow(bookingId, playerId);
+      if (!result.success) {
+        return res.status(400).json(result);
+      }
+      
+      res.json(result);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
   // Weather forecast route
   app.get("/api/bookings/:id/weather", requireAuth, async (req, res) => {
     try {
@@ -2126,27 +3778,221 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // Team weather rules
+  app.get("/api/teams/:id/weather-rules", requireAuth, async (req, res) => {
+    try {
+      const teamId = parseInt(req.params.id);
+      const team = await storage.getTeam(teamId);
+      
+      if (!team) {
+        return res.status(404).json({ message: "Team not found" });
+      }
+      
+      const user = req.user as any;
+      
+      if (user.teamId !== teamId && team.ownerId !== user.id) {
+        return res.status(403).json({ message: "Not authorized to view this team" });
+      }
+      
+      res.json(await storage.getWeatherRulesByTeam(teamId));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/teams/:id/weather-rules", requireAdmin, async (req, res) => {
+    try {
+      const teamId = parseInt(req.params.id);
+      const team = await storage.getTeam(teamId);
+      
+      if (!team) {
+        return res.status(404).json({ message: "Team not found" });
+      }
+      
+      const user = req.user as any;
+      
+      if (team.ownerId !== user.id) {
+        return res.status(403).json({ message: "Not authorized to update this team" });
+      }
+      
+      const parseResult = insertWeatherRuleSchema.safeParse({ ...req.body, teamId });
+      
+      if (!parseResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid weather rule data", 
+          errors: parseResult.error.errors 
+        });
+      }
+      
+      const rule = await storage.createWeatherRule(parseResult.data);
+      res.status(201).json(rule);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.put("/api/teams/:id/weather-rules/:ruleId", requireAdmin, async (req, res) => {
+    try {
+      const teamId = parseInt(req.params.id);
+      const ruleId = parseInt(req.params.ruleId);
+      const team = await storage.getTeam(teamId);
+      
+      if (!team) {
+        return res.status(404).json({ message: "Team not found" });
+      }
+      
+      const user = req.user as any;
+      
+      if (team.ownerId !== user.id) {
+        return res.status(403).json({ message: "Not authorized to update this team" });
+      }
+      
+      const rule = await storage.getWeatherRule(ruleId);
+      if (!rule || rule.teamId !== teamId) {
+        return res.status(404).json({ message: "Weather rule not found" });
+      }
+      
+      const parseResult = insertWeatherRuleSchema.omit({ teamId: true }).partial().safeParse(req.body);
+      
+      if (!parseResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid weather rule data", 
+          errors: parseResult.error.errors 
+        });
+      }
+      
+      const updatedRule = await storage.updateWeatherRule(ruleId, parseResult.data);
+      res.json(updatedRule);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.delete("/api/teams/:id/weather-rules/:ruleId", requireAdmin, async (req, res) => {
+    try {
+      const teamId = parseInt(req.params.id);
+      const ruleId = parseInt(req.params.ruleId);
+      const team = await storage.getTeam(teamId);
+      
+      if (!team) {
+        return res.status(404).json({ message: "Team not found" });
+      }
+      
+      const user = req.user as any;
+      
+      if (team.ownerId !== user.id) {
+        return res.status(403).json({ message: "Not authorized to update this team" });
+      }
+      
+      const rule = await storage.getWeatherRule(ruleId);
+      if (!rule || rule.teamId !== teamId) {
+        return res.status(404).json({ message: "Weather rule not found" });
+      }
+      
+      await storage.deleteWeatherRule(ruleId);
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Weather alerts raised for a booking
+  app.get("/api/bookings/:id/weather-alerts", requireAuth, async (req, res) => {
+    try {
+      const bookingId = parseInt(req.params.id);
+      const booking = await storage.getBooking(bookingId);
+      
+      if (!booking) {
+        return res.status(404).json({ message: "Booking not found" });
+      }
+      
+      const user = req.user as any;
+      
+      // Ensure user belongs to the team with this booking
+      if (user.teamId !== booking.teamId) {
+        return res.status(403).json({ message: "Not authorized to view this booking" });
+      }
+      
+      res.json(await storage.getWeatherAlertsByBooking(bookingId));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Approve or dismiss calling a match off for the weather
+  app.post("/api/weather-alerts/:id/:decision", requireAuth, async (req, res) => {
+    try {
+      const alertId = parseInt(req.params.id);
+      const { decision } = req.params;
+      
+      if (decision !== "approve" && decision !== "dismiss") {
+        return res.status(404).json({ message: "Not found" });
+      }
+      
+      const alert = await storage.getWeatherAlert(alertId);
+      if (!alert) {
+        return res.status(404).json({ message: "Weather alert not found" });
+      }
+      
+      const booking = await storage.getBooking(alert.bookingId);
+      if (!booking) {
+        return res.status(404).json({ message: "Booking not found" });
+      }
+      
+      const team = await storage.getTeam(booking.teamId);
+      const user = req.user as any;
+      
+      // The team's owner, or an admin of the same team
+      if (team?.ownerId !== user.id && (user.role !== "admin" || user.teamId !== booking.teamId)) {
+        return res.status(403).json({ message: "Not authorized to cancel this booking" });
+      }
+      
+      const result = decision === "approve"
+        ? await approveWeatherCancellation(alertId, user.id)
+        : await dismissWeatherAlert(alertId, user.id);
+      
+      if (!result.success) {
+        return res.status(400).json({ message: result.message });
+      }
+      
+      res.json(result);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+  
   // Calendar Integration API
-  app.get("/api/calendar/auth/google", requireAuth, async (req, res) => {
+  app.get("/api/calendar/auth/:provider", requireAuth, async (req, res) => {
     try {
-      if (!process.env.GOOGLE_CLIENT_ID || !process.env.GOOGLE_CLIENT_SECRET) {
+      const { provider } = req.params;
+      
+      if (provider !== "google" && provider !== "microsoft") {
+        return res.status(400).json({ message: `${provider} calendars aren't connected by signing in` });
+      }
+      
+      const missingKeys = getMissingProviderSettings(provider);
+      if (missingKeys.length > 0) {
         return res.status(400).json({ 
-          message: "Google Calendar integration is not configured",
-          missingKeys: ["GOOGLE_CLIENT_ID", "GOOGLE_CLIENT_SECRET"]
+          message: `${provider === "google" ? "Google" : "Outlook"} Calendar integration is not configured`,
+          missingKeys
         });
       }
       
-      const authUrl = calendarService.getGoogleAuthUrl();
+      const authUrl = calendarService.getAuthUrl(provider);
       res.json({ authUrl });
     } catch (error: any) {
-      console.error("Google Calendar auth error:", error);
+      console.error("Calendar auth error:", error);
       res.status(500).json({ message: error.message });
     }
   });
   
-  app.get("/api/calendar/google/callback", async (req, res) => {
+  app.get("/api/calendar/:provider/callback", async (req, res) => {
+    const { provider } = req.params;
     const code = req.query.code as string;
-    const state = req.query.state as string;
+    
+    if (provider !== "google" && provider !== "microsoft") {
+      return res.status(404).send("Unknown calendar provider");
+    }
     
     if (!code) {
       return res.status(400).send("Missing authorization code");
@@ -2154,43 +4000,42 @@ export async function registerRoutes(app: Express): Promise<Server> {
     
     if (!req.isAuthenticated()) {
       // If user isn't authenticated, redirect to login with return URL
-      return res.redirect(`/login?returnUrl=/api/calendar/google/callback?code=${code}`);
+      return res.redirect(`/login?returnUrl=${encodeURIComponent(`/api/calendar/${provider}/callback?code=${code}`)}`);
     }
     
     try {
       const user = req.user as any;
+      await calendarService.connectOAuthCalendar(user.id, provider, code);
       
-      // Get tokens from Google
-      const { accessToken, refreshToken, expiresAt } = await calendarService.getGoogleTokens(code);
-      
-      // Check if user already has a Google Calendar integration
-      const existingIntegration = await storage.getCalendarIntegrationByUser(user.id, "google");
+      // Redirect to calendar settings page
+      res.redirect("/settings?tab=calendar&status=success");
+    } catch (error: any) {
+      console.error("Calendar callback error:", error);
+      res.redirect("/settings?tab=calendar&status=error&message=" + encodeURIComponent(error.message));
+    }
+  });
+  
+  app.post("/api/calendar/integrations/caldav", requireAuth, async (req, res) => {
+    try {
+      const user = req.user as any;
       
-      if (existingIntegration) {
-        // Update existing integration
-        await storage.updateCalendarIntegration(existingIntegration.id, {
-          accessToken,
-          refreshToken: refreshToken || existingIntegration.refreshToken,
-          expiresAt,
-          isActive: true
-        });
-      } else {
-        // Create new integration
-        await storage.createCalendarIntegration({
-          userId: user.id,
-          provider: "google",
-          accessToken,
-          refreshToken,
-          expiresAt,
-          isActive: true
+      const validationResult = caldavConnectionSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: "Invalid CalDAV connection details",
+          errors: validationResult.error.errors
         });
       }
       
-      // Redirect to calendar settings page
-      res.redirect("/settings?tab=calendar&status=success");
+      const result = await calendarService.connectCalDavCalendar(user.id, validationResult.data);
+      if (!result.success) {
+        return res.status(400).json({ message: result.message });
+      }
+      
+      res.status(201).json({ message: result.message, calendarUrl: result.integration?.calendarId });
     } catch (error: any) {
-      console.error("Google Calendar callback error:", error);
-      res.redirect("/settings?tab=calendar&status=error&message=" + encodeURIComponent(error.message));
+      console.error("Connect CalDAV calendar error:", error);
+      res.status(500).json({ message: error.message });
     }
   });
   
@@ -2217,11 +4062,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Sync calendar events
-      const syncedCount = await calendarService.syncUserCalendar(user.id, provider);
+      const result = await calendarService.syncUserCalendar(user.id, provider);
+      const syncedCount = result.created + result.updated + result.deleted;
       
       res.json({ 
         message: `Successfully synced ${syncedCount} events to your calendar`,
-        syncedCount 
+        syncedCount,
+        ...result
       });
     } catch (error: any) {
       console.error("Calendar sync error:", error);
@@ -2234,18 +4081,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const user = req.user as any;
       
       // Get all integrations for user
-      const googleIntegration = await storage.getCalendarIntegrationByUser(user.id, "google");
-      
-      const integrations = {
-        google: googleIntegration ? {
+      const integrations: Record<string, any> = {};
+      for (const provider of CALENDAR_PROVIDERS) {
+        const integration = await storage.getCalendarIntegrationByUser(user.id, provider);
+        integrations[provider] = integration ? {
           connected: true,
-          isActive: googleIntegration.isActive,
-          lastSynced: googleIntegration.lastSyncedAt
+          isActive: integration.isActive,
+          lastSynced: integration.lastSyncedAt,
+          // CalDAV players pick their server, so show them which calendar was found
+          calendarUrl: provider === "caldav" ? integration.calendarId : undefined
         } : {
-          connected: false
-        }
-        // Add other providers here as needed (e.g., apple, outlook)
-      };
+          connected: false,
+          available: getMissingProviderSettings(provider).length === 0
+        };
+      }
       
       res.json(integrations);
     } catch (error: any) {
@@ -2254,6 +4103,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  app.patch("/api/calendar/integrations/:provider", requireAuth, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const { provider } = req.params;
+      
+      if (typeof req.body.isActive !== "boolean") {
+        return res.status(400).json({ message: "isActive must be true or false" });
+      }
+      
+      const integration = await storage.getCalendarIntegrationByUser(user.id, provider);
+      if (!integration) {
+        return res.status(404).json({ message: `No ${provider} calendar integration found` });
+      }
+      
+      await storage.updateCalendarIntegration(integration.id, {
+        isActive: req.body.isActive
+      });
+      
+      res.json({ message: `${provider} calendar integration ${req.body.isActive ? "enabled" : "disabled"}` });
+    } catch (error: any) {
+      console.error("Update calendar integration error:", error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+  
   app.delete("/api/calendar/integrations/:provider", requireAuth, async (req, res) => {
     try {
       const user = req.user as any;
@@ -2314,7 +4188,230 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  app.get("/api/calendar/feed", requireAuth, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const feed = await getOrCreateCalendarFeed(user.id);
+      res.json(getCalendarFeedInfo(feed));
+    } catch (error: any) {
+      console.error("Get calendar feed error:", error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+  
+  app.put("/api/calendar/feed", requireAuth, async (req, res) => {
+    try {
+      const user = req.user as any;
+      
+      const validationResult = calendarFeedScopeSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({
+          message: "Invalid calendar feed settings",
+          errors: validationResult.error.errors
+        });
+      }
+      
+      const feed = await updateCalendarFeedScope(user.id, validationResult.data.scope);
+      res.json(getCalendarFeedInfo(feed));
+    } catch (error: any) {
+      console.error("Update calendar feed error:", error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+  
+  app.post("/api/calendar/feed/rotate", requireAuth, async (req, res) => {
+    try {
+      const user = req.user as any;
+      const feed = await rotateCalendarFeedToken(user.id);
+      res.json(getCalendarFeedInfo(feed));
+    } catch (error: any) {
+      console.error("Rotate calendar feed error:", error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+  
+  // Calendar apps fetch feeds without a session; the secret token is the only credential
+  app.get("/api/calendar/feed/:token", async (req, res) => {
+    try {
+      const token = req.params.token.replace(/\.ics$/, "");
+      const result = await buildCalendarFeed(token);
+      
+      if (!result.success) {
+        return res.status(404).json({ message: result.message });
+      }
+      
+      res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+      res.setHeader('Content-Disposition', 'inline; filename="matches.ics"');
+      res.setHeader('Cache-Control', 'no-cache');
+      res.send(result.ics);
+    } catch (error: any) {
+      console.error("Calendar feed error:", error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+  
   // Team selection and WhatsApp integration routes
+  app.get("/api/bookings/:id/lineup", requireAuth, async (req, res) => {
+    try {
+      const bookingId = parseInt(req.params.id);
+      const booking = await storage.getBooking(bookingId);
+      
+      if (!booking) {
+        return res.status(404).json({ message: "Booking not found" });
+      }
+      
+      const user = req.user as any;
+      
+      // Ensure user belongs to the team with this booking
+      if (user.teamId !== booking.teamId) {
+        return res.status(403).json({ message: "Not authorized to view the line-up for this booking" });
+      }
+      
+      res.json(await getLineup(booking));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+  
+  app.put("/api/bookings/:id/lineup", requireAuth, async (req, res) => {
+    try {
+      const bookingId = parseInt(req.params.id);
+      const booking = await storage.getBooking(bookingId);
+      
+      if (!booking) {
+        return res.status(404).json({ message: "Booking not found" });
+      }
+      
+      const user = req.user as any;
+      const team = await storage.getTeam(booking.teamId);
+      
+      if (!team) {
+        return res.status(404).json({ message: "Team not found" });
+      }
+      
+      // Check permissions; other players need to be on the team too
+      if (team.ownerId !== user.id && (user.teamId !== booking.teamId || !team.allowPlayerBookingManagement)) {
+        return res.status(403).json({ 
+          message: "Not authorized to change the line-up for this booking" 
+        });
+      }
+      
+      const parseResult = lineupUpdateSchema.safeParse(req.body);
+      
+      if (!parseResult.success) {
+        return res.status(400).json({ 
+          message: "Invalid line-up data", 
+          errors: parseResult.error.errors 
+        });
+      }
+      
+      const result = await updateLineup(booking, parseResult.data);
+      
+      if (!result.success) {
+        return res.status(400).json({ message: result.message });
+      }
+      
+      res.json(result.lineup);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+  
+  // Pair constraints for a single match, alongside the team-wide ones
+  app.get("/api/bookings/:id/pair-constraints", requireAuth, async (req, res) => {
+    try {
+      const bookingId = parseInt(req.params.id);
+      const booking = await storage.getBooking(bookingId);
+      
+      if (!booking) {
+        return res.status(404).json({ message: "Booking not found" });
+      }
+      
+      const user = req.user as any;
+      
+      if (user.teamId !== booking.teamId) {
+        return res.status(403).json({ message: "Not authorized to view this booking" });
+      }
+      
+      res.json({
+        team: await storage.getPairConstraintsByTeam(booking.teamId),
+        booking: await storage.getPairConstraintsByBooking(bookingId)
+      });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+  
+  app.post("/api/bookings/:id/pair-constraints", requireAuth, async (req, res) => {
+    try {
+      const bookingId = parseInt(req.params.id);
+      const booking = await storage.getBooking(bookingId);
+      
+      if (!booking) {
+        return res.status(404).json({ message: "Booking not found" });
+      }
+      
+      const user = req.user as any;
+      const team = await storage.getTeam(booking.teamId);
+      
+      if (!team) {
+        return res.status(404).json({ message: "Team not found" });
+      }
+      
+      // Check permissions; other players need to be on the team too
+      if (team.ownerId !== user.id && (user.teamId !== booking.teamId || !team.allowPlayerBookingManagement)) {
+        return res.status(403).json({ 
+          message: "Not authorized to change team selection for this booking" 
+        });
+      }
+      
+      const result = await teamSelectionService.addPairConstraint(team, bookingId, user.id, req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: result.message, errors: result.errors });
+      }
+      
+      res.status(201).json(result.constraint);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+  
+  app.delete("/api/bookings/:id/pair-constraints/:constraintId", requireAuth, async (req, res) => {
+    try {
+      const bookingId = parseInt(req.params.id);
+      const constraintId = parseInt(req.params.constraintId);
+      const booking = await storage.getBooking(bookingId);
+      
+      if (!booking) {
+        return res.status(404).json({ message: "Booking not found" });
+      }
+      
+      const user = req.user as any;
+      const team = await storage.getTeam(booking.teamId);
+      
+      if (!team) {
+        return res.status(404).json({ message: "Team not found" });
+      }
+      
+      // Other players need to be on the team too
+      if (team.ownerId !== user.id && (user.teamId !== booking.teamId || !team.allowPlayerBookingManagement)) {
+        return res.status(403).json({ 
+          message: "Not authorized to change team selection for this booking" 
+        });
+      }
+      
+      const constraint = await storage.getPairConstraint(constraintId);
+      if (!constraint || constraint.bookingId !== bookingId) {
+        return res.status(404).json({ message: "Constraint not found" });
+      }
+      
+      await storage.deletePairConstraint(constraintId);
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+  
   app.post("/api/bookings/:id/generate-teams", isAuthenticated, async (req, res) => {
     try {
       const bookingId = parseInt(req.params.id);
@@ -2331,21 +4428,52 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Team not found" });
       }
       
-      // Check permissions
-      if (team.ownerId !== user.id && !team.allowPlayerBookingManagement) {
+      // Check permissions; other players need to be on the team too
+      if (team.ownerId !== user.id && (user.teamId !== booking.teamId || !team.allowPlayerBookingManagement)) {
         return res.status(403).json({ 
           message: "Not authorized to generate teams for this booking" 
         });
       }
       
-      // Generate teams
-      const { teamA, teamB } = await teamSelectionService.generateBalancedTeams(bookingId);
+      // Regenerating can't change sides once the match is under way
+      if (isLineupLocked(booking)) {
+        return res.status(400).json({ 
+          message: "The line-up is locked because the match has started" 
+        });
+      }
+      
+      // Generate teams, fitted to the format's formation if asked for
+      if (req.body?.mode === "position") {
+        const { teamA, teamB, positions, formation, relaxedConstraints, unsatisfiedConstraints } =
+          await teamSelectionService.generatePositionBasedTeams(bookingId);
+        
+        // Keep the split so it survives a refresh and stats can be recorded per side
+        const { lineup } = await saveGeneratedLineup(booking, teamA, teamB, positions);
+        
+        return res.json({ 
+          success: true,
+          teamA,
+          teamB,
+          lineup,
+          formation,
+          relaxedConstraints,
+          unsatisfiedConstraints,
+          message: "Teams have been generated and notifications sent to players"
+        });
+      }
+      
+      const { teamA, teamB, unsatisfiedConstraints } = await teamSelectionService.generateBalancedTeams(bookingId);
+      
+      // Keep the split so it survives a refresh and stats can be recorded per side
+      const { lineup } = await saveGeneratedLineup(booking, teamA, teamB);
       
       // Return the generated teams
       res.json({ 
         success: true,
         teamA,
         teamB,
+        lineup,
+        unsatisfiedConstraints,
         message: "Teams have been generated and notifications sent to players"
       });
     } catch (error: any) {
@@ -2442,6 +4570,74 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Ask team members on WhatsApp whether they're in for a match
+  app.post("/api/bookings/:id/whatsapp-rsvp", requireAdmin, async (req, res) => {
+    try {
+      const bookingId = parseInt(req.params.id);
+      const booking = await storage.getBooking(bookingId);
+      
+      if (!booking) {
+        return res.status(404).json({ message: "Booking not found" });
+      }
+      
+      const user = req.user as any;
+      
+      // Ensure user belongs to the team with this booking
+      if (user.teamId !== booking.teamId) {
+        return res.status(403).json({ message: "Not authorized to message players for this booking" });
+      }
+      
+      if (booking.status === "canceled") {
+        return res.status(400).json({ message: "This booking has been canceled" });
+      }
+      
+      const sent = await sendRsvpRequests(booking);
+      res.json({ 
+        success: true,
+        sent,
+        message: `Asked ${sent} player(s) on WhatsApp` 
+      });
+    } catch (error: any) {
+      console.error("Error sending WhatsApp RSVP requests:", error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+  
+  // WhatsApp webhook subscription check - Meta echoes the challenge back if our token matches
+  app.get("/api/whatsapp/webhook", (req, res) => {
+    if (
+      req.query["hub.mode"] === "subscribe" &&
+      WHATSAPP.VERIFY_TOKEN &&
+      req.query["hub.verify_token"] === WHATSAPP.VERIFY_TOKEN
+    ) {
+      return res.status(200).send(req.query["hub.challenge"]);
+    }
+    
+    res.status(403).json({ message: "Webhook verification failed" });
+  });
+  
+  // Players' replies to match messages
+  app.post("/api/whatsapp/webhook", async (req, res) => {
+    try {
+      // Verify webhook signature. Replies join and cancel matches, so never trust unsigned ones
+      // unless development explicitly allows it.
+      if (WHATSAPP.APP_SECRET) {
+        const signature = req.headers["x-hub-signature-256"] as string | undefined;
+        if (!verifyWebhookSignature((req as any).rawBody, signature)) {
+          return res.status(401).json({ message: "Invalid webhook signature" });
+        }
+      } else if (!WHATSAPP.ALLOW_UNSIGNED_WEBHOOKS) {
+        return res.status(503).json({ message: "WhatsApp webhooks are not set up on this server" });
+      }
+      
+      const handled = await processWebhookPayload(req.body);
+      res.json({ received: true, handled });
+    } catch (error: any) {
+      console.error("WhatsApp webhook error:", error.message);
+      res.status(500).json({ message: error.message });
+    }
+  });
+
   const httpServer = createServer(app);
   return httpServer;
 }
@@ -0,0 +1,323 @@
+/**
+ * Availability Poll Service - Finds a time that suits the team before a pitch is booked
+ *
+ * Handles:
+ * - Polls with several date/time/venue options, sent to every team member
+ * - Players marking each option yes, maybe or no
+ * - Tallying answers per option for the heat-map admins pick from
+ * - Turning the winning option into a booking with its "yes" voters already on it
+ */
+
+import { z } from "zod";
+import { format } from "date-fns";
+import { storage } from "../storage";
+import {
+  AvailabilityAnswer,
+  AvailabilityPoll,
+  AvailabilityPollOption,
+  AvailabilityPollResponse,
+  Booking,
+  InsertBooking,
+  User,
+  availabilityAnswersSchema,
+  createAvailabilityPollSchema
+} from "@shared/schema";
+import { resolveBookingVenue } from "./venue-service";
+import { priceBooking } from "./pricing-service";
+import { queueBookingCalendarSync } from "./calendar-service";
+import { joinBooking } from "./waitlist-service";
+import { sendAvailabilityPollNotification, sendBookingConfirmation } from "./notification-service";
+
+// The result of creating, answering or closing a poll
+export interface AvailabilityPollResult {
+  success: boolean;
+  message: string;
+  poll?: AvailabilityPoll;
+  errors?: z.ZodIssue[];
+}
+
+// An option with its answers counted
+export interface AvailabilityPollOptionSummary extends AvailabilityPollOption {
+  yes: number;
+  maybe: number;
+  no: number;
+}
+
+// Everything the heat-map needs: options, who has been asked and what they said
+export interface AvailabilityPollSummary {
+  poll: AvailabilityPoll;
+  options: AvailabilityPollOptionSummary[];
+  players: { id: number; name: string }[];
+  responses: Pick<AvailabilityPollResponse, "optionId" | "userId" | "answer" | "updatedAt">[];
+  isOpen: boolean;
+}
+
+// The result of turning an option into a booking
+export interface AvailabilityPollConversionResult {
+  success: boolean;
+  message: string;
+  booking?: Booking;
+  registered?: number[];                                  // Players confirmed on the booking
+  waitlisted?: number[];                                  // Players who voted yes after it filled up
+  notRegistered?: { playerId: number; reason: string }[]; // e.g. not enough credits
+}
+
+/**
+ * Whether a poll still takes answers
+ */
+export function isAvailabilityPollOpen(poll: AvailabilityPoll, now: Date = new Date()): boolean {
+  return poll.status === "open" && (!poll.closesAt || poll.closesAt > now);
+}
+
+function describeOption(option: AvailabilityPollOption): string {
+  return `${format(option.startTime, "EEE d MMM HH:mm")} at ${option.location}`;
+}
+
+/**
+ * Create a poll for a team and ask every member which options they can make
+ * @param teamId Team the poll is for
+ * @param createdBy Admin creating the poll
+ * @param data Title, format, slots, closing time and options
+ */
+export async function createAvailabilityPoll(
+  teamId: number,
+  createdBy: number,
+  data: unknown
+): Promise<AvailabilityPollResult> {
+  const parseResult = createAvailabilityPollSchema.safeParse(data);
+  if (!parseResult.success) {
+    return { success: false, message: "Invalid poll data", errors: parseResult.error.errors };
+  }
+
+  const { options, ...pollData } = parseResult.data;
+
+  if (pollData.closesAt && pollData.closesAt <= new Date()) {
+    return { success: false, message: "A poll can't close in the past" };
+  }
+
+  // Check every venue before saving anything
+  const resolvedOptions = [];
+  for (const option of options) {
+    const venueResult = await resolveBookingVenue(teamId, option.venueId, option.location?.trim());
+    if (!venueResult.success) {
+      return { success: false, message: venueResult.message };
+    }
+    resolvedOptions.push({
+      startTime: option.startTime,
+      endTime: option.endTime,
+      venueId: venueResult.venueId ?? null,
+      location: venueResult.location!
+    });
+  }
+
+  const poll = await storage.createAvailabilityPoll({
+    ...pollData,
+    closesAt: pollData.closesAt ?? null,
+    teamId,
+    createdBy,
+    status: "open"
+  });
+
+  const createdOptions: AvailabilityPollOption[] = [];
+  for (const option of resolvedOptions) {
+    createdOptions.push(await storage.createAvailabilityPollOption({ ...option, pollId: poll.id }));
+  }
+
+  const optionsText = createdOptions
+    .sort((a, b) => a.startTime.getTime() - b.startTime.getTime())
+    .map(describeOption)
+    .join("; ");
+
+  const members = await storage.getTeamMembers(teamId);
+  for (const member of members) {
+    await sendAvailabilityPollNotification(member.id, poll.id, optionsText);
+  }
+
+  return { success: true, message: "Poll created", poll };
+}
+
+/**
+ * Get a poll's options with their answers counted, plus each player's answers
+ * @param pollId Poll to summarize
+ */
+export async function getAvailabilityPollSummary(pollId: number): Promise<AvailabilityPollSummary | undefined> {
+  const poll = await storage.getAvailabilityPoll(pollId);
+  if (!poll) return undefined;
+
+  const [options, responses, members] = await Promise.all([
+    storage.getAvailabilityPollOptions(pollId),
+    storage.getAvailabilityPollResponses(pollId),
+    storage.getTeamMembers(poll.teamId)
+  ]);
+
+  const optionSummaries = options.map(option => {
+    const counts: Record<AvailabilityAnswer, number> = { yes: 0, maybe: 0, no: 0 };
+    for (const response of responses) {
+      if (response.optionId === option.id) {
+        counts[response.answer as AvailabilityAnswer]++;
+      }
+    }
+    return { ...option, ...counts };
+  });
+
+  return {
+    poll,
+    options: optionSummaries,
+    players: members.map(member => ({ id: member.id, name: member.name })),
+    responses: responses.map(({ optionId, userId, answer, updatedAt }) => ({ optionId, userId, answer, updatedAt })),
+    isOpen: isAvailabilityPollOpen(poll)
+  };
+}
+
+/**
+ * Save a player's answers. Answering an option again replaces the old answer.
+ * @param pollId Poll being answered
+ * @param user Player answering
+ * @param data Answers, one per option
+ */
+export async function respondToAvailabilityPoll(
+  pollId: number,
+  user: User,
+  data: unknown
+): Promise<AvailabilityPollResult> {
+  const parseResult = availabilityAnswersSchema.safeParse(data);
+  if (!parseResult.success) {
+    return { success: false, message: "Invalid answers", errors: parseResult.error.errors };
+  }
+
+  const poll = await storage.getAvailabilityPoll(pollId);
+  if (!poll || user.teamId !== poll.teamId) {
+    return { success: false, message: "Poll not found" };
+  }
+
+  if (!isAvailabilityPollOpen(poll)) {
+    return { success: false, message: "This poll is closed" };
+  }
+
+  const options = await storage.getAvailabilityPollOptions(pollId);
+  const optionIds = new Set(options.map(option => option.id));
+  if (parseResult.data.answers.some(a => !optionIds.has(a.optionId))) {
+    return { success: false, message: "Option not found" };
+  }
+
+  for (const { optionId, answer } of parseResult.data.answers) {
+    await storage.saveAvailabilityPollResponse({ pollId, optionId, userId: user.id, answer });
+  }
+
+  return { success: true, message: "Answers saved", poll };
+}
+
+/**
+ * Stop taking answers, without booking anything
+ * @param poll Poll to close
+ */
+export async function closeAvailabilityPoll(poll: AvailabilityPoll): Promise<AvailabilityPollResult> {
+  if (poll.status !== "open") {
+    return { success: false, message: "This poll is already closed" };
+  }
+
+  const updatedPoll = await storage.updateAvailabilityPoll(poll.id, { status: "closed" });
+  return { success: true, message: "Poll closed", poll: updatedPoll };
+}
+
+/**
+ * Book one of a poll's options and sign up everyone who said yes to it, in the
+ * order they answered. Players the booking can't take go on its waitlist, and
+ * players who can't pay are left off and reported back.
+ * @param poll Poll to convert
+ * @param optionId Option to book
+ */
+export async function convertAvailabilityPollOption(
+  poll: AvailabilityPoll,
+  optionId: number
+): Promise<AvailabilityPollConversionResult> {
+  if (poll.status === "booked") {
+    return { success: false, message: "This poll has already been booked" };
+  }
+
+  const options = await storage.getAvailabilityPollOptions(poll.id);
+  const option = options.find(o => o.id === optionId);
+  if (!option) {
+    return { success: false, message: "Option not found" };
+  }
+
+  if (option.startTime <= new Date()) {
+    return { success: false, message: "This option has already started" };
+  }
+
+  const team = await storage.getTeam(poll.teamId);
+  if (!team) {
+    return { success: false, message: "Team not found" };
+  }
+
+  // The venue may have been removed since the poll went out
+  const venueResult = await resolveBookingVenue(poll.teamId, option.venueId, option.location);
+  const bookingData: InsertBooking = {
+    teamId: poll.teamId,
+    title: poll.title,
+    location: option.location,
+    venueId: venueResult.success ? venueResult.venueId ?? null : null,
+    format: poll.format,
+    startTime: option.startTime,
+    endTime: option.endTime,
+    totalSlots: poll.totalSlots,
+    availableSlots: poll.totalSlots
+  };
+
+  const pricing = await priceBooking(team, bookingData);
+  if (pricing.pitchCost !== undefined) bookingData.pitchCost = pricing.pitchCost;
+  if (pricing.creditCost !== undefined) bookingData.creditCost = pricing.creditCost;
+
+  // Claim the poll before booking anything, so two conversions at once can't both go through
+  const claimed = await storage.claimAvailabilityPoll(poll.id);
+  if (!claimed) {
+    return { success: false, message: "This poll has already been booked" };
+  }
+
+  let booking: Booking;
+  try {
+    booking = await storage.createBooking(bookingData);
+  } catch (error) {
+    // Let the admin try again
+    await storage.updateAvailabilityPoll(poll.id, { status: poll.status });
+    throw error;
+  }
+
+  await storage.updateAvailabilityPoll(poll.id, { chosenOptionId: option.id, bookingId: booking.id });
+  await queueBookingCalendarSync(booking);
+
+  const yesVoters = (await storage.getAvailabilityPollResponses(poll.id))
+    .filter(response => response.optionId === option.id && response.answer === "yes")
+    .sort((a, b) => a.updatedAt.getTime() - b.updatedAt.getTime());
+
+  const registered: number[] = [];
+  const waitlisted: number[] = [];
+  const notRegistered: { playerId: number; reason: string }[] = [];
+
+  for (const voter of yesVoters) {
+    const player = await storage.getUser(voter.userId);
+    if (!player || player.teamId !== poll.teamId) {
+      notRegistered.push({ playerId: voter.userId, reason: "No longer on the team" });
+      continue;
+    }
+
+    const result = await joinBooking(booking.id, voter.userId);
+    if (!result.success) {
+      notRegistered.push({ playerId: voter.userId, reason: result.message });
+    } else if (result.waitlisted) {
+      waitlisted.push(voter.userId);
+    } else {
+      registered.push(voter.userId);
+      await sendBookingConfirmation(voter.userId, booking.id);
+    }
+  }
+
+  return {
+    success: true,
+    message: `Booking created with ${registered.length} player(s) signed up`,
+    booking: await storage.getBooking(booking.id),
+    registered,
+    waitlisted,
+    notRegistered
+  };
+}
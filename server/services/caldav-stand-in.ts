@@ -0,0 +1,127 @@
+/**
+ * CalDAV Stand-in - A small in-memory CalDAV server for development and tests
+ *
+ * Handles:
+ * - Enough discovery (principal, calendar home, one calendar) for players to connect to it
+ * - Storing, reading and deleting event files
+ * - Basic auth with a single username and password
+ *
+ * Mounted at /dev/caldav when CALENDAR.CALDAV_STAND_IN is set; tests can
+ * mount their own with createCalDavStandIn().
+ */
+
+import express, { Request, Response, Router } from "express";
+
+// An event file stored on the stand-in
+export interface StandInEvent {
+  body: string;
+  etag: string;
+}
+
+export interface CalDavStandIn {
+  router: Router;
+  events: Map<string, StandInEvent>; // Keyed by file name, e.g. "booking-42@kickbook.app.ics"
+}
+
+const CALENDAR_NAME = "matches";
+
+function multistatus(responses: string[]): string {
+  return `<?xml version="1.0" encoding="utf-8"?>
+<d:multistatus xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav">${responses.join("")}</d:multistatus>`;
+}
+
+function propResponse(href: string, props: string): string {
+  return `<d:response><d:href>${href}</d:href><d:propstat><d:prop>${props}</d:prop><d:status>HTTP/1.1 200 OK</d:status></d:propstat></d:response>`;
+}
+
+/**
+ * Create a stand-in CalDAV server with one calendar
+ * @param credentials Username and password players have to connect with
+ */
+export function createCalDavStandIn(
+  credentials: { username: string; password: string } = { username: "player", password: "app-password" }
+): CalDavStandIn {
+  const router = express.Router();
+  const events = new Map<string, StandInEvent>();
+  let etagCounter = 1;
+
+  const expectedAuth = `Basic ${Buffer.from(`${credentials.username}:${credentials.password}`).toString("base64")}`;
+
+  router.use(express.text({ type: ["text/calendar", "application/xml", "text/xml"] }));
+
+  router.use((req, res, next) => {
+    if (req.headers.authorization !== expectedAuth) {
+      res.setHeader("WWW-Authenticate", 'Basic realm="KickBook CalDAV stand-in"');
+      return res.status(401).send("Unauthorized");
+    }
+    next();
+  });
+
+  const sendMultistatus = (res: Response, responses: string[]) => {
+    res.status(207).type("application/xml").send(multistatus(responses));
+  };
+
+  router.all("*", (req: Request, res: Response) => {
+    const base = req.baseUrl;
+    const path = req.path;
+    const calendarPath = `/calendars/${CALENDAR_NAME}/`;
+    const calendarProps = `<d:resourcetype><d:collection/><c:calendar/></d:resourcetype>` +
+      `<c:supported-calendar-component-set><c:comp name="VEVENT"/></c:supported-calendar-component-set>`;
+
+    if (req.method === "PROPFIND") {
+      switch (path) {
+        case "/":
+          return sendMultistatus(res, [propResponse(`${base}/`,
+            `<d:resourcetype><d:collection/></d:resourcetype><d:current-user-principal><d:href>${base}/principal/</d:href></d:current-user-principal>`)]);
+        case "/principal/":
+          return sendMultistatus(res, [propResponse(`${base}/principal/`,
+            `<c:calendar-home-set><d:href>${base}/calendars/</d:href></c:calendar-home-set>`)]);
+        case "/calendars/": {
+          const responses = [propResponse(`${base}/calendars/`, `<d:resourcetype><d:collection/></d:resourcetype>`)];
+          if (req.headers.depth === "1") {
+            responses.push(propResponse(`${base}${calendarPath}`, calendarProps));
+          }
+          return sendMultistatus(res, responses);
+        }
+        case calendarPath:
+          return sendMultistatus(res, [propResponse(`${base}${calendarPath}`, calendarProps)]);
+        default:
+          return res.status(404).send("Not found");
+      }
+    }
+
+    if (!path.startsWith(calendarPath) || path === calendarPath) {
+      return res.status(405).send("Method not allowed");
+    }
+
+    const fileName = decodeURIComponent(path.slice(calendarPath.length));
+    const existing = events.get(fileName);
+
+    switch (req.method) {
+      case "PUT": {
+        if (req.headers["if-match"] === "*" && !existing) {
+          return res.status(412).send("Precondition failed");
+        }
+        if (req.headers["if-none-match"] === "*" && existing) {
+          return res.status(412).send("Precondition failed");
+        }
+        const etag = `"${etagCounter++}"`;
+        events.set(fileName, { body: typeof req.body === "string" ? req.body : "", etag });
+        res.setHeader("ETag", etag);
+        return res.status(existing ? 204 : 201).send();
+      }
+      case "GET":
+        if (!existing) return res.status(404).send("Not found");
+        res.setHeader("ETag", existing.etag);
+        return res.type("text/calendar").send(existing.body);
+      case "DELETE":
+        if (!existing) return res.status(404).send("Not found");
+        events.delete(fileName);
+        return res.status(204).send();
+      default:
+        return res.status(405).send("Method not allowed");
+    }
+  });
+
+  return { router, events };
+}
@@ -0,0 +1,160 @@
+/**
+ * Calendar Feed Service - Serves players' matches as iCal subscription feeds
+ *
+ * Handles:
+ * - A secret feed URL per player, which calendar apps subscribe to
+ * - Choosing between the matches a player is booked on and their whole team's schedule
+ * - Building the feed, so time, venue and cancellation changes show up in
+ *   subscribed calendars on their next refresh
+ * - Resetting the feed URL when a player thinks theirs has been shared
+ */
+
+import { randomBytes } from "crypto";
+import * as ical from "ical-generator";
+import { storage } from "../storage";
+import { Booking, CalendarFeed, CalendarFeedScope, SLOT_HOLDING_STATUSES, Team } from "@shared/schema";
+import { CALENDAR } from "../config";
+import { bookingToICalEvent } from "./calendar-service";
+
+export interface CalendarFeedResult {
+  success: boolean;
+  message: string;
+  ics?: string;
+}
+
+// What a player sees about their feed; the token only appears in the URLs
+export interface CalendarFeedInfo {
+  scope: string;
+  url: string;
+  webcalUrl: string;
+  lastAccessedAt: Date | null;
+  rotatedAt: Date | null;
+}
+
+function generateFeedToken(): string {
+  return randomBytes(24).toString("base64url");
+}
+
+/**
+ * Get a player's feed, creating one the first time they ask for it
+ */
+export async function getOrCreateCalendarFeed(userId: number): Promise<CalendarFeed> {
+  const existing = await storage.getCalendarFeedByUser(userId);
+  if (existing) return existing;
+
+  return storage.createCalendarFeed({
+    userId,
+    token: generateFeedToken(),
+    scope: "booked"
+  });
+}
+
+/**
+ * The URLs a calendar app can subscribe to for a feed
+ */
+export function getCalendarFeedInfo(feed: CalendarFeed): CalendarFeedInfo {
+  const url = `${CALENDAR.FEED_BASE_URL}/api/calendar/feed/${feed.token}.ics`;
+
+  return {
+    scope: feed.scope,
+    url,
+    webcalUrl: url.replace(/^https?:\/\//, "webcal://"),
+    lastAccessedAt: feed.lastAccessedAt,
+    rotatedAt: feed.rotatedAt
+  };
+}
+
+/**
+ * Give a player's feed a new URL. Calendars subscribed to the old one stop updating.
+ */
+export async function rotateCalendarFeedToken(userId: number): Promise<CalendarFeed> {
+  const feed = await getOrCreateCalendarFeed(userId);
+  const updatedFeed = await storage.updateCalendarFeed(feed.id, {
+    token: generateFeedToken(),
+    rotatedAt: new Date(),
+    lastAccessedAt: null
+  });
+  return updatedFeed!;
+}
+
+/**
+ * Choose which matches a player's feed includes
+ */
+export async function updateCalendarFeedScope(userId: number, scope: CalendarFeedScope): Promise<CalendarFeed> {
+  const feed = await getOrCreateCalendarFeed(userId);
+  const updatedFeed = await storage.updateCalendarFeed(feed.id, { scope });
+  return updatedFeed!;
+}
+
+/**
+ * Bookings in a player's feed. Canceled matches stay in, so subscribed
+ * calendars mark them canceled instead of quietly dropping them.
+ */
+async function getFeedBookings(userId: number, teamId: number | null, scope: string, since: Date): Promise<Booking[]> {
+  let feedBookings: Booking[];
+
+  if (scope === "team") {
+    feedBookings = teamId ? await storage.getBookingsByTeam(teamId) : [];
+  } else {
+    const playerBookings = await storage.getPlayerBookingsByPlayer(userId);
+    // Keyed by booking, since a player who left and rejoined has more than one row for it
+    const bookingsById = new Map<number, Booking>();
+
+    for (const pb of playerBookings) {
+      if (bookingsById.has(pb.bookingId)) continue;
+
+      const booking = await storage.getBooking(pb.bookingId);
+      if (!booking) continue;
+
+      // A player who left a match no longer has it; one who was on a canceled match should hear about it
+      if (SLOT_HOLDING_STATUSES.includes(pb.status) || booking.status === "canceled") {
+        bookingsById.set(booking.id, booking);
+      }
+    }
+
+    feedBookings = Array.from(bookingsById.values());
+  }
+
+  return feedBookings
+    .filter(booking => booking.startTime >= since)
+    .sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+}
+
+/**
+ * Build the iCal feed for a feed URL's token
+ * @param token - Token from the feed URL
+ */
+export async function buildCalendarFeed(token: string): Promise<CalendarFeedResult> {
+  const feed = await storage.getCalendarFeedByToken(token);
+  if (!feed) {
+    return { success: false, message: "Calendar feed not found" };
+  }
+
+  const user = await storage.getUser(feed.userId);
+  if (!user) {
+    return { success: false, message: "Calendar feed not found" };
+  }
+
+  const since = new Date(Date.now() - CALENDAR.FEED_PAST_DAYS * 24 * 60 * 60 * 1000);
+  const feedBookings = await getFeedBookings(user.id, user.teamId, feed.scope, since);
+
+  const calendar = ical.default({
+    name: feed.scope === "team" ? "Team matches" : "My matches",
+    ttl: CALENDAR.FEED_REFRESH_MINUTES * 60
+  });
+
+  const teams = new Map<number, Team | undefined>();
+  for (const booking of feedBookings) {
+    if (!teams.has(booking.teamId)) {
+      teams.set(booking.teamId, await storage.getTeam(booking.teamId));
+    }
+    const team = teams.get(booking.teamId);
+    if (!team) continue;
+
+    calendar.createEvent(bookingToICalEvent(booking, team));
+  }
+
+  await storage.updateCalendarFeed(feed.id, { lastAccessedAt: new Date() });
+
+  return { success: true, message: "Calendar feed built", ics: calendar.toString() };
+}
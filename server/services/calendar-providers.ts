@@ -0,0 +1,736 @@
+/**
+ * Calendar Providers - Adapters for the calendars players connect
+ *
+ * Handles:
+ * - Connecting a calendar through OAuth and refreshing its tokens, or with a
+ *   username and app password for CalDAV servers
+ * - Creating, updating and deleting the events bookings are synced to
+ * - Google Calendar and Outlook/Microsoft 365 through their APIs
+ * - CalDAV servers such as iCloud, Fastmail and Nextcloud
+ * - Keeping events in memory instead, for development and tests
+ */
+
+import { randomUUID } from "crypto";
+import type { LookupAddress } from "dns";
+import { lookup } from "dns/promises";
+import { request as httpRequest } from "http";
+import { request as httpsRequest } from "https";
+import { BlockList, isIP, type LookupFunction } from "net";
+import { google } from "googleapis";
+import * as ical from "ical-generator";
+import { CALENDAR } from "../config";
+
+// Tokens for acting on a player's calendar
+export interface CalendarTokens {
+  accessToken: string;
+  refreshToken: string | null;
+  expiresAt: Date | null;
+}
+
+// What a booking looks like in a connected calendar
+export interface CalendarEventDetails {
+  bookingId: number;
+  title: string;
+  description: string;
+  location: string;
+  start: Date;
+  end: Date;
+  url: string;
+  sequence: number; // Goes up each time the booking changes
+}
+
+// A calendar service players can connect
+export interface CalendarProvider {
+  name: string;
+
+  /**
+   * Add an event to a calendar
+   * @returns The provider's ID for the event
+   */
+  createEvent(tokens: CalendarTokens, calendarId: string, event: CalendarEventDetails): Promise<string>;
+
+  /**
+   * Change an event already in a calendar
+   * @returns false if the event no longer exists, e.g. the player deleted it
+   */
+  updateEvent(tokens: CalendarTokens, calendarId: string, eventId: string, event: CalendarEventDetails): Promise<boolean>;
+
+  /**
+   * Remove an event from a calendar. Events that are already gone count as removed.
+   */
+  deleteEvent(tokens: CalendarTokens, calendarId: string, eventId: string): Promise<void>;
+}
+
+// A provider players connect by signing in with the provider and granting access
+export interface OAuthCalendarProvider extends CalendarProvider {
+  /**
+   * URL to send a player to so they can let us use their calendar
+   */
+  getAuthUrl(): string;
+
+  /**
+   * Exchange the code from the OAuth redirect for tokens
+   */
+  exchangeCode(code: string): Promise<CalendarTokens>;
+
+  /**
+   * Get a new access token
+   * @returns null if the player revoked access, so they need to reconnect
+   */
+  refreshTokens(refreshToken: string): Promise<CalendarTokens | null>;
+}
+
+export function isOAuthProvider(provider: CalendarProvider): provider is OAuthCalendarProvider {
+  return "exchangeCode" in provider;
+}
+
+// The calendar UID of a booking's event, the same one its iCal feed uses
+function getEventUid(bookingId: number): string {
+  return `booking-${bookingId}@kickbook.app`;
+}
+
+// Google reports missing events as 404, and deleted ones as 410
+function isGoneError(error: any): boolean {
+  const status = error?.code ?? error?.response?.status;
+  return status === 404 || status === 410;
+}
+
+export class GoogleCalendarProvider implements OAuthCalendarProvider {
+  name = "google";
+
+  private static SCOPES = [
+    "https://www.googleapis.com/auth/calendar",
+    "https://www.googleapis.com/auth/calendar.events"
+  ];
+
+  constructor(private options: { clientId: string; clientSecret: string; redirectUri: string }) {}
+
+  private createOAuth2Client() {
+    return new google.auth.OAuth2(this.options.clientId, this.options.clientSecret, this.options.redirectUri);
+  }
+
+  private createCalendarClient(tokens: CalendarTokens) {
+    const auth = this.createOAuth2Client();
+    auth.setCredentials({
+      access_token: tokens.accessToken,
+      refresh_token: tokens.refreshToken
+    });
+    return google.calendar({ version: "v3", auth });
+  }
+
+  private toGoogleEvent(event: CalendarEventDetails) {
+    return {
+      summary: event.title,
+      description: `${event.description}\n\n${event.url}`,
+      location: event.location,
+      start: { dateTime: event.start.toISOString() },
+      end: { dateTime: event.end.toISOString() },
+      source: { title: "KickBook", url: event.url },
+      extendedProperties: { private: { bookingId: event.bookingId.toString() } }
+    };
+  }
+
+  getAuthUrl(): string {
+    return this.createOAuth2Client().generateAuthUrl({
+      access_type: "offline",
+      scope: GoogleCalendarProvider.SCOPES,
+      prompt: "consent" // Always request a refresh token
+    });
+  }
+
+  async exchangeCode(code: string): Promise<CalendarTokens> {
+    const { tokens } = await this.createOAuth2Client().getToken(code);
+    if (!tokens.access_token) {
+      throw new Error("Google didn't return an access token");
+    }
+
+    return {
+      accessToken: tokens.access_token,
+      refreshToken: tokens.refresh_token ?? null,
+      expiresAt: tokens.expiry_date ? new Date(tokens.expiry_date) : null
+    };
+  }
+
+  async refreshTokens(refreshToken: string): Promise<CalendarTokens | null> {
+    const client = this.createOAuth2Client();
+    client.setCredentials({ refresh_token: refreshToken });
+
+    try {
+      const { credentials } = await client.refreshAccessToken();
+      return {
+        accessToken: credentials.access_token!,
+        refreshToken: credentials.refresh_token ?? refreshToken,
+        expiresAt: credentials.expiry_date ? new Date(credentials.expiry_date) : null
+      };
+    } catch (error: any) {
+      // invalid_grant means the player revoked access or the token expired
+      if (error?.response?.data?.error === "invalid_grant") {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async createEvent(tokens: CalendarTokens, calendarId: string, event: CalendarEventDetails): Promise<string> {
+    const response = await this.createCalendarClient(tokens).events.insert({
+      calendarId,
+      requestBody: this.toGoogleEvent(event)
+    });
+    return response.data.id!;
+  }
+
+  async updateEvent(tokens: CalendarTokens, calendarId: string, eventId: string, event: CalendarEventDetails): Promise<boolean> {
+    try {
+      const response = await this.createCalendarClient(tokens).events.update({
+        calendarId,
+        eventId,
+        requestBody: this.toGoogleEvent(event)
+      });
+      // Events the player deleted linger as cancelled and can still be updated
+      return response.data.status !== "cancelled";
+    } catch (error) {
+      if (isGoneError(error)) return false;
+      throw error;
+    }
+  }
+
+  async deleteEvent(tokens: CalendarTokens, calendarId: string, eventId: string): Promise<void> {
+    try {
+      await this.createCalendarClient(tokens).events.delete({ calendarId, eventId });
+    } catch (error) {
+      if (!isGoneError(error)) throw error;
+    }
+  }
+}
+
+export class MicrosoftCalendarProvider implements OAuthCalendarProvider {
+  name = "microsoft";
+
+  private static SCOPES = "offline_access Calendars.ReadWrite";
+  private static GRAPH_URL = "https://graph.microsoft.com/v1.0";
+
+  constructor(private options: { clientId: string; clientSecret: string; tenant: string; redirectUri: string }) {}
+
+  private get tokenUrl(): string {
+    return `https://login.microsoftonline.com/${this.options.tenant}/oauth2/v2.0/token`;
+  }
+
+  private async requestTokens(params: Record<string, string>): Promise<Response> {
+    return fetch(this.tokenUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: new URLSearchParams({
+        client_id: this.options.clientId,
+        client_secret: this.options.clientSecret,
+        redirect_uri: this.options.redirectUri,
+        scope: MicrosoftCalendarProvider.SCOPES,
+        ...params
+      })
+    });
+  }
+
+  private toTokens(data: any, previousRefreshToken: string | null = null): CalendarTokens {
+    return {
+      accessToken: data.access_token,
+      refreshToken: data.refresh_token ?? previousRefreshToken,
+      expiresAt: data.expires_in ? new Date(Date.now() + data.expires_in * 1000) : null
+    };
+  }
+
+  private async graphRequest(tokens: CalendarTokens, method: string, path: string, body?: any): Promise<Response> {
+    return fetch(`${MicrosoftCalendarProvider.GRAPH_URL}${path}`, {
+      method,
+      headers: {
+        "Authorization": `Bearer ${tokens.accessToken}`,
+        "Content-Type": "application/json"
+      },
+      body: body ? JSON.stringify(body) : undefined
+    });
+  }
+
+  private eventsPath(calendarId: string): string {
+    return calendarId === "primary" ? "/me/events" : `/me/calendars/${encodeURIComponent(calendarId)}/events`;
+  }
+
+  private toGraphEvent(event: CalendarEventDetails) {
+    return {
+      subject: event.title,
+      body: { contentType: "text", content: `${event.description}\n\n${event.url}` },
+      location: { displayName: event.location },
+      // Graph wants local date-times with a separate time zone
+      start: { dateTime: event.start.toISOString().slice(0, 19), timeZone: "UTC" },
+      end: { dateTime: event.end.toISOString().slice(0, 19), timeZone: "UTC" }
+    };
+  }
+
+  getAuthUrl(): string {
+    const params = new URLSearchParams({
+      client_id: this.options.clientId,
+      response_type: "code",
+      redirect_uri: this.options.redirectUri,
+      response_mode: "query",
+      scope: MicrosoftCalendarProvider.SCOPES,
+      prompt: "consent"
+    });
+    return `https://login.microsoftonline.com/${this.options.tenant}/oauth2/v2.0/authorize?${params}`;
+  }
+
+  async exchangeCode(code: string): Promise<CalendarTokens> {
+    const response = await this.requestTokens({ grant_type: "authorization_code", code });
+    const data = await response.json();
+    if (!response.ok || !data.access_token) {
+      throw new Error(`Microsoft didn't return an access token: ${data.error_description || data.error || response.status}`);
+    }
+    return this.toTokens(data);
+  }
+
+  async refreshTokens(refreshToken: string): Promise<CalendarTokens | null> {
+    const response = await this.requestTokens({ grant_type: "refresh_token", refresh_token: refreshToken });
+    const data = await response.json();
+
+    if (!response.ok) {
+      // invalid_grant means the player revoked access or the token expired
+      if (data.error === "invalid_grant") return null;
+      throw new Error(`Failed to refresh Microsoft token: ${data.error_description || data.error || response.status}`);
+    }
+    return this.toTokens(data, refreshToken);
+  }
+
+  async createEvent(tokens: CalendarTokens, calendarId: string, event: CalendarEventDetails): Promise<string> {
+    const response = await this.graphRequest(tokens, "POST", this.eventsPath(calendarId), this.toGraphEvent(event));
+    if (!response.ok) {
+      throw new Error(`Failed to create Outlook event (${response.status}): ${await response.text()}`);
+    }
+    const data = await response.json();
+    return data.id;
+  }
+
+  async updateEvent(tokens: CalendarTokens, calendarId: string, eventId: string, event: CalendarEventDetails): Promise<boolean> {
+    const response = await this.graphRequest(tokens, "PATCH", `/me/events/${encodeURIComponent(eventId)}`, this.toGraphEvent(event));
+    if (response.status === 404 || response.status === 410) return false;
+    if (!response.ok) {
+      throw new Error(`Failed to update Outlook event (${response.status}): ${await response.text()}`);
+    }
+    return true;
+  }
+
+  async deleteEvent(tokens: CalendarTokens, calendarId: string, eventId: string): Promise<void> {
+    const response = await this.graphRequest(tokens, "DELETE", `/me/events/${encodeURIComponent(eventId)}`);
+    if (!response.ok && response.status !== 404 && response.status !== 410) {
+      throw new Error(`Failed to delete Outlook event (${response.status}): ${await response.text()}`);
+    }
+  }
+}
+
+// Find the first <tag> (with any namespace prefix) in a WebDAV response and return its contents
+function findXmlElement(xml: string, tag: string): string | null {
+  const match = xml.match(new RegExp(`<(?:[\\w-]+:)?${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:[\\w-]+:)?${tag}>`, "i"));
+  return match ? match[1] : null;
+}
+
+function hasXmlElement(xml: string, tag: string): boolean {
+  return new RegExp(`<(?:[\\w-]+:)?${tag}[\\s/>]`, "i").test(xml);
+}
+
+// Split a WebDAV multistatus into its <response> elements
+function splitXmlResponses(xml: string): string[] {
+  return xml.match(/<(?:[\w-]+:)?response[\s>][\s\S]*?<\/(?:[\w-]+:)?response>/gi) || [];
+}
+
+// Shown for anything that goes wrong connecting, so the form can't be used to probe other hosts
+export const CALDAV_CONNECT_ERROR = "Couldn't connect to a CalDAV calendar with those details";
+
+// Addresses a player's CalDAV server may not point us at: loopback, private, link-local and the like
+const BLOCKED_ADDRESSES = new BlockList();
+BLOCKED_ADDRESSES.addSubnet("0.0.0.0", 8, "ipv4");
+BLOCKED_ADDRESSES.addSubnet("10.0.0.0", 8, "ipv4");
+BLOCKED_ADDRESSES.addSubnet("100.64.0.0", 10, "ipv4");
+BLOCKED_ADDRESSES.addSubnet("127.0.0.0", 8, "ipv4");
+BLOCKED_ADDRESSES.addSubnet("169.254.0.0", 16, "ipv4");
+BLOCKED_ADDRESSES.addSubnet("172.16.0.0", 12, "ipv4");
+BLOCKED_ADDRESSES.addSubnet("192.0.0.0", 24, "ipv4");
+BLOCKED_ADDRESSES.addSubnet("192.0.2.0", 24, "ipv4");
+BLOCKED_ADDRESSES.addSubnet("192.88.99.0", 24, "ipv4");
+BLOCKED_ADDRESSES.addSubnet("192.168.0.0", 16, "ipv4");
+BLOCKED_ADDRESSES.addSubnet("198.18.0.0", 15, "ipv4");
+BLOCKED_ADDRESSES.addSubnet("198.51.100.0", 24, "ipv4");
+BLOCKED_ADDRESSES.addSubnet("203.0.113.0", 24, "ipv4");
+BLOCKED_ADDRESSES.addSubnet("224.0.0.0", 4, "ipv4");
+BLOCKED_ADDRESSES.addSubnet("240.0.0.0", 4, "ipv4");
+BLOCKED_ADDRESSES.addAddress("::", "ipv6");
+BLOCKED_ADDRESSES.addAddress("::1", "ipv6");
+BLOCKED_ADDRESSES.addSubnet("64:ff9b::", 96, "ipv6");
+BLOCKED_ADDRESSES.addSubnet("64:ff9b:1::", 48, "ipv6");
+BLOCKED_ADDRESSES.addSubnet("100::", 64, "ipv6");
+BLOCKED_ADDRESSES.addSubnet("2001::", 23, "ipv6");
+BLOCKED_ADDRESSES.addSubnet("2001:db8::", 32, "ipv6");
+BLOCKED_ADDRESSES.addSubnet("2002::", 16, "ipv6");
+BLOCKED_ADDRESSES.addSubnet("fc00::", 7, "ipv6");
+BLOCKED_ADDRESSES.addSubnet("fe80::", 10, "ipv6");
+BLOCKED_ADDRESSES.addSubnet("ff00::", 8, "ipv6");
+
+// IPv4-mapped IPv6 addresses (::ffff:10.0.0.1) are checked against the IPv4 ranges too
+function isBlockedAddress(address: string): boolean {
+  return BLOCKED_ADDRESSES.check(address, isIP(address) === 6 ? "ipv6" : "ipv4");
+}
+
+/**
+ * Make sure a CalDAV URL is safe to call: https, on a host that resolves only
+ * to public addresses. The CalDAV stand-in is the one exception, and only
+ * while CALENDAR.CALDAV_STAND_IN is set.
+ * @returns The checked address to connect to, or null for the stand-in
+ * @throws CALDAV_CONNECT_ERROR if it isn't
+ */
+async function assertCalDavUrlAllowed(url: string): Promise<LookupAddress | null> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new Error(CALDAV_CONNECT_ERROR);
+  }
+
+  if (CALENDAR.CALDAV_STAND_IN && parsed.hostname === "localhost" && /^\/dev\/caldav(\/|$)/.test(parsed.pathname)) {
+    return null;
+  }
+
+  if (parsed.protocol !== "https:" || parsed.username || parsed.password) {
+    throw new Error(CALDAV_CONNECT_ERROR);
+  }
+
+  // URL keeps the brackets around IPv6 hosts
+  const hostname = parsed.hostname.replace(/^\[(.*)\]$/, "$1");
+  let addresses: LookupAddress[];
+  try {
+    addresses = isIP(hostname) ? [{ address: hostname, family: isIP(hostname) }] : await lookup(hostname, { all: true });
+  } catch {
+    throw new Error(CALDAV_CONNECT_ERROR);
+  }
+
+  if (addresses.length === 0 || addresses.some(({ address }) => isBlockedAddress(address))) {
+    throw new Error(CALDAV_CONNECT_ERROR);
+  }
+
+  return addresses[0];
+}
+
+interface CalDavResponse {
+  status: number;
+  ok: boolean;
+  body: string;
+}
+
+/**
+ * Call a CalDAV URL once it's been checked. The connection goes to the
+ * address that was checked rather than looking the host up again, so a DNS
+ * answer that changes in between can't point it somewhere internal.
+ * Redirects aren't followed.
+ */
+async function calDavRequest(
+  url: string,
+  options: { method: string; headers: Record<string, string>; body?: string }
+): Promise<CalDavResponse> {
+  const pinned = await assertCalDavUrlAllowed(url);
+  const parsed = new URL(url);
+
+  const pinnedLookup: LookupFunction = (_hostname, lookupOptions, callback) => {
+    if (lookupOptions.all) {
+      callback(null, [pinned!]);
+    } else {
+      callback(null, pinned!.address, pinned!.family);
+    }
+  };
+
+  const send = parsed.protocol === "https:" ? httpsRequest : httpRequest;
+  return new Promise((resolve, reject) => {
+    const request = send(parsed, {
+      method: options.method,
+      headers: options.headers,
+      lookup: pinned ? pinnedLookup : undefined
+    }, (response) => {
+      const chunks: Buffer[] = [];
+      response.on("data", (chunk: Buffer) => chunks.push(chunk));
+      response.on("error", reject);
+      response.on("end", () => {
+        const status = response.statusCode || 0;
+        resolve({ status, ok: status >= 200 && status < 300, body: Buffer.concat(chunks).toString("utf8") });
+      });
+    });
+    request.on("error", reject);
+    request.end(options.body);
+  });
+}
+
+/**
+ * CalDAV servers (iCloud, Fastmail, Nextcloud and others). Players connect
+ * with their username and an app password; events are stored as iCal files
+ * named after the booking's UID.
+ */
+export class CalDavCalendarProvider implements CalendarProvider {
+  name = "caldav";
+
+  private authHeader(tokens: CalendarTokens): string {
+    return `Basic ${tokens.accessToken}`;
+  }
+
+  private async propfind(url: string, tokens: CalendarTokens, depth: "0" | "1", props: string): Promise<string | null> {
+    const response = await calDavRequest(url, {
+      method: "PROPFIND",
+      headers: {
+        "Authorization": this.authHeader(tokens),
+        "Content-Type": "application/xml; charset=utf-8",
+        "Depth": depth
+      },
+      body: `<?xml version="1.0" encoding="utf-8"?>
+<d:propfind xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav"><d:prop>${props}</d:prop></d:propfind>`
+    });
+
+    if (response.status !== 207) return null;
+    return response.body;
+  }
+
+  private isEventCalendar(responseXml: string): boolean {
+    const resourceType = findXmlElement(responseXml, "resourcetype") || "";
+    if (!hasXmlElement(resourceType, "calendar")) return false;
+
+    // Calendars that don't list components take anything
+    const components = findXmlElement(responseXml, "supported-calendar-component-set");
+    return !components || /name=["']VEVENT["']/i.test(components);
+  }
+
+  /**
+   * Find the calendar to sync to: the server URL itself if it's a calendar,
+   * otherwise the first event calendar in the player's calendar home. Every
+   * URL the server points to is checked before it's called.
+   * @returns The calendar's URL and the tokens to store for the integration
+   * @throws CALDAV_CONNECT_ERROR whatever went wrong
+   */
+  async connect(serverUrl: string, username: string, password: string): Promise<{ tokens: CalendarTokens; calendarId: string }> {
+    const tokens: CalendarTokens = {
+      accessToken: Buffer.from(`${username}:${password}`).toString("base64"),
+      refreshToken: null,
+      expiresAt: null
+    };
+
+    const resourceProps = "<d:resourcetype/><c:supported-calendar-component-set/><d:current-user-principal/>";
+    const rootXml = await this.propfind(serverUrl, tokens, "0", resourceProps);
+    if (!rootXml) {
+      throw new Error(CALDAV_CONNECT_ERROR);
+    }
+
+    if (this.isEventCalendar(rootXml)) {
+      return { tokens, calendarId: new URL(serverUrl).toString() };
+    }
+
+    const principalHref = findXmlElement(findXmlElement(rootXml, "current-user-principal") || "", "href");
+    if (!principalHref) {
+      throw new Error(CALDAV_CONNECT_ERROR);
+    }
+    const principalUrl = new URL(principalHref.trim(), serverUrl).toString();
+
+    const principalXml = await this.propfind(principalUrl, tokens, "0", "<c:calendar-home-set/>");
+    const homeHref = principalXml && findXmlElement(findXmlElement(principalXml, "calendar-home-set") || "", "href");
+    if (!homeHref) {
+      throw new Error(CALDAV_CONNECT_ERROR);
+    }
+    const homeUrl = new URL(homeHref.trim(), principalUrl).toString();
+
+    const homeXml = await this.propfind(homeUrl, tokens, "1", "<d:resourcetype/><c:supported-calendar-component-set/>");
+    for (const responseXml of splitXmlResponses(homeXml || "")) {
+      const href = findXmlElement(responseXml, "href");
+      if (href && this.isEventCalendar(responseXml)) {
+        return { tokens, calendarId: new URL(href.trim(), homeUrl).toString() };
+      }
+    }
+
+    throw new Error(CALDAV_CONNECT_ERROR);
+  }
+
+  private eventUrl(calendarId: string, event: CalendarEventDetails): string {
+    const calendarUrl = calendarId.endsWith("/") ? calendarId : `${calendarId}/`;
+    return new URL(`${encodeURIComponent(getEventUid(event.bookingId))}.ics`, calendarUrl).toString();
+  }
+
+  private toICal(event: CalendarEventDetails): string {
+    const calendar = ical.default({ prodId: { company: "KickBook", product: "KickBook" } });
+    calendar.createEvent({
+      id: getEventUid(event.bookingId),
+      sequence: event.sequence,
+      start: event.start,
+      end: event.end,
+      summary: event.title,
+      description: event.description,
+      location: event.location,
+      url: event.url
+    });
+    return calendar.toString();
+  }
+
+  private async putEvent(tokens: CalendarTokens, url: string, event: CalendarEventDetails, headers: Record<string, string>): Promise<CalDavResponse> {
+    return calDavRequest(url, {
+      method: "PUT",
+      headers: {
+        "Authorization": this.authHeader(tokens),
+        "Content-Type": "text/calendar; charset=utf-8",
+        ...headers
+      },
+      body: this.toICal(event)
+    });
+  }
+
+  async createEvent(tokens: CalendarTokens, calendarId: string, event: CalendarEventDetails): Promise<string> {
+    const url = this.eventUrl(calendarId, event);
+    // The URL comes from the booking, so a retried create overwrites rather than duplicates
+    const response = await this.putEvent(tokens, url, event, {});
+    if (!response.ok) {
+      throw new Error(`Failed to create CalDAV event (${response.status})`);
+    }
+    return url;
+  }
+
+  async updateEvent(tokens: CalendarTokens, calendarId: string, eventId: string, event: CalendarEventDetails): Promise<boolean> {
+    // Only overwrite the event if it's still there
+    const response = await this.putEvent(tokens, eventId, event, { "If-Match": "*" });
+    if (response.status === 404 || response.status === 410 || response.status === 412) return false;
+    if (!response.ok) {
+      throw new Error(`Failed to update CalDAV event (${response.status})`);
+    }
+    return true;
+  }
+
+  async deleteEvent(tokens: CalendarTokens, calendarId: string, eventId: string): Promise<void> {
+    const response = await calDavRequest(eventId, {
+      method: "DELETE",
+      headers: { "Authorization": this.authHeader(tokens) }
+    });
+    if (!response.ok && response.status !== 404 && response.status !== 410) {
+      throw new Error(`Failed to delete CalDAV event (${response.status})`);
+    }
+  }
+}
+
+/**
+ * Keeps events in memory instead of calling a provider. Tests can read them
+ * back with getEvents().
+ */
+export class MemoryCalendarProvider implements OAuthCalendarProvider {
+  private events = new Map<string, CalendarEventDetails & { calendarId: string }>();
+  private revokedRefreshTokens = new Set<string>();
+
+  constructor(public name: string) {}
+
+  getAuthUrl(): string {
+    // Skip the consent screen and go straight back with a code
+    return `${CALENDAR.GOOGLE_REDIRECT_URI.replace("/google/", `/${this.name}/`)}?code=memory-${randomUUID()}`;
+  }
+
+  async exchangeCode(code: string): Promise<CalendarTokens> {
+    return {
+      accessToken: `memory-access-${code}`,
+      refreshToken: `memory-refresh-${code}`,
+      expiresAt: new Date(Date.now() + 60 * 60 * 1000)
+    };
+  }
+
+  async refreshTokens(refreshToken: string): Promise<CalendarTokens | null> {
+    if (this.revokedRefreshTokens.has(refreshToken)) return null;
+
+    return {
+      accessToken: `memory-access-${randomUUID()}`,
+      refreshToken,
+      expiresAt: new Date(Date.now() + 60 * 60 * 1000)
+    };
+  }
+
+  async createEvent(tokens: CalendarTokens, calendarId: string, event: CalendarEventDetails): Promise<string> {
+    const eventId = `memory-event-${randomUUID()}`;
+    this.events.set(eventId, { ...event, calendarId });
+    console.log(`[CALENDAR TEST] Created ${this.name} event ${eventId}: ${event.title}`);
+    return eventId;
+  }
+
+  async updateEvent(tokens: CalendarTokens, calendarId: string, eventId: string, event: CalendarEventDetails): Promise<boolean> {
+    if (!this.events.has(eventId)) return false;
+    this.events.set(eventId, { ...event, calendarId });
+    console.log(`[CALENDAR TEST] Updated ${this.name} event ${eventId}: ${event.title}`);
+    return true;
+  }
+
+  async deleteEvent(tokens: CalendarTokens, calendarId: string, eventId: string): Promise<void> {
+    if (this.events.delete(eventId)) {
+      console.log(`[CALENDAR TEST] Deleted ${this.name} event ${eventId}`);
+    }
+  }
+
+  getEvents(calendarId?: string): Array<CalendarEventDetails & { id: string; calendarId: string }> {
+    return Array.from(this.events.entries())
+      .map(([id, event]) => ({ ...event, id }))
+      .filter(event => !calendarId || event.calendarId === calendarId);
+  }
+
+  /**
+   * Make a refresh token stop working, as if the player revoked access
+   */
+  revokeRefreshToken(refreshToken: string): void {
+    this.revokedRefreshTokens.add(refreshToken);
+  }
+
+  clear(): void {
+    this.events.clear();
+    this.revokedRefreshTokens.clear();
+  }
+}
+
+/**
+ * Settings that have to be set before players can connect a provider
+ * @returns Names of the environment variables that are missing
+ */
+export function getMissingProviderSettings(name: string): string[] {
+  // CalDAV needs no app of ours, and memory mode fakes the OAuth apps
+  if (name === "caldav" || CALENDAR.PROVIDER_MODE === "memory") return [];
+
+  const required: Record<string, Record<string, string>> = {
+    google: { GOOGLE_CLIENT_ID: CALENDAR.GOOGLE_CLIENT_ID, GOOGLE_CLIENT_SECRET: CALENDAR.GOOGLE_CLIENT_SECRET },
+    microsoft: { MICROSOFT_CLIENT_ID: CALENDAR.MICROSOFT_CLIENT_ID, MICROSOFT_CLIENT_SECRET: CALENDAR.MICROSOFT_CLIENT_SECRET }
+  };
+
+  return Object.entries(required[name] || {})
+    .filter(([, value]) => !value)
+    .map(([key]) => key);
+}
+
+/**
+ * Create the provider with the given name, configured from CALENDAR
+ */
+export function createCalendarProvider(name: string): CalendarProvider {
+  // CalDAV has no OAuth app to fake; tests point it at the CalDAV stand-in instead
+  if (name === "caldav") {
+    return new CalDavCalendarProvider();
+  }
+
+  if (CALENDAR.PROVIDER_MODE === "memory") {
+    return new MemoryCalendarProvider(name);
+  }
+
+  const missing = getMissingProviderSettings(name);
+  if (missing.length > 0) {
+    throw new Error(`${missing.join(" and ")} must be set to sync ${name} calendars`);
+  }
+
+  switch (name) {
+    case "google":
+      return new GoogleCalendarProvider({
+        clientId: CALENDAR.GOOGLE_CLIENT_ID,
+        clientSecret: CALENDAR.GOOGLE_CLIENT_SECRET,
+        redirectUri: CALENDAR.GOOGLE_REDIRECT_URI
+      });
+    case "microsoft":
+      return new MicrosoftCalendarProvider({
+        clientId: CALENDAR.MICROSOFT_CLIENT_ID,
+        clientSecret: CALENDAR.MICROSOFT_CLIENT_SECRET,
+        tenant: CALENDAR.MICROSOFT_TENANT,
+        redirectUri: CALENDAR.MICROSOFT_REDIRECT_URI
+      });
+    default:
+      throw new Error(`Unknown calendar provider: ${name}`);
+  }
+}
@@ -1,122 +1,314 @@
-import { google, Auth } from 'googleapis';
+/**
+ * Calendar Service - Keeps players' connected calendars in step with bookings
+ *
+ * Handles:
+ * - Connecting Google and Outlook calendars through the provider's OAuth
+ *   flow, and CalDAV calendars with a username and app password
+ * - Refreshing access tokens before they expire, and deactivating
+ *   integrations whose access was revoked
+ * - Syncing bookings to calendar events, remembering each event's ID so
+ *   re-syncing updates it instead of adding another
+ * - Removing events for canceled and deleted bookings
+ * - Re-syncing a booking whenever it changes, and every connected calendar periodically
+ * - iCal downloads for single bookings
+ */
+
 import * as ical from 'ical-generator';
+import { ICalEventData, ICalEventStatus } from 'ical-generator';
 import { storage } from '../storage';
-import { Booking, Team } from '@shared/schema';
-
-// This would be provided by the environment in production
-const TEST_CONFIG = {
-  clientId: 'test-client-id.apps.googleusercontent.com',
-  clientSecret: 'test-client-secret',
-  redirectUri: 'http://localhost:5000/api/calendar/google/callback',
-  scopes: [
-    'https://www.googleapis.com/auth/calendar',
-    'https://www.googleapis.com/auth/calendar.events'
-  ]
-};
+import { Booking, CalendarIntegration, Team } from '@shared/schema';
+import { CALENDAR } from '../config';
+import { enqueueJob, getPeriodStart, registerJobHandler, schedulePeriodicJob } from './job-service';
+import {
+  CALDAV_CONNECT_ERROR,
+  CalDavCalendarProvider,
+  CalendarEventDetails,
+  CalendarProvider,
+  CalendarTokens,
+  OAuthCalendarProvider,
+  createCalendarProvider,
+  isOAuthProvider
+} from './calendar-providers';
+
+// What happened to a booking's event when it was synced
+export type CalendarSyncAction = 'created' | 'updated' | 'deleted' | 'unchanged';
+
+export interface CalendarConnectResult {
+  success: boolean;
+  message: string;
+  integration?: CalendarIntegration;
+}
+
+export interface CalendarSyncResult {
+  created: number;
+  updated: number;
+  deleted: number;
+  unchanged: number;
+}
+
+const providers = new Map<string, CalendarProvider>();
+
+/**
+ * Get a calendar provider, creating the configured one on first use
+ */
+export function getCalendarProvider(name: string): CalendarProvider {
+  let provider = providers.get(name);
+  if (!provider) {
+    provider = createCalendarProvider(name);
+    providers.set(name, provider);
+  }
+  return provider;
+}
+
+/**
+ * Get a provider players connect through OAuth
+ */
+export function getOAuthCalendarProvider(name: string): OAuthCalendarProvider {
+  const provider = getCalendarProvider(name);
+  if (!isOAuthProvider(provider)) {
+    throw new Error(`${name} calendars aren't connected by signing in`);
+  }
+  return provider;
+}
+
+/**
+ * Swap a calendar provider, e.g. for a memory provider in tests
+ */
+export function setCalendarProvider(name: string, provider: CalendarProvider): void {
+  providers.set(name, provider);
+}
+
+/**
+ * The calendar event for a booking. The UID stays the same for the life of
+ * the booking and SEQUENCE goes up with each change, so calendar apps update
+ * the event they already have rather than adding another.
+ * @param booking - The booking
+ * @param team - The team the booking is for
+ */
+export function bookingToICalEvent(booking: Booking, team: Team): ICalEventData {
+  return {
+    id: `booking-${booking.id}@kickbook.app`,
+    sequence: booking.calendarSequence,
+    start: booking.startTime,
+    end: booking.endTime,
+    summary: booking.status === 'canceled' ? `Canceled: ${booking.title}` : booking.title,
+    description: booking.status === 'canceled' && booking.cancelReason
+      ? `${booking.format} match for team ${team.name}. Canceled: ${booking.cancelReason}`
+      : `${booking.format} match for team ${team.name}`,
+    location: booking.location,
+    url: `${CALENDAR.FEED_BASE_URL}/bookings?id=${booking.id}`,
+    status: booking.status === 'canceled' ? ICalEventStatus.CANCELLED : ICalEventStatus.CONFIRMED
+  };
+}
+
+/**
+ * What a booking looks like in a connected calendar
+ * @param booking - The booking
+ * @param team - The team the booking is for
+ */
+export function bookingToCalendarEvent(booking: Booking, team: Team): CalendarEventDetails {
+  return {
+    bookingId: booking.id,
+    title: booking.title,
+    description: `${booking.format} match for team ${team.name}`,
+    location: booking.location,
+    start: booking.startTime,
+    end: booking.endTime,
+    url: `${CALENDAR.FEED_BASE_URL}/bookings?id=${booking.id}`,
+    sequence: booking.calendarSequence
+  };
+}
 
 /**
  * Service to handle calendar integrations and event syncing
  */
 export class CalendarService {
   /**
-   * Get Google OAuth2 authorization URL
-   * @returns URL to redirect user to for Google OAuth consent
+   * Get the URL to send a user to so they can connect their calendar
+   * @param provider - OAuth calendar provider (google, microsoft)
    */
-  getGoogleAuthUrl(): string {
-    const oauth2Client = new google.auth.OAuth2(
-      process.env.GOOGLE_CLIENT_ID || TEST_CONFIG.clientId,
-      process.env.GOOGLE_CLIENT_SECRET || TEST_CONFIG.clientSecret,
-      process.env.GOOGLE_REDIRECT_URI || TEST_CONFIG.redirectUri
-    );
+  getAuthUrl(provider: string): string {
+    return getOAuthCalendarProvider(provider).getAuthUrl();
+  }
 
-    const authUrl = oauth2Client.generateAuthUrl({
-      access_type: 'offline',
-      scope: TEST_CONFIG.scopes,
-      prompt: 'consent', // Always request refresh token
+  /**
+   * Save a user's integration, reactivating it if they'd connected before
+   */
+  private async saveIntegration(
+    userId: number,
+    provider: string,
+    tokens: CalendarTokens,
+    calendarId: string | null
+  ): Promise<CalendarIntegration> {
+    const existingIntegration = await storage.getCalendarIntegrationByUser(userId, provider);
+    
+    if (existingIntegration) {
+      const updatedIntegration = await storage.updateCalendarIntegration(existingIntegration.id, {
+        accessToken: tokens.accessToken,
+        refreshToken: tokens.refreshToken || existingIntegration.refreshToken,
+        expiresAt: tokens.expiresAt,
+        calendarId: calendarId ?? existingIntegration.calendarId,
+        isActive: true
+      });
+      return updatedIntegration!;
+    }
+    
+    return storage.createCalendarIntegration({
+      userId,
+      provider,
+      accessToken: tokens.accessToken,
+      refreshToken: tokens.refreshToken,
+      expiresAt: tokens.expiresAt,
+      calendarId,
+      isActive: true
     });
-
-    return authUrl;
   }
 
   /**
-   * Exchange Google auth code for tokens
-   * @param code - Authorization code from Google OAuth redirect
+   * Finish connecting a calendar with the code from the provider's OAuth redirect
+   * @param userId - The user connecting their calendar
+   * @param provider - OAuth calendar provider (google, microsoft)
+   * @param code - Authorization code from the OAuth redirect
    */
-  async getGoogleTokens(code: string): Promise<{
-    accessToken: string;
-    refreshToken: string | null;
-    expiresAt: Date;
-  }> {
+  async connectOAuthCalendar(userId: number, provider: string, code: string): Promise<CalendarIntegration> {
+    let tokens: CalendarTokens;
     try {
-      const oauth2Client = new google.auth.OAuth2(
-        process.env.GOOGLE_CLIENT_ID || TEST_CONFIG.clientId,
-        process.env.GOOGLE_CLIENT_SECRET || TEST_CONFIG.clientSecret,
-        process.env.GOOGLE_REDIRECT_URI || TEST_CONFIG.redirectUri
-      );
-
-      // In a real implementation, we would get real tokens here
-      // This is a mock implementation for testing
-      // const { tokens } = await oauth2Client.getToken(code);
-      
-      // For test purposes, return mock tokens
-      const mockTokenResponse = {
-        accessToken: 'test-access-token',
-        refreshToken: 'test-refresh-token',
-        expiresAt: new Date(Date.now() + 3600 * 1000) // Expires in 1 hour
-      };
-
-      return mockTokenResponse;
+      tokens = await getOAuthCalendarProvider(provider).exchangeCode(code);
     } catch (error) {
-      console.error("Error getting Google OAuth tokens:", error);
-      throw new Error("Failed to get authorization tokens from Google");
+      console.error(`Error getting ${provider} OAuth tokens:`, error);
+      throw new Error(`Failed to get authorization tokens from ${provider}`);
     }
+    
+    return this.saveIntegration(userId, provider, tokens, null);
   }
 
   /**
-   * Create a Google OAuth2 client with user's tokens
-   * @param accessToken - Google OAuth2 access token
-   * @param refreshToken - Google OAuth2 refresh token
+   * Connect a CalDAV calendar, finding the calendar to sync to on the server
+   * @param userId - The user connecting their calendar
+   * @param connection - Server URL, username and (app) password
    */
-  private createGoogleOauth2Client(accessToken: string, refreshToken: string | null): Auth.OAuth2Client {
-    const oauth2Client = new google.auth.OAuth2(
-      process.env.GOOGLE_CLIENT_ID || TEST_CONFIG.clientId,
-      process.env.GOOGLE_CLIENT_SECRET || TEST_CONFIG.clientSecret,
-      process.env.GOOGLE_REDIRECT_URI || TEST_CONFIG.redirectUri
-    );
+  async connectCalDavCalendar(
+    userId: number,
+    connection: { serverUrl: string; username: string; password: string }
+  ): Promise<CalendarConnectResult> {
+    const provider = getCalendarProvider('caldav');
+    if (!(provider instanceof CalDavCalendarProvider)) {
+      return { success: false, message: "CalDAV calendars aren't available" };
+    }
+    
+    try {
+      const { tokens, calendarId } = await provider.connect(connection.serverUrl, connection.username, connection.password);
+      const integration = await this.saveIntegration(userId, 'caldav', tokens, calendarId);
+      return { success: true, message: "CalDAV calendar connected", integration };
+    } catch (error: any) {
+      console.error(`Error connecting CalDAV calendar for user ${userId}:`, error);
+      return { success: false, message: CALDAV_CONNECT_ERROR };
+    }
+  }
 
-    oauth2Client.setCredentials({
-      access_token: accessToken,
-      refresh_token: refreshToken
-    });
+  /**
+   * Get tokens for an integration, refreshing the access token if it's about
+   * to expire. An integration whose access was revoked is deactivated.
+   * @param integration - User's calendar integration record
+   * @returns null if the integration can't be used until the player reconnects
+   */
+  async getValidTokens(integration: CalendarIntegration): Promise<CalendarTokens | null> {
+    if (!integration.accessToken) return null;
+
+    const tokens: CalendarTokens = {
+      accessToken: integration.accessToken,
+      refreshToken: integration.refreshToken,
+      expiresAt: integration.expiresAt
+    };
+
+    const refreshBy = new Date(Date.now() + CALENDAR.TOKEN_REFRESH_MARGIN_MINUTES * 60 * 1000);
+    if (!tokens.expiresAt || tokens.expiresAt > refreshBy) {
+      return tokens;
+    }
+
+    const provider = getCalendarProvider(integration.provider);
+    const refreshed = tokens.refreshToken && isOAuthProvider(provider)
+      ? await provider.refreshTokens(tokens.refreshToken)
+      : null;
+
+    if (!refreshed) {
+      await storage.updateCalendarIntegration(integration.id, { isActive: false });
+      console.log(`Deactivated ${integration.provider} calendar for user ${integration.userId}: access was revoked`);
+      return null;
+    }
 
-    return oauth2Client;
+    await storage.updateCalendarIntegration(integration.id, {
+      accessToken: refreshed.accessToken,
+      refreshToken: refreshed.refreshToken,
+      expiresAt: refreshed.expiresAt
+    });
+    return refreshed;
   }
 
   /**
-   * Create or update Google Calendar event for a booking
-   * @param booking - The booking to create a calendar event for
-   * @param user - The user who's calendar to add the event to
-   * @param team - The team associated with the booking
+   * Bring a booking's event in an integration's calendar up to date. Future
+   * bookings get an event; canceled, deleted and past ones lose theirs.
    * @param integration - User's calendar integration record
+   * @param bookingId - The booking to sync
+   * @param tokens - Tokens from getValidTokens
    */
-  async createGoogleCalendarEvent(
-    booking: Booking,
-    user: any,
-    team: Team,
-    integration: any
-  ): Promise<string> {
-    try {
-      // In a real implementation, we would:
-      // 1. Create a Google OAuth2 client with the user's tokens
-      // 2. Create or update a calendar event with the booking details
-      // 3. Return the event ID
-      
-      // This is a mock implementation
-      return `test-event-id-${booking.id}`;
-    } catch (error) {
-      console.error(`Error creating Google Calendar event for booking ${booking.id}:`, error);
-      throw new Error("Failed to create Google Calendar event");
+  async syncBookingEvent(
+    integration: CalendarIntegration,
+    bookingId: number,
+    tokens: CalendarTokens
+  ): Promise<CalendarSyncAction> {
+    const provider = getCalendarProvider(integration.provider);
+    const calendarId = integration.calendarId || 'primary';
+
+    const booking = await storage.getBooking(bookingId);
+    const link = await storage.getCalendarEventLink(integration.id, bookingId);
+    const user = await storage.getUser(integration.userId);
+
+    const keepEvent = !!booking
+      && booking.status !== 'canceled'
+      && booking.startTime > new Date()
+      && user?.teamId === booking.teamId;
+
+    if (!keepEvent) {
+      // Past matches stay in the calendar; everything else is removed
+      if (!link || (booking && booking.status !== 'canceled' && booking.startTime <= new Date())) {
+        return 'unchanged';
+      }
+      await provider.deleteEvent(tokens, calendarId, link.externalEventId);
+      await storage.deleteCalendarEventLink(link.id);
+      return 'deleted';
+    }
+
+    if (link && link.syncedSequence === booking.calendarSequence) {
+      return 'unchanged';
     }
+
+    const team = await storage.getTeam(booking.teamId);
+    if (!team) {
+      throw new Error(`Team with ID ${booking.teamId} not found`);
+    }
+
+    const event = bookingToCalendarEvent(booking, team);
+
+    if (link && await provider.updateEvent(tokens, calendarId, link.externalEventId, event)) {
+      await storage.saveCalendarEventLink({
+        integrationId: integration.id,
+        bookingId: booking.id,
+        externalEventId: link.externalEventId,
+        syncedSequence: booking.calendarSequence
+      });
+      return 'updated';
+    }
+
+    // New booking, or the player deleted the event from their calendar
+    const externalEventId = await provider.createEvent(tokens, calendarId, event);
+    await storage.saveCalendarEventLink({
+      integrationId: integration.id,
+      bookingId: booking.id,
+      externalEventId,
+      syncedSequence: booking.calendarSequence
+    });
+    return 'created';
   }
 
   /**
@@ -129,13 +321,7 @@ export class CalendarService {
     const calendar = ical.default({ name: 'Football Team Manager' });
     
     calendar.createEvent({
-      start: booking.startTime,
-      end: booking.endTime,
-      summary: booking.title,
-      description: `${booking.format} match for team ${team.name}`,
-      location: booking.location,
-      url: `${process.env.APP_URL || 'http://localhost:5000'}/bookings?id=${booking.id}`,
-      status: booking.status === 'canceled' ? 'CANCELLED' : 'CONFIRMED' as any,
+      ...bookingToICalEvent(booking, team),
       organizer: {
         name: 'Football Team Manager',
         email: 'noreply@footballteammanager.com'
@@ -147,12 +333,13 @@ export class CalendarService {
   }
 
   /**
-   * Sync multiple bookings to a user's calendar
+   * Sync a user's calendar with their team's bookings: add and update events
+   * for future bookings, and remove events for canceled and deleted ones
    * @param userId - The user ID
-   * @param provider - Calendar provider (google, apple)
-   * @returns Number of events synced
+   * @param provider - Calendar provider (google, microsoft, caldav)
+   * @returns What happened to each booking's event
    */
-  async syncUserCalendar(userId: number, provider: string): Promise<number> {
+  async syncUserCalendar(userId: number, provider: string): Promise<CalendarSyncResult> {
     try {
       // Get user and their calendar integration
       const user = await storage.getUser(userId);
@@ -165,32 +352,27 @@ export class CalendarService {
         throw new Error(`No ${provider} calendar integration found for user ${userId}`);
       }
       
-      // Get user's team
-      if (!user.teamId) {
-        throw new Error(`User ${userId} is not associated with a team`);
+      const tokens = await this.getValidTokens(integration);
+      if (!tokens) {
+        throw new Error(`The ${provider} calendar needs to be reconnected`);
       }
       
-      const team = await storage.getTeam(user.teamId);
-      if (!team) {
-        throw new Error(`Team with ID ${user.teamId} not found`);
+      // Future team bookings, plus anything already in the calendar that may need removing
+      const bookingIds = new Set<number>();
+      if (user.teamId) {
+        const now = new Date();
+        for (const booking of await storage.getBookingsByTeam(user.teamId)) {
+          if (booking.startTime > now) bookingIds.add(booking.id);
+        }
+      }
+      for (const link of await storage.getCalendarEventLinksByIntegration(integration.id)) {
+        bookingIds.add(link.bookingId);
       }
       
-      // Get upcoming bookings for the team
-      const bookings = await storage.getBookingsByTeam(team.id);
-      
-      // Only sync future bookings
-      const now = new Date();
-      const futureBookings = bookings.filter(booking => booking.startTime > now);
-      
-      let syncedCount = 0;
-      
-      // Process each booking
-      for (const booking of futureBookings) {
-        if (provider === 'google') {
-          await this.createGoogleCalendarEvent(booking, user, team, integration);
-          syncedCount++;
-        }
-        // Add other providers here if needed
+      const result: CalendarSyncResult = { created: 0, updated: 0, deleted: 0, unchanged: 0 };
+      for (const bookingId of Array.from(bookingIds)) {
+        const action = await this.syncBookingEvent(integration, bookingId, tokens);
+        result[action]++;
       }
       
       // Update last synced timestamp
@@ -198,13 +380,110 @@ export class CalendarService {
         lastSyncedAt: new Date()
       });
       
-      return syncedCount;
+      return result;
     } catch (error) {
       console.error(`Error syncing ${provider} calendar for user ${userId}:`, error);
       throw new Error(`Failed to sync ${provider} calendar`);
     }
   }
+
+  /**
+   * Sync one booking to every calendar it should be in or was synced to
+   * @param bookingId - The booking that changed
+   * @returns Number of calendars whose event changed
+   */
+  async syncBookingToCalendars(bookingId: number): Promise<number> {
+    const integrations = new Map<number, CalendarIntegration>();
+
+    const booking = await storage.getBooking(bookingId);
+    if (booking) {
+      const memberIds = new Set((await storage.getTeamMembers(booking.teamId)).map(member => member.id));
+      for (const integration of await storage.getActiveCalendarIntegrations()) {
+        if (memberIds.has(integration.userId)) integrations.set(integration.id, integration);
+      }
+    }
+
+    // Players who've since left the team, or whose booking was deleted, still need the event removed
+    for (const link of await storage.getCalendarEventLinksByBooking(bookingId)) {
+      if (integrations.has(link.integrationId)) continue;
+      const integration = await storage.getCalendarIntegration(link.integrationId);
+      if (integration?.isActive) integrations.set(integration.id, integration);
+    }
+
+    let changed = 0;
+    for (const integration of Array.from(integrations.values())) {
+      const tokens = await this.getValidTokens(integration);
+      if (!tokens) continue;
+
+      const action = await this.syncBookingEvent(integration, bookingId, tokens);
+      if (action !== 'unchanged') changed++;
+    }
+
+    return changed;
+  }
 }
 
 // Export singleton instance
-export const calendarService = new CalendarService();
\ No newline at end of file
+export const calendarService = new CalendarService();
+
+/**
+ * Queue a sync of a booking to connected calendars. Call after creating,
+ * changing, canceling or deleting a booking. Jobs are keyed by the booking's
+ * calendar sequence, so each change is synced once.
+ * @param booking - The booking, as it is now
+ * @param deleted - Whether the booking has just been deleted
+ */
+export async function queueBookingCalendarSync(booking: Booking, deleted: boolean = false): Promise<void> {
+  const version = deleted ? 'deleted' : booking.calendarSequence;
+  await enqueueJob(
+    'calendar_booking_sync',
+    { bookingId: booking.id },
+    { key: `calendar-sync:booking:${booking.id}:${version}` }
+  );
+}
+
+/**
+ * Queue a sync job for every active calendar integration. Jobs are keyed by
+ * integration and sync period, so each calendar syncs once per period.
+ * @returns Number of sync jobs queued
+ */
+export async function queueCalendarSyncs(now: Date = new Date()): Promise<number> {
+  const integrations = await storage.getActiveCalendarIntegrations();
+  const periodStart = getPeriodStart(CALENDAR.SYNC_INTERVAL_HOURS * 60, now).toISOString();
+  let queued = 0;
+
+  for (const integration of integrations) {
+    const job = await enqueueJob(
+      'calendar_sync',
+      { userId: integration.userId, provider: integration.provider },
+      { key: `calendar-sync:integration:${integration.id}:${periodStart}` }
+    );
+    if (job) queued++;
+  }
+
+  return queued;
+}
+
+/**
+ * Setup scheduled syncing of connected calendars
+ * Should be called on server startup
+ */
+export function scheduleCalendarSync(): void {
+  // Failed syncs (e.g. the provider is down) are retried by the job queue
+  registerJobHandler('calendar_sync', async (payload: { userId: number; provider: string }) => {
+    await calendarService.syncUserCalendar(payload.userId, payload.provider);
+  });
+
+  registerJobHandler('calendar_booking_sync', async (payload: { bookingId: number }) => {
+    await calendarService.syncBookingToCalendars(payload.bookingId);
+  });
+
+  schedulePeriodicJob('calendar_sync_scan', CALENDAR.SYNC_INTERVAL_HOURS * 60, async () => {
+    const queuedCount = await queueCalendarSyncs();
+    if (queuedCount > 0) {
+      console.log(`Queued ${queuedCount} calendar sync(s)`);
+    }
+  });
+
+  console.log('Calendar sync scheduler initialized');
+}
\ No newline at end of file
@@ -4,27 +4,33 @@
 
 import { storage } from "../storage";
 import { sendMatchCanceledNotification } from "./notification-service";
+import { queueBookingCalendarSync } from "./calendar-service";
+import { getCreditsPaid } from "./pricing-service";
+import { getActivePlayerBooking, leaveWaitlist, promoteNextFromWaitlist } from "./waitlist-service";
+import { Booking, CancellationPolicy, RefundTier, SLOT_HOLDING_STATUSES, Team } from "@shared/schema";
 
-// Cancellation policy configuration - can be moved to team settings later
-export interface CancellationPolicy {
-  maxCancellationsPerMonth: number;          // Maximum allowed cancellations per month
-  minHoursBeforeForCancellation: number;     // Minimum hours before match to allow cancellation
-  refundPercent: number;                     // Percentage of credits to refund (0-100)
-  refundDeadlineHours: number;               // Hours before match when refund percentage changes
-  earlyRefundPercent: number;                // Refund percentage for early cancellations
-  allowTeamOwnerOverride: boolean;           // Whether team owner can override these settings
-}
+export type { CancellationPolicy, RefundTier };
 
 // Default team cancellation policy
 export const DEFAULT_CANCELLATION_POLICY: CancellationPolicy = {
   maxCancellationsPerMonth: 2,
   minHoursBeforeForCancellation: 6,
-  refundPercent: 50,              // 50% refund for regular cancellations
-  refundDeadlineHours: 24,        // 24 hours before match is the cutoff for early cancellation
-  earlyRefundPercent: 100,        // 100% refund for early cancellations
+  refundTiers: [
+    { hoursBefore: 24, refundPercent: 100 },  // 24+ hours before the match: full refund
+    { hoursBefore: 0, refundPercent: 50 }     // Later than that: half refund
+  ],
+  noShowPenaltyCredits: 0,        // No extra charge for not turning up
+  exemptPlayerIds: [],            // Players the policy doesn't apply to
   allowTeamOwnerOverride: true    // Team owners can override these settings
 };
 
+// Policies saved before refund tiers were introduced had two fixed bands
+interface LegacyCancellationPolicy {
+  refundPercent?: number;
+  refundDeadlineHours?: number;
+  earlyRefundPercent?: number;
+}
+
 // The result of a cancellation request
 export interface CancellationResult {
   success: boolean;
@@ -33,6 +39,65 @@ export interface CancellationResult {
   status?: string;
 }
 
+// What cancelling a booking at a given moment would mean for a player
+export interface CancellationPreview {
+  bookingId: number;
+  hoursBeforeMatch: number;
+  allowed: boolean;
+  message: string;
+  refundPercent: number;
+  refundAmount: number;
+  exempt: boolean;
+}
+
+/**
+ * Get a team's cancellation policy, filling in defaults and converting
+ * policies saved in the old two-band format to refund tiers
+ * @param team Team to get the policy for
+ */
+export function getTeamCancellationPolicy(team: Team): CancellationPolicy {
+  const stored = (team.cancellationPolicy || {}) as Partial<CancellationPolicy> & LegacyCancellationPolicy;
+
+  let refundTiers = stored.refundTiers;
+  if (!refundTiers && stored.refundDeadlineHours !== undefined) {
+    refundTiers = [
+      { hoursBefore: stored.refundDeadlineHours, refundPercent: stored.earlyRefundPercent ?? 100 },
+      { hoursBefore: 0, refundPercent: stored.refundPercent ?? 0 }
+    ];
+  }
+
+  return {
+    maxCancellationsPerMonth: stored.maxCancellationsPerMonth ?? DEFAULT_CANCELLATION_POLICY.maxCancellationsPerMonth,
+    minHoursBeforeForCancellation: stored.minHoursBeforeForCancellation ?? DEFAULT_CANCELLATION_POLICY.minHoursBeforeForCancellation,
+    refundTiers: sortRefundTiers(refundTiers || DEFAULT_CANCELLATION_POLICY.refundTiers),
+    noShowPenaltyCredits: stored.noShowPenaltyCredits ?? DEFAULT_CANCELLATION_POLICY.noShowPenaltyCredits,
+    exemptPlayerIds: stored.exemptPlayerIds ?? [],
+    allowTeamOwnerOverride: stored.allowTeamOwnerOverride ?? DEFAULT_CANCELLATION_POLICY.allowTeamOwnerOverride
+  };
+}
+
+/**
+ * Order refund tiers from the earliest cancellation to the latest
+ */
+export function sortRefundTiers(tiers: RefundTier[]): RefundTier[] {
+  return [...tiers].sort((a, b) => b.hoursBefore - a.hoursBefore);
+}
+
+/**
+ * Get the refund percentage for cancelling a number of hours before the match.
+ * The tier with the most hours that the cancellation still meets applies;
+ * cancelling later than every tier refunds nothing.
+ * @param hoursBeforeMatch Hours remaining before the match
+ * @param policy The cancellation policy to apply
+ */
+export function getRefundPercent(
+  hoursBeforeMatch: number,
+  policy: CancellationPolicy = DEFAULT_CANCELLATION_POLICY
+): number {
+  const tier = sortRefundTiers(policy.refundTiers).find(t => hoursBeforeMatch >= t.hoursBefore);
+  return tier ? tier.refundPercent : 0;
+}
+
 /**
  * Calculate refund amount based on team's cancellation policy
  * @param bookingCost Original cost of the booking in credits
@@ -44,13 +109,64 @@ export function calculateRefundAmount(
   hoursBeforeMatch: number,
   policy: CancellationPolicy = DEFAULT_CANCELLATION_POLICY
 ): number {
-  // If cancelling before the early refund deadline, give full refund percentage
-  if (hoursBeforeMatch >= policy.refundDeadlineHours) {
-    return Math.round((policy.earlyRefundPercent / 100) * bookingCost);
+  return Math.round((getRefundPercent(hoursBeforeMatch, policy) / 100) * bookingCost);
+}
+
+/**
+ * Work out what cancelling a booking right now would refund under a policy.
+ * Doesn't check the player's monthly cancellation limit.
+ * @param booking Booking being cancelled
+ * @param policy The cancellation policy to apply
+ * @param playerId Player cancelling, to apply exemptions
+ * @param now Time of the cancellation
+ * @param creditsPaid What the player paid, which may differ from the booking's current credit cost
+ */
+export function previewCancellation(
+  booking: Booking,
+  policy: CancellationPolicy,
+  playerId?: number,
+  now: Date = new Date(),
+  creditsPaid: number = booking.creditCost || 0
+): CancellationPreview {
+  const hoursBeforeMatch = (new Date(booking.startTime).getTime() - now.getTime()) / (1000 * 60 * 60);
+  const exempt = playerId !== undefined && policy.exemptPlayerIds.includes(playerId);
+
+  // Exempt players can always cancel and always get their credits back
+  if (exempt) {
+    return {
+      bookingId: booking.id,
+      hoursBeforeMatch,
+      allowed: hoursBeforeMatch > 0,
+      message: hoursBeforeMatch > 0 ? "Exempt from the cancellation policy" : "The match has already started",
+      refundPercent: 100,
+      refundAmount: creditsPaid,
+      exempt
+    };
+  }
+
+  if (hoursBeforeMatch < policy.minHoursBeforeForCancellation) {
+    return {
+      bookingId: booking.id,
+      hoursBeforeMatch,
+      allowed: false,
+      message: `Cancellations must be made at least ${policy.minHoursBeforeForCancellation} hours before the match`,
+      refundPercent: 0,
+      refundAmount: 0,
+      exempt
+    };
   }
-  
-  // Otherwise, give standard refund percentage
-  return Math.round((policy.refundPercent / 100) * bookingCost);
+
+  const refundPercent = getRefundPercent(hoursBeforeMatch, policy);
+
+  return {
+    bookingId: booking.id,
+    hoursBeforeMatch,
+    allowed: true,
+    message: `Cancelling now refunds ${refundPercent}% of the booking cost`,
+    refundPercent,
+    refundAmount: calculateRefundAmount(creditsPaid, hoursBeforeMatch, policy),
+    exempt
+  };
 }
 
 /**
@@ -75,8 +191,7 @@ export async function canCancelBooking(
     }
     
     // Get the player booking
-    const playerBookings = await storage.getPlayerBookingsByBooking(bookingId);
-    const playerBooking = playerBookings.find(pb => pb.playerId === userId);
+    const playerBooking = await getActivePlayerBooking(bookingId, userId);
     
     if (!playerBooking) {
       return { 
@@ -85,11 +200,6 @@ export async function canCancelBooking(
       };
     }
     
-    // Calculate hours before match
-    const now = new Date();
-    const matchTime = new Date(booking.startTime);
-    const hoursBeforeMatch = (matchTime.getTime() - now.getTime()) / (1000 * 60 * 60);
-    
     // Get the team's cancellation policy
     const team = await storage.getTeam(booking.teamId);
     if (!team) {
@@ -99,14 +209,16 @@ export async function canCancelBooking(
       };
     }
     
-    // Use team's policy if it exists, otherwise use default
-    const policy = team.cancellationPolicy as CancellationPolicy || DEFAULT_CANCELLATION_POLICY;
+    const policy = getTeamCancellationPolicy(team);
+    const now = new Date();
     
-    // Check if it's too late to cancel
-    if (hoursBeforeMatch < policy.minHoursBeforeForCancellation) {
+    // Check the timing and work out the refund from what the player actually paid
+    const creditsPaid = await getCreditsPaid(userId, playerBooking.id, bookingId);
+    const preview = previewCancellation(booking, policy, userId, now, creditsPaid);
+    if (!preview.allowed) {
       return {
         success: false,
-        message: `Cancellations must be made at least ${policy.minHoursBeforeForCancellation} hours before the match`
+        message: preview.message
       };
     }
     
@@ -125,21 +237,17 @@ export async function canCancelBooking(
         cancelDate.getFullYear() === currentYear;
     });
     
-    if (canceledBookingsThisMonth.length >= policy.maxCancellationsPerMonth) {
+    if (!preview.exempt && canceledBookingsThisMonth.length >= policy.maxCancellationsPerMonth) {
       return {
         success: false,
         message: `You have reached your limit of ${policy.maxCancellationsPerMonth} cancellations this month`
       };
     }
     
-    // Calculate refund amount
-    const bookingCost = booking.creditCost || 0;
-    const refundAmount = calculateRefundAmount(bookingCost, hoursBeforeMatch, policy);
-    
     return {
       success: true,
       message: "Cancellation approved",
-      refundAmount,
+      refundAmount: preview.refundAmount,
       status: "approved"
     };
   } catch (error) {
@@ -163,6 +271,18 @@ export async function processCancellation(
   reason?: string
 ): Promise<CancellationResult> {
   try {
+    // Leaving the waitlist or declining an offered spot isn't a cancellation,
+    // so no limits or refunds apply
+    const activeBooking = await getActivePlayerBooking(bookingId, userId);
+    if (activeBooking && (activeBooking.status === "waitlisted" || activeBooking.status === "pending")) {
+      await leaveWaitlist(activeBooking);
+      return {
+        success: true,
+        message: "You have been removed from the waitlist",
+        status: "completed"
+      };
+    }
+    
     // First check if the cancellation is valid
     const canCancel = await canCancelBooking(userId, bookingId, reason);
     if (!canCancel.success) {
@@ -179,8 +299,7 @@ export async function processCancellation(
     }
     
     // Get the player booking
-    const playerBookings = await storage.getPlayerBookingsByBooking(bookingId);
-    const playerBooking = playerBookings.find(pb => pb.playerId === userId);
+    const playerBooking = await getActivePlayerBooking(bookingId, userId);
     
     if (!playerBooking) {
       return { 
@@ -189,31 +308,15 @@ export async function processCancellation(
       };
     }
     
-    // Update player booking status to canceled
-    await storage.updatePlayerBooking(playerBooking.id, {
-      status: "canceled",
-      cancellationReason: reason || "User canceled",
-      refundAmount: canCancel.refundAmount || null,
-      canceledAt: new Date()
-    });
+    // Cancel, refund and release the slot in one step
+    await storage.cancelPlayerBookingWithRefund(
+      playerBooking.id,
+      canCancel.refundAmount || 0,
+      reason || "User canceled"
+    );
     
-    // Process refund if applicable
-    if (canCancel.refundAmount && canCancel.refundAmount > 0) {
-      await storage.addUserCredits(
-        userId,
-        canCancel.refundAmount,
-        "refund",
-        `Refund for canceling booking #${bookingId}: ${reason || "User canceled"}`
-      );
-    }
-    
-    // Update available slots in the booking
-    await storage.updateBooking(bookingId, {
-      availableSlots: booking.availableSlots + 1
-    });
-    
-    // Notify other players if needed (e.g., if this was the organizer)
-    // This would depend on your app's requirements
+    // Offer the freed slot to the next player on the waitlist
+    await promoteNextFromWaitlist(bookingId);
     
     return {
       success: true,
@@ -284,49 +387,35 @@ export async function cancelEntireBooking(
     // Get all player bookings for this match
     const playerBookings = await storage.getPlayerBookingsByBooking(bookingId);
     
-    // Process refunds for all players
-    // Use team's policy if it exists, otherwise use default
-    const policy = team.cancellationPolicy as CancellationPolicy || DEFAULT_CANCELLATION_POLICY;
-    
-    // Calculate hours before match for refund calculation
-    const now = new Date();
-    const matchTime = new Date(booking.startTime);
-    const hoursBeforeMatch = (matchTime.getTime() - now.getTime()) / (1000 * 60 * 60);
-    
     // Refund all players (full refund for team owner cancellation)
     for (const pb of playerBookings) {
-      // Skip if already canceled
-      if (pb.status === "canceled") continue;
+      // Skip if already canceled, or if the player never held a slot
+      if (!SLOT_HOLDING_STATUSES.includes(pb.status)) continue;
       
-      const bookingCost = booking.creditCost || 0;
-      // For team owner cancellations, always issue full refund
-      const refundAmount = bookingCost;
+      // Waitlist offers aren't charged until they're confirmed, so there's nothing to refund
+      if (pb.status === "pending") {
+        await storage.updatePlayerBooking(pb.id, { status: "expired", offerExpiresAt: null });
+        continue;
+      }
       
-      // Update player booking status
-      await storage.updatePlayerBooking(pb.id, {
-        status: "canceled",
-        cancellationReason: `Team owner canceled: ${reason}`,
-        refundAmount: refundAmount,
-        canceledAt: new Date()
-      });
+      // Refund what the player actually paid, which may differ from today's credit cost
+      const refundAmount = await getCreditsPaid(pb.playerId, pb.id, bookingId);
       
-      // Process refund
-      if (refundAmount > 0) {
-        await storage.addUserCredits(
-          pb.playerId,
-          refundAmount,
-          "refund",
-          `Refund for match cancellation by team owner: ${reason}`
-        );
-      }
+      // Cancel and refund the player in one step
+      await storage.cancelPlayerBookingWithRefund(pb.id, refundAmount, `Team owner canceled: ${reason}`);
     }
     
     // Mark booking as canceled
-    await storage.updateBooking(bookingId, {
+    const canceledBooking = await storage.updateBooking(bookingId, {
       status: "canceled",
       cancelReason: reason
     });
     
+    // Take it out of connected calendars
+    if (canceledBooking) {
+      await queueBookingCalendarSync(canceledBooking);
+    }
+    
     // Send notifications to all affected players
     await sendMatchCanceledNotification(bookingId);
     
@@ -342,4 +431,65 @@ export async function cancelEntireBooking(
       message: "An error occurred canceling the booking"
     };
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Record that a confirmed player didn't turn up, charging the team's
+ * no-show penalty unless the player is exempt
+ * @param bookingId Booking the player missed
+ * @param playerId Player who didn't turn up
+ */
+export async function processNoShow(
+  bookingId: number,
+  playerId: number
+): Promise<CancellationResult> {
+  try {
+    const booking = await storage.getBooking(bookingId);
+    if (!booking) {
+      return { success: false, message: "Booking not found" };
+    }
+
+    const team = await storage.getTeam(booking.teamId);
+    if (!team) {
+      return { success: false, message: "Team not found" };
+    }
+
+    const playerBooking = await getActivePlayerBooking(bookingId, playerId);
+    if (!playerBooking || playerBooking.status !== "confirmed") {
+      return { success: false, message: "Player was not confirmed for this match" };
+    }
+
+    await storage.updatePlayerBooking(playerBooking.id, { status: "no_show" });
+
+    const policy = getTeamCancellationPolicy(team);
+    if (policy.exemptPlayerIds.includes(playerId) || policy.noShowPenaltyCredits <= 0) {
+      return { success: true, message: "No-show recorded", status: "completed" };
+    }
+
+    // Never take a player's balance below zero
+    const credits = await storage.getUserCredits(playerId);
+    const penalty = Math.min(policy.noShowPenaltyCredits, credits);
+    if (penalty > 0) {
+      await storage.addUserCredits(
+        playerId,
+        -penalty,
+        "no_show_penalty",
+        `No-show penalty for ${booking.title}`,
+        team.ownerId,
+        `no-show:${playerBooking.id}`
+      );
+    }
+
+    return {
+      success: true,
+      message: `No-show recorded. ${penalty} credits were charged as a penalty.`,
+      status: "completed"
+    };
+  } catch (error) {
+    console.error("Error processing no-show:", error);
+    return {
+      success: false,
+      message: "An error occurred recording the no-show"
+    };
+  }
+}
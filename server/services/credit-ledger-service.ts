@@ -0,0 +1,126 @@
+/**
+ * Credit Ledger Service - Keeps credit balances in line with the ledger
+ *
+ * Handles:
+ * - Recording Stripe credit purchases exactly once per PaymentIntent
+ * - Reporting users whose cached balance differs from their ledger sum
+ * - Repairing cached balances from the ledger
+ */
+
+import { storage } from "../storage";
+import { LEDGER_ACCOUNTS } from "../config";
+
+// A user whose cached users.credits value disagrees with the ledger
+export interface CreditBalanceDiscrepancy {
+  userId: number;
+  username: string;
+  cachedBalance: number;
+  ledgerBalance: number;
+  difference: number; // cached minus ledger
+}
+
+/**
+ * Credit a completed Stripe purchase to the user. Safe to call more than once
+ * for the same PaymentIntent, e.g. when Stripe retries a webhook.
+ * @param paymentIntentId Stripe PaymentIntent ID
+ * @param userId User who bought the credits
+ * @param credits Number of credits bought
+ * @returns Whether the purchase was posted by this call
+ */
+export async function recordCreditPurchase(
+  paymentIntentId: string,
+  userId: number,
+  credits: number
+): Promise<boolean> {
+  const posted = await storage.postLedgerTransfer({
+    idempotencyKey: `stripe:${paymentIntentId}`,
+    fromAccount: LEDGER_ACCOUNTS.STRIPE,
+    toAccount: LEDGER_ACCOUNTS.user(userId),
+    amount: credits,
+    type: "purchase",
+    paymentIntentId,
+    description: "Credit purchase successful"
+  });
+
+  const transaction = await storage.getTransactionByPaymentIntent(paymentIntentId);
+  if (transaction) {
+    if (transaction.status !== "completed") {
+      await storage.updateTransactionStatus(transaction.id, "completed");
+    }
+  } else if (posted) {
+    await storage.createCreditTransaction({
+      userId,
+      amount: credits,
+      type: "purchase",
+      paymentIntentId,
+      description: "Credit purchase successful",
+      status: "completed"
+    });
+  }
+
+  return posted;
+}
+
+/**
+ * Mark the pending purchase for a failed PaymentIntent as failed
+ * @param paymentIntentId Stripe PaymentIntent ID
+ */
+export async function recordFailedCreditPurchase(paymentIntentId: string): Promise<void> {
+  const transaction = await storage.getTransactionByPaymentIntent(paymentIntentId);
+  if (transaction && transaction.status === "pending") {
+    await storage.updateTransactionStatus(transaction.id, "failed");
+  }
+}
+
+/**
+ * Find every member of a team whose cached balance differs from the sum of their ledger entries.
+ * Opening balances are only seeded by the first migration, so credits changed
+ * outside the ledger since then show up here rather than being seeded over.
+ */
+export async function getCreditDiscrepancies(teamId: number): Promise<CreditBalanceDiscrepancy[]> {
+  const [users, ledgerBalances] = await Promise.all([
+    storage.getTeamMembers(teamId),
+    storage.getLedgerBalances()
+  ]);
+
+  const discrepancies: CreditBalanceDiscrepancy[] = [];
+
+  for (const user of users) {
+    const cachedBalance = user.credits || 0;
+    const ledgerBalance = ledgerBalances.get(user.id) || 0;
+
+    if (cachedBalance !== ledgerBalance) {
+      discrepancies.push({
+        userId: user.id,
+        username: user.username,
+        cachedBalance,
+        ledgerBalance,
+        difference: cachedBalance - ledgerBalance
+      });
+    }
+  }
+
+  return discrepancies;
+}
+
+/**
+ * Reset the cached balance of every mismatched team member to their ledger sum.
+ * The ledger is never changed - it is the source of truth.
+ * @returns The discrepancies that were repaired
+ */
+export async function repairCreditBalances(teamId: number): Promise<CreditBalanceDiscrepancy[]> {
+  const discrepancies = await getCreditDiscrepancies(teamId);
+
+  for (const discrepancy of discrepancies) {
+    const user = await storage.resyncUserCredits(discrepancy.userId);
+    if (!user) continue;
+    
+    discrepancy.ledgerBalance = user.credits || 0;
+    discrepancy.difference = discrepancy.cachedBalance - discrepancy.ledgerBalance;
+    console.log(
+      `Repaired credit balance for user ${discrepancy.userId}: ${discrepancy.cachedBalance} -> ${discrepancy.ledgerBalance}`
+    );
+  }
+
+  return discrepancies;
+}
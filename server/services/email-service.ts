@@ -0,0 +1,223 @@
+/**
+ * Email Service - Sends notifications by email
+ *
+ * Handles:
+ * - Choosing the email transport (SMTP, SendGrid, file or in-memory)
+ * - Building HTML and plain text emails from the message templates
+ * - Building digest emails that batch a player's unread notifications
+ * - Building account emails, like password reset links
+ */
+
+import { EmailDigestFrequency, Notification, User } from "@shared/schema";
+import { EMAIL, PASSWORDS } from "../config";
+import { NotificationType } from "./notification-types";
+import { MessageContext, getMessageTemplate, renderMessage } from "./message-template-service";
+import { EmailMessage, EmailTransport, createEmailTransport } from "./email-transports";
+
+// The button at the bottom of an email
+interface EmailAction {
+  label: string;
+  path: string;
+}
+
+// Where each kind of email links to
+const EMAIL_ACTIONS: Partial<Record<NotificationType, EmailAction>> = {
+  [NotificationType.MATCH_REMINDER]: { label: "View match", path: "/bookings" },
+  [NotificationType.BOOKING_CONFIRMATION]: { label: "View booking", path: "/bookings" },
+  [NotificationType.MATCH_CANCELED]: { label: "Find another match", path: "/bookings" },
+  [NotificationType.WAITLIST_SPOT_OFFERED]: { label: "Confirm your spot", path: "/bookings" },
+  [NotificationType.PAYMENT_CONFIRMATION]: { label: "View credits", path: "/credits" },
+  [NotificationType.TEAM_INVITATION]: { label: "Respond to invitation", path: "/team-invitation" }
+};
+
+let transport: EmailTransport | null = null;
+
+/**
+ * Get the email transport, creating the configured one on first use
+ */
+export function getEmailTransport(): EmailTransport {
+  if (!transport) {
+    transport = createEmailTransport(EMAIL.TRANSPORT);
+  }
+  return transport;
+}
+
+/**
+ * Swap the email transport, e.g. for a memory transport in tests
+ */
+export function setEmailTransport(newTransport: EmailTransport): void {
+  transport = newTransport;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/**
+ * Turn plain text into HTML paragraphs: blank lines split paragraphs and
+ * single line breaks are kept
+ */
+function textToHtml(text: string): string {
+  return text
+    .split(/\n{2,}/)
+    .map(paragraph => `<p style="margin:0 0 16px">${escapeHtml(paragraph).replace(/\n/g, "<br>")}</p>`)
+    .join("\n");
+}
+
+// Footer on notification emails; account emails aren't affected by these settings
+const NOTIFICATION_FOOTER = `You're getting this email because of your KickBook notification settings.
+<a href="${escapeHtml(EMAIL.APP_URL)}/settings" style="color:#71717a">Change them</a>.`;
+
+/**
+ * Wrap an email's content in the KickBook layout
+ * @param title Heading at the top of the email
+ * @param content HTML for the body
+ * @param action Optional button linking back to the app
+ * @param footer HTML for the small print under the email
+ */
+function renderLayout(title: string, content: string, action?: EmailAction, footer: string = NOTIFICATION_FOOTER): string {
+  const button = action
+    ? `<p style="margin:24px 0"><a href="${escapeHtml(EMAIL.APP_URL + action.path)}" ` +
+      `style="background:#2E7D32;color:#ffffff;padding:12px 20px;border-radius:6px;text-decoration:none;display:inline-block">` +
+      `${escapeHtml(action.label)}</a></p>`
+    : "";
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+</head>
+<body style="margin:0;padding:0;background:#f4f4f5;font-family:Arial,Helvetica,sans-serif;color:#18181b">
+<div style="max-width:560px;margin:0 auto;padding:24px">
+<div style="background:#ffffff;border-radius:8px;padding:24px">
+<h1 style="font-size:20px;margin:0 0 16px;color:#2E7D32">${escapeHtml(title)}</h1>
+${content}
+${button}
+</div>
+<p style="font-size:12px;color:#71717a;margin:16px 0 0">
+${footer}
+</p>
+</div>
+</body>
+</html>`;
+}
+
+/**
+ * Whether a notification type has its own email, rather than only appearing in digests
+ */
+export function hasEmailTemplate(type: NotificationType): boolean {
+  return !!getMessageTemplate(type)?.channels.email;
+}
+
+/**
+ * Build the email for a notification from its template
+ * @param user Player the email is going to
+ * @param type Notification type
+ * @param context What the notification is about
+ */
+export async function renderNotificationEmail(
+  user: User,
+  type: NotificationType,
+  context: MessageContext
+): Promise<EmailMessage> {
+  const message = await renderMessage(type, "email", { ...context, user });
+  const subject = message.subject || "KickBook";
+
+  return {
+    to: user.email,
+    subject,
+    text: message.body,
+    html: renderLayout(subject, textToHtml(message.body), EMAIL_ACTIONS[type])
+  };
+}
+
+/**
+ * Email a player a notification straight away
+ * @returns Whether the email was sent
+ */
+export async function sendNotificationEmail(
+  user: User,
+  type: NotificationType,
+  context: MessageContext
+): Promise<boolean> {
+  try {
+    const email = await renderNotificationEmail(user, type, context);
+    return await getEmailTransport().send(email);
+  } catch (error) {
+    console.error(`Error emailing ${type} notification to user ${user.id}:`, error);
+    return false;
+  }
+}
+
+/**
+ * Build a digest email listing notifications, newest first
+ * @param user Player the digest is going to
+ * @param notifications Notifications to include
+ * @param frequency How often the player gets digests
+ */
+export function renderDigestEmail(
+  user: User,
+  notifications: Notification[],
+  frequency: Exclude<EmailDigestFrequency, "off">
+): EmailMessage {
+  const sorted = [...notifications].sort((a, b) =>
+    new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+  );
+  const subject = `Your ${frequency} KickBook digest: ${sorted.length} update${sorted.length === 1 ? "" : "s"}`;
+
+  const text = `Hi ${user.name},\n\nHere's what you've missed:\n\n` +
+    sorted.map(notification => `- ${notification.title}\n  ${notification.message}`).join("\n\n") +
+    `\n\nSee everything at ${EMAIL.APP_URL}/notifications`;
+
+  const items = sorted.map(notification =>
+    `<li style="margin:0 0 12px"><strong>${escapeHtml(notification.title)}</strong><br>` +
+    `${escapeHtml(notification.message)}</li>`
+  ).join("\n");
+
+  return {
+    to: user.email,
+    subject,
+    text,
+    html: renderLayout(
+      subject,
+      `<p style="margin:0 0 16px">Hi ${escapeHtml(user.name)}, here's what you've missed:</p>\n` +
+      `<ul style="padding-left:20px;margin:0">\n${items}\n</ul>`,
+      { label: "View all notifications", path: "/notifications" }
+    )
+  };
+}
+
+/**
+ * Build the email with a link to reset a forgotten password
+ * @param user Player who asked for the reset
+ * @param token Reset token, only ever sent in this email
+ */
+export function renderPasswordResetEmail(user: User, token: string): EmailMessage {
+  const subject = "Reset your KickBook password";
+  const path = `/reset-password?token=${encodeURIComponent(token)}`;
+  const expiry = `${PASSWORDS.RESET_TOKEN_EXPIRY_MINUTES} minutes`;
+
+  const text = `Hi ${user.name},\n\nSomeone asked to reset the password for your KickBook account (${user.username}). ` +
+    `Use this link to choose a new one. It works once and expires in ${expiry}:\n\n${EMAIL.APP_URL}${path}\n\n` +
+    `If it wasn't you, you can ignore this email and your password won't change.`;
+
+  return {
+    to: user.email,
+    subject,
+    text,
+    html: renderLayout(
+      subject,
+      textToHtml(`Hi ${user.name},\n\nSomeone asked to reset the password for your KickBook account (${user.username}). ` +
+        `Use the button below to choose a new one. It works once and expires in ${expiry}.`),
+      { label: "Choose a new password", path },
+      "If you didn't ask to reset your password, you can ignore this email and your password won't change."
+    )
+  };
+}
@@ -0,0 +1,157 @@
+/**
+ * Email Transports - Ways of delivering an email
+ *
+ * Handles:
+ * - Sending through an SMTP server
+ * - Sending through SendGrid's API
+ * - Writing emails to files, for looking at them during development
+ * - Keeping emails in memory instead of sending them, for tests
+ */
+
+import fs from "fs";
+import path from "path";
+import nodemailer, { Transporter } from "nodemailer";
+import sgMail from "@sendgrid/mail";
+import { EMAIL } from "../config";
+
+// An email ready to send
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+// Something that can deliver an email
+export interface EmailTransport {
+  name: string;
+
+  /**
+   * Send an email from EMAIL.FROM
+   * @returns Whether the email was accepted for delivery
+   */
+  send(message: EmailMessage): Promise<boolean>;
+}
+
+export class SmtpTransport implements EmailTransport {
+  name = "smtp";
+
+  private transporter: Transporter;
+
+  constructor(options: { host: string; port: number; secure: boolean; user?: string; password?: string }) {
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      auth: options.user ? { user: options.user, pass: options.password } : undefined
+    });
+  }
+
+  async send(message: EmailMessage): Promise<boolean> {
+    try {
+      await this.transporter.sendMail({ from: EMAIL.FROM, ...message });
+      return true;
+    } catch (error) {
+      console.error(`Error sending email to ${message.to}:`, error);
+      return false;
+    }
+  }
+}
+
+export class SendGridTransport implements EmailTransport {
+  name = "sendgrid";
+
+  constructor(apiKey: string) {
+    sgMail.setApiKey(apiKey);
+  }
+
+  async send(message: EmailMessage): Promise<boolean> {
+    try {
+      await sgMail.send({ from: EMAIL.FROM, ...message });
+      return true;
+    } catch (error) {
+      console.error(`Error sending email to ${message.to}:`, error);
+      return false;
+    }
+  }
+}
+
+/**
+ * Writes each email to a pair of files (.txt and .html) so they can be opened
+ * in an editor or browser
+ */
+export class FileTransport implements EmailTransport {
+  name = "file";
+
+  constructor(private directory: string) {}
+
+  async send(message: EmailMessage): Promise<boolean> {
+    try {
+      await fs.promises.mkdir(this.directory, { recursive: true });
+
+      const baseName = `${new Date().toISOString().replace(/[:.]/g, "-")}-${message.to.replace(/[^\w.@-]/g, "_")}`;
+      const headers = `From: ${EMAIL.FROM}\nTo: ${message.to}\nSubject: ${message.subject}\n\n`;
+
+      await fs.promises.writeFile(path.join(this.directory, `${baseName}.txt`), headers + message.text);
+      await fs.promises.writeFile(path.join(this.directory, `${baseName}.html`), message.html);
+      return true;
+    } catch (error) {
+      console.error(`Error writing email to ${this.directory}:`, error);
+      return false;
+    }
+  }
+}
+
+/**
+ * Keeps emails instead of sending them. Tests can read them back with
+ * getSentMessages().
+ */
+export class MemoryTransport implements EmailTransport {
+  name = "memory";
+
+  private messages: EmailMessage[] = [];
+
+  async send(message: EmailMessage): Promise<boolean> {
+    this.messages.push(message);
+    console.log(`[EMAIL TEST] Email to ${message.to}: ${message.subject}`);
+    return true;
+  }
+
+  getSentMessages(to?: string): EmailMessage[] {
+    return to ? this.messages.filter(message => message.to === to) : [...this.messages];
+  }
+
+  clear(): void {
+    this.messages = [];
+  }
+}
+
+/**
+ * Create the transport with the given name, configured from EMAIL
+ */
+export function createEmailTransport(name: string): EmailTransport {
+  switch (name) {
+    case "smtp":
+      if (!EMAIL.SMTP_HOST) {
+        throw new Error("SMTP_HOST must be set to send email over SMTP");
+      }
+      return new SmtpTransport({
+        host: EMAIL.SMTP_HOST,
+        port: EMAIL.SMTP_PORT,
+        secure: EMAIL.SMTP_SECURE,
+        user: EMAIL.SMTP_USER,
+        password: EMAIL.SMTP_PASSWORD
+      });
+    case "sendgrid":
+      if (!EMAIL.SENDGRID_API_KEY) {
+        throw new Error("SENDGRID_API_KEY must be set to send email through SendGrid");
+      }
+      return new SendGridTransport(EMAIL.SENDGRID_API_KEY);
+    case "file":
+      return new FileTransport(EMAIL.FILE_DIR);
+    case "memory":
+      return new MemoryTransport();
+    default:
+      throw new Error(`Unknown email transport: ${name}`);
+  }
+}
@@ -0,0 +1,312 @@
+/**
+ * Job Service - Runs background work from a queue kept in the database
+ *
+ * Handles:
+ * - Queueing jobs, at most once per key (e.g. "reminder:booking:42:24h")
+ * - Claiming due jobs one at a time with a lease, so only one server instance
+ *   runs each job and another takes over if that instance dies
+ * - Retrying failed jobs with exponential backoff
+ * - Periodic jobs, queued once per period however many instances are running
+ * - Summaries of pending and failed jobs for admins
+ */
+
+import { hostname } from "os";
+import { randomUUID } from "crypto";
+import { storage } from "../storage";
+import { Job, JobStatus } from "@shared/schema";
+import { JOBS } from "../config";
+
+// What a handler can ask for instead of the job being marked completed
+export interface JobOutcome {
+  // Run the job again at this time, without it counting as a failed attempt
+  runAgainAt: Date;
+}
+
+export type JobHandler = (payload: any, job: Job) => Promise<JobOutcome | void>;
+
+export interface EnqueueJobOptions {
+  key?: string;        // Only one job is ever queued per key
+  runAt?: Date;        // Defaults to now
+  maxAttempts?: number;
+}
+
+// Work that's queued once per interval, e.g. the twice-daily weather update
+interface PeriodicJob {
+  type: string;
+  intervalMinutes: number;
+}
+
+export interface JobResult {
+  success: boolean;
+  message: string;
+  job?: Job;
+}
+
+const handlers = new Map<string, JobHandler>();
+const periodicJobs: PeriodicJob[] = [];
+
+// Identifies this instance in job leases
+const workerId = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+
+let workerStarted = false;
+let polling = false;
+
+/**
+ * Register the function that runs jobs of a type
+ */
+export function registerJobHandler(type: string, handler: JobHandler): void {
+  handlers.set(type, handler);
+}
+
+/**
+ * Queue a job. If a job with the same key already exists it isn't queued
+ * again, but a pending one is moved to the new run time.
+ * @param type Job type, which picks the handler
+ * @param payload Data the handler needs
+ * @param options Key, run time and attempts
+ * @returns The new job, or undefined if one with the same key already exists
+ */
+export async function enqueueJob(
+  type: string,
+  payload: Record<string, any> | null = null,
+  options: EnqueueJobOptions = {}
+): Promise<Job | undefined> {
+  const runAt = options.runAt ?? new Date();
+
+  if (options.key) {
+    const existing = await storage.getJobByKey(options.key);
+    if (existing) {
+      if (existing.status === "pending" && existing.runAt.getTime() !== runAt.getTime()) {
+        await storage.updateJob(existing.id, { runAt });
+      }
+      return undefined;
+    }
+  }
+
+  // Another instance can queue the same key in between; the unique key stops a duplicate
+  return storage.createJob({
+    type,
+    key: options.key ?? null,
+    payload,
+    status: "pending",
+    runAt,
+    maxAttempts: options.maxAttempts ?? JOBS.MAX_ATTEMPTS
+  });
+}
+
+/**
+ * How long to wait before retrying a job that has failed this many times
+ */
+export function getRetryDelay(attempts: number): number {
+  const seconds = JOBS.RETRY_BASE_SECONDS * Math.pow(2, Math.max(attempts - 1, 0));
+  return Math.min(seconds, JOBS.RETRY_MAX_SECONDS) * 1000;
+}
+
+/**
+ * Register work that runs once every interval. Each period gets its own job
+ * key, so it runs once per period even with several instances running and
+ * even if the server restarts part way through.
+ * @param type Job type
+ * @param intervalMinutes How often it runs
+ * @param handler Runs the work
+ */
+export function schedulePeriodicJob(type: string, intervalMinutes: number, handler: JobHandler): void {
+  registerJobHandler(type, handler);
+  if (!periodicJobs.some(job => job.type === type)) {
+    periodicJobs.push({ type, intervalMinutes });
+  }
+}
+
+/**
+ * When the period containing a time started, counting periods from the Unix epoch
+ */
+export function getPeriodStart(intervalMinutes: number, now: Date = new Date()): Date {
+  const intervalMs = intervalMinutes * 60 * 1000;
+  return new Date(Math.floor(now.getTime() / intervalMs) * intervalMs);
+}
+
+async function enqueuePeriodicJobs(now: Date): Promise<void> {
+  for (const periodic of periodicJobs) {
+    const periodStart = getPeriodStart(periodic.intervalMinutes, now);
+    await enqueueJob(periodic.type, null, {
+      key: `${periodic.type}:${periodStart.toISOString()}`,
+      runAt: periodStart
+    });
+  }
+}
+
+/**
+ * Record how a job went, unless its lease ran out and another instance has
+ * taken it over - then that instance's run is the one that counts
+ */
+async function finishJob(job: Job, jobData: Partial<Job>): Promise<boolean> {
+  const updated = await storage.updateLeasedJob(job.id, workerId, {
+    ...jobData,
+    lockedBy: null,
+    lockedUntil: null
+  });
+  if (!updated) {
+    console.warn(`Job ${job.id} (${job.type}) was taken over by another worker before it finished`);
+  }
+  return !!updated;
+}
+
+async function failJob(job: Job, error: string): Promise<void> {
+  if (job.attempts >= job.maxAttempts) {
+    if (await finishJob(job, { status: "failed", lastError: error })) {
+      console.error(`Job ${job.id} (${job.type}) failed after ${job.attempts} attempt(s): ${error}`);
+    }
+    return;
+  }
+
+  await finishJob(job, {
+    status: "pending",
+    runAt: new Date(Date.now() + getRetryDelay(job.attempts)),
+    lastError: error
+  });
+}
+
+/**
+ * Run a claimed job and record how it went
+ */
+async function runJob(job: Job): Promise<void> {
+  const handler = handlers.get(job.type);
+  if (!handler) {
+    await finishJob(job, {
+      status: "failed",
+      lastError: `No handler registered for ${job.type} jobs`
+    });
+    return;
+  }
+
+  try {
+    const outcome = await handler(job.payload, job);
+
+    if (outcome?.runAgainAt) {
+      await finishJob(job, {
+        status: "pending",
+        runAt: outcome.runAgainAt,
+        attempts: job.attempts - 1
+      });
+      return;
+    }
+
+    await finishJob(job, {
+      status: "completed",
+      completedAt: new Date(),
+      lastError: null
+    });
+  } catch (error: any) {
+    console.error(`Error running job ${job.id} (${job.type}):`, error);
+    await failJob(job, error?.message || String(error));
+  }
+}
+
+/**
+ * Queue this period's periodic jobs, then claim and run up to
+ * JOBS.BATCH_SIZE of the jobs that are due. Each job is claimed just before
+ * it runs, so its lease isn't used up waiting behind the others.
+ * @returns Number of jobs run
+ */
+export async function runDueJobs(now: Date = new Date()): Promise<number> {
+  await enqueuePeriodicJobs(now);
+
+  const startedAt = Date.now();
+  let claimedCount = 0;
+
+  while (claimedCount < JOBS.BATCH_SIZE) {
+    const claimedAt = new Date(now.getTime() + (Date.now() - startedAt));
+    const leaseUntil = new Date(claimedAt.getTime() + JOBS.LEASE_SECONDS * 1000);
+    const [job] = await storage.claimDueJobs(workerId, claimedAt, leaseUntil, 1);
+    if (!job) break;
+    claimedCount++;
+
+    // A job whose lease keeps running out is probably taking its instance down with it
+    if (job.attempts > job.maxAttempts) {
+      await failJob(job, "Lease expired before the job finished");
+      continue;
+    }
+    await runJob(job);
+  }
+
+  return claimedCount;
+}
+
+/**
+ * Remove completed and failed jobs older than JOBS.RETENTION_DAYS
+ * @returns Number of jobs removed
+ */
+export async function cleanupFinishedJobs(now: Date = new Date()): Promise<number> {
+  return storage.deleteFinishedJobs(new Date(now.getTime() - JOBS.RETENTION_DAYS * 24 * 60 * 60 * 1000));
+}
+
+/**
+ * Start polling for due jobs. Services register their handlers and periodic
+ * jobs first.
+ * Should be called on server startup
+ */
+export function startJobWorker(): void {
+  if (workerStarted) return;
+  workerStarted = true;
+
+  schedulePeriodicJob("job_cleanup", 24 * 60, async () => {
+    const removedCount = await cleanupFinishedJobs();
+    if (removedCount > 0) {
+      console.log(`Removed ${removedCount} finished job(s)`);
+    }
+  });
+
+  const poll = async () => {
+    // A slow batch can outlast the poll interval; don't start a second one alongside it
+    if (polling) return;
+    polling = true;
+    try {
+      await runDueJobs();
+    } catch (error) {
+      console.error("Error in job worker:", error);
+    } finally {
+      polling = false;
+    }
+  };
+
+  poll();
+  setInterval(poll, JOBS.POLL_INTERVAL_SECONDS * 1000);
+
+  console.log(`Job worker ${workerId} initialized`);
+}
+
+/**
+ * Run a failed job again from scratch
+ */
+export async function retryJob(jobId: number): Promise<JobResult> {
+  const job = await storage.getJob(jobId);
+  if (!job) {
+    return { success: false, message: "Job not found" };
+  }
+
+  if (job.status !== "failed") {
+    return { success: false, message: "Only failed jobs can be retried" };
+  }
+
+  const updatedJob = await storage.updateJob(job.id, {
+    status: "pending",
+    runAt: new Date(),
+    attempts: 0,
+    lastError: null
+  });
+
+  return { success: true, message: "Job queued to run again", job: updatedJob };
+}
+
+/**
+ * Counts of jobs by status, with the most recent jobs
+ * @param filter Narrow the jobs listed to one status or type
+ */
+export async function getJobQueueSummary(
+  filter: { status?: JobStatus; type?: string; limit?: number } = {}
+): Promise<{ counts: Record<string, number>; jobs: Job[] }> {
+  return {
+    counts: await storage.countJobsByStatus(),
+    jobs: await storage.getJobs(filter)
+  };
+}
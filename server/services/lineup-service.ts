@@ -0,0 +1,140 @@
+/**
+ * Lineup Service - Keeps track of who plays on which side of a match
+ *
+ * Handles:
+ * - Saving generated teams as the match line-up
+ * - Manual changes to sides, positions, bibs and captains
+ * - Locking the line-up once the match has started
+ */
+
+import { storage } from "../storage";
+import { Booking, LineupUpdate, MatchLineupEntry, User } from "@shared/schema";
+import { LINEUPS } from "../config";
+
+// A line-up entry with the player's details
+export interface LineupPlayer extends MatchLineupEntry {
+  playerName: string;
+}
+
+// A match line-up split by side
+export interface MatchLineup {
+  bookingId: number;
+  locked: boolean;
+  teamA: LineupPlayer[];
+  teamB: LineupPlayer[];
+}
+
+// The result of changing a line-up
+export interface LineupResult {
+  success: boolean;
+  message: string;
+  lineup?: MatchLineup;
+}
+
+/**
+ * Whether a booking's line-up can no longer be changed because the match has started
+ * @param booking Booking to check
+ * @param now Current time
+ */
+export function isLineupLocked(booking: Booking, now: Date = new Date()): boolean {
+  return new Date(booking.startTime) <= now;
+}
+
+/**
+ * Get the line-up for a booking, split by side
+ * @param booking Booking to get the line-up for
+ */
+export async function getLineup(booking: Booking): Promise<MatchLineup> {
+  const entries = await storage.getMatchLineup(booking.id);
+
+  const players: LineupPlayer[] = [];
+  for (const entry of entries) {
+    const player = await storage.getUser(entry.playerId);
+    players.push({ ...entry, playerName: player?.name || "Unknown player" });
+  }
+
+  return {
+    bookingId: booking.id,
+    locked: isLineupLocked(booking),
+    teamA: players.filter(p => p.side === "A"),
+    teamB: players.filter(p => p.side === "B")
+  };
+}
+
+/**
+ * Save generated teams as a booking's line-up, replacing any earlier one.
+ * Each side gets its default bib and the first player picked is captain.
+ * @param booking Booking the teams were generated for
+ * @param teamA Players on side A, strongest first
+ * @param teamB Players on side B, strongest first
+ * @param positions Position given to each player, for position-based teams
+ */
+export async function saveGeneratedLineup(
+  booking: Booking,
+  teamA: User[],
+  teamB: User[],
+  positions: Record<number, string> = {}
+): Promise<LineupResult> {
+  if (isLineupLocked(booking)) {
+    return { success: false, message: "The line-up is locked because the match has started" };
+  }
+
+  const toEntries = (players: User[], side: "A" | "B") => players.map((player, index) => ({
+    bookingId: booking.id,
+    playerId: player.id,
+    side,
+    position: positions[player.id] || null,
+    bibColour: LINEUPS.DEFAULT_BIB_COLOURS[side] || null,
+    isCaptain: index === 0
+  }));
+
+  await storage.replaceMatchLineup(booking.id, [...toEntries(teamA, "A"), ...toEntries(teamB, "B")]);
+
+  return {
+    success: true,
+    message: "Line-up saved",
+    lineup: await getLineup(booking)
+  };
+}
+
+/**
+ * Replace a booking's line-up with a manually adjusted one
+ * @param booking Booking to update the line-up for
+ * @param update Every player's side, position, bib and captaincy
+ */
+export async function updateLineup(booking: Booking, update: LineupUpdate): Promise<LineupResult> {
+  if (isLineupLocked(booking)) {
+    return { success: false, message: "The line-up is locked because the match has started" };
+  }
+
+  // Only players confirmed for the match can be in the line-up
+  const playerBookings = await storage.getPlayerBookingsByBooking(booking.id);
+  const confirmedIds = new Set(
+    playerBookings.filter(pb => pb.status === "confirmed").map(pb => pb.playerId)
+  );
+  const unknownPlayerIds = update.players
+    .map(p => p.playerId)
+    .filter(id => !confirmedIds.has(id));
+
+  if (unknownPlayerIds.length > 0) {
+    return {
+      success: false,
+      message: `Players are not confirmed for this match: ${unknownPlayerIds.join(", ")}`
+    };
+  }
+
+  await storage.replaceMatchLineup(booking.id, update.players.map(p => ({
+    bookingId: booking.id,
+    playerId: p.playerId,
+    side: p.side,
+    position: p.position || null,
+    bibColour: p.bibColour || null,
+    isCaptain: p.isCaptain || false
+  })));
+
+  return {
+    success: true,
+    message: "Line-up updated",
+    lineup: await getLineup(booking)
+  };
+}
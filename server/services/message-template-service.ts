@@ -0,0 +1,649 @@
+/**
+ * Message Template Service - The wording of every message KickBook sends
+ *
+ * Handles:
+ * - Built-in templates for each notification type, with in-app, WhatsApp
+ *   and email variants
+ * - Filling in {{variables}} from the booking, team and player a message is about
+ * - Per-team overrides that admins can edit without a code change
+ * - Translations, registered per locale and falling back to English
+ */
+
+import { storage } from "../storage";
+import { Booking, MessageChannel, MessageTemplateOverride, Team, User } from "@shared/schema";
+import { MESSAGE_TEMPLATES } from "../config";
+import { NotificationType } from "./notification-types";
+
+// The text of one channel's version of a message
+export interface MessageTemplateText {
+  subject?: string;           // Title for in-app messages, subject line for email
+  body: string;
+}
+
+// A notification type's wording across channels
+export interface MessageTemplate {
+  type: NotificationType;
+  description: string;        // When the message is sent, shown to admins editing it
+  variables: string[];        // Variables the text can use, without the braces
+  channels: Partial<Record<MessageChannel, MessageTemplateText>>;
+}
+
+// What a message is about. Variables are read from here.
+export interface MessageContext {
+  booking?: Booking;
+  team?: Team;
+  user?: User;                // Who the message is going to
+  player?: User;              // Player the message is about, e.g. who joined
+  values?: Record<string, string | number | null | undefined>; // Anything else, e.g. { position: 2 }
+}
+
+// A message ready to send
+export interface RenderedMessage {
+  subject: string | null;
+  body: string;
+  locale: string;
+  overridden: boolean;        // Whether a team's own wording was used
+}
+
+// A template as an admin sees it: the built-in wording and the team's override
+export interface TeamMessageTemplate {
+  type: NotificationType;
+  channel: MessageChannel;
+  description: string;
+  variables: string[];
+  default: MessageTemplateText;
+  override: MessageTemplateOverride | null;
+}
+
+// The result of saving a team's override
+export interface TemplateOverrideResult {
+  success: boolean;
+  message: string;
+  override?: MessageTemplateOverride;
+}
+
+export type TemplateTranslations = Partial<Record<NotificationType, Partial<Record<MessageChannel, MessageTemplateText>>>>;
+
+const BOOKING_VARIABLES = [
+  "booking.title",
+  "booking.location",
+  "booking.date",
+  "booking.time",
+  "booking.endTime",
+  "booking.format",
+  "booking.spotsLeft",
+  "team.name",
+  "user.name"
+];
+
+const builtInTemplates: Record<NotificationType, MessageTemplate> = {
+  [NotificationType.MATCH_REMINDER]: {
+    type: NotificationType.MATCH_REMINDER,
+    description: "Sent to confirmed players the day before and an hour before a match",
+    variables: [...BOOKING_VARIABLES, "startsIn"],
+    channels: {
+      in_app: {
+        subject: "Match Reminder: {{team.name}}",
+        body: "Your match at {{booking.location}} is scheduled to start {{startsIn}} at {{booking.time}}."
+      },
+      whatsapp: {
+        body: "⏰ {{booking.title}} starts {{startsIn}} at {{booking.time}}, {{booking.location}}."
+      },
+      email: {
+        subject: "Match reminder: {{booking.title}} {{startsIn}}",
+        body: "Hi {{user.name}},\n\n{{booking.title}} at {{booking.location}} starts {{startsIn}} at {{booking.time}} on {{booking.date}}.\n\nSee you there,\n{{team.name}}"
+      },
+      push: {
+        subject: "{{booking.title}} starts {{startsIn}}",
+        body: "{{booking.time}} at {{booking.location}}"
+      }
+    }
+  },
+  [NotificationType.BOOKING_CONFIRMATION]: {
+    type: NotificationType.BOOKING_CONFIRMATION,
+    description: "Sent to a player when their place in a match is confirmed",
+    variables: BOOKING_VARIABLES,
+    channels: {
+      in_app: {
+        subject: "Booking Confirmed: {{team.name}}",
+        body: "Your booking for {{booking.title}} at {{booking.location}} on {{booking.date}} has been confirmed."
+      },
+      whatsapp: {
+        body: "✅ You're in for {{booking.title}} on {{booking.date}} at {{booking.time}}, {{booking.location}}."
+      },
+      email: {
+        subject: "You're in: {{booking.title}}",
+        body: "Hi {{user.name}},\n\nYour place in {{booking.title}} on {{booking.date}} at {{booking.time}} is confirmed.\n\nLocation: {{booking.location}}\nFormat: {{booking.format}}\n\n{{team.name}}"
+      }
+    }
+  },
+  [NotificationType.ACHIEVEMENT]: {
+    type: NotificationType.ACHIEVEMENT,
+    description: "Sent to a player when they earn an achievement",
+    variables: ["user.name", "achievement.title", "achievement.description"],
+    channels: {
+      in_app: {
+        subject: "Achievement Unlocked!",
+        body: "Congratulations! You've earned the \"{{achievement.title}}\" achievement: {{achievement.description}}"
+      }
+    }
+  },
+  [NotificationType.TEAM_INVITATION]: {
+    type: NotificationType.TEAM_INVITATION,
+    description: "Sent to a player who has been invited to join a team",
+    variables: ["team.name", "user.name", "invitedBy", "invitationCode"],
+    channels: {
+      in_app: {
+        subject: "Team Invitation: {{team.name}}",
+        body: "{{invitedBy}} has invited you to join {{team.name}}. Check your team invitations to respond."
+      },
+      email: {
+        subject: "{{invitedBy}} invited you to {{team.name}}",
+        body: "Hi {{user.name}},\n\n{{invitedBy}} has invited you to join {{team.name}} on KickBook. Use the code {{invitationCode}} to join."
+      }
+    }
+  },
+  [NotificationType.PAYMENT_CONFIRMATION]: {
+    type: NotificationType.PAYMENT_CONFIRMATION,
+    description: "Sent to a player when a credit purchase goes through",
+    variables: ["user.name", "amount", "credits"],
+    channels: {
+      in_app: {
+        subject: "Payment Confirmation",
+        body: "Your payment of {{amount}} for {{credits}} credits has been processed successfully."
+      },
+      email: {
+        subject: "Payment received: {{credits}} credits",
+        body: "Hi {{user.name}},\n\nYour payment of {{amount}} for {{credits}} credits has been processed successfully."
+      }
+    }
+  },
+  [NotificationType.MATCH_CANCELED]: {
+    type: NotificationType.MATCH_CANCELED,
+    description: "Sent to every player booked on to a match that is called off",
+    variables: BOOKING_VARIABLES,
+    channels: {
+      in_app: {
+        subject: "Match Canceled: {{team.name}}",
+        body: "The match scheduled for {{booking.date}} at {{booking.location}} has been canceled."
+      },
+      whatsapp: {
+        body: "❌ {{booking.title}} on {{booking.date}} at {{booking.location}} has been canceled."
+      },
+      email: {
+        subject: "Canceled: {{booking.title}} on {{booking.date}}",
+        body: "Hi {{user.name}},\n\n{{booking.title}} on {{booking.date}} at {{booking.location}} has been canceled. Any credits you paid have been refunded.\n\n{{team.name}}"
+      }
+    }
+  },
+  [NotificationType.MATCH_DETAILS_UPDATED]: {
+    type: NotificationType.MATCH_DETAILS_UPDATED,
+    description: "Sent to booked players when a match's time or place changes",
+    variables: BOOKING_VARIABLES,
+    channels: {
+      in_app: {
+        subject: "Match Updated: {{booking.title}}",
+        body: "{{booking.title}} is now on {{booking.date}} at {{booking.time}}, {{booking.location}}."
+      },
+      whatsapp: {
+        body: "📅 {{booking.title}} has changed. It's now on {{booking.date}} at {{booking.time}}, {{booking.location}}."
+      }
+    }
+  },
+  [NotificationType.WAITLIST_JOINED]: {
+    type: NotificationType.WAITLIST_JOINED,
+    description: "Sent to a player who joins the waitlist for a full match",
+    variables: [...BOOKING_VARIABLES, "position"],
+    channels: {
+      in_app: {
+        subject: "Waitlisted: {{booking.title}}",
+        body: "{{booking.title}} on {{booking.date}} is full. You are number {{position}} on the waitlist and we'll let you know if a spot opens up."
+      }
+    }
+  },
+  [NotificationType.WAITLIST_SPOT_OFFERED]: {
+    type: NotificationType.WAITLIST_SPOT_OFFERED,
+    description: "Sent to the next player on the waitlist when a spot opens up",
+    variables: [...BOOKING_VARIABLES, "expiresAt"],
+    channels: {
+      in_app: {
+        subject: "Spot Available: {{booking.title}}",
+        body: "A spot has opened up for {{booking.title}} on {{booking.date}} at {{booking.location}}. Confirm by {{expiresAt}} or it will go to the next player on the waitlist."
+      },
+      whatsapp: {
+        body: "🙌 A spot has opened up for {{booking.title}} on {{booking.date}}. Reply IN by {{expiresAt}} to take it."
+      },
+      email: {
+        subject: "A spot has opened up: {{booking.title}}",
+        body: "Hi {{user.name}},\n\nA spot has opened up for {{booking.title}} on {{booking.date}} at {{booking.location}}. Confirm by {{expiresAt}} or it will go to the next player on the waitlist."
+      },
+      push: {
+        subject: "A spot has opened up: {{booking.title}}",
+        body: "Confirm by {{expiresAt}} to take it."
+      }
+    }
+  },
+  [NotificationType.WAITLIST_OFFER_EXPIRED]: {
+    type: NotificationType.WAITLIST_OFFER_EXPIRED,
+    description: "Sent to a player whose waitlist offer ran out",
+    variables: BOOKING_VARIABLES,
+    channels: {
+      in_app: {
+        subject: "Spot Offer Expired: {{booking.title}}",
+        body: "Your offer of a spot for {{booking.title}} on {{booking.date}} wasn't confirmed in time and has been passed to the next player."
+      }
+    }
+  },
+  [NotificationType.WEATHER_WARNING]: {
+    type: NotificationType.WEATHER_WARNING,
+    description: "Sent to booked players when the forecast trips one of the team's weather rules",
+    variables: [...BOOKING_VARIABLES, "warning"],
+    channels: {
+      in_app: {
+        subject: "Weather Warning: {{booking.title}}",
+        body: "The forecast for {{booking.title}} on {{booking.date}} at {{booking.location}} looks bad. {{warning}}. We'll let you know if the match is called off."
+      },
+      whatsapp: {
+        body: "🌧️ Heads up: the forecast for {{booking.title}} on {{booking.date}} looks bad. {{warning}}. We'll let you know if it's called off."
+      }
+    }
+  },
+  [NotificationType.WEATHER_CANCEL_APPROVAL]: {
+    type: NotificationType.WEATHER_CANCEL_APPROVAL,
+    description: "Sent to the team owner when the forecast suggests calling a match off",
+    variables: [...BOOKING_VARIABLES, "warning"],
+    channels: {
+      in_app: {
+        subject: "Cancel for Weather? {{booking.title}}",
+        body: "{{warning}} for {{booking.title}} on {{booking.date}}. Approve to cancel the match and refund every player in full, or dismiss to play on."
+      }
+    }
+  },
+  [NotificationType.PLAYER_JOINED]: {
+    type: NotificationType.PLAYER_JOINED,
+    description: "Sent to the players already in a match when someone else joins",
+    variables: [...BOOKING_VARIABLES, "player.name"],
+    channels: {
+      in_app: {
+        subject: "{{player.name}} Joined: {{booking.title}}",
+        body: "{{player.name}} is in for {{booking.title}} on {{booking.date}}. {{booking.spotsLeft}} spot(s) left."
+      },
+      whatsapp: {
+        body: "⚽ {{player.name}} is in for {{booking.title}} on {{booking.date}}, {{booking.time}} - {{booking.endTime}} ({{booking.format}}). {{booking.spotsLeft}} spot(s) left."
+      }
+    }
+  },
+  [NotificationType.TEAMS_SELECTED]: {
+    type: NotificationType.TEAMS_SELECTED,
+    description: "Sent to every picked player once the sides for a match are chosen",
+    variables: [...BOOKING_VARIABLES, "teamA", "teamB"],
+    channels: {
+      in_app: {
+        subject: "Teams Picked: {{booking.title}}",
+        body: "Team A: {{teamA}}. Team B: {{teamB}}."
+      },
+      whatsapp: {
+        body: "🏆 TEAM SELECTION: {{booking.title}} - {{booking.date}} {{booking.time}} ({{booking.format}})\n\nTeam A: {{teamA}}\n\nTeam B: {{teamB}}\n\nLocation: {{booking.location}}"
+      }
+    }
+  },
+  [NotificationType.RSVP_REQUEST]: {
+    type: NotificationType.RSVP_REQUEST,
+    description: "Sent on WhatsApp to ask team members whether they're in for a match",
+    variables: BOOKING_VARIABLES,
+    channels: {
+      whatsapp: {
+        body: "⚽ {{booking.title}}: {{booking.date}}, {{booking.time}} at {{booking.location}}. {{booking.spotsLeft}} spot(s) left. Reply IN to play, OUT if you can't make it, or WAITLIST to join the waitlist. Reply STOP to opt out."
+      }
+    }
+  },
+  [NotificationType.AVAILABILITY_POLL]: {
+    type: NotificationType.AVAILABILITY_POLL,
+    description: "Sent to team members when an admin asks which times they can make before booking a match",
+    variables: ["team.name", "user.name", "pollTitle", "options"],
+    channels: {
+      in_app: {
+        subject: "When Can You Play? {{pollTitle}}",
+        body: "{{team.name}} is picking a time for {{pollTitle}}. Mark the options you can make: {{options}}."
+      },
+      whatsapp: {
+        body: "🗓️ {{team.name}} is picking a time for {{pollTitle}}. Options: {{options}}. Mark yes, maybe or no in the app."
+      },
+      email: {
+        subject: "When can you play? {{pollTitle}}",
+        body: "Hi {{user.name}},\n\n{{team.name}} is picking a time for {{pollTitle}}. The options are:\n\n{{options}}\n\nMark the ones you can make in KickBook and the most popular will be booked.\n\n{{team.name}}"
+      },
+      push: {
+        subject: "When can you play? {{pollTitle}}",
+        body: "Mark the times you can make"
+      }
+    }
+  }
+};
+
+// Made-up values used to preview a template
+const SAMPLE_VALUES: Record<string, string> = {
+  "booking.title": "Tuesday 5-a-side",
+  "booking.location": "Powerleague Shoreditch",
+  "booking.date": "Tue 21 Oct 2025",
+  "booking.time": "19:00",
+  "booking.endTime": "20:00",
+  "booking.format": "5-a-side",
+  "booking.spotsLeft": "3",
+  "team.name": "Sunday Legends",
+  "user.name": "Alex Smith",
+  "player.name": "Sam Jones",
+  startsIn: "tomorrow",
+  position: "2",
+  expiresAt: "Mon 20 Oct 2025, 18:00",
+  warning: "Wind 45 km/h (above 40 km/h)",
+  "achievement.title": "Hat-trick Hero",
+  "achievement.description": "Score three goals in one match",
+  invitedBy: "Jordan Lee",
+  invitationCode: "SUNLEG",
+  amount: "£35.00",
+  credits: "5",
+  teamA: "Alex, Sam, Jordan, Chris, Pat",
+  teamB: "Robin, Kim, Max, Jo, Charlie",
+  pollTitle: "Next week's 5-a-side",
+  options: "Tue 21 Oct 19:00 at Powerleague Shoreditch; Thu 23 Oct 20:00 at Hackney Marshes"
+};
+
+const translations = new Map<string, TemplateTranslations>();
+
+/**
+ * Add translated wording for a locale. Messages with no translation fall back
+ * to the base language (e.g. "pt" for "pt-BR") and then to English.
+ * @param locale e.g. "es" or "pt-BR"
+ * @param templates Translated text, by notification type and channel
+ */
+export function registerTranslations(locale: string, templates: TemplateTranslations): void {
+  const existing = translations.get(locale) || {};
+
+  for (const [type, channels] of Object.entries(templates) as [NotificationType, TemplateTranslations[NotificationType]][]) {
+    existing[type] = { ...existing[type], ...channels };
+  }
+
+  translations.set(locale, existing);
+}
+
+/**
+ * Locales that have translations, plus the built-in one
+ */
+export function getAvailableLocales(): string[] {
+  return [MESSAGE_TEMPLATES.FALLBACK_LOCALE, ...Array.from(translations.keys())];
+}
+
+/**
+ * Whether a value is one of the notification types
+ */
+export function isNotificationType(value: string): value is NotificationType {
+  return value in builtInTemplates;
+}
+
+/**
+ * Get the built-in template for a notification type
+ */
+export function getMessageTemplate(type: NotificationType): MessageTemplate {
+  return builtInTemplates[type];
+}
+
+/**
+ * Get every built-in template
+ */
+export function listMessageTemplates(): MessageTemplate[] {
+  return Object.values(builtInTemplates);
+}
+
+/**
+ * Locales to try in order, e.g. "pt-BR" tries "pt-BR", then "pt", then "en"
+ */
+function getLocaleChain(locale: string): string[] {
+  const chain = [locale, locale.split("-")[0], MESSAGE_TEMPLATES.FALLBACK_LOCALE];
+  return chain.filter((value, index) => chain.indexOf(value) === index);
+}
+
+/**
+ * Get the wording a locale gives a template, without any team override
+ */
+function getLocaleText(type: NotificationType, channel: MessageChannel, locale: string): MessageTemplateText | undefined {
+  if (locale === MESSAGE_TEMPLATES.FALLBACK_LOCALE) {
+    return builtInTemplates[type].channels[channel];
+  }
+  return translations.get(locale)?.[type]?.[channel];
+}
+
+/**
+ * Replace {{variables}} in a template. Variables with no value are left blank.
+ * @param text Template text, e.g. "{{booking.title}} starts at {{booking.time}}"
+ * @param variables Values by variable name
+ */
+export function renderTemplateText(text: string, variables: Record<string, string>): string {
+  return text.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_match, name: string) => variables[name] ?? "");
+}
+
+/**
+ * Find any variables in a template's text that the template doesn't offer
+ */
+export function findUnknownVariables(type: NotificationType, text: string): string[] {
+  const allowed = new Set(builtInTemplates[type].variables);
+  const unknown = new Set<string>();
+
+  for (const [, name] of Array.from(text.matchAll(/\{\{\s*([\w.]+)\s*\}\}/g))) {
+    if (!allowed.has(name)) unknown.add(name);
+  }
+
+  return Array.from(unknown);
+}
+
+/**
+ * Turn what a message is about into the values its variables stand for
+ * @param context Booking, team and players the message is about
+ * @param locale Decides how dates and times are written
+ */
+function buildVariables(context: MessageContext, locale: string): Record<string, string> {
+  const variables: Record<string, string> = {};
+  const { booking, team, user, player } = context;
+
+  if (booking) {
+    const start = new Date(booking.startTime);
+    const end = new Date(booking.endTime);
+
+    variables["booking.title"] = booking.title;
+    variables["booking.location"] = booking.location;
+    variables["booking.date"] = start.toLocaleDateString(locale, { weekday: "short", day: "numeric", month: "short", year: "numeric" });
+    variables["booking.time"] = start.toLocaleTimeString(locale, { hour: "2-digit", minute: "2-digit" });
+    variables["booking.endTime"] = end.toLocaleTimeString(locale, { hour: "2-digit", minute: "2-digit" });
+    variables["booking.format"] = booking.format;
+    variables["booking.spotsLeft"] = String(booking.availableSlots);
+  }
+
+  if (team) variables["team.name"] = team.name;
+  if (user) variables["user.name"] = user.name;
+  if (player) variables["player.name"] = player.name;
+
+  for (const [name, value] of Object.entries(context.values || {})) {
+    if (value !== null && value !== undefined) variables[name] = String(value);
+  }
+
+  return variables;
+}
+
+/**
+ * Write a date and time the way a locale expects, for use as a variable
+ */
+export function formatDateTimeForMessage(date: Date, locale: string = MESSAGE_TEMPLATES.DEFAULT_LOCALE): string {
+  return new Date(date).toLocaleString(locale, {
+    weekday: "short",
+    day: "numeric",
+    month: "short",
+    hour: "2-digit",
+    minute: "2-digit"
+  });
+}
+
+/**
+ * Build a message from its template. A team's own wording is used if it has
+ * one, then any translation, then the built-in English. A channel the type
+ * has no wording for falls back to the in-app text.
+ * @param type Notification type
+ * @param channel Where the message is going
+ * @param context What the message is about
+ * @param options.locale Language to write in (defaults to MESSAGE_TEMPLATES.DEFAULT_LOCALE)
+ */
+export async function renderMessage(
+  type: NotificationType,
+  channel: MessageChannel,
+  context: MessageContext,
+  options: { locale?: string } = {}
+): Promise<RenderedMessage> {
+  const locale = options.locale || MESSAGE_TEMPLATES.DEFAULT_LOCALE;
+  const teamId = context.team?.id ?? context.booking?.teamId ?? context.user?.teamId ?? null;
+  const overrides = teamId ? await storage.getMessageTemplateOverridesByTeam(teamId) : [];
+  const variables = buildVariables(context, locale);
+
+  const channels: MessageChannel[] = channel === "in_app" ? ["in_app"] : [channel, "in_app"];
+
+  for (const candidateChannel of channels) {
+    for (const candidateLocale of getLocaleChain(locale)) {
+      const override = overrides.find(o =>
+        o.type === type && o.channel === candidateChannel && o.locale === candidateLocale
+      );
+      const text = override
+        ? { subject: override.subject ?? undefined, body: override.body }
+        : getLocaleText(type, candidateChannel, candidateLocale);
+
+      if (text) {
+        return {
+          subject: text.subject ? renderTemplateText(text.subject, variables) : null,
+          body: renderTemplateText(text.body, variables),
+          locale: candidateLocale,
+          overridden: !!override
+        };
+      }
+    }
+  }
+
+  throw new Error(`No ${channel} template for ${type}`);
+}
+
+/**
+ * Get every template a team can edit, with the team's overrides for a locale
+ * @param teamId Team to look up
+ * @param locale Locale of the overrides to show
+ */
+export async function getTeamMessageTemplates(
+  teamId: number,
+  locale: string = MESSAGE_TEMPLATES.FALLBACK_LOCALE
+): Promise<TeamMessageTemplate[]> {
+  const overrides = await storage.getMessageTemplateOverridesByTeam(teamId);
+  const templates: TeamMessageTemplate[] = [];
+
+  for (const template of listMessageTemplates()) {
+    for (const [channel, text] of Object.entries(template.channels) as [MessageChannel, MessageTemplateText][]) {
+      templates.push({
+        type: template.type,
+        channel,
+        description: template.description,
+        variables: template.variables,
+        default: getLocaleChain(locale)
+          .map(candidate => getLocaleText(template.type, channel, candidate))
+          .find(Boolean) ?? text,
+        override: overrides.find(o =>
+          o.type === template.type && o.channel === channel && o.locale === locale
+        ) ?? null
+      });
+    }
+  }
+
+  return templates;
+}
+
+/**
+ * Check an edited template is one that can be saved
+ * @returns An error message, or null if it's fine
+ */
+function validateOverride(
+  type: NotificationType,
+  channel: MessageChannel,
+  data: { subject?: string | null; body: string }
+): string | null {
+  if (!builtInTemplates[type].channels[channel]) {
+    return `${type} messages aren't sent by ${channel}`;
+  }
+
+  if (channel !== "whatsapp" && !data.subject) {
+    return channel === "email" ? "Emails need a subject"
+      : channel === "push" ? "Push notifications need a title"
+      : "In-app messages need a title";
+  }
+
+  const unknown = findUnknownVariables(type, `${data.subject || ""} ${data.body}`);
+  if (unknown.length > 0) {
+    return `Unknown variable(s): ${unknown.map(name => `{{${name}}}`).join(", ")}`;
+  }
+
+  return null;
+}
+
+/**
+ * Save a team's own wording for a message, replacing any they had before
+ * @param teamId Team the wording is for
+ * @param type Notification type
+ * @param channel Channel the wording is for
+ * @param data The new subject and body, and the locale they're written in
+ * @param updatedBy Admin making the change
+ */
+export async function saveTeamMessageTemplate(
+  teamId: number,
+  type: NotificationType,
+  channel: MessageChannel,
+  data: { subject?: string | null; body: string; locale?: string },
+  updatedBy: number
+): Promise<TemplateOverrideResult> {
+  const error = validateOverride(type, channel, data);
+  if (error) {
+    return { success: false, message: error };
+  }
+
+  const override = await storage.saveMessageTemplateOverride({
+    teamId,
+    type,
+    channel,
+    locale: data.locale || MESSAGE_TEMPLATES.FALLBACK_LOCALE,
+    subject: channel === "whatsapp" ? null : data.subject,
+    body: data.body,
+    updatedBy
+  });
+
+  return { success: true, message: "Message template saved", override };
+}
+
+/**
+ * Go back to the built-in wording for a message
+ * @returns false if the team had no override to remove
+ */
+export async function resetTeamMessageTemplate(
+  teamId: number,
+  type: NotificationType,
+  channel: MessageChannel,
+  locale: string = MESSAGE_TEMPLATES.FALLBACK_LOCALE
+): Promise<boolean> {
+  return storage.deleteMessageTemplateOverride(teamId, type, channel, locale);
+}
+
+/**
+ * Fill in a template with made-up values, to show an admin what it will look like
+ * @param type Notification type the text is for
+ * @param text Subject and body to preview
+ */
+export function previewMessageTemplate(
+  type: NotificationType,
+  text: { subject?: string | null; body: string }
+): { subject: string | null; body: string; unknownVariables: string[] } {
+  return {
+    subject: text.subject ? renderTemplateText(text.subject, SAMPLE_VALUES) : null,
+    body: renderTemplateText(text.body, SAMPLE_VALUES),
+    unknownVariables: findUnknownVariables(type, `${text.subject || ""} ${text.body}`)
+  };
+}
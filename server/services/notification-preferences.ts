@@ -0,0 +1,182 @@
+/**
+ * Notification Preferences - Decides which channels a player hears about things on
+ *
+ * Handles:
+ * - Reading a player's settings, with defaults for anything they haven't set
+ * - Topic switches (match reminders, team updates, ...), channel switches and
+ *   per-type, per-channel switches
+ * - Quiet hours for email, WhatsApp and push
+ * - Recording every delivery a player's preferences held back
+ */
+
+import { storage } from "../storage";
+import { MessageChannel, NotificationSettings, User } from "@shared/schema";
+import { NOTIFICATION_SETTINGS } from "../config";
+import { NotificationType } from "./notification-types";
+
+export type SuppressionReason =
+  | "type_disabled"          // The player turned off this topic
+  | "channel_disabled"       // The player turned off this channel
+  | "type_channel_disabled"  // The player turned off this type on this channel
+  | "quiet_hours"            // Sent during the player's quiet hours
+  | "no_consent";            // The player hasn't agreed to messages on this channel
+
+export type DeliveryDecision =
+  | { allowed: true }
+  | { allowed: false; reason: SuppressionReason };
+
+export type ResolvedNotificationSettings = Required<NotificationSettings>;
+
+// The settings page switch that covers each notification type
+const TYPE_TOPICS: Partial<Record<NotificationType, keyof NotificationSettings>> = {
+  [NotificationType.MATCH_REMINDER]: "matchReminders",
+  [NotificationType.BOOKING_CONFIRMATION]: "bookingConfirmations",
+  [NotificationType.MATCH_CANCELED]: "cancellationAlerts",
+  [NotificationType.MATCH_DETAILS_UPDATED]: "cancellationAlerts",
+  [NotificationType.WEATHER_WARNING]: "cancellationAlerts",
+  [NotificationType.PLAYER_JOINED]: "teamUpdates",
+  [NotificationType.TEAMS_SELECTED]: "teamUpdates",
+  [NotificationType.TEAM_INVITATION]: "teamUpdates",
+  [NotificationType.AVAILABILITY_POLL]: "teamUpdates",
+  [NotificationType.ACHIEVEMENT]: "statsUpdates"
+};
+
+// Notifications the player has to act on, so they always appear in the app
+const ALWAYS_IN_APP = new Set<NotificationType>([
+  NotificationType.PAYMENT_CONFIRMATION,
+  NotificationType.WAITLIST_SPOT_OFFERED,
+  NotificationType.WEATHER_CANCEL_APPROVAL
+]);
+
+/**
+ * Get a user's notification settings, with defaults for anything they haven't set
+ */
+export function getNotificationSettings(user: User): ResolvedNotificationSettings {
+  return {
+    ...NOTIFICATION_SETTINGS.DEFAULT_USER_SETTINGS,
+    ...(user.notificationSettings as NotificationSettings | null)
+  };
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+// Minutes past midnight on the player's clock, or the server's if they haven't set a time zone
+function getLocalMinutes(now: Date, timeZone?: string): number {
+  if (!timeZone) return now.getHours() * 60 + now.getMinutes();
+
+  const parts = new Intl.DateTimeFormat("en-GB", { timeZone, hour: "2-digit", minute: "2-digit", hourCycle: "h23" })
+    .formatToParts(now);
+  const part = (type: string) => Number(parts.find(p => p.type === type)?.value);
+  return part("hour") * 60 + part("minute");
+}
+
+/**
+ * Whether a time falls in a player's quiet hours, on the clock of the time
+ * zone saved with them. Quiet hours can run past midnight, e.g. 22:00 to 07:00.
+ */
+export function isInQuietHours(settings: ResolvedNotificationSettings, now: Date = new Date()): boolean {
+  const { enabled, start, end, timezone } = settings.quietHours;
+  if (!enabled || start === end) return false;
+
+  const current = getLocalMinutes(now, timezone);
+  const startMinutes = toMinutes(start);
+  const endMinutes = toMinutes(end);
+
+  return startMinutes < endMinutes
+    ? current >= startMinutes && current < endMinutes
+    : current >= startMinutes || current < endMinutes;
+}
+
+/**
+ * Work out whether a player's preferences let a notification through on a channel.
+ * Consent to a channel (e.g. WhatsApp opt-in) is checked by the channel itself.
+ * @param user Player the notification is for
+ * @param type Notification type
+ * @param channel Channel it would go out on
+ */
+export function checkDelivery(
+  user: User,
+  type: NotificationType,
+  channel: MessageChannel,
+  now: Date = new Date()
+): DeliveryDecision {
+  if (channel === "in_app" && ALWAYS_IN_APP.has(type)) {
+    return { allowed: true };
+  }
+
+  const settings = getNotificationSettings(user);
+
+  const topic = TYPE_TOPICS[type];
+  if (topic && settings[topic] === false) {
+    return { allowed: false, reason: "type_disabled" };
+  }
+
+  if (channel === "email" && !settings.emailNotifications) {
+    return { allowed: false, reason: "channel_disabled" };
+  }
+
+  if (channel === "push" && !settings.pushNotifications) {
+    return { allowed: false, reason: "channel_disabled" };
+  }
+
+  if (settings.types[type]?.[channel] === false) {
+    return { allowed: false, reason: "type_channel_disabled" };
+  }
+
+  if (channel !== "in_app" && isInQuietHours(settings, now)) {
+    return { allowed: false, reason: "quiet_hours" };
+  }
+
+  return { allowed: true };
+}
+
+/**
+ * Keep a record of a notification that wasn't sent on a channel
+ * @param user Player who wasn't sent it
+ * @param type Notification type
+ * @param channel Channel it wasn't sent on
+ * @param reason Why not
+ * @param bookingId Booking the notification was about, if any
+ */
+export async function recordSuppression(
+  user: User,
+  type: NotificationType,
+  channel: MessageChannel,
+  reason: SuppressionReason,
+  bookingId?: number | null
+): Promise<void> {
+  try {
+    await storage.createNotificationSuppression({
+      userId: user.id,
+      teamId: user.teamId,
+      bookingId: bookingId ?? null,
+      type,
+      channel,
+      reason
+    });
+  } catch (error) {
+    console.error(`Failed to record suppressed ${type} ${channel} notification for user ${user.id}:`, error);
+  }
+}
+
+/**
+ * Check a player's preferences before sending, recording the delivery if
+ * they held it back
+ * @returns Whether to send
+ */
+export async function shouldDeliver(
+  user: User,
+  type: NotificationType,
+  channel: MessageChannel,
+  bookingId?: number | null,
+  now: Date = new Date()
+): Promise<boolean> {
+  const decision = checkDelivery(user, type, channel, now);
+  if (decision.allowed) return true;
+
+  await recordSuppression(user, type, channel, decision.reason, bookingId);
+  return false;
+}
@@ -7,21 +7,27 @@
  * - Booking confirmations
  * - Team invitations
  * - Payment confirmations
+ * - Waitlist updates
+ * - Weather warnings
+ * - Emailing notifications, on their own or batched into daily/weekly digests
+ * - Sending notifications on WhatsApp to players who have opted in
+ * - Sending push notifications to the devices players have subscribed
+ * - Routing every notification through the player's preferences
  */
 
+import { format } from "date-fns";
 import { storage } from "../storage";
-import { InsertNotification } from "@shared/schema";
-
-// Types of notifications
-export enum NotificationType {
-  MATCH_REMINDER = "match_reminder",
-  BOOKING_CONFIRMATION = "booking_confirmation",
-  ACHIEVEMENT = "achievement",
-  TEAM_INVITATION = "team_invitation",
-  PAYMENT_CONFIRMATION = "payment_confirmation",
-  MATCH_CANCELED = "match_canceled",
-  MATCH_DETAILS_UPDATED = "match_details_updated"
-}
+import { EmailDigestFrequency, InsertNotification, Notification, User } from "@shared/schema";
+import { EMAIL } from "../config";
+import { NotificationType } from "./notification-types";
+import { MessageContext, formatDateTimeForMessage, getMessageTemplate, renderMessage } from "./message-template-service";
+import { getEmailTransport, renderDigestEmail, sendNotificationEmail } from "./email-service";
+import { getNotificationSettings, isInQuietHours, shouldDeliver } from "./notification-preferences";
+import { whatsappService, shouldDeliverOnWhatsApp, toWhatsAppNumber } from "./whatsapp-service";
+import { hasPushSubscriptions, sendPushToUser } from "./push-service";
+import { JobOutcome, enqueueJob, registerJobHandler, schedulePeriodicJob } from "./job-service";
+
+export { NotificationType };
 
 // Time thresholds for match reminders
 export const NOTIFICATION_THRESHOLDS = {
@@ -29,21 +35,27 @@ export const NOTIFICATION_THRESHOLDS = {
   MATCH_REMINDER_HOUR_BEFORE: 1 * 60 * 60 * 1000, // 1 hour before
 };
 
+// The reminders each match gets, and how late each can still go out
+const MATCH_REMINDERS = [
+  { hoursBefore: 24, leadTime: NOTIFICATION_THRESHOLDS.MATCH_REMINDER_DAY_BEFORE, grace: 60 * 60 * 1000 },
+  { hoursBefore: 1, leadTime: NOTIFICATION_THRESHOLDS.MATCH_REMINDER_HOUR_BEFORE, grace: 10 * 60 * 1000 }
+];
+
+// How often to look for reminders to queue (in minutes), and how far ahead to queue them
+const MATCH_REMINDER_SCAN_INTERVAL_MINUTES = 15;
+const MATCH_REMINDER_QUEUE_AHEAD = 24 * 60 * 60 * 1000;
+
 /**
- * Send a notification to a user
- * @param userId ID of the user to notify
- * @param title Title of the notification
- * @param message Message content
- * @param type Type of notification
- * @param metadata Optional metadata
+ * Save an in-app notification
+ * @returns The notification, or undefined if it couldn't be saved
  */
-export async function sendNotification(
+async function createInAppNotification(
   userId: number,
   title: string,
   message: string,
   type: NotificationType,
   metadata?: Record<string, any>
-): Promise<boolean> {
+): Promise<Notification | undefined> {
   try {
     const notification: InsertNotification = {
       userId,
@@ -54,10 +66,110 @@ export async function sendNotification(
       isRead: false
     } as InsertNotification; // Type assertion to fix metadata field compatibility
 
-    await storage.createNotification(notification);
-    return true;
+    return await storage.createNotification(notification);
   } catch (error) {
     console.error(`Failed to send notification to user ${userId}:`, error);
+    return undefined;
+  }
+}
+
+/**
+ * Send an in-app notification to a user, unless they've turned that type off
+ * @param userId ID of the user to notify
+ * @param title Title of the notification
+ * @param message Message content
+ * @param type Type of notification
+ * @param metadata Optional metadata
+ */
+export async function sendNotification(
+  userId: number,
+  title: string,
+  message: string,
+  type: NotificationType,
+  metadata?: Record<string, any>
+): Promise<boolean> {
+  const user = await storage.getUser(userId);
+  if (user && !(await shouldDeliver(user, type, "in_app", metadata?.bookingId))) {
+    return false;
+  }
+
+  return !!(await createInAppNotification(userId, title, message, type, metadata));
+}
+
+/**
+ * Send a user a notification worded by its message template, on every
+ * channel the template has wording for and the user's preferences allow:
+ * in-app, email (straight away, or in their next digest), WhatsApp and push.
+ * Channels held back by the user's preferences are recorded.
+ * @param userId ID of the user to notify
+ * @param type Type of notification, which picks the template
+ * @param context What the notification is about, used to fill in the template
+ * @param metadata Optional metadata
+ * @returns Whether the notification went out on at least one channel
+ */
+export async function sendTemplatedNotification(
+  userId: number,
+  type: NotificationType,
+  context: MessageContext,
+  metadata?: Record<string, any>
+): Promise<boolean> {
+  try {
+    const user = context.user?.id === userId ? context.user : await storage.getUser(userId);
+    if (!user) {
+      console.error(`Cannot send ${type} notification: User ${userId} not found`);
+      return false;
+    }
+
+    const userContext = { ...context, user };
+    const bookingId = context.booking?.id ?? null;
+    const template = getMessageTemplate(type);
+    let delivered = false;
+
+    let notification: Notification | undefined;
+    if (await shouldDeliver(user, type, "in_app", bookingId)) {
+      const message = await renderMessage(type, "in_app", userContext);
+      notification = await createInAppNotification(userId, message.subject || "", message.body, type, metadata);
+      delivered = !!notification;
+    }
+
+    if (template.channels.email) {
+      const settings = getNotificationSettings(user);
+
+      // Players on a digest get this in their next one instead
+      const inDigest = settings.emailNotifications && settings.emailDigest !== "off";
+
+      if (!inDigest && await shouldDeliver(user, type, "email", bookingId)) {
+        if (await sendNotificationEmail(user, type, userContext)) {
+          delivered = true;
+          if (notification) {
+            await storage.markNotificationsEmailed([notification.id], new Date());
+          }
+        }
+      }
+    }
+
+    if (template.channels.whatsapp && user.phone && await shouldDeliverOnWhatsApp(user, type, bookingId)) {
+      const message = await renderMessage(type, "whatsapp", userContext);
+      if (await whatsappService.sendTextMessage(toWhatsAppNumber(user.phone), message.body)) {
+        delivered = true;
+      }
+    }
+
+    // Only players who have subscribed a device can get push notifications at all
+    if (template.channels.push && await hasPushSubscriptions(userId) && await shouldDeliver(user, type, "push", bookingId)) {
+      const message = await renderMessage(type, "push", userContext);
+      const pushed = await sendPushToUser(userId, {
+        title: message.subject || "KickBook",
+        body: message.body,
+        url: context.booking ? "/bookings" : "/notifications",
+        tag: context.booking ? `${type}-${context.booking.id}` : type
+      });
+      if (pushed) delivered = true;
+    }
+
+    return delivered;
+  } catch (error) {
+    console.error(`Failed to build ${type} notification for user ${userId}:`, error);
     return false;
   }
 }
@@ -85,17 +197,18 @@ export async function sendMatchReminders(bookingId: number, hoursBefore: number)
     // Get all players booked for this match
     const playerBookings = await storage.getPlayerBookingsByBooking(bookingId);
     
-    // Send notification to each player
+    // Send notification to each player who has a confirmed spot
     const timeText = hoursBefore === 24 ? "tomorrow" : `in ${hoursBefore} hour${hoursBefore > 1 ? 's' : ''}`;
     for (const playerBooking of playerBookings) {
+      if (playerBooking.status !== "confirmed") continue;
+      
       const player = await storage.getUser(playerBooking.playerId);
       if (!player) continue;
 
-      await sendNotification(
+      await sendTemplatedNotification(
         player.id,
-        `Match Reminder: ${team.name}`,
-        `Your match at ${booking.location} is scheduled to start ${timeText} at ${booking.startTime.toLocaleTimeString()}.`,
         NotificationType.MATCH_REMINDER,
+        { booking, team, user: player, values: { startsIn: timeText } },
         { bookingId }
       );
     }
@@ -132,11 +245,10 @@ export async function sendBookingConfirmation(playerId: number, bookingId: numbe
       return;
     }
 
-    await sendNotification(
+    await sendTemplatedNotification(
       playerId,
-      `Booking Confirmed: ${team.name}`,
-      `Your booking for ${booking.title} at ${booking.location} on ${booking.startTime.toLocaleDateString()} has been confirmed.`,
       NotificationType.BOOKING_CONFIRMATION,
+      { booking, team, user: player },
       { bookingId }
     );
 
@@ -168,11 +280,16 @@ export async function sendAchievementNotification(playerId: number, achievementI
       return;
     }
 
-    await sendNotification(
+    await sendTemplatedNotification(
       playerId,
-      "Achievement Unlocked!",
-      `Congratulations! You've earned the "${achievement.title}" achievement: ${achievement.description}`,
       NotificationType.ACHIEVEMENT,
+      {
+        user: player,
+        values: {
+          "achievement.title": achievement.title,
+          "achievement.description": achievement.description
+        }
+      },
       { achievementId }
     );
 
@@ -202,11 +319,10 @@ export async function sendTeamInvitation(receiverId: number, teamId: number, inv
       return;
     }
 
-    await sendNotification(
+    await sendTemplatedNotification(
       receiverId,
-      `Team Invitation: ${team.name}`,
-      `${invitedByName} has invited you to join ${team.name}. Check your team invitations to respond.`,
       NotificationType.TEAM_INVITATION,
+      { team, user: receiver, values: { invitedBy: invitedByName, invitationCode: team.invitationCode } },
       { teamId, invitationCode: team.invitationCode }
     );
 
@@ -231,11 +347,10 @@ export async function sendPaymentConfirmation(userId: number, amount: number, cr
       return;
     }
 
-    await sendNotification(
+    await sendTemplatedNotification(
       userId,
-      "Payment Confirmation",
-      `Your payment of £${amount.toFixed(2)} for ${credits} credits has been processed successfully.`,
       NotificationType.PAYMENT_CONFIRMATION,
+      { user, values: { amount: `£${amount.toFixed(2)}`, credits } },
       { transactionId, amount, credits }
     );
 
@@ -272,11 +387,10 @@ export async function sendMatchCanceledNotification(bookingId: number): Promise<
       const player = await storage.getUser(playerBooking.playerId);
       if (!player) continue;
 
-      await sendNotification(
+      await sendTemplatedNotification(
         player.id,
-        `Match Canceled: ${team.name}`,
-        `The match scheduled for ${booking.startTime.toLocaleDateString()} at ${booking.location} has been canceled.`,
         NotificationType.MATCH_CANCELED,
+        { booking, team, user: player },
         { bookingId }
       );
     }
@@ -287,50 +401,344 @@ export async function sendMatchCanceledNotification(bookingId: number): Promise<
   }
 }
 
+/**
+ * Let a player know they've been added to the waitlist for a full match
+ * @param playerId ID of the waitlisted player
+ * @param bookingId ID of the booking
+ * @param position Player's position in the waitlist (1 = next in line)
+ */
+export async function sendWaitlistJoinedNotification(playerId: number, bookingId: number, position: number): Promise<void> {
+  try {
+    const booking = await storage.getBooking(bookingId);
+    if (!booking) {
+      console.error(`Cannot send waitlist notification: Booking ${bookingId} not found`);
+      return;
+    }
+
+    await sendTemplatedNotification(
+      playerId,
+      NotificationType.WAITLIST_JOINED,
+      { booking, values: { position } },
+      { bookingId, position }
+    );
+
+    console.log(`Sent waitlist notification to player ${playerId} for booking ${bookingId}`);
+  } catch (error) {
+    console.error(`Error sending waitlist notification:`, error);
+  }
+}
+
+/**
+ * Offer a freed-up spot to the next player on the waitlist
+ * @param playerId ID of the promoted player
+ * @param bookingId ID of the booking
+ * @param expiresAt When the offer passes to the next player
+ */
+export async function sendWaitlistSpotOffered(playerId: number, bookingId: number, expiresAt: Date): Promise<void> {
+  try {
+    const booking = await storage.getBooking(bookingId);
+    if (!booking) {
+      console.error(`Cannot send waitlist offer: Booking ${bookingId} not found`);
+      return;
+    }
+
+    await sendTemplatedNotification(
+      playerId,
+      NotificationType.WAITLIST_SPOT_OFFERED,
+      { booking, values: { expiresAt: formatDateTimeForMessage(expiresAt) } },
+      { bookingId, expiresAt: expiresAt.toISOString() }
+    );
+
+    console.log(`Sent waitlist offer to player ${playerId} for booking ${bookingId}`);
+  } catch (error) {
+    console.error(`Error sending waitlist offer:`, error);
+  }
+}
+
+/**
+ * Tell a player their waitlist offer lapsed without being confirmed
+ * @param playerId ID of the player
+ * @param bookingId ID of the booking
+ */
+export async function sendWaitlistOfferExpired(playerId: number, bookingId: number): Promise<void> {
+  try {
+    const booking = await storage.getBooking(bookingId);
+    if (!booking) {
+      console.error(`Cannot send waitlist expiry notification: Booking ${bookingId} not found`);
+      return;
+    }
+
+    await sendTemplatedNotification(
+      playerId,
+      NotificationType.WAITLIST_OFFER_EXPIRED,
+      { booking },
+      { bookingId }
+    );
+
+    console.log(`Sent waitlist expiry notification to player ${playerId} for booking ${bookingId}`);
+  } catch (error) {
+    console.error(`Error sending waitlist expiry notification:`, error);
+  }
+}
+
+/**
+ * Warn a player that the forecast for their match has turned bad
+ * @param playerId ID of the player
+ * @param bookingId ID of the booking
+ * @param warning What the forecast shows, e.g. "Wind 45 km/h (above 40 km/h)"
+ */
+export async function sendWeatherWarning(playerId: number, bookingId: number, warning: string): Promise<void> {
+  try {
+    const booking = await storage.getBooking(bookingId);
+    if (!booking) {
+      console.error(`Cannot send weather warning: Booking ${bookingId} not found`);
+      return;
+    }
+
+    await sendTemplatedNotification(
+      playerId,
+      NotificationType.WEATHER_WARNING,
+      { booking, values: { warning } },
+      { bookingId }
+    );
+
+    console.log(`Sent weather warning to player ${playerId} for booking ${bookingId}`);
+  } catch (error) {
+    console.error(`Error sending weather warning:`, error);
+  }
+}
+
+/**
+ * Ask a team owner whether to call off a match because of the weather
+ * @param ownerId ID of the team owner
+ * @param bookingId ID of the booking
+ * @param alertId ID of the weather alert to approve or dismiss
+ * @param warning What the forecast shows
+ */
+export async function sendWeatherCancelApprovalRequest(
+  ownerId: number,
+  bookingId: number,
+  alertId: number,
+  warning: string
+): Promise<void> {
+  try {
+    const booking = await storage.getBooking(bookingId);
+    if (!booking) {
+      console.error(`Cannot send weather cancellation request: Booking ${bookingId} not found`);
+      return;
+    }
+
+    await sendTemplatedNotification(
+      ownerId,
+      NotificationType.WEATHER_CANCEL_APPROVAL,
+      { booking, values: { warning } },
+      { bookingId, alertId }
+    );
+
+    console.log(`Sent weather cancellation request to owner ${ownerId} for booking ${bookingId}`);
+  } catch (error) {
+    console.error(`Error sending weather cancellation request:`, error);
+  }
+}
+
+/**
+ * Ask a team member which of a poll's options they can make
+ * @param userId ID of the team member
+ * @param pollId ID of the availability poll
+ * @param options The options, already formatted for reading
+ */
+export async function sendAvailabilityPollNotification(userId: number, pollId: number, options: string): Promise<void> {
+  try {
+    const poll = await storage.getAvailabilityPoll(pollId);
+    if (!poll) {
+      console.error(`Cannot send availability poll: Poll ${pollId} not found`);
+      return;
+    }
+
+    const team = await storage.getTeam(poll.teamId);
+    if (!team) {
+      console.error(`Cannot send availability poll: Team ${poll.teamId} not found`);
+      return;
+    }
+
+    await sendTemplatedNotification(
+      userId,
+      NotificationType.AVAILABILITY_POLL,
+      { team, values: { pollTitle: poll.title, options } },
+      { pollId, teamId: team.id }
+    );
+
+    console.log(`Sent availability poll ${pollId} to user ${userId}`);
+  } catch (error) {
+    console.error(`Error sending availability poll:`, error);
+  }
+}
+
+/**
+ * Work out which digest period a time falls in. Periods start at
+ * EMAIL.DIGEST_HOUR each day, or on EMAIL.DIGEST_WEEKDAY each week.
+ * @returns The period's key (the date it starts) and when it starts
+ */
+export function getDigestPeriod(
+  frequency: Exclude<EmailDigestFrequency, "off">,
+  now: Date = new Date()
+): { period: string; startsAt: Date } {
+  const startsAt = new Date(now);
+  startsAt.setHours(EMAIL.DIGEST_HOUR, 0, 0, 0);
+
+  if (startsAt > now) {
+    startsAt.setDate(startsAt.getDate() - 1);
+  }
+
+  if (frequency === "weekly") {
+    const daysSinceWeekday = (startsAt.getDay() - EMAIL.DIGEST_WEEKDAY + 7) % 7;
+    startsAt.setDate(startsAt.getDate() - daysSinceWeekday);
+  }
+
+  return { period: format(startsAt, "yyyy-MM-dd"), startsAt };
+}
+
+/**
+ * Email a player a digest of their unread notifications that haven't been
+ * emailed yet. Each player gets at most one digest per period.
+ * @param user Player to send the digest to
+ * @param frequency The player's digest frequency
+ * @returns Whether a digest was sent
+ */
+export async function sendEmailDigest(
+  user: User,
+  frequency: Exclude<EmailDigestFrequency, "off">,
+  now: Date = new Date()
+): Promise<boolean> {
+  const { period } = getDigestPeriod(frequency, now);
+  if (await storage.getEmailDigest(user.id, frequency, period)) return false;
+
+  const notifications = (await storage.getUnreadNotifications(user.id))
+    .filter(notification => !notification.emailedAt && new Date(notification.createdAt) <= now);
+  if (notifications.length === 0) return false;
+
+  const sent = await getEmailTransport().send(renderDigestEmail(user, notifications, frequency));
+  if (!sent) return false;
+
+  await storage.markNotificationsEmailed(notifications.map(notification => notification.id), now);
+  await storage.createEmailDigest({
+    userId: user.id,
+    frequency,
+    period,
+    notificationCount: notifications.length
+  });
+
+  return true;
+}
+
+/**
+ * Send every digest that's due
+ * @returns Number of digests sent
+ */
+export async function sendDueEmailDigests(now: Date = new Date()): Promise<number> {
+  const users = await storage.getAllUsers();
+  let sent = 0;
+
+  for (const user of users) {
+    const settings = getNotificationSettings(user);
+    if (!user.isActive || !settings.emailNotifications || settings.emailDigest === "off") continue;
+
+    // Held until a later check once quiet hours are over
+    if (isInQuietHours(settings, now)) continue;
+
+    try {
+      if (await sendEmailDigest(user, settings.emailDigest, now)) sent++;
+    } catch (error) {
+      console.error(`Error sending email digest to user ${user.id}:`, error);
+    }
+  }
+
+  return sent;
+}
+
+/**
+ * Setup scheduled sending of daily and weekly email digests
+ * Should be called on server startup
+ */
+export function scheduleEmailDigests(): void {
+  schedulePeriodicJob("email_digests", EMAIL.DIGEST_CHECK_INTERVAL_MINUTES, async () => {
+    const sentCount = await sendDueEmailDigests();
+    if (sentCount > 0) {
+      console.log(`Sent ${sentCount} email digest(s)`);
+    }
+  });
+
+  console.log("Email digest scheduler initialized");
+}
+
+/**
+ * Queue reminder jobs for matches whose reminders are due within the next day.
+ * Each reminder has its own job key, so it's only ever queued once.
+ * @returns Number of reminder jobs queued
+ */
+export async function queueMatchReminders(now: Date = new Date()): Promise<number> {
+  const allBookings = await storage.getAllBookings();
+  const upcomingBookings = allBookings.filter(booking =>
+    booking.status !== "canceled" && new Date(booking.startTime) > now
+  );
+
+  let queued = 0;
+  for (const booking of upcomingBookings) {
+    for (const reminder of MATCH_REMINDERS) {
+      const runAt = new Date(new Date(booking.startTime).getTime() - reminder.leadTime);
+
+      // Too late for this reminder, or not due until after the next scan has queued it
+      if (runAt.getTime() < now.getTime() - reminder.grace) continue;
+      if (runAt.getTime() > now.getTime() + MATCH_REMINDER_QUEUE_AHEAD) continue;
+
+      const job = await enqueueJob(
+        "match_reminder",
+        { bookingId: booking.id, hoursBefore: reminder.hoursBefore },
+        { key: `reminder:booking:${booking.id}:${reminder.hoursBefore}h`, runAt }
+      );
+      if (job) queued++;
+    }
+  }
+
+  return queued;
+}
+
+/**
+ * Send one booking's reminder, checking the match is still on and hasn't
+ * moved since the reminder was queued
+ */
+async function runMatchReminderJob(payload: { bookingId: number; hoursBefore: number }): Promise<JobOutcome | void> {
+  const reminder = MATCH_REMINDERS.find(r => r.hoursBefore === payload.hoursBefore);
+  const booking = await storage.getBooking(payload.bookingId);
+  if (!reminder || !booking || booking.status === "canceled") return;
+
+  const due = new Date(booking.startTime).getTime() - reminder.leadTime;
+  const now = Date.now();
+
+  // The match has moved later since the reminder was queued
+  if (due > now + 60 * 1000) {
+    return { runAgainAt: new Date(due) };
+  }
+
+  // ...or earlier, so this reminder's moment has passed
+  if (now > due + reminder.grace) return;
+
+  await sendMatchReminders(booking.id, reminder.hoursBefore);
+}
+
 /**
  * Schedule background task to send match reminder notifications
  * Should be called on server startup
  */
 export async function scheduleMatchReminders(): Promise<void> {
-  // Run every hour
-  setInterval(async () => {
-    try {
-      console.log("Running scheduled match reminder check...");
-      const now = new Date();
-      
-      // Get all upcoming bookings
-      const allBookings = await storage.getAllBookings();
-      const upcomingBookings = allBookings.filter(booking => {
-        const bookingTime = new Date(booking.startTime);
-        
-        // Only include bookings that haven't started yet
-        return bookingTime > now;
-      });
-      
-      for (const booking of upcomingBookings) {
-        const bookingTime = new Date(booking.startTime);
-        const timeUntilMatch = bookingTime.getTime() - now.getTime();
-        
-        // Send day-before notification
-        if (
-          timeUntilMatch <= NOTIFICATION_THRESHOLDS.MATCH_REMINDER_DAY_BEFORE &&
-          timeUntilMatch > NOTIFICATION_THRESHOLDS.MATCH_REMINDER_DAY_BEFORE - 60 * 60 * 1000 // 1 hour window
-        ) {
-          await sendMatchReminders(booking.id, 24);
-        }
-        
-        // Send hour-before notification
-        if (
-          timeUntilMatch <= NOTIFICATION_THRESHOLDS.MATCH_REMINDER_HOUR_BEFORE &&
-          timeUntilMatch > NOTIFICATION_THRESHOLDS.MATCH_REMINDER_HOUR_BEFORE - 10 * 60 * 1000 // 10 minute window
-        ) {
-          await sendMatchReminders(booking.id, 1);
-        }
-      }
-    } catch (error) {
-      console.error("Error in match reminder scheduler:", error);
+  registerJobHandler("match_reminder", runMatchReminderJob);
+
+  schedulePeriodicJob("match_reminder_scan", MATCH_REMINDER_SCAN_INTERVAL_MINUTES, async () => {
+    const queuedCount = await queueMatchReminders();
+    if (queuedCount > 0) {
+      console.log(`Queued ${queuedCount} match reminder(s)`);
     }
-  }, 60 * 60 * 1000); // Run hourly
-  
+  });
+
   console.log("Match reminder scheduler initialized");
-}
\ No newline at end of file
+}
@@ -0,0 +1,26 @@
+/**
+ * Notification Types - Every kind of message KickBook sends
+ *
+ * Kept apart from the notification service so the message template
+ * registry can be keyed by type without importing the service.
+ */
+
+// Types of notifications
+export enum NotificationType {
+  MATCH_REMINDER = "match_reminder",
+  BOOKING_CONFIRMATION = "booking_confirmation",
+  ACHIEVEMENT = "achievement",
+  TEAM_INVITATION = "team_invitation",
+  PAYMENT_CONFIRMATION = "payment_confirmation",
+  MATCH_CANCELED = "match_canceled",
+  MATCH_DETAILS_UPDATED = "match_details_updated",
+  WAITLIST_JOINED = "waitlist_joined",
+  WAITLIST_SPOT_OFFERED = "waitlist_spot_offered",
+  WAITLIST_OFFER_EXPIRED = "waitlist_offer_expired",
+  WEATHER_WARNING = "weather_warning",
+  WEATHER_CANCEL_APPROVAL = "weather_cancel_approval",
+  PLAYER_JOINED = "player_joined",
+  TEAMS_SELECTED = "teams_selected",
+  RSVP_REQUEST = "rsvp_request",
+  AVAILABILITY_POLL = "availability_poll"
+}
@@ -0,0 +1,189 @@
+/**
+ * Password Service - Keeps players' passwords safe and lets them recover their accounts
+ *
+ * Handles:
+ * - Hashing passwords with bcrypt, and checking them at login
+ * - Rehashing older plain text passwords (and ones hashed with fewer rounds)
+ *   the next time their owner logs in
+ * - Changing a password from the profile
+ * - Emailing single-use reset links for forgotten passwords
+ */
+
+import { createHash, randomBytes, timingSafeEqual } from "crypto";
+import bcrypt from "bcrypt";
+import { z } from "zod";
+import { storage } from "../storage";
+import { User, changePasswordSchema, passwordResetRequestSchema, passwordResetSchema } from "@shared/schema";
+import { PASSWORDS } from "../config";
+import { getEmailTransport, renderPasswordResetEmail } from "./email-service";
+
+// The result of changing or resetting a password
+export interface PasswordResult {
+  success: boolean;
+  message: string;
+  errors?: z.ZodIssue[];
+}
+
+// Sent whether or not the email belongs to anyone, so the form can't be used to find accounts
+const RESET_REQUESTED_MESSAGE = "If an account uses that email, we've sent it a link to reset the password";
+
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Whether a stored password is a bcrypt hash rather than legacy plain text
+ */
+export function isPasswordHash(value: string): boolean {
+  return /^\$2[aby]\$\d{2}\$/.test(value);
+}
+
+/**
+ * Hash a password for storing
+ */
+export async function hashPassword(password: string): Promise<string> {
+  return bcrypt.hash(password, PASSWORDS.BCRYPT_ROUNDS);
+}
+
+/**
+ * Check a password against the one stored for a user. A right password
+ * stored as plain text, or hashed with fewer rounds than configured, is
+ * rehashed on the way through.
+ * @param user User logging in
+ * @param password Password they entered
+ */
+export async function verifyPassword(user: User, password: string): Promise<boolean> {
+  let valid: boolean;
+  let needsRehash: boolean;
+
+  if (isPasswordHash(user.password)) {
+    valid = await bcrypt.compare(password, user.password);
+    needsRehash = bcrypt.getRounds(user.password) < PASSWORDS.BCRYPT_ROUNDS;
+  } else {
+    // Compare digests so the check takes the same time whatever the lengths
+    valid = timingSafeEqual(
+      Buffer.from(hashToken(password), "hex"),
+      Buffer.from(hashToken(user.password), "hex")
+    );
+    needsRehash = true;
+  }
+
+  if (valid && needsRehash) {
+    try {
+      await storage.updateUser(user.id, { password: await hashPassword(password) });
+    } catch (error) {
+      // They can still log in; the password gets rehashed next time
+      console.error(`Error rehashing password for user ${user.id}:`, error);
+    }
+  }
+
+  return valid;
+}
+
+/**
+ * Change a logged-in player's password
+ * @param user Player changing their password
+ * @param data Their current password and the new one
+ */
+export async function changePassword(user: User, data: unknown): Promise<PasswordResult> {
+  const parseResult = changePasswordSchema.safeParse(data);
+  if (!parseResult.success) {
+    return { success: false, message: "Invalid password", errors: parseResult.error.errors };
+  }
+
+  const { currentPassword, newPassword } = parseResult.data;
+
+  if (!(await verifyPassword(user, currentPassword))) {
+    return { success: false, message: "Your current password isn't right" };
+  }
+
+  if (currentPassword === newPassword) {
+    return { success: false, message: "Choose a password you're not already using" };
+  }
+
+  await storage.updateUser(user.id, { password: await hashPassword(newPassword) });
+
+  // A reset link sent before the change shouldn't be able to undo it
+  await storage.expirePasswordResetTokens(user.id);
+
+  return { success: true, message: "Password changed" };
+}
+
+/**
+ * Email a link to reset a forgotten password. The reply is the same whether
+ * or not the email belongs to an account.
+ * @param data The email address the account uses
+ */
+export async function requestPasswordReset(data: unknown): Promise<PasswordResult> {
+  const parseResult = passwordResetRequestSchema.safeParse(data);
+  if (!parseResult.success) {
+    return { success: false, message: "Invalid email address", errors: parseResult.error.errors };
+  }
+
+  const user = await storage.getUserByEmail(parseResult.data.email);
+  if (!user || user.isActive === false) {
+    return { success: true, message: RESET_REQUESTED_MESSAGE };
+  }
+
+  const previous = await storage.getLatestPasswordResetToken(user.id);
+  if (previous && !previous.usedAt) {
+    const waitMs = new Date(previous.createdAt).getTime() + PASSWORDS.RESET_REQUEST_COOLDOWN_SECONDS * 1000 - Date.now();
+    if (waitMs > 0) {
+      return { success: true, message: RESET_REQUESTED_MESSAGE };
+    }
+  }
+
+  // Only the newest link works
+  await storage.expirePasswordResetTokens(user.id);
+
+  const token = randomBytes(32).toString("base64url");
+  await storage.createPasswordResetToken({
+    userId: user.id,
+    tokenHash: hashToken(token),
+    expiresAt: new Date(Date.now() + PASSWORDS.RESET_TOKEN_EXPIRY_MINUTES * 60 * 1000)
+  });
+
+  const sent = await getEmailTransport().send(renderPasswordResetEmail(user, token));
+  if (!sent) {
+    console.error(`Error emailing password reset link to user ${user.id}`);
+  }
+
+  return { success: true, message: RESET_REQUESTED_MESSAGE };
+}
+
+/**
+ * Set a new password using the token from a reset link. Each link works once.
+ * @param data The token and the new password
+ */
+export async function resetPassword(data: unknown): Promise<PasswordResult> {
+  const parseResult = passwordResetSchema.safeParse(data);
+  if (!parseResult.success) {
+    return { success: false, message: "Invalid password", errors: parseResult.error.errors };
+  }
+
+  const { token, newPassword } = parseResult.data;
+
+  const resetToken = await storage.getPasswordResetTokenByHash(hashToken(token));
+  if (!resetToken || resetToken.usedAt) {
+    return { success: false, message: "This reset link isn't valid or has already been used. Ask for a new one." };
+  }
+
+  if (new Date(resetToken.expiresAt) <= new Date()) {
+    return { success: false, message: "This reset link has expired. Ask for a new one." };
+  }
+
+  const user = await storage.getUser(resetToken.userId);
+  if (!user) {
+    return { success: false, message: "This reset link isn't valid or has already been used. Ask for a new one." };
+  }
+
+  // Claiming the token first means two requests with the same link can't both reset the password
+  if (!(await storage.usePasswordResetToken(resetToken.id))) {
+    return { success: false, message: "This reset link isn't valid or has already been used. Ask for a new one." };
+  }
+
+  await storage.updateUser(user.id, { password: await hashPassword(newPassword) });
+  await storage.expirePasswordResetTokens(user.id);
+
+  return { success: true, message: "Password reset. You can now log in with your new password." };
+}
@@ -0,0 +1,228 @@
+/**
+ * Phone Verification Service - Confirms players own the numbers they give us
+ *
+ * Handles:
+ * - Sending one-time codes to a new number
+ * - Checking codes and saving the number once verified
+ * - Recording when players opt in to or out of WhatsApp messages
+ */
+
+import { createHash, randomInt, timingSafeEqual } from "crypto";
+import { storage } from "../storage";
+import { MessagingConsent, User } from "@shared/schema";
+import { PHONE_VERIFICATION } from "../config";
+import { VerificationSender, createVerificationSender } from "./verification-senders";
+
+// The result of a verification request or check
+export interface PhoneVerificationResult {
+  success: boolean;
+  message: string;
+  user?: User;
+  expiresAt?: Date;
+}
+
+export type ConsentSource = "profile" | "verification" | "reply";
+
+let sender: VerificationSender | null = null;
+
+/**
+ * Get the verification sender, creating the configured one on first use
+ */
+export function getVerificationSender(): VerificationSender {
+  if (!sender) {
+    sender = createVerificationSender(PHONE_VERIFICATION.SENDER);
+  }
+  return sender;
+}
+
+/**
+ * Swap the verification sender, e.g. for a test sender that keeps codes in memory
+ */
+export function setVerificationSender(newSender: VerificationSender): void {
+  sender = newSender;
+}
+
+function hashCode(code: string): string {
+  return createHash("sha256").update(code).digest("hex");
+}
+
+function generateCode(): string {
+  return randomInt(0, 10 ** PHONE_VERIFICATION.CODE_LENGTH)
+    .toString()
+    .padStart(PHONE_VERIFICATION.CODE_LENGTH, "0");
+}
+
+/**
+ * Send a code to a number the player wants to add. The number isn't saved
+ * to their profile until the code is entered.
+ * @param user Player adding the number
+ * @param phone Number in E.164 format
+ */
+export async function requestPhoneVerification(user: User, phone: string): Promise<PhoneVerificationResult> {
+  if (user.phone === phone && user.phoneVerifiedAt) {
+    return { success: false, message: "This number is already verified" };
+  }
+
+  const existingUser = await storage.getUserByPhone(phone);
+  if (existingUser && existingUser.id !== user.id) {
+    return { success: false, message: "This phone number is already in use" };
+  }
+
+  const previous = await storage.getLatestPhoneVerification(user.id);
+  if (previous && !previous.verifiedAt) {
+    const waitMs = new Date(previous.createdAt).getTime() + PHONE_VERIFICATION.RESEND_COOLDOWN_SECONDS * 1000 - Date.now();
+    if (waitMs > 0) {
+      return { success: false, message: `Please wait ${Math.ceil(waitMs / 1000)} seconds before asking for another code` };
+    }
+  }
+
+  const code = generateCode();
+  const verificationSender = getVerificationSender();
+  const sent = await verificationSender.send(
+    phone,
+    `Your KickBook code is ${code}. It expires in ${PHONE_VERIFICATION.CODE_EXPIRY_MINUTES} minutes.`
+  );
+  if (!sent) {
+    return { success: false, message: "We couldn't send a code to this number. Check it and try again." };
+  }
+
+  const expiresAt = new Date(Date.now() + PHONE_VERIFICATION.CODE_EXPIRY_MINUTES * 60 * 1000);
+  await storage.createPhoneVerification({
+    userId: user.id,
+    phone,
+    codeHash: hashCode(code),
+    channel: verificationSender.name,
+    expiresAt
+  });
+
+  return { success: true, message: `We've sent a code to ${phone}`, expiresAt };
+}
+
+/**
+ * Check a code the player entered and, if it's right, save the number as verified
+ * @param user Player verifying their number
+ * @param code Code they entered
+ * @param whatsappOptIn Whether they agreed to WhatsApp messages while verifying
+ */
+export async function confirmPhoneVerification(
+  user: User,
+  code: string,
+  whatsappOptIn?: boolean
+): Promise<PhoneVerificationResult> {
+  const verification = await storage.getLatestPhoneVerification(user.id);
+  if (!verification || verification.verifiedAt) {
+    return { success: false, message: "Ask for a code first" };
+  }
+
+  if (new Date(verification.expiresAt) <= new Date()) {
+    return { success: false, message: "This code has expired. Ask for a new one." };
+  }
+
+  // Every guess uses up an attempt before it's checked, so parallel guesses can't get past the limit
+  const claimed = await storage.claimPhoneVerificationAttempt(verification.id, PHONE_VERIFICATION.MAX_ATTEMPTS);
+  if (!claimed) {
+    return { success: false, message: "Too many wrong codes. Ask for a new one." };
+  }
+
+  const expected = Buffer.from(verification.codeHash, "hex");
+  const received = Buffer.from(hashCode(code), "hex");
+  if (!timingSafeEqual(expected, received)) {
+    return { success: false, message: "That code isn't right" };
+  }
+
+  // Someone else may have verified the number since the code was sent
+  const existingUser = await storage.getUserByPhone(verification.phone);
+  if (existingUser && existingUser.id !== user.id) {
+    return { success: false, message: "This phone number is already in use" };
+  }
+
+  const now = new Date();
+  await storage.updatePhoneVerification(verification.id, { verifiedAt: now });
+
+  // A new number starts without consent unless it was given while verifying
+  const optIn = whatsappOptIn ?? false;
+  const updatedUser = await storage.updateUser(user.id, {
+    phone: verification.phone,
+    phoneVerifiedAt: now,
+    whatsappOptIn: optIn
+  });
+  if (!updatedUser) {
+    return { success: false, message: "Player not found" };
+  }
+
+  if (optIn || user.whatsappOptIn) {
+    await storage.createMessagingConsent({
+      userId: user.id,
+      channel: "whatsapp",
+      optedIn: optIn,
+      source: "verification",
+      phone: verification.phone
+    });
+  }
+
+  return { success: true, message: "Your phone number has been verified", user: updatedUser };
+}
+
+/**
+ * Remove a player's phone number. They're opted out of messages with it.
+ * @param user Player removing their number
+ */
+export async function removePhoneNumber(user: User): Promise<User | undefined> {
+  if (user.whatsappOptIn) {
+    await storage.createMessagingConsent({
+      userId: user.id,
+      channel: "whatsapp",
+      optedIn: false,
+      source: "profile",
+      phone: user.phone
+    });
+  }
+
+  return storage.updateUser(user.id, { phone: null, phoneVerifiedAt: null, whatsappOptIn: false });
+}
+
+/**
+ * Opt a player in to or out of WhatsApp messages, keeping a record of it
+ * @param user Player changing their consent
+ * @param optedIn Whether they want messages
+ * @param source Where the change came from
+ */
+export async function setWhatsAppConsent(
+  user: User,
+  optedIn: boolean,
+  source: ConsentSource
+): Promise<PhoneVerificationResult> {
+  if (optedIn && !hasVerifiedPhone(user)) {
+    return { success: false, message: "Verify your phone number before turning on WhatsApp messages" };
+  }
+
+  if (user.whatsappOptIn === optedIn) {
+    return { success: true, message: "No change", user };
+  }
+
+  const updatedUser = await storage.updateUser(user.id, { whatsappOptIn: optedIn });
+  await storage.createMessagingConsent({
+    userId: user.id,
+    channel: "whatsapp",
+    optedIn,
+    source,
+    phone: user.phone
+  });
+
+  return {
+    success: true,
+    message: optedIn ? "You'll now get match messages on WhatsApp" : "You won't get any more WhatsApp messages",
+    user: updatedUser
+  };
+}
+
+/**
+ * Get a player's history of opting in and out, newest first
+ */
+export async function getConsentHistory(userId: number): Promise<MessagingConsent[]> {
+  return storage.getMessagingConsentsByUser(userId);
+}
+
+function hasVerifiedPhone(user: User): boolean {
+  return !!user.phone && !!user.phoneVerifiedAt;
+}
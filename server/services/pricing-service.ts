@@ -0,0 +1,343 @@
+/**
+ * Pricing Service - Splits pitch hire between the players in a match
+ *
+ * Handles:
+ * - Working out each player's share of a booking's pitch cost in credits
+ * - Defaulting the pitch cost from the venue's hourly rate
+ * - Settling up after kickoff: refunding or charging players the difference
+ *   from the final share, and recording the organiser's surplus or top-up
+ */
+
+import { storage } from "../storage";
+import { Booking, CostRounding, COST_ROUNDING_RULES, PitchCostEntry, PlayerBooking, Team, Venue } from "@shared/schema";
+import { PRICING } from "../config";
+import { schedulePeriodicJob } from "./job-service";
+
+// A player's share of a pitch cost
+export interface PlayerShare {
+  pitchCost: number;          // in £
+  playerCount: number;
+  creditValue: number;        // £ per credit
+  rounding: CostRounding;
+  exactShare: number;         // £ per player before rounding
+  creditsPerPlayer: number;
+  collected: number;          // £ collected if every player pays their share
+  balance: number;            // collected minus pitch cost: positive is a surplus, negative a top-up
+}
+
+// What a booking costs each player now and when it's full
+export interface BookingCostPreview {
+  pitchCost: number;
+  full: PlayerShare;             // Share if every slot is taken - what players pay when they join
+  current: PlayerShare | null;   // Share split between the players confirmed so far
+  settlement?: PitchCostEntry;   // Set once the booking has been settled
+}
+
+// The result of settling a booking's pitch cost
+export interface SettlementResult {
+  success: boolean;
+  message: string;
+  entry?: PitchCostEntry;
+}
+
+// Player booking statuses that owe a share of the pitch - no-shows still held a place
+const PAYING_STATUSES = ["confirmed", "no_show"];
+
+/**
+ * Get how a team rounds pitch cost shares to whole credits
+ */
+export function getTeamCostRounding(team: Team): CostRounding {
+  const rounding = team.costRounding || PRICING.DEFAULT_ROUNDING;
+  return (COST_ROUNDING_RULES as readonly string[]).includes(rounding)
+    ? rounding as CostRounding
+    : "up";
+}
+
+/**
+ * Get the value of one of a team's credits (in £)
+ */
+export function getTeamCreditValue(team: Team): number {
+  return team.creditValue && team.creditValue > 0 ? team.creditValue : PRICING.DEFAULT_CREDIT_VALUE;
+}
+
+/**
+ * Split a pitch cost between players, rounded to whole credits
+ * @param pitchCost Pitch hire (in £)
+ * @param playerCount Players sharing the cost
+ * @param creditValue Value of a credit (in £)
+ * @param rounding How to round each share to whole credits
+ */
+export function calculatePlayerShare(
+  pitchCost: number,
+  playerCount: number,
+  creditValue: number,
+  rounding: CostRounding
+): PlayerShare {
+  const players = Math.max(playerCount, 1);
+  const exactShare = pitchCost / players;
+  const exactCredits = exactShare / creditValue;
+
+  // Allow for floating point error so an exact split isn't pushed up or down a credit
+  let creditsPerPlayer: number;
+  switch (rounding) {
+    case "down":
+      creditsPerPlayer = Math.floor(exactCredits + 1e-9);
+      break;
+    case "nearest":
+      creditsPerPlayer = Math.round(exactCredits);
+      break;
+    default:
+      creditsPerPlayer = Math.ceil(exactCredits - 1e-9);
+  }
+
+  const collected = creditsPerPlayer * creditValue * playerCount;
+
+  return {
+    pitchCost,
+    playerCount,
+    creditValue,
+    rounding,
+    exactShare: Math.round(exactShare * 100) / 100,
+    creditsPerPlayer,
+    collected,
+    balance: Math.round((collected - pitchCost) * 100) / 100
+  };
+}
+
+/**
+ * Work out what a venue charges for a booking from its hourly rate
+ * @returns The pitch cost (in £), or null if the venue has no rate
+ */
+export function getVenuePitchCost(venue: Venue, startTime: Date, endTime: Date): number | null {
+  if (venue.costPerHour === null) return null;
+
+  const hours = (new Date(endTime).getTime() - new Date(startTime).getTime()) / (60 * 60 * 1000);
+  return Math.round(venue.costPerHour * hours * 100) / 100;
+}
+
+/**
+ * Price a booking or series being saved. Without a pitch cost given, a venue
+ * with an hourly rate supplies one. With a pitch cost, the credit cost is the
+ * share each player pays when every slot is taken.
+ * @param team Team the booking belongs to
+ * @param data The booking's pitch cost, venue, times and slots
+ * @returns The pitch cost and credit cost to save, or nothing to change
+ */
+export async function priceBooking(
+  team: Team,
+  data: {
+    pitchCost?: number | null;
+    venueId?: number | null;
+    startTime: Date;
+    endTime: Date;
+    totalSlots: number;
+  }
+): Promise<{ pitchCost?: number | null; creditCost?: number }> {
+  let pitchCost = data.pitchCost;
+
+  if (pitchCost === undefined && data.venueId) {
+    const venue = await storage.getVenue(data.venueId);
+    pitchCost = venue ? getVenuePitchCost(venue, data.startTime, data.endTime) : undefined;
+  }
+
+  if (pitchCost === undefined || pitchCost === null) {
+    return { pitchCost };
+  }
+
+  const share = calculatePlayerShare(pitchCost, data.totalSlots, getTeamCreditValue(team), getTeamCostRounding(team));
+  return { pitchCost, creditCost: share.creditsPerPlayer };
+}
+
+/**
+ * Show what a booking's pitch cost comes to per player
+ * @param booking Booking to preview
+ * @returns null if the booking has no pitch cost
+ */
+export async function previewBookingCost(booking: Booking): Promise<BookingCostPreview | null> {
+  if (booking.pitchCost === null) return null;
+
+  const team = await storage.getTeam(booking.teamId);
+  if (!team) return null;
+
+  const creditValue = getTeamCreditValue(team);
+  const rounding = getTeamCostRounding(team);
+  const playerBookings = await storage.getPlayerBookingsByBooking(booking.id);
+  const confirmedCount = playerBookings.filter(pb => PAYING_STATUSES.includes(pb.status)).length;
+
+  return {
+    pitchCost: booking.pitchCost,
+    full: calculatePlayerShare(booking.pitchCost, booking.totalSlots, creditValue, rounding),
+    current: confirmedCount > 0
+      ? calculatePlayerShare(booking.pitchCost, confirmedCount, creditValue, rounding)
+      : null,
+    settlement: await storage.getPitchCostEntryByBooking(booking.id)
+  };
+}
+
+/**
+ * Credits a player has paid towards a booking, from the ledger
+ */
+export async function getCreditsPaid(playerId: number, playerBookingId: number, bookingId: number): Promise<number> {
+  return sumLedgerPayments(playerId, new Set([
+    `booking-charge:${playerBookingId}`,
+    `booking-use:${bookingId}:user:${playerId}`,
+    `cost-settlement:${playerBookingId}`
+  ]));
+}
+
+async function sumLedgerPayments(playerId: number, keys: Set<string>): Promise<number> {
+  const entries = await storage.getLedgerEntriesByUser(playerId);
+  return entries
+    .filter(entry => keys.has(entry.idempotencyKey))
+    .reduce((paid, entry) => paid - entry.amount, 0);
+}
+
+/**
+ * Credits kept towards a booking: everything its players paid, less refunds.
+ * Players who canceled too late for a full refund count for what they kept.
+ */
+async function getCreditsCollected(bookingId: number, playerBookings: PlayerBooking[]): Promise<number> {
+  let collected = 0;
+
+  for (const playerId of Array.from(new Set(playerBookings.map(pb => pb.playerId)))) {
+    // A player who left and rejoined has one ledger key per player booking
+    const keys = new Set([`booking-use:${bookingId}:user:${playerId}`]);
+    for (const pb of playerBookings.filter(pb => pb.playerId === playerId)) {
+      keys.add(`booking-charge:${pb.id}`);
+      keys.add(`booking-refund:${pb.id}`);
+      keys.add(`cost-settlement:${pb.id}`);
+    }
+    collected += await sumLedgerPayments(playerId, keys);
+  }
+
+  return collected;
+}
+
+/**
+ * Settle a played booking's pitch cost. The cost is split between everyone
+ * who held a place, each player is refunded or charged the difference from
+ * what they paid when joining (never below a zero balance), and whatever is
+ * left over or short is recorded against the organiser. Safe to run more
+ * than once - a settled booking is left alone.
+ * @param bookingId Booking to settle
+ */
+export async function settleBookingCost(bookingId: number): Promise<SettlementResult> {
+  const booking = await storage.getBooking(bookingId);
+  if (!booking) {
+    return { success: false, message: "Booking not found" };
+  }
+
+  if (booking.pitchCost === null) {
+    return { success: false, message: "This booking has no pitch cost to split" };
+  }
+
+  if (booking.status === "canceled") {
+    return { success: false, message: "Canceled bookings have nothing to settle" };
+  }
+
+  const existing = await storage.getPitchCostEntryByBooking(bookingId);
+  if (existing) {
+    return { success: true, message: "Pitch cost already settled", entry: existing };
+  }
+
+  const team = await storage.getTeam(booking.teamId);
+  if (!team) {
+    return { success: false, message: "Team not found" };
+  }
+
+  const allPlayerBookings = await storage.getPlayerBookingsByBooking(bookingId);
+  const playerBookings = allPlayerBookings.filter(pb => PAYING_STATUSES.includes(pb.status));
+  const share = calculatePlayerShare(
+    booking.pitchCost,
+    playerBookings.length,
+    getTeamCreditValue(team),
+    getTeamCostRounding(team)
+  );
+
+  for (const pb of playerBookings) {
+    const paid = await getCreditsPaid(pb.playerId, pb.id, bookingId);
+    let difference = share.creditsPerPlayer - paid;
+
+    // Only charge what the player has; the organiser covers the rest
+    if (difference > 0) {
+      difference = Math.min(difference, await storage.getUserCredits(pb.playerId));
+    }
+
+    if (difference !== 0) {
+      await storage.addUserCredits(
+        pb.playerId,
+        -difference,
+        "cost_adjustment",
+        difference > 0
+          ? `Pitch cost share for ${booking.title}: ${share.playerCount} players`
+          : `Pitch cost refund for ${booking.title}: ${share.playerCount} players`,
+        team.ownerId,
+        `cost-settlement:${pb.id}`
+      );
+    }
+  }
+
+  const collected = await getCreditsCollected(bookingId, allPlayerBookings) * share.creditValue;
+  const entry = await storage.createPitchCostEntry({
+    teamId: team.id,
+    bookingId,
+    pitchCost: booking.pitchCost,
+    playerCount: share.playerCount,
+    creditsPerPlayer: share.creditsPerPlayer,
+    creditValue: share.creditValue,
+    collected,
+    amount: Math.round((collected - booking.pitchCost) * 100) / 100
+  });
+
+  // Another run got there first
+  if (!entry) {
+    return {
+      success: true,
+      message: "Pitch cost already settled",
+      entry: await storage.getPitchCostEntryByBooking(bookingId)
+    };
+  }
+
+  return {
+    success: true,
+    message: entry.amount >= 0
+      ? `Pitch cost settled with a £${entry.amount.toFixed(2)} surplus`
+      : `Pitch cost settled - the organiser tops up £${(-entry.amount).toFixed(2)}`,
+    entry
+  };
+}
+
+/**
+ * Settle the pitch cost of every booking that has kicked off
+ * @returns Number of bookings settled
+ */
+export async function settlePlayedBookings(now: Date = new Date()): Promise<number> {
+  const bookings = await storage.getAllBookings();
+  let settled = 0;
+
+  for (const booking of bookings) {
+    if (booking.pitchCost === null || booking.status === "canceled") continue;
+    if (new Date(booking.startTime) > now) continue;
+    if (await storage.getPitchCostEntryByBooking(booking.id)) continue;
+
+    const result = await settleBookingCost(booking.id);
+    if (result.success) settled++;
+  }
+
+  return settled;
+}
+
+/**
+ * Setup scheduled settlement of pitch costs once matches kick off
+ * Should be called on server startup
+ */
+export function scheduleCostSettlements(): void {
+  schedulePeriodicJob("cost_settlement", PRICING.SETTLEMENT_INTERVAL_MINUTES, async () => {
+    const settledCount = await settlePlayedBookings();
+    if (settledCount > 0) {
+      console.log(`Settled pitch costs for ${settledCount} booking(s)`);
+    }
+  });
+
+  console.log("Pitch cost settlement scheduler initialized");
+}
@@ -0,0 +1,150 @@
+/**
+ * Push Service - Sends web push notifications to players' browsers
+ *
+ * Handles:
+ * - Setting up web push with the server's VAPID keys
+ * - Saving and removing the browsers players have allowed notifications on
+ * - Sending a notification to every device a player has subscribed
+ * - Removing subscriptions the push service says are gone or have expired
+ */
+
+import webpush from "web-push";
+import { storage } from "../storage";
+import { PushSubscription } from "@shared/schema";
+import { PUSH } from "../config";
+import { schedulePeriodicJob } from "./job-service";
+
+// What the service worker receives and shows
+export interface PushPayload {
+  title: string;
+  body: string;
+  url: string;   // Page to open when the notification is clicked
+  tag?: string;  // Notifications with the same tag replace each other
+}
+
+let configured = false;
+
+/**
+ * Whether VAPID keys are set, so push notifications can be sent
+ */
+export function isPushConfigured(): boolean {
+  return !!PUSH.VAPID_PUBLIC_KEY && !!PUSH.VAPID_PRIVATE_KEY;
+}
+
+function ensureConfigured(): boolean {
+  if (!isPushConfigured()) return false;
+
+  if (!configured) {
+    webpush.setVapidDetails(PUSH.VAPID_SUBJECT, PUSH.VAPID_PUBLIC_KEY, PUSH.VAPID_PRIVATE_KEY);
+    configured = true;
+  }
+  return true;
+}
+
+/**
+ * Save a browser's subscription for a player
+ * @param userId Player who allowed notifications
+ * @param subscription Subscription from the browser's PushSubscription.toJSON()
+ * @param userAgent Browser the subscription came from
+ */
+export async function savePushSubscription(
+  userId: number,
+  subscription: { endpoint: string; expirationTime?: number | null; keys: { p256dh: string; auth: string } },
+  userAgent?: string
+): Promise<PushSubscription> {
+  return storage.savePushSubscription({
+    userId,
+    endpoint: subscription.endpoint,
+    p256dh: subscription.keys.p256dh,
+    auth: subscription.keys.auth,
+    userAgent: userAgent ?? null,
+    expiresAt: subscription.expirationTime ? new Date(subscription.expirationTime) : null
+  });
+}
+
+/**
+ * Remove one of a player's subscriptions, e.g. when they turn notifications off on a device
+ * @returns Whether the subscription was found
+ */
+export async function removePushSubscription(userId: number, endpoint: string): Promise<boolean> {
+  const subscriptions = await storage.getPushSubscriptionsByUser(userId);
+  if (!subscriptions.some(subscription => subscription.endpoint === endpoint)) {
+    return false;
+  }
+  return storage.deletePushSubscription(endpoint);
+}
+
+/**
+ * Send a notification to one device, removing the subscription if the push
+ * service says it no longer exists
+ * @returns Whether the push service accepted the notification
+ */
+async function sendToSubscription(subscription: PushSubscription, payload: PushPayload): Promise<boolean> {
+  try {
+    await webpush.sendNotification(
+      { endpoint: subscription.endpoint, keys: { p256dh: subscription.p256dh, auth: subscription.auth } },
+      JSON.stringify(payload),
+      { TTL: PUSH.TTL_SECONDS }
+    );
+    await storage.markPushSubscriptionUsed(subscription.id, new Date());
+    return true;
+  } catch (error: any) {
+    // 404 and 410 mean the player unsubscribed or the subscription expired
+    if (error?.statusCode === 404 || error?.statusCode === 410) {
+      await storage.deletePushSubscription(subscription.endpoint);
+      console.log(`Removed expired push subscription ${subscription.id} for user ${subscription.userId}`);
+    } else {
+      console.error(`Error sending push notification to user ${subscription.userId}:`, error);
+    }
+    return false;
+  }
+}
+
+/**
+ * Send a notification to every device a player has subscribed
+ * @returns Whether it reached at least one device
+ */
+export async function sendPushToUser(userId: number, payload: PushPayload): Promise<boolean> {
+  if (!ensureConfigured()) return false;
+
+  const subscriptions = await storage.getPushSubscriptionsByUser(userId);
+  let delivered = false;
+
+  for (const subscription of subscriptions) {
+    if (await sendToSubscription(subscription, payload)) {
+      delivered = true;
+    }
+  }
+
+  return delivered;
+}
+
+/**
+ * Whether a player has subscribed any devices
+ */
+export async function hasPushSubscriptions(userId: number): Promise<boolean> {
+  return (await storage.getPushSubscriptionsByUser(userId)).length > 0;
+}
+
+/**
+ * Remove subscriptions past the expiry time their push service gave
+ * @returns Number of subscriptions removed
+ */
+export async function cleanupExpiredPushSubscriptions(now: Date = new Date()): Promise<number> {
+  return storage.deleteExpiredPushSubscriptions(now);
+}
+
+/**
+ * Schedule background task to remove expired push subscriptions
+ * Should be called on server startup
+ */
+export function schedulePushSubscriptionCleanup(): void {
+  schedulePeriodicJob("push_cleanup", PUSH.CLEANUP_INTERVAL_HOURS * 60, async () => {
+    const removedCount = await cleanupExpiredPushSubscriptions();
+    if (removedCount > 0) {
+      console.log(`Removed ${removedCount} expired push subscription(s)`);
+    }
+  });
+
+  console.log("Push subscription cleanup scheduler initialized");
+}
@@ -0,0 +1,191 @@
+/**
+ * Rating Service - Elo-style skill ratings for players
+ *
+ * Handles:
+ * - Updating player ratings from the result of each match
+ * - Keeping a rating history per player
+ * - Looking up current ratings for team balancing
+ */
+
+import { storage } from "../storage";
+import { PlayerRating, InsertPlayerRating } from "@shared/schema";
+import { PLAYER_RATINGS } from "../config";
+
+// A player's current rating
+export interface PlayerRatingSummary {
+  playerId: number;
+  rating: number;
+  gamesPlayed: number;
+  provisional: boolean;
+}
+
+// The players on each side of a match. teamScore in matchStats belongs to
+// home (line-up side A); away is empty when the team played an outside opponent.
+export interface MatchSides {
+  home: number[];
+  away: number[];
+}
+
+type MatchResult = "win" | "draw" | "loss";
+
+/**
+ * Get a player's current rating, or the starting rating if they haven't played a rated match
+ * @param playerId Player to get the rating for
+ */
+export async function getPlayerRating(playerId: number): Promise<PlayerRatingSummary> {
+  const latest = await storage.getLatestPlayerRating(playerId);
+  const gamesPlayed = latest?.gamesPlayed || 0;
+
+  return {
+    playerId,
+    rating: latest ? latest.rating : PLAYER_RATINGS.INITIAL_RATING,
+    gamesPlayed,
+    provisional: gamesPlayed < PLAYER_RATINGS.PROVISIONAL_GAMES
+  };
+}
+
+/**
+ * Get current ratings for several players
+ * @param playerIds Players to get ratings for
+ * @returns Map of player ID to rating
+ */
+export async function getPlayerRatings(playerIds: number[]): Promise<Map<number, number>> {
+  const ratings = new Map<number, number>();
+
+  for (const playerId of playerIds) {
+    ratings.set(playerId, (await getPlayerRating(playerId)).rating);
+  }
+
+  return ratings;
+}
+
+/**
+ * Chance of a side rated ratingA beating a side rated ratingB (a draw counts as half)
+ */
+export function expectedScore(ratingA: number, ratingB: number): number {
+  return 1 / (1 + Math.pow(10, (ratingB - ratingA) / PLAYER_RATINGS.SCALE));
+}
+
+/**
+ * Scale rating changes up for bigger wins, so a 6-0 counts for more than a 1-0
+ * @param goalDifference Absolute goal difference
+ */
+function marginMultiplier(goalDifference: number): number {
+  if (goalDifference <= 1) return 1;
+  if (goalDifference === 2) return 1.5;
+  return (11 + goalDifference) / 8;
+}
+
+/**
+ * Work out who played on each side of a match. A saved line-up decides the
+ * sides; without one, players with stats recorded for the match count as
+ * having played for the team, or failing that everyone confirmed for it.
+ * @param bookingId Booking the match was played in
+ */
+export async function getMatchSides(bookingId: number): Promise<MatchSides> {
+  const lineup = await storage.getMatchLineup(bookingId);
+  if (lineup.length > 0) {
+    return {
+      home: lineup.filter(entry => entry.side === "A").map(entry => entry.playerId),
+      away: lineup.filter(entry => entry.side === "B").map(entry => entry.playerId)
+    };
+  }
+
+  const playerStats = await storage.getPlayerStatsByBooking(bookingId);
+  if (playerStats.length > 0) {
+    return { home: Array.from(new Set(playerStats.map(stat => stat.playerId))), away: [] };
+  }
+
+  const playerBookings = await storage.getPlayerBookingsByBooking(bookingId);
+  return {
+    home: playerBookings.filter(pb => pb.status === "confirmed").map(pb => pb.playerId),
+    away: []
+  };
+}
+
+/**
+ * Update the ratings of everyone who played in a match from its recorded result.
+ * Calling it again after the result is corrected re-rates the match, unless
+ * any of the players have been rated in a later match since.
+ * @param bookingId Booking the match was played in
+ * @returns The rating entries recorded for the match
+ */
+export async function updateRatingsForMatch(bookingId: number): Promise<PlayerRating[]> {
+  try {
+    const matchStats = await storage.getMatchStatsByBooking(bookingId);
+    if (!matchStats) return [];
+
+    const sides = await getMatchSides(bookingId);
+    const existing = await storage.getPlayerRatingsByBooking(bookingId);
+    const existingByPlayer = new Map(existing.map(entry => [entry.playerId, entry]));
+
+    // Later matches were rated from this result, so it can't be changed now
+    for (const entry of existing) {
+      const latest = await storage.getLatestPlayerRating(entry.playerId);
+      if (latest && latest.id !== entry.id) {
+        console.warn(`Not re-rating booking ${bookingId}: player ${entry.playerId} has been rated since`);
+        return existing;
+      }
+    }
+
+    // Find each player's rating going into the match
+    const before = new Map<number, { rating: number; gamesPlayed: number }>();
+    for (const playerId of [...sides.home, ...sides.away]) {
+      const previous = existingByPlayer.get(playerId);
+
+      if (previous) {
+        before.set(playerId, { rating: previous.previousRating, gamesPlayed: previous.gamesPlayed - 1 });
+      } else {
+        const latest = await storage.getLatestPlayerRating(playerId);
+        before.set(playerId, {
+          rating: latest ? latest.rating : PLAYER_RATINGS.INITIAL_RATING,
+          gamesPlayed: latest ? latest.gamesPlayed : 0
+        });
+      }
+    }
+
+    if (sides.home.length === 0) return [];
+
+    const sideRating = (playerIds: number[]) => playerIds.length > 0
+      ? playerIds.reduce((sum, id) => sum + before.get(id)!.rating, 0) / playerIds.length
+      : PLAYER_RATINGS.EXTERNAL_OPPONENT_RATING;
+
+    const homeRating = sideRating(sides.home);
+    const awayRating = sideRating(sides.away);
+
+    const teamScore = matchStats.teamScore || 0;
+    const opponentScore = matchStats.opponentScore || 0;
+    const homeResult: MatchResult = teamScore > opponentScore ? "win" : teamScore === opponentScore ? "draw" : "loss";
+    const awayResult: MatchResult = homeResult === "win" ? "loss" : homeResult === "loss" ? "win" : "draw";
+    const multiplier = marginMultiplier(Math.abs(teamScore - opponentScore));
+
+    const rate = (playerId: number, result: MatchResult, expected: number): InsertPlayerRating => {
+      const { rating, gamesPlayed } = before.get(playerId)!;
+      const actual = result === "win" ? 1 : result === "draw" ? 0.5 : 0;
+      const kFactor = gamesPlayed < PLAYER_RATINGS.PROVISIONAL_GAMES
+        ? PLAYER_RATINGS.PROVISIONAL_K_FACTOR
+        : PLAYER_RATINGS.K_FACTOR;
+      const change = Math.round(kFactor * multiplier * (actual - expected) * 10) / 10;
+
+      return {
+        playerId,
+        bookingId,
+        rating: rating + change,
+        previousRating: rating,
+        change,
+        gamesPlayed: gamesPlayed + 1,
+        result
+      };
+    };
+
+    const ratings = [
+      ...sides.home.map(id => rate(id, homeResult, expectedScore(homeRating, awayRating))),
+      ...sides.away.map(id => rate(id, awayResult, expectedScore(awayRating, homeRating)))
+    ];
+
+    return await storage.replaceMatchRatings(bookingId, ratings);
+  } catch (error) {
+    console.error(`Error updating ratings for booking ${bookingId}:`, error);
+    return [];
+  }
+}
@@ -0,0 +1,484 @@
+/**
+ * Recurring Booking Service - Turns recurring series rules into real bookings
+ *
+ * Handles:
+ * - Expanding a weekly/fortnightly/monthly rule into occurrence dates
+ * - Materialising upcoming occurrences as bookings on a schedule
+ * - Editing a single occurrence or an occurrence and all following ones
+ * - Removing occurrences that drop out of a rule (skip dates, earlier end)
+ * - Skipping a single occurrence
+ */
+
+import { addDays, addMonths, addWeeks, format } from "date-fns";
+import { storage } from "../storage";
+import { Booking, BookingSeries } from "@shared/schema";
+import { RECURRING_BOOKINGS } from "../config";
+import { cancelEntireBooking } from "./cancellation-service";
+import { queueBookingCalendarSync } from "./calendar-service";
+import { schedulePeriodicJob } from "./job-service";
+
+export type SeriesFrequency = "weekly" | "fortnightly" | "monthly";
+
+// Which occurrences an edit to a series booking applies to
+export type SeriesEditScope = "this" | "following";
+
+// Booking fields that are shared by every occurrence in a series
+export interface SeriesTemplateChanges {
+  title?: string;
+  location?: string;
+  venueId?: number | null;
+  format?: string;
+  startTime?: Date;
+  endTime?: Date;
+  totalSlots?: number;
+  creditCost?: number;
+  pitchCost?: number | null;
+}
+
+/**
+ * Get the start of the nth occurrence (zero-based) of a series.
+ * Occurrences are always computed from the first start so monthly
+ * rules don't drift after a short month.
+ */
+export function getOccurrenceStart(series: BookingSeries, index: number): Date {
+  const firstStart = new Date(series.firstStartTime);
+
+  switch (series.frequency as SeriesFrequency) {
+    case "fortnightly":
+      return addWeeks(firstStart, index * 2);
+    case "monthly":
+      return addMonths(firstStart, index);
+    case "weekly":
+    default:
+      return addWeeks(firstStart, index);
+  }
+}
+
+/**
+ * Format an occurrence date the same way skip dates are stored
+ */
+export function toSkipDateKey(date: Date): string {
+  return format(date, "yyyy-MM-dd");
+}
+
+/**
+ * List the occurrence start times of a series up to a given date.
+ * Skipped dates still count towards the occurrence count, so skipping
+ * a week does not push the series end back.
+ * @param series The series rule
+ * @param until Latest start time to include
+ */
+export function generateOccurrenceDates(series: BookingSeries, until: Date): Date[] {
+  const skipDates = new Set((series.skipDates as string[] | null) || []);
+  const endDate = series.endDate ? new Date(series.endDate) : null;
+  const maxOccurrences = Math.min(
+    series.occurrenceCount || RECURRING_BOOKINGS.MAX_OCCURRENCES,
+    RECURRING_BOOKINGS.MAX_OCCURRENCES
+  );
+
+  const dates: Date[] = [];
+  for (let index = 0; index < maxOccurrences; index++) {
+    const start = getOccurrenceStart(series, index);
+
+    if (start > until) break;
+    if (endDate && start > endDate) break;
+    if (skipDates.has(toSkipDateKey(start))) continue;
+
+    dates.push(start);
+  }
+
+  return dates;
+}
+
+/**
+ * Count how many occurrences (including skipped ones) start before a date
+ */
+function countOccurrencesBefore(series: BookingSeries, date: Date): number {
+  let index = 0;
+  while (index < RECURRING_BOOKINGS.MAX_OCCURRENCES && getOccurrenceStart(series, index) < date) {
+    index++;
+  }
+  return index;
+}
+
+/**
+ * Whether a series can still produce occurrences after the given time
+ */
+function hasFutureOccurrences(series: BookingSeries, now: Date): boolean {
+  const maxOccurrences = Math.min(
+    series.occurrenceCount || RECURRING_BOOKINGS.MAX_OCCURRENCES,
+    RECURRING_BOOKINGS.MAX_OCCURRENCES
+  );
+  const lastStart = getOccurrenceStart(series, maxOccurrences - 1);
+  const lastPossible = series.endDate && new Date(series.endDate) < lastStart
+    ? new Date(series.endDate)
+    : lastStart;
+
+  return lastPossible > now;
+}
+
+/**
+ * Create bookings for every occurrence inside the materialisation window
+ * that doesn't exist yet
+ * @param series The series to materialise
+ * @param now Reference time, defaults to the current time
+ * @returns The newly created bookings
+ */
+export async function materializeSeries(series: BookingSeries, now: Date = new Date()): Promise<Booking[]> {
+  if (!series.isActive) return [];
+
+  const until = addDays(now, RECURRING_BOOKINGS.MATERIALIZE_DAYS_AHEAD);
+  const existingBookings = await storage.getBookingsBySeries(series.id);
+  const existingStarts = new Set(
+    existingBookings
+      .filter(booking => booking.seriesOccurrenceStart)
+      .map(booking => new Date(booking.seriesOccurrenceStart!).getTime())
+  );
+
+  const created: Booking[] = [];
+  for (const start of generateOccurrenceDates(series, until)) {
+    if (start <= now || existingStarts.has(start.getTime())) continue;
+
+    const booking = await storage.createBooking({
+      teamId: series.teamId,
+      title: series.title,
+      location: series.location,
+      venueId: series.venueId,
+      format: series.format,
+      startTime: start,
+      endTime: new Date(start.getTime() + series.durationMinutes * 60 * 1000),
+      totalSlots: series.totalSlots,
+      availableSlots: series.totalSlots,
+      isRecurring: true,
+      creditCost: series.creditCost,
+      pitchCost: series.pitchCost,
+      status: "active",
+      seriesId: series.id,
+      seriesOccurrenceStart: start
+    });
+    await queueBookingCalendarSync(booking);
+    created.push(booking);
+  }
+
+  await storage.updateBookingSeries(series.id, {
+    lastMaterializedAt: now,
+    isActive: hasFutureOccurrences(series, now)
+  });
+
+  if (created.length > 0) {
+    console.log(`Generated ${created.length} bookings for series ${series.id} - ${series.title}`);
+  }
+
+  return created;
+}
+
+/**
+ * Materialise upcoming occurrences for all active series
+ * This should be scheduled to run daily
+ */
+export async function materializeAllSeries(): Promise<void> {
+  try {
+    const activeSeries = await storage.getActiveBookingSeries();
+    console.log(`Materialising bookings for ${activeSeries.length} recurring series`);
+
+    for (const series of activeSeries) {
+      try {
+        await materializeSeries(series);
+      } catch (error) {
+        console.error(`Error materialising series ${series.id}:`, error);
+      }
+    }
+  } catch (error) {
+    console.error("Error materialising recurring bookings:", error);
+  }
+}
+
+/**
+ * Take an occurrence off the calendar. Empty bookings are deleted; bookings
+ * with players are canceled so everyone is refunded and notified.
+ */
+async function removeOccurrence(booking: Booking, userId: number, reason: string): Promise<void> {
+  const playerBookings = await storage.getPlayerBookingsByBooking(booking.id);
+  const hasPlayers = playerBookings.some(pb => pb.status !== "canceled");
+
+  if (hasPlayers) {
+    await cancelEntireBooking(userId, booking.id, reason);
+  } else {
+    await storage.deleteBooking(booking.id);
+    await queueBookingCalendarSync(booking, true);
+  }
+}
+
+/**
+ * Remove future occurrences that are no longer part of a series rule,
+ * e.g. after adding a skip date or bringing the end date forward.
+ * Empty bookings are deleted; bookings with players are canceled so
+ * everyone is refunded and notified.
+ * @param series The (updated) series rule
+ * @param userId Admin making the change
+ */
+export async function removeOrphanedOccurrences(series: BookingSeries, userId: number): Promise<number> {
+  const now = new Date();
+  const bookings = await storage.getBookingsBySeries(series.id);
+  const futureBookings = bookings.filter(booking =>
+    booking.status !== "canceled" && new Date(booking.startTime) > now
+  );
+  if (futureBookings.length === 0) return 0;
+
+  const latestStart = futureBookings.reduce((latest, booking) => {
+    const start = new Date(booking.seriesOccurrenceStart || booking.startTime);
+    return start > latest ? start : latest;
+  }, now);
+  const validStarts = new Set(
+    series.isActive
+      ? generateOccurrenceDates(series, latestStart).map(date => date.getTime())
+      : []
+  );
+
+  let removed = 0;
+  for (const booking of futureBookings) {
+    const occurrenceStart = new Date(booking.seriesOccurrenceStart || booking.startTime);
+    if (validStarts.has(occurrenceStart.getTime())) continue;
+
+    await removeOccurrence(booking, userId, "Removed from recurring series");
+    removed++;
+  }
+
+  return removed;
+}
+
+/**
+ * Skip one occurrence of a series. Its date becomes a skip date, so the
+ * series doesn't generate it again.
+ * @param booking The occurrence to skip
+ * @param userId Admin skipping it
+ */
+export async function skipSeriesOccurrence(booking: Booking, userId: number): Promise<void> {
+  const series = booking.seriesId ? await storage.getBookingSeries(booking.seriesId) : undefined;
+  if (series) {
+    const skipDates = (series.skipDates as string[] | null) || [];
+    const skipDate = toSkipDateKey(new Date(booking.seriesOccurrenceStart || booking.startTime));
+    if (!skipDates.includes(skipDate)) {
+      await storage.updateBookingSeries(series.id, { skipDates: [...skipDates, skipDate].sort() });
+    }
+  }
+
+  await removeOccurrence(booking, userId, "Session skipped");
+}
+
+/**
+ * Apply shared booking fields to an existing booking, keeping the
+ * number of players already booked when the slot count changes
+ */
+function buildOccurrenceUpdate(booking: Booking, changes: SeriesTemplateChanges): Partial<Booking> {
+  const update: Partial<Booking> = {};
+
+  if (changes.title !== undefined) update.title = changes.title;
+  if (changes.location !== undefined) update.location = changes.location;
+  if (changes.venueId !== undefined) update.venueId = changes.venueId;
+  if (changes.format !== undefined) update.format = changes.format;
+  if (changes.creditCost !== undefined) update.creditCost = changes.creditCost;
+  if (changes.pitchCost !== undefined) update.pitchCost = changes.pitchCost;
+
+  if (changes.totalSlots !== undefined) {
+    const bookedSlots = booking.totalSlots - booking.availableSlots;
+    update.totalSlots = changes.totalSlots;
+    update.availableSlots = Math.max(0, changes.totalSlots - bookedSlots);
+  }
+
+  return update;
+}
+
+/**
+ * Update the rule of a series (title, slots, skip dates, end conditions).
+ * Changes to shared fields are applied to all future occurrences that
+ * haven't been edited individually.
+ * @param seriesId The series to update
+ * @param changes Fields to change
+ * @param userId Admin making the change
+ */
+export async function updateSeriesRule(
+  seriesId: number,
+  changes: Partial<Pick<BookingSeries,
+    "title" | "location" | "venueId" | "format" | "totalSlots" | "creditCost" | "pitchCost" | "endDate" | "occurrenceCount" | "skipDates"
+  >>,
+  userId: number
+): Promise<BookingSeries> {
+  const series = await storage.getBookingSeries(seriesId);
+  if (!series) {
+    throw new Error(`Booking series with ID ${seriesId} not found`);
+  }
+
+  const now = new Date();
+
+  // A stopped series stays stopped; one that only ran out of occurrences picks up
+  // again if the new end conditions allow more
+  const ranOut = !series.isActive && !hasFutureOccurrences(series, now);
+  const updatedSeries = await storage.updateBookingSeries(seriesId, { ...changes, isActive: series.isActive || ranOut });
+  if (!updatedSeries) {
+    throw new Error(`Failed to update booking series ${seriesId}`);
+  }
+
+  const bookings = await storage.getBookingsBySeries(seriesId);
+  for (const booking of bookings) {
+    if (booking.isSeriesException || new Date(booking.startTime) <= now) continue;
+
+    const update = buildOccurrenceUpdate(booking, changes as SeriesTemplateChanges);
+    if (Object.keys(update).length > 0) {
+      const updatedBooking = await storage.updateBooking(booking.id, update);
+      if (updatedBooking) await queueBookingCalendarSync(updatedBooking);
+    }
+  }
+
+  await removeOrphanedOccurrences(updatedSeries, userId);
+  await materializeSeries(updatedSeries, now);
+
+  return (await storage.getBookingSeries(seriesId)) || updatedSeries;
+}
+
+/**
+ * Stop a series: no more occurrences are generated and future ones are removed
+ * @param seriesId The series to stop
+ * @param userId Admin stopping the series
+ */
+export async function stopSeries(seriesId: number, userId: number): Promise<number> {
+  const series = await storage.getBookingSeries(seriesId);
+  if (!series) {
+    throw new Error(`Booking series with ID ${seriesId} not found`);
+  }
+
+  const stoppedSeries = await storage.updateBookingSeries(seriesId, { isActive: false });
+  return removeOrphanedOccurrences(stoppedSeries || { ...series, isActive: false }, userId);
+}
+
+/**
+ * Edit a booking that belongs to a series.
+ *
+ * - "this" changes only the given occurrence and marks it as an exception
+ * - "following" splits the series at this occurrence: the original rule
+ *   ends just before it and a new rule with the changes takes over
+ *
+ * @param bookingId The occurrence being edited
+ * @param changes Fields to change
+ * @param scope Which occurrences the edit applies to
+ * @returns The updated occurrence
+ */
+export async function updateSeriesOccurrence(
+  bookingId: number,
+  changes: SeriesTemplateChanges,
+  scope: SeriesEditScope
+): Promise<Booking | undefined> {
+  const booking = await storage.getBooking(bookingId);
+  if (!booking) {
+    throw new Error(`Booking with ID ${bookingId} not found`);
+  }
+
+  const series = booking.seriesId ? await storage.getBookingSeries(booking.seriesId) : undefined;
+
+  if (!series || scope === "this") {
+    const updatedBooking = await storage.updateBooking(bookingId, {
+      ...buildOccurrenceUpdate(booking, changes),
+      ...(changes.startTime && { startTime: changes.startTime }),
+      ...(changes.endTime && { endTime: changes.endTime }),
+      isSeriesException: !!series
+    });
+    if (updatedBooking) await queueBookingCalendarSync(updatedBooking);
+    return updatedBooking;
+  }
+
+  // Work out how the edit moves the occurrence in time
+  const occurrenceStart = new Date(booking.seriesOccurrenceStart || booking.startTime);
+  const newStartTime = changes.startTime || new Date(booking.startTime);
+  const newEndTime = changes.endTime
+    || new Date(newStartTime.getTime() + (booking.endTime.getTime() - booking.startTime.getTime()));
+  const startDelta = newStartTime.getTime() - new Date(booking.startTime).getTime();
+  const durationMinutes = Math.round((newEndTime.getTime() - newStartTime.getTime()) / (60 * 1000));
+
+  const template = {
+    title: changes.title ?? series.title,
+    location: changes.location ?? series.location,
+    venueId: changes.venueId !== undefined ? changes.venueId : series.venueId,
+    format: changes.format ?? series.format,
+    totalSlots: changes.totalSlots ?? series.totalSlots,
+    creditCost: changes.creditCost ?? series.creditCost,
+    pitchCost: changes.pitchCost !== undefined ? changes.pitchCost : series.pitchCost,
+    durationMinutes
+  };
+
+  let targetSeries: BookingSeries;
+  const isFirstOccurrence = occurrenceStart.getTime() === new Date(series.firstStartTime).getTime();
+
+  if (isFirstOccurrence) {
+    // Editing from the very first occurrence is just an edit of the rule itself
+    targetSeries = (await storage.updateBookingSeries(series.id, {
+      ...template,
+      firstStartTime: new Date(occurrenceStart.getTime() + startDelta)
+    })) || series;
+  } else {
+    const precedingCount = countOccurrencesBefore(series, occurrenceStart);
+
+    await storage.updateBookingSeries(series.id, {
+      endDate: new Date(occurrenceStart.getTime() - 1),
+      occurrenceCount: series.occurrenceCount ? precedingCount : null
+    });
+
+    targetSeries = await storage.createBookingSeries({
+      teamId: series.teamId,
+      createdBy: series.createdBy,
+      ...template,
+      frequency: series.frequency,
+      firstStartTime: new Date(occurrenceStart.getTime() + startDelta),
+      endDate: series.endDate,
+      occurrenceCount: series.occurrenceCount ? series.occurrenceCount - precedingCount : null,
+      skipDates: (series.skipDates as string[] | null) || [],
+      isActive: true
+    });
+  }
+
+  // Move this and all following occurrences over to the new rule. The furthest
+  // occurrence in the direction of the shift goes first, so two occurrences of
+  // the same series never share a start along the way.
+  const occurrenceTime = (occurrence: Booking) =>
+    new Date(occurrence.seriesOccurrenceStart || occurrence.startTime).getTime();
+  const seriesBookings = (await storage.getBookingsBySeries(series.id))
+    .sort((a, b) => startDelta > 0 ? occurrenceTime(b) - occurrenceTime(a) : occurrenceTime(a) - occurrenceTime(b));
+  for (const occurrence of seriesBookings) {
+    const start = new Date(occurrence.seriesOccurrenceStart || occurrence.startTime);
+    if (start < occurrenceStart) continue;
+
+    const shiftedOccurrenceStart = new Date(start.getTime() + startDelta);
+    const update: Partial<Booking> = {
+      seriesId: targetSeries.id,
+      seriesOccurrenceStart: shiftedOccurrenceStart
+    };
+
+    if (occurrence.id === bookingId || !occurrence.isSeriesException) {
+      Object.assign(update, buildOccurrenceUpdate(occurrence, changes), {
+        startTime: shiftedOccurrenceStart,
+        endTime: new Date(shiftedOccurrenceStart.getTime() + durationMinutes * 60 * 1000),
+        isSeriesException: false
+      });
+    }
+
+    const updatedOccurrence = await storage.updateBooking(occurrence.id, update);
+    if (updatedOccurrence) await queueBookingCalendarSync(updatedOccurrence);
+  }
+
+  await materializeSeries(targetSeries);
+
+  return storage.getBooking(bookingId);
+}
+
+/**
+ * Setup scheduled generation of recurring bookings
+ * Should be called on server startup
+ */
+export function scheduleRecurringBookings(): void {
+  // Runs once a day
+  schedulePeriodicJob('recurring_bookings', 24 * 60, async () => {
+    console.log('Running scheduled recurring booking generation...');
+    await materializeAllSeries();
+  });
+
+  console.log('Recurring booking scheduler initialized');
+}
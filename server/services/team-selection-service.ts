@@ -1,6 +1,8 @@
-import { User, Booking, PlayerStats, Team } from '@shared/schema';
+import { User, Booking, Team, PairConstraint, insertPairConstraintSchema } from '@shared/schema';
 import { storage } from '../storage';
 import { whatsappService } from './whatsapp-service';
+import { getPlayerRating } from './rating-service';
+import { FORMATIONS } from '../config';
 
 interface PlayerWithStats extends User {
   stats?: {
@@ -12,6 +14,28 @@ interface PlayerWithStats extends User {
   };
 }
 
+// Generated teams, with any keep-together/keep-apart constraints that couldn't be met
+export interface GeneratedTeams {
+  teamA: User[];
+  teamB: User[];
+  unsatisfiedConstraints: string[];
+}
+
+// Teams generated to fit a formation
+export interface PositionedTeams extends GeneratedTeams {
+  positions: Record<number, string>; // Player ID to the position they were given, or "SUB"
+  formation: Record<string, number>; // Players per position on each side
+  relaxedConstraints: string[];
+}
+
+// The result of adding a pair constraint
+export interface PairConstraintResult {
+  success: boolean;
+  message: string;
+  constraint?: PairConstraint;
+  errors?: unknown;
+}
+
 /**
  * Service to handle automatic team selection for matches
  */
@@ -21,62 +45,9 @@ export class TeamSelectionService {
    * @param bookingId - The booking to generate teams for
    * @returns Object with Team A and Team B arrays of players
    */
-  async generateBalancedTeams(bookingId: number): Promise<{ teamA: User[], teamB: User[] }> {
+  async generateBalancedTeams(bookingId: number): Promise<GeneratedTeams> {
     try {
-      // Get the booking
-      const booking = await storage.getBooking(bookingId);
-      if (!booking) {
-        throw new Error(`Booking with ID ${bookingId} not found`);
-      }
-
-      // Get the team
-      const team = await storage.getTeam(booking.teamId);
-      if (!team) {
-        throw new Error(`Team with ID ${booking.teamId} not found`);
-      }
-      
-      // Get all players registered for this booking
-      const playerBookings = await storage.getPlayerBookingsByBooking(bookingId);
-      if (!playerBookings.length) {
-        throw new Error('No players registered for this booking');
-      }
-      
-      // Get player details with their stats
-      const playersWithStats: PlayerWithStats[] = [];
-      
-      for (const pb of playerBookings) {
-        const player = await storage.getUser(pb.playerId);
-        if (player) {
-          // Get player's stats from previous matches
-          const playerStats = await storage.getPlayerStatsByPlayer(player.id);
-          
-          const stats = {
-            totalGoals: 0,
-            totalAssists: 0,
-            gamesPlayed: playerStats.length,
-            averageRating: 0,
-            preferredPosition: 'unspecified' // In a real app, we would store this in user preferences
-          };
-          
-          // Calculate totals and averages
-          playerStats.forEach(stat => {
-            if (stat.goals) stats.totalGoals += stat.goals;
-            if (stat.assists) stats.totalAssists += stat.assists;
-          });
-          
-          playersWithStats.push({
-            ...player,
-            stats
-          });
-        }
-      }
-      
-      // Sort players by skill level (basic algorithm using goals + assists)
-      playersWithStats.sort((a, b) => {
-        const aScore = (a.stats?.totalGoals || 0) + (a.stats?.totalAssists || 0);
-        const bScore = (b.stats?.totalGoals || 0) + (b.stats?.totalAssists || 0);
-        return bScore - aScore; // Descending order
-      });
+      const { booking, team, players: playersWithStats } = await this.loadPlayers(bookingId);
       
       // Determine team sizes based on booking format
       let playersPerTeam = 5; // Default for 5-a-side
@@ -94,8 +65,8 @@ export class TeamSelectionService {
       }
       
       // Create balanced teams using alternating selection (snake draft)
-      const teamA: User[] = [];
-      const teamB: User[] = [];
+      let teamA: PlayerWithStats[] = [];
+      let teamB: PlayerWithStats[] = [];
       
       // Limit to players we need based on format
       const requiredPlayers = playersPerTeam * 2;
@@ -111,10 +82,17 @@ export class TeamSelectionService {
         }
       });
       
+      // Swap players between sides to honour keep-together/keep-apart pairs
+      const constraints = await this.getPairConstraints(booking);
+      const unsatisfiedConstraints: string[] = [];
+      ({ teamA, teamB } = this.applyPairConstraints(
+        teamA, teamB, constraints, playersWithStats, () => true, unsatisfiedConstraints
+      ));
+      
       // Notify team members about the selection via WhatsApp
       await whatsappService.sendTeamSelectionNotification(booking, team, teamA, teamB);
       
-      return { teamA, teamB };
+      return { teamA, teamB, unsatisfiedConstraints };
     } catch (error) {
       console.error('Error generating balanced teams:', error);
       throw error;
@@ -122,13 +100,375 @@ export class TeamSelectionService {
   }
   
   /**
-   * Create position-based teams (more advanced algorithm)
-   * In a real app, this would use player positions and create proper formations
+   * Create teams that each line up in the formation for the booking's format.
+   * Positions are filled from players' preferred positions first, then their
+   * secondary positions, then anyone left; within each position players are
+   * split so the sides' total ratings stay as close as possible.
+   * @param bookingId - The booking to generate teams for
+   * @returns Both teams, the position each player was given and any constraints that had to be relaxed
+   */
+  async generatePositionBasedTeams(bookingId: number): Promise<PositionedTeams> {
+    try {
+      const { booking, team, players } = await this.loadPlayers(bookingId);
+      const relaxedConstraints: string[] = [];
+      
+      const formation = this.getFormation(booking.format, Math.floor(players.length / 2), relaxedConstraints);
+      
+      // Fill the formation's slots for both sides in three passes, so a player is
+      // only moved out of position once every player who fits has been used
+      const slotsLeft = new Map(Object.entries(formation).map(([position, count]) => [position, count * 2]));
+      const assigned = new Map<number, string>();
+      const passes: { fits: (player: PlayerWithStats, position: string) => boolean, describe?: (player: PlayerWithStats, position: string) => string }[] = [
+        { fits: (player, position) => player.preferredPosition === position },
+        {
+          fits: (player, position) => player.secondaryPosition === position,
+          describe: (player, position) => `${player.name} plays ${position}, their secondary position`
+        },
+        {
+          fits: () => true,
+          describe: (player, position) => player.preferredPosition
+            ? `${player.name} plays ${position} instead of ${player.preferredPosition}`
+            : `${player.name} plays ${position} with no preferred position set`
+        }
+      ];
+      
+      for (const pass of passes) {
+        for (const position of Object.keys(formation)) {
+          for (const player of players) {
+            if ((slotsLeft.get(position) || 0) === 0) break;
+            if (assigned.has(player.id) || !pass.fits(player, position)) continue;
+            
+            assigned.set(player.id, position);
+            slotsLeft.set(position, (slotsLeft.get(position) || 0) - 1);
+            if (pass.describe) {
+              relaxedConstraints.push(pass.describe(player, position));
+            }
+          }
+        }
+      }
+      
+      // Anyone the formation has no room for is a substitute
+      for (const player of players) {
+        if (!assigned.has(player.id)) {
+          assigned.set(player.id, 'SUB');
+        }
+      }
+      
+      // Split each position between the sides, strongest player first, always
+      // giving the next player to the side with the lower total rating
+      let teamA: PlayerWithStats[] = [];
+      let teamB: PlayerWithStats[] = [];
+      let ratingA = 0;
+      let ratingB = 0;
+      
+      for (const position of [...Object.keys(formation), 'SUB']) {
+        const group = players.filter(player => assigned.get(player.id) === position);
+        const perSide = Math.ceil(group.length / 2);
+        let countA = 0;
+        let countB = 0;
+        
+        for (const player of group) {
+          const rating = player.stats?.averageRating || 0;
+          const toA = countB >= perSide || (countA < perSide && ratingA <= ratingB);
+          
+          if (toA) {
+            teamA.push(player);
+            ratingA += rating;
+            countA++;
+          } else {
+            teamB.push(player);
+            ratingB += rating;
+            countB++;
+          }
+        }
+      }
+      
+      // Honour keep-together/keep-apart pairs by swapping players who play the same position
+      const constraints = await this.getPairConstraints(booking);
+      const unsatisfiedConstraints: string[] = [];
+      ({ teamA, teamB } = this.applyPairConstraints(
+        teamA,
+        teamB,
+        constraints,
+        players,
+        (a, b) => assigned.get(a.id) === assigned.get(b.id),
+        unsatisfiedConstraints
+      ));
+      
+      // Notify team members about the selection via WhatsApp
+      await whatsappService.sendTeamSelectionNotification(booking, team, teamA, teamB);
+      
+      return {
+        teamA,
+        teamB,
+        unsatisfiedConstraints,
+        positions: Object.fromEntries(assigned),
+        formation,
+        relaxedConstraints
+      };
+    } catch (error) {
+      console.error('Error generating position-based teams:', error);
+      throw error;
+    }
+  }
+  
+  /**
+   * Load the players confirmed for a booking with their stats and rating, strongest first
    */
-  async generatePositionBasedTeams(bookingId: number): Promise<{ teamA: User[], teamB: User[] }> {
-    // For now, this is a placeholder that just uses the balanced team algorithm
-    // In a complete implementation, this would properly assign players to positions
-    return this.generateBalancedTeams(bookingId);
+  private async loadPlayers(bookingId: number): Promise<{ booking: Booking, team: Team, players: PlayerWithStats[] }> {
+    // Get the booking
+    const booking = await storage.getBooking(bookingId);
+    if (!booking) {
+      throw new Error(`Booking with ID ${bookingId} not found`);
+    }
+
+    // Get the team
+    const team = await storage.getTeam(booking.teamId);
+    if (!team) {
+      throw new Error(`Team with ID ${booking.teamId} not found`);
+    }
+    
+    // Get all players confirmed for this booking
+    const playerBookings = (await storage.getPlayerBookingsByBooking(bookingId))
+      .filter(pb => pb.status === 'confirmed');
+    if (!playerBookings.length) {
+      throw new Error('No players registered for this booking');
+    }
+    
+    // Get player details with their stats
+    const playersWithStats: PlayerWithStats[] = [];
+    
+    for (const pb of playerBookings) {
+      const player = await storage.getUser(pb.playerId);
+      if (player) {
+        // Get player's stats from previous matches
+        const playerStats = await storage.getPlayerStatsByPlayer(player.id);
+        const { rating } = await getPlayerRating(player.id);
+        
+        const stats = {
+          totalGoals: 0,
+          totalAssists: 0,
+          gamesPlayed: playerStats.length,
+          averageRating: rating,
+          preferredPosition: player.preferredPosition || 'unspecified'
+        };
+        
+        // Calculate totals and averages
+        playerStats.forEach(stat => {
+          if (stat.goals) stats.totalGoals += stat.goals;
+          if (stat.assists) stats.totalAssists += stat.assists;
+        });
+        
+        playersWithStats.push({
+          ...player,
+          stats
+        });
+      }
+    }
+    
+    // Sort players by skill rating, which reflects results rather than who scores
+    playersWithStats.sort((a, b) => {
+      return (b.stats?.averageRating || 0) - (a.stats?.averageRating || 0); // Descending order
+    });
+    
+    return { booking, team, players: playersWithStats };
+  }
+  
+  /**
+   * Add a keep-together or keep-apart constraint for two of a team's players
+   * @param team - Team the players belong to
+   * @param bookingId - Booking the constraint applies to, or null for every match
+   * @param createdBy - User adding the constraint
+   * @param data - The players and constraint type
+   */
+  async addPairConstraint(
+    team: Team,
+    bookingId: number | null,
+    createdBy: number,
+    data: unknown
+  ): Promise<PairConstraintResult> {
+    const parseResult = insertPairConstraintSchema.safeParse({
+      ...(data as object),
+      teamId: team.id,
+      bookingId,
+      createdBy
+    });
+    
+    if (!parseResult.success) {
+      return { success: false, message: 'Invalid constraint data', errors: parseResult.error.errors };
+    }
+    
+    const { playerAId, playerBId } = parseResult.data;
+    const members = await storage.getTeamMembers(team.id);
+    if (![playerAId, playerBId].every(id => members.some(member => member.id === id))) {
+      return { success: false, message: 'Both players must be members of this team' };
+    }
+    
+    const constraint = await storage.createPairConstraint(parseResult.data);
+    return { success: true, message: 'Constraint added', constraint };
+  }
+  
+  /**
+   * Get the team-wide pair constraints and those for this booking
+   */
+  private async getPairConstraints(booking: Booking): Promise<PairConstraint[]> {
+    const [teamConstraints, bookingConstraints] = await Promise.all([
+      storage.getPairConstraintsByTeam(booking.teamId),
+      storage.getPairConstraintsByBooking(booking.id)
+    ]);
+    return [...teamConstraints, ...bookingConstraints];
+  }
+  
+  /**
+   * Swap players between sides until as many pair constraints as possible are
+   * met. Each swap must meet more constraints than before; among those, the one
+   * leaving the sides' ratings closest is used. Constraints that still aren't
+   * met are explained in unsatisfiedConstraints.
+   * @param canSwap - Whether two players on opposite sides may trade places
+   */
+  private applyPairConstraints(
+    teamA: PlayerWithStats[],
+    teamB: PlayerWithStats[],
+    constraints: PairConstraint[],
+    players: PlayerWithStats[],
+    canSwap: (a: PlayerWithStats, b: PlayerWithStats) => boolean,
+    unsatisfiedConstraints: string[]
+  ): { teamA: PlayerWithStats[], teamB: PlayerWithStats[] } {
+    const nameOf = (playerId: number) => players.find(p => p.id === playerId)?.name || `Player ${playerId}`;
+    const describe = (c: PairConstraint) =>
+      `${nameOf(c.playerAId)} and ${nameOf(c.playerBId)} ${c.type === 'together' ? 'on the same team' : 'on different teams'}`;
+    
+    // Constraints only apply to players who were picked for this match
+    const picked = new Set([...teamA, ...teamB].map(p => p.id));
+    const active: PairConstraint[] = [];
+    for (const constraint of constraints) {
+      const missing = [constraint.playerAId, constraint.playerBId].filter(id => !picked.has(id));
+      if (missing.length === 0) {
+        active.push(constraint);
+      } else if (missing.some(id => players.some(p => p.id === id))) {
+        // Registered, but left out of the teams because there were too many players
+        unsatisfiedConstraints.push(
+          `${describe(constraint)}: ${missing.map(nameOf).join(' and ')} didn't make the teams`
+        );
+      }
+    }
+    
+    if (active.length === 0) {
+      return { teamA, teamB };
+    }
+    
+    const isMet = (c: PairConstraint, sideA: Set<number>) =>
+      (sideA.has(c.playerAId) === sideA.has(c.playerBId)) === (c.type === 'together');
+    const countMet = (sideA: Set<number>) => active.filter(c => isMet(c, sideA)).length;
+    const rating = (p: PlayerWithStats) => p.stats?.averageRating || 0;
+    const imbalance = (a: PlayerWithStats[], b: PlayerWithStats[]) =>
+      Math.abs(a.reduce((sum, p) => sum + rating(p), 0) - b.reduce((sum, p) => sum + rating(p), 0));
+    
+    let sideA = new Set(teamA.map(p => p.id));
+    let met = countMet(sideA);
+    
+    while (met < active.length) {
+      let best: { a: number, b: number, met: number, imbalance: number } | null = null;
+      
+      for (let i = 0; i < teamA.length; i++) {
+        for (let j = 0; j < teamB.length; j++) {
+          if (!canSwap(teamA[i], teamB[j])) continue;
+          
+          const swapped = new Set(sideA);
+          swapped.delete(teamA[i].id);
+          swapped.add(teamB[j].id);
+          const swappedMet = countMet(swapped);
+          if (swappedMet <= met) continue;
+          
+          const nextA = teamA.map((p, k) => k === i ? teamB[j] : p);
+          const nextB = teamB.map((p, k) => k === j ? teamA[i] : p);
+          const swappedImbalance = imbalance(nextA, nextB);
+          
+          if (!best || swappedMet > best.met || (swappedMet === best.met && swappedImbalance < best.imbalance)) {
+            best = { a: i, b: j, met: swappedMet, imbalance: swappedImbalance };
+          }
+        }
+      }
+      
+      if (!best) break;
+      
+      const fromA = teamA[best.a];
+      teamA = teamA.map((p, k) => k === best!.a ? teamB[best!.b] : p);
+      teamB = teamB.map((p, k) => k === best!.b ? fromA : p);
+      sideA = new Set(teamA.map(p => p.id));
+      met = best.met;
+    }
+    
+    // Explain whatever is still broken
+    const togetherGroups = this.getTogetherGroups(active);
+    const sideSize = Math.min(teamA.length, teamB.length);
+    
+    for (const constraint of active.filter(c => !isMet(c, sideA))) {
+      let reason = 'no swap between the teams could meet it without breaking another constraint';
+      const group = togetherGroups.get(constraint.playerAId);
+      
+      if (constraint.type === 'apart' && group && group === togetherGroups.get(constraint.playerBId)) {
+        reason = 'it contradicts keep-together constraints linking them';
+      } else if (constraint.type === 'together' && group && group.size > sideSize) {
+        reason = `${group.size} players must be kept together but each team only has ${sideSize} places`;
+      }
+      
+      unsatisfiedConstraints.push(`${describe(constraint)}: ${reason}`);
+    }
+    
+    return { teamA, teamB };
+  }
+  
+  /**
+   * Group players linked directly or indirectly by keep-together constraints
+   * @returns Each player's group
+   */
+  private getTogetherGroups(constraints: PairConstraint[]): Map<number, Set<number>> {
+    const groups = new Map<number, Set<number>>();
+    
+    for (const constraint of constraints.filter(c => c.type === 'together')) {
+      const groupA = groups.get(constraint.playerAId) || new Set([constraint.playerAId]);
+      const groupB = groups.get(constraint.playerBId) || new Set([constraint.playerBId]);
+      const merged = new Set([...Array.from(groupA), ...Array.from(groupB)]);
+      merged.forEach(playerId => groups.set(playerId, merged));
+    }
+    
+    return groups;
+  }
+  
+  /**
+   * Get the formation for a match format, cut down when there aren't enough
+   * players for a full side. Goalkeepers are kept; the largest outfield
+   * positions lose players first.
+   */
+  private getFormation(format: string, playersPerTeam: number, relaxedConstraints: string[]): Record<string, number> {
+    const key = FORMATIONS[format]
+      ? format
+      : Object.keys(FORMATIONS).find(name => format.includes(name.split('-')[0])) || '5-a-side';
+    const formation = { ...FORMATIONS[key] };
+    const fullSize = Object.values(formation).reduce((sum, count) => sum + count, 0);
+    
+    if (playersPerTeam >= fullSize) {
+      return formation;
+    }
+    
+    for (let size = fullSize; size > playersPerTeam; size--) {
+      const [largest] = Object.entries(formation)
+        .filter(([position, count]) => count > 0 && (position !== 'GK' || size <= 1))
+        .sort((a, b) => b[1] - a[1]);
+      if (!largest) break;
+      formation[largest[0]]--;
+    }
+    
+    const shape = Object.entries(formation)
+      .filter(([, count]) => count > 0)
+      .map(([position, count]) => `${count} ${position}`)
+      .join(', ');
+    relaxedConstraints.push(
+      `Only enough players for ${playersPerTeam} per side, so the ${key} formation was reduced to ${shape || 'no positions'}`
+    );
+    
+    return Object.fromEntries(Object.entries(formation).filter(([, count]) => count > 0));
   }
 }
 
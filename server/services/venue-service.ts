@@ -0,0 +1,147 @@
+/**
+ * Venue Service - Manages the pitches a team plays at
+ *
+ * Handles:
+ * - Creating, updating and removing venues
+ * - Linking bookings and series to a venue
+ * - Keeping bookings' location text in step with their venue
+ */
+
+import { z } from "zod";
+import { storage } from "../storage";
+import { queueBookingCalendarSync } from "./calendar-service";
+import { InsertVenue, Venue, insertVenueSchema } from "@shared/schema";
+
+// The result of changing a venue
+export interface VenueResult {
+  success: boolean;
+  message: string;
+  venue?: Venue;
+  errors?: z.ZodIssue[];
+}
+
+// The result of picking a venue for a booking or series
+export interface BookingVenueResult {
+  success: boolean;
+  message: string;
+  venueId?: number | null;
+  location?: string;
+}
+
+const venueUpdateSchema = insertVenueSchema.omit({ teamId: true }).partial();
+
+/**
+ * The location text shown for bookings at a venue
+ */
+export function formatVenueLocation(venue: Venue): string {
+  return venue.address ? `${venue.name}, ${venue.address}` : venue.name;
+}
+
+/**
+ * Add a venue to a team
+ * @param teamId Team the venue belongs to
+ * @param data Venue details
+ */
+export async function createVenue(teamId: number, data: unknown): Promise<VenueResult> {
+  const parseResult = insertVenueSchema.safeParse({ ...(data as object), teamId });
+  if (!parseResult.success) {
+    return { success: false, message: "Invalid venue data", errors: parseResult.error.errors };
+  }
+
+  const venue = await storage.createVenue(parseResult.data as InsertVenue);
+  return { success: true, message: "Venue created", venue };
+}
+
+/**
+ * Update a venue. Upcoming bookings at the venue get its new name and address.
+ * @param venue Venue to update
+ * @param data Fields to change
+ */
+export async function updateVenue(venue: Venue, data: unknown): Promise<VenueResult> {
+  const parseResult = venueUpdateSchema.safeParse(data);
+  if (!parseResult.success) {
+    return { success: false, message: "Invalid venue data", errors: parseResult.error.errors };
+  }
+
+  const updatedVenue = await storage.updateVenue(venue.id, parseResult.data as Partial<Venue>);
+  if (!updatedVenue) {
+    return { success: false, message: "Venue not found" };
+  }
+
+  const location = formatVenueLocation(updatedVenue);
+  if (location !== formatVenueLocation(venue)) {
+    const now = new Date();
+    for (const booking of await storage.getBookingsByTeam(venue.teamId)) {
+      if (booking.venueId !== venue.id || new Date(booking.startTime) <= now) continue;
+      const updatedBooking = await storage.updateBooking(booking.id, { location });
+      if (updatedBooking) await queueBookingCalendarSync(updatedBooking);
+    }
+
+    for (const series of await storage.getBookingSeriesByTeam(venue.teamId)) {
+      if (series.venueId !== venue.id) continue;
+      await storage.updateBookingSeries(series.id, { location });
+    }
+  }
+
+  return { success: true, message: "Venue updated", venue: updatedVenue };
+}
+
+/**
+ * Remove a venue, unless upcoming bookings or active series still use it.
+ * Past bookings keep their location text.
+ * @param venue Venue to remove
+ */
+export async function deleteVenue(venue: Venue): Promise<VenueResult> {
+  const now = new Date();
+
+  const upcomingBookings = (await storage.getBookingsByTeam(venue.teamId)).filter(booking =>
+    booking.venueId === venue.id && booking.status !== "canceled" && new Date(booking.startTime) > now
+  );
+  if (upcomingBookings.length > 0) {
+    return {
+      success: false,
+      message: `This venue has ${upcomingBookings.length} upcoming booking(s). Move or cancel them first.`
+    };
+  }
+
+  const activeSeries = (await storage.getBookingSeriesByTeam(venue.teamId)).filter(series =>
+    series.venueId === venue.id && series.isActive
+  );
+  if (activeSeries.length > 0) {
+    return { success: false, message: "This venue is used by a recurring booking. Stop or change it first." };
+  }
+
+  await storage.deleteVenue(venue.id);
+  return { success: true, message: "Venue deleted" };
+}
+
+/**
+ * Work out the venue and location text for a booking or series being saved.
+ * Picking a venue replaces the location text with the venue's; clearing the
+ * venue (null) keeps whatever location text was given.
+ * @param teamId Team the booking belongs to
+ * @param venueId Venue picked, null to clear it, or undefined if unchanged
+ * @param location Location text given with the booking
+ */
+export async function resolveBookingVenue(
+  teamId: number,
+  venueId: unknown,
+  location?: string
+): Promise<BookingVenueResult> {
+  if (venueId === undefined || venueId === null || venueId === "") {
+    return {
+      success: true,
+      message: "No venue",
+      venueId: venueId === undefined ? undefined : null,
+      location
+    };
+  }
+
+  const id = Number(venueId);
+  const venue = Number.isInteger(id) ? await storage.getVenue(id) : undefined;
+  if (!venue || venue.teamId !== teamId) {
+    return { success: false, message: "Venue not found" };
+  }
+
+  return { success: true, message: "Venue found", venueId: venue.id, location: formatVenueLocation(venue) };
+}
@@ -0,0 +1,116 @@
+/**
+ * Verification Senders - Ways of getting a one-time code to a phone
+ *
+ * Handles:
+ * - Sending codes as WhatsApp messages
+ * - Sending codes by SMS through Twilio
+ * - Keeping codes in memory instead of sending them, for development and tests
+ */
+
+import { PHONE_VERIFICATION } from "../config";
+import { whatsappService, toWhatsAppNumber } from "./whatsapp-service";
+
+// Something that can deliver a verification message to a phone number
+export interface VerificationSender {
+  name: string;
+
+  /**
+   * Send a message to a phone number
+   * @param phone Number in E.164 format
+   * @param message Text including the code
+   * @returns Whether the message was sent
+   */
+  send(phone: string, message: string): Promise<boolean>;
+}
+
+export class WhatsAppVerificationSender implements VerificationSender {
+  name = "whatsapp";
+
+  async send(phone: string, message: string): Promise<boolean> {
+    return whatsappService.sendTextMessage(toWhatsAppNumber(phone), message);
+  }
+}
+
+export class TwilioSmsSender implements VerificationSender {
+  name = "sms";
+
+  constructor(private accountSid: string, private authToken: string, private from: string) {}
+
+  async send(phone: string, message: string): Promise<boolean> {
+    try {
+      const response = await fetch(
+        `https://api.twilio.com/2010-04-01/Accounts/${this.accountSid}/Messages.json`,
+        {
+          method: "POST",
+          headers: {
+            "Authorization": `Basic ${Buffer.from(`${this.accountSid}:${this.authToken}`).toString("base64")}`,
+            "Content-Type": "application/x-www-form-urlencoded"
+          },
+          body: new URLSearchParams({ To: phone, From: this.from, Body: message }).toString(),
+          signal: AbortSignal.timeout(PHONE_VERIFICATION.REQUEST_TIMEOUT_MS)
+        }
+      );
+
+      if (!response.ok) {
+        console.error(`Twilio request failed (${response.status}): ${await response.text()}`);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error("Error sending SMS:", error);
+      return false;
+    }
+  }
+}
+
+/**
+ * Keeps messages instead of sending them. Tests and local development can
+ * read the code back with getLastMessage().
+ */
+export class TestVerificationSender implements VerificationSender {
+  name = "test";
+
+  private messages = new Map<string, string[]>();
+
+  async send(phone: string, message: string): Promise<boolean> {
+    const sent = this.messages.get(phone) || [];
+    sent.push(message);
+    this.messages.set(phone, sent);
+
+    console.log(`[VERIFICATION TEST] Message to ${phone}: ${message}`);
+    return true;
+  }
+
+  getLastMessage(phone: string): string | undefined {
+    const sent = this.messages.get(phone);
+    return sent?.[sent.length - 1];
+  }
+
+  clear(): void {
+    this.messages.clear();
+  }
+}
+
+/**
+ * Create the sender with the given name, configured from PHONE_VERIFICATION
+ */
+export function createVerificationSender(name: string): VerificationSender {
+  switch (name) {
+    case "whatsapp":
+      return new WhatsAppVerificationSender();
+    case "sms":
+      if (!PHONE_VERIFICATION.TWILIO_ACCOUNT_SID || !PHONE_VERIFICATION.TWILIO_AUTH_TOKEN || !PHONE_VERIFICATION.TWILIO_FROM_NUMBER) {
+        throw new Error("TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN and TWILIO_FROM_NUMBER must be set to send codes by SMS");
+      }
+      return new TwilioSmsSender(
+        PHONE_VERIFICATION.TWILIO_ACCOUNT_SID,
+        PHONE_VERIFICATION.TWILIO_AUTH_TOKEN,
+        PHONE_VERIFICATION.TWILIO_FROM_NUMBER
+      );
+    case "test":
+      return new TestVerificationSender();
+    default:
+      throw new Error(`Unknown verification sender: ${name}`);
+  }
+}
@@ -0,0 +1,269 @@
+/**
+ * Waitlist Service - Manages the ordered waitlist for full bookings
+ *
+ * Handles:
+ * - Adding players to the waitlist once a booking is full
+ * - Offering freed-up spots to the next player in line
+ * - Confirming offers within the confirmation window
+ * - Passing expired offers on to the next player
+ */
+
+import { storage } from "../storage";
+import { PlayerBooking } from "@shared/schema";
+import { WAITLIST } from "../config";
+import {
+  sendBookingConfirmation,
+  sendWaitlistJoinedNotification,
+  sendWaitlistSpotOffered,
+  sendWaitlistOfferExpired
+} from "./notification-service";
+import { schedulePeriodicJob } from "./job-service";
+
+// Player booking statuses that no longer count as being part of a booking
+const INACTIVE_STATUSES = ["canceled", "refunded", "expired", "no_show"];
+
+// The result of a join or waitlist request
+export interface WaitlistResult {
+  success: boolean;
+  message: string;
+  playerBooking?: PlayerBooking;
+  waitlisted?: boolean;
+  position?: number;
+}
+
+/**
+ * Get the waitlisted players for a booking, next in line first
+ * @param bookingId Booking to get the waitlist for
+ */
+export async function getWaitlist(bookingId: number): Promise<PlayerBooking[]> {
+  const playerBookings = await storage.getPlayerBookingsByBooking(bookingId);
+
+  return playerBookings
+    .filter(pb => pb.status === "waitlisted")
+    .sort((a, b) => (a.waitlistPosition || 0) - (b.waitlistPosition || 0));
+}
+
+/**
+ * Find a player's current (not canceled or expired) entry for a booking
+ * @param bookingId Booking to look in
+ * @param playerId Player to look for
+ */
+export async function getActivePlayerBooking(
+  bookingId: number,
+  playerId: number
+): Promise<PlayerBooking | undefined> {
+  const playerBookings = await storage.getPlayerBookingsByBooking(bookingId);
+  return playerBookings.find(pb => pb.playerId === playerId && !INACTIVE_STATUSES.includes(pb.status));
+}
+
+/**
+ * Join a booking, or its waitlist if there are no slots left
+ * @param bookingId Booking to join
+ * @param playerId Player joining
+ */
+export async function joinBooking(bookingId: number, playerId: number): Promise<WaitlistResult> {
+  const booking = await storage.getBooking(bookingId);
+  if (!booking) {
+    return { success: false, message: "Booking not found" };
+  }
+
+  if (booking.status === "canceled") {
+    return { success: false, message: "This booking has been canceled" };
+  }
+
+  const existing = await getActivePlayerBooking(bookingId, playerId);
+  if (existing) {
+    return {
+      success: false,
+      message: existing.status === "waitlisted"
+        ? "Player is already on the waitlist for this booking"
+        : "Player already joined this booking"
+    };
+  }
+
+  // Players already waiting keep their place in the queue ahead of new joiners
+  const waitlist = await getWaitlist(bookingId);
+  if (booking.availableSlots > 0 && waitlist.length === 0) {
+    try {
+      // Charges the booking's credit cost and takes the slot atomically
+      const playerBooking = await storage.joinBookingWithCredits(bookingId, playerId);
+
+      return {
+        success: true,
+        message: "Joined booking successfully",
+        playerBooking,
+        waitlisted: false
+      };
+    } catch (error: any) {
+      // The last slot may have gone between reading the booking and joining
+      if (error.message !== "No available slots for this booking") {
+        return { success: false, message: error.message };
+      }
+    }
+  }
+
+  // Don't queue players who couldn't pay for the spot once it's offered
+  const credits = await storage.getUserCredits(playerId);
+  if (credits < (booking.creditCost || 0)) {
+    return { success: false, message: "Insufficient credits to join this booking" };
+  }
+
+  const lastPosition = waitlist.length > 0
+    ? waitlist[waitlist.length - 1].waitlistPosition || waitlist.length
+    : 0;
+
+  const playerBooking = await storage.createPlayerBooking({
+    playerId,
+    bookingId,
+    status: "waitlisted",
+    waitlistPosition: lastPosition + 1
+  });
+
+  const position = waitlist.length + 1;
+  await sendWaitlistJoinedNotification(playerId, bookingId, position);
+
+  // A slot may have been free with nobody offered it yet
+  await promoteNextFromWaitlist(bookingId);
+
+  return {
+    success: true,
+    message: `Booking is full. You are number ${position} on the waitlist.`,
+    playerBooking: await storage.getPlayerBooking(playerBooking.id),
+    waitlisted: true,
+    position
+  };
+}
+
+/**
+ * Offer any free slots on a booking to the players at the front of the waitlist.
+ * The offered spot is held for the player until they confirm or the offer expires.
+ * @param bookingId Booking that may have free slots
+ */
+export async function promoteNextFromWaitlist(bookingId: number): Promise<PlayerBooking[]> {
+  const promoted: PlayerBooking[] = [];
+
+  try {
+    const booking = await storage.getBooking(bookingId);
+    if (!booking || booking.status === "canceled" || booking.availableSlots <= 0) return promoted;
+
+    const now = new Date();
+    const kickoff = new Date(booking.startTime);
+    if (kickoff <= now) return promoted;
+
+    const waitlist = await getWaitlist(bookingId);
+
+    for (const next of waitlist) {
+      // Never leave an offer open past kickoff
+      const windowEnd = new Date(now.getTime() + WAITLIST.CONFIRMATION_WINDOW_MINUTES * 60 * 1000);
+      const offerExpiresAt = windowEnd < kickoff ? windowEnd : kickoff;
+
+      // Holds a slot while the player decides, if one is still free
+      const offered = await storage.offerWaitlistSpot(next.id, offerExpiresAt);
+      if (!offered) {
+        const current = await storage.getBooking(bookingId);
+        if (!current || current.availableSlots <= 0) break;
+        continue;
+      }
+
+      await sendWaitlistSpotOffered(next.playerId, bookingId, offerExpiresAt);
+      promoted.push(offered);
+    }
+  } catch (error) {
+    console.error(`Error promoting waitlist for booking ${bookingId}:`, error);
+  }
+
+  return promoted;
+}
+
+/**
+ * Confirm a spot that was offered from the waitlist
+ * @param bookingId Booking the spot was offered for
+ * @param playerId Player confirming the spot
+ */
+export async function confirmWaitlistOffer(bookingId: number, playerId: number): Promise<WaitlistResult> {
+  const playerBooking = await getActivePlayerBooking(bookingId, playerId);
+
+  if (!playerBooking || playerBooking.status !== "pending") {
+    return { success: false, message: "No spot is currently offered to this player" };
+  }
+
+  if (playerBooking.offerExpiresAt && new Date(playerBooking.offerExpiresAt) <= new Date()) {
+    await expireOffer(playerBooking);
+    return { success: false, message: "This offer has expired and was passed to the next player" };
+  }
+
+  let confirmed: PlayerBooking;
+  try {
+    // Charges the booking's credit cost for the held slot atomically
+    confirmed = await storage.confirmPlayerBookingWithCredits(playerBooking.id);
+  } catch (error: any) {
+    return { success: false, message: error.message };
+  }
+
+  await sendBookingConfirmation(playerId, bookingId);
+
+  return {
+    success: true,
+    message: "Your spot has been confirmed",
+    playerBooking: confirmed,
+    waitlisted: false
+  };
+}
+
+/**
+ * Take a player off the waitlist, or decline an offered spot, without
+ * counting it as a cancellation. A declined spot goes to the next player.
+ * @param playerBooking The waitlisted or offered player booking
+ */
+export async function leaveWaitlist(playerBooking: PlayerBooking): Promise<boolean> {
+  if (playerBooking.status !== "waitlisted" && playerBooking.status !== "pending") return false;
+
+  const deleted = await storage.deletePlayerBooking(playerBooking.id);
+  if (deleted && playerBooking.status === "pending") {
+    await promoteNextFromWaitlist(playerBooking.bookingId);
+  }
+
+  return deleted;
+}
+
+/**
+ * Release the slot held by an unconfirmed offer and pass it on
+ */
+async function expireOffer(playerBooking: PlayerBooking): Promise<void> {
+  // Already confirmed, declined or expired by another request
+  const expired = await storage.expireWaitlistOffer(playerBooking.id);
+  if (!expired) return;
+
+  await sendWaitlistOfferExpired(playerBooking.playerId, playerBooking.bookingId);
+  await promoteNextFromWaitlist(playerBooking.bookingId);
+}
+
+/**
+ * Expire every offer whose confirmation window has passed
+ * @param now Current time
+ */
+export async function expireWaitlistOffers(now: Date = new Date()): Promise<number> {
+  const pending = await storage.getPlayerBookingsByStatus("pending");
+  const expired = pending.filter(pb => pb.offerExpiresAt && new Date(pb.offerExpiresAt) <= now);
+
+  for (const playerBooking of expired) {
+    await expireOffer(playerBooking);
+  }
+
+  return expired.length;
+}
+
+/**
+ * Schedule background task to pass on expired waitlist offers
+ * Should be called on server startup
+ */
+export function scheduleWaitlistOffers(): void {
+  schedulePeriodicJob("waitlist_offers", WAITLIST.OFFER_CHECK_INTERVAL_MINUTES, async () => {
+    const expiredCount = await expireWaitlistOffers();
+    if (expiredCount > 0) {
+      console.log(`Expired ${expiredCount} waitlist offer(s)`);
+    }
+  });
+
+  console.log("Waitlist offer scheduler initialized");
+}
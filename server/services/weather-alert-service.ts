@@ -0,0 +1,180 @@
+/**
+ * Weather Alert Service - Acts on bad forecasts for upcoming matches
+ *
+ * Handles:
+ * - Checking forecasts against each team's weather rules
+ * - Warning booked players when a rule is tripped
+ * - Asking the team owner whether to call the match off, and cancelling
+ *   with full refunds when they approve
+ */
+
+import { storage } from "../storage";
+import { Booking, SLOT_HOLDING_STATUSES, WeatherAlert, WeatherRule } from "@shared/schema";
+import { WeatherForecast } from "./weather-providers";
+import { cancelEntireBooking } from "./cancellation-service";
+import { sendWeatherCancelApprovalRequest, sendWeatherWarning } from "./notification-service";
+
+// The result of approving or dismissing a weather alert
+export interface WeatherAlertResult {
+  success: boolean;
+  message: string;
+  alert?: WeatherAlert;
+}
+
+const METRIC_LABELS: Record<string, { label: string, unit: string }> = {
+  wind_speed: { label: "Wind", unit: " km/h" },
+  precipitation: { label: "Chance of rain", unit: "%" },
+  temperature: { label: "Temperature", unit: "°C" },
+  humidity: { label: "Humidity", unit: "%" }
+};
+
+/**
+ * The forecast value a rule looks at
+ * @returns undefined for metrics the forecast doesn't have
+ */
+function getMetricValue(forecast: WeatherForecast, metric: string): number | undefined {
+  switch (metric) {
+    case "wind_speed": return forecast.windSpeed;
+    case "precipitation": return forecast.precipitation;
+    case "temperature": return forecast.temperature;
+    case "humidity": return forecast.humidity;
+    default: return undefined;
+  }
+}
+
+/**
+ * Whether a forecast value trips a rule
+ */
+export function isRuleTriggered(rule: WeatherRule, value: number): boolean {
+  return rule.comparison === "above" ? value > rule.threshold : value < rule.threshold;
+}
+
+/**
+ * Describe why a rule was tripped, e.g. "Wind 45 km/h (above 40 km/h)"
+ */
+export function describeWeatherTrigger(rule: WeatherRule, value: number): string {
+  const { label, unit } = METRIC_LABELS[rule.metric] || { label: rule.metric, unit: "" };
+  return `${label} ${Math.round(value)}${unit} (${rule.comparison} ${rule.threshold}${unit})`;
+}
+
+/**
+ * Check a booking's forecast against its team's weather rules. Each tripped
+ * rule warns everyone holding a slot, and rules set to suggest cancelling
+ * also ask the team owner to approve calling the match off. A rule only
+ * alerts once per booking, however many times the forecast is refreshed.
+ * @param booking Booking the forecast is for
+ * @param forecast Latest forecast for the booking
+ * @returns Alerts raised by this check
+ */
+export async function checkWeatherRules(booking: Booking, forecast: WeatherForecast): Promise<WeatherAlert[]> {
+  // No point warning about a placeholder forecast or a match that's already off
+  if (forecast.condition === "unknown" || booking.status === "canceled") {
+    return [];
+  }
+
+  const rules = (await storage.getWeatherRulesByTeam(booking.teamId)).filter(rule => rule.isActive);
+  const raised: WeatherAlert[] = [];
+
+  for (const rule of rules) {
+    const value = getMetricValue(forecast, rule.metric);
+    if (value === undefined || !isRuleTriggered(rule, value)) continue;
+
+    const alert = await storage.createWeatherAlert({
+      bookingId: booking.id,
+      ruleId: rule.id,
+      value,
+      status: rule.action === "suggest_cancel" ? "pending_approval" : "warned"
+    });
+    if (!alert) continue; // Already alerted for this booking
+
+    const warning = describeWeatherTrigger(rule, value);
+
+    const playerBookings = await storage.getPlayerBookingsByBooking(booking.id);
+    for (const pb of playerBookings) {
+      if (!SLOT_HOLDING_STATUSES.includes(pb.status)) continue;
+      await sendWeatherWarning(pb.playerId, booking.id, warning);
+    }
+
+    if (alert.status === "pending_approval") {
+      const team = await storage.getTeam(booking.teamId);
+      if (team) {
+        await sendWeatherCancelApprovalRequest(team.ownerId, booking.id, alert.id, warning);
+      }
+    }
+
+    console.log(`Weather rule ${rule.id} tripped for booking ${booking.id}: ${warning}`);
+    raised.push(alert);
+  }
+
+  return raised;
+}
+
+/**
+ * Call a match off for the weather. Every player is refunded in full and
+ * all of the booking's outstanding weather alerts are resolved.
+ * @param alertId Alert awaiting approval
+ * @param userId Team owner or admin approving the cancellation
+ */
+export async function approveWeatherCancellation(alertId: number, userId: number): Promise<WeatherAlertResult> {
+  const alert = await storage.getWeatherAlert(alertId);
+  if (!alert) {
+    return { success: false, message: "Weather alert not found" };
+  }
+
+  if (alert.status !== "pending_approval") {
+    return { success: false, message: "This weather alert isn't waiting for approval" };
+  }
+
+  const rule = await storage.getWeatherRule(alert.ruleId);
+  const reason = rule
+    ? `Weather: ${describeWeatherTrigger(rule, alert.value)}`
+    : "Weather";
+
+  const result = await cancelEntireBooking(userId, alert.bookingId, reason);
+  if (!result.success) {
+    return { success: false, message: result.message };
+  }
+
+  const resolvedAt = new Date();
+  let approved: WeatherAlert | undefined;
+  for (const pending of await storage.getWeatherAlertsByBooking(alert.bookingId)) {
+    if (pending.status !== "pending_approval") continue;
+
+    const updated = await storage.updateWeatherAlert(pending.id, {
+      status: "approved",
+      resolvedBy: userId,
+      resolvedAt
+    });
+    if (pending.id === alert.id) approved = updated;
+  }
+
+  return {
+    success: true,
+    message: "Match canceled for weather and all players refunded",
+    alert: approved
+  };
+}
+
+/**
+ * Decide to play on despite a weather alert
+ * @param alertId Alert awaiting approval
+ * @param userId Team owner or admin dismissing the alert
+ */
+export async function dismissWeatherAlert(alertId: number, userId: number): Promise<WeatherAlertResult> {
+  const alert = await storage.getWeatherAlert(alertId);
+  if (!alert) {
+    return { success: false, message: "Weather alert not found" };
+  }
+
+  if (alert.status !== "pending_approval") {
+    return { success: false, message: "This weather alert isn't waiting for approval" };
+  }
+
+  const updated = await storage.updateWeatherAlert(alertId, {
+    status: "dismissed",
+    resolvedBy: userId,
+    resolvedAt: new Date()
+  });
+
+  return { success: true, message: "Weather alert dismissed", alert: updated };
+}
@@ -0,0 +1,361 @@
+/**
+ * Weather Providers - Adapters that turn weather APIs into WeatherForecasts
+ *
+ * Handles:
+ * - Open-Meteo and OpenWeather forecasts and geocoding
+ * - A deterministic mock provider for development
+ * - Replaying (and recording) provider responses from a fixture file
+ */
+
+import fs from "fs";
+import path from "path";
+import { WEATHER } from "../config";
+
+// Weather forecast data structure
+export interface WeatherForecast {
+  date: Date;
+  temperature: number;      // in Celsius
+  precipitation: number;    // Probability of precipitation (0-100%)
+  windSpeed: number;        // in km/h
+  humidity: number;         // in percentage (0-100%)
+  condition: string;        // e.g., "clear", "cloudy", "rain", "snow"
+  conditionDescription: string; // More detailed description
+  icon: string;             // Icon code for the weather condition
+  provider?: string;        // Provider the forecast came from
+}
+
+// A geocoded location
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+  name?: string;
+}
+
+// A source of forecasts and geocoding
+export interface WeatherProvider {
+  name: string;
+
+  /**
+   * Find the coordinates of a free-text location
+   * @returns null if the location couldn't be found
+   */
+  geocode(location: string): Promise<Coordinates | null>;
+
+  /**
+   * Get the forecast for the hour containing a date
+   * @returns null if the provider has no forecast for that time
+   */
+  getForecast(coordinates: Coordinates, date: Date): Promise<WeatherForecast | null>;
+}
+
+// Conditions and icons shared by every provider
+const CONDITIONS: Record<string, { description: string, icon: string }> = {
+  clear: { description: "Clear skies", icon: "wb_sunny" },
+  partly_cloudy: { description: "Partly cloudy", icon: "partly_cloudy_day" },
+  cloudy: { description: "Cloudy", icon: "cloud" },
+  fog: { description: "Fog", icon: "foggy" },
+  rain: { description: "Rain showers", icon: "rainy" },
+  heavy_rain: { description: "Heavy rain", icon: "thunderstorm" },
+  snow: { description: "Snow", icon: "ac_unit" },
+  thunderstorm: { description: "Thunderstorms", icon: "thunderstorm" }
+};
+
+function buildForecast(
+  provider: string,
+  date: Date,
+  values: { temperature: number, precipitation: number, windSpeed: number, humidity: number, condition: string }
+): WeatherForecast {
+  const condition = CONDITIONS[values.condition] ? values.condition : "cloudy";
+
+  return {
+    date,
+    temperature: parseFloat(values.temperature.toFixed(1)),
+    precipitation: Math.round(Math.min(100, Math.max(0, values.precipitation))),
+    windSpeed: parseFloat(values.windSpeed.toFixed(1)),
+    humidity: Math.round(Math.min(100, Math.max(0, values.humidity))),
+    condition,
+    conditionDescription: CONDITIONS[condition].description,
+    icon: CONDITIONS[condition].icon,
+    provider
+  };
+}
+
+/**
+ * Fetch JSON from a provider, giving up after the configured timeout
+ */
+async function fetchJson(url: string): Promise<any> {
+  const response = await fetch(url, { signal: AbortSignal.timeout(WEATHER.REQUEST_TIMEOUT_MS) });
+  if (!response.ok) {
+    throw new Error(`Weather request failed: ${response.status} ${response.statusText}`);
+  }
+  return response.json();
+}
+
+// The hour a forecast is for, e.g. "2025-03-01T19"
+function hourKey(date: Date): string {
+  return date.toISOString().slice(0, 13);
+}
+
+/**
+ * Open-Meteo - free, no API key, hourly forecasts up to 16 days ahead
+ */
+export class OpenMeteoProvider implements WeatherProvider {
+  name = "open-meteo";
+
+  async geocode(location: string): Promise<Coordinates | null> {
+    const data = await fetchJson(
+      `https://geocoding-api.open-meteo.com/v1/search?name=${encodeURIComponent(location)}&count=1&format=json`
+    );
+    const result = data.results?.[0];
+    if (!result) return null;
+
+    return { latitude: result.latitude, longitude: result.longitude, name: result.name };
+  }
+
+  async getForecast(coordinates: Coordinates, date: Date): Promise<WeatherForecast | null> {
+    const day = date.toISOString().slice(0, 10);
+    const data = await fetchJson(
+      `https://api.open-meteo.com/v1/forecast?latitude=${coordinates.latitude}&longitude=${coordinates.longitude}` +
+      `&hourly=temperature_2m,precipitation_probability,wind_speed_10m,relative_humidity_2m,weather_code` +
+      `&start_date=${day}&end_date=${day}&timezone=UTC`
+    );
+
+    const hourly = data.hourly;
+    const index = hourly?.time?.findIndex((time: string) => time.slice(0, 13) === hourKey(date));
+    if (index === undefined || index < 0) return null;
+
+    return buildForecast(this.name, date, {
+      temperature: hourly.temperature_2m[index],
+      precipitation: hourly.precipitation_probability[index] ?? 0,
+      windSpeed: hourly.wind_speed_10m[index],
+      humidity: hourly.relative_humidity_2m[index],
+      condition: OpenMeteoProvider.conditionFromWeatherCode(hourly.weather_code[index])
+    });
+  }
+
+  // WMO weather interpretation codes
+  private static conditionFromWeatherCode(code: number): string {
+    if (code === 0) return "clear";
+    if (code <= 2) return "partly_cloudy";
+    if (code === 3) return "cloudy";
+    if (code === 45 || code === 48) return "fog";
+    if (code === 65 || code === 67 || code === 82) return "heavy_rain";
+    if ((code >= 71 && code <= 77) || code === 85 || code === 86) return "snow";
+    if (code >= 95) return "thunderstorm";
+    return "rain";
+  }
+}
+
+/**
+ * OpenWeather - needs an API key, 3-hourly forecasts up to 5 days ahead
+ */
+export class OpenWeatherProvider implements WeatherProvider {
+  name = "openweather";
+
+  constructor(private apiKey: string) {}
+
+  async geocode(location: string): Promise<Coordinates | null> {
+    const data = await fetchJson(
+      `https://api.openweathermap.org/geo/1.0/direct?q=${encodeURIComponent(location)}&limit=1&appid=${this.apiKey}`
+    );
+    const result = data?.[0];
+    if (!result) return null;
+
+    return { latitude: result.lat, longitude: result.lon, name: result.name };
+  }
+
+  async getForecast(coordinates: Coordinates, date: Date): Promise<WeatherForecast | null> {
+    const data = await fetchJson(
+      `https://api.openweathermap.org/data/2.5/forecast?lat=${coordinates.latitude}&lon=${coordinates.longitude}` +
+      `&units=metric&appid=${this.apiKey}`
+    );
+
+    // Use the 3-hour slot closest to kickoff
+    const target = date.getTime() / 1000;
+    const closest = (data.list || []).reduce((best: any, slot: any) =>
+      !best || Math.abs(slot.dt - target) < Math.abs(best.dt - target) ? slot : best, null);
+    if (!closest || Math.abs(closest.dt - target) > 3 * 60 * 60) return null;
+
+    return buildForecast(this.name, date, {
+      temperature: closest.main.temp,
+      precipitation: (closest.pop || 0) * 100,
+      windSpeed: closest.wind.speed * 3.6, // m/s to km/h
+      humidity: closest.main.humidity,
+      condition: OpenWeatherProvider.conditionFromWeatherId(closest.weather?.[0]?.id || 800, closest.rain?.["3h"] || 0)
+    });
+  }
+
+  // OpenWeather condition codes
+  private static conditionFromWeatherId(id: number, rainMm: number): string {
+    if (id >= 200 && id < 300) return "thunderstorm";
+    if (id >= 300 && id < 600) return rainMm >= 7.5 || id === 502 || id === 503 || id === 504 ? "heavy_rain" : "rain";
+    if (id >= 600 && id < 700) return "snow";
+    if (id >= 700 && id < 800) return "fog";
+    if (id === 800) return "clear";
+    if (id <= 802) return "partly_cloudy";
+    return "cloudy";
+  }
+}
+
+/**
+ * Deterministic mock forecasts - realistic, seasonal, and the same every time
+ * for the same place and hour, so development data doesn't jump around
+ */
+export class MockWeatherProvider implements WeatherProvider {
+  name = "mock";
+
+  async geocode(location: string): Promise<Coordinates | null> {
+    // Spread locations around the UK so each gets its own stable forecast
+    const random = seededRandom(location.trim().toLowerCase());
+    return {
+      latitude: 50 + random() * 8,
+      longitude: -5 + random() * 6,
+      name: location
+    };
+  }
+
+  async getForecast(coordinates: Coordinates, date: Date): Promise<WeatherForecast | null> {
+    const random = seededRandom(`${coordinates.latitude.toFixed(3)},${coordinates.longitude.toFixed(3)}@${hourKey(date)}`);
+
+    // Get month to make seasonally appropriate weather
+    const month = date.getMonth(); // 0-11 (Jan-Dec)
+    const isWinter = month >= 11 || month <= 1; // Dec-Feb
+    const isSpring = month >= 2 && month <= 4;  // Mar-May
+    const isSummer = month >= 5 && month <= 7;  // Jun-Aug
+
+    // Generate temperature based on season
+    let tempBase = 15;
+    if (isWinter) tempBase = 5;
+    if (isSummer) tempBase = 25;
+    const temperature = tempBase + (random() * 10 - 5);
+
+    // Generate precipitation chance based on season
+    let precipitationBase = 60; // Autumn
+    if (isWinter) precipitationBase = 40;
+    if (isSpring) precipitationBase = 50;
+    if (isSummer) precipitationBase = 20;
+    const precipitation = Math.min(100, Math.max(0, precipitationBase + (random() * 40 - 20)));
+
+    // Generate humidity based on precipitation and season
+    let humidityBase = 60;
+    if (precipitation > 50) humidityBase = 80;
+    if (isSummer && precipitation < 30) humidityBase = 50;
+    if (isWinter) humidityBase = 70;
+    const humidity = humidityBase + (random() * 20 - 10);
+
+    const windSpeed = random() * 30;
+
+    // Determine weather condition based on precipitation
+    let condition = "heavy_rain";
+    if (precipitation < 20) condition = "clear";
+    else if (precipitation < 40) condition = "partly_cloudy";
+    else if (precipitation < 60) condition = "cloudy";
+    else if (precipitation < 80) condition = "rain";
+
+    // Snow instead of rain in the cold
+    if (isWinter && temperature < 3 && precipitation > 50) {
+      condition = "snow";
+    }
+
+    return buildForecast(this.name, date, { temperature, precipitation, windSpeed, humidity, condition });
+  }
+}
+
+// Contents of a weather fixture file
+interface WeatherFixtures {
+  geocodes: Record<string, Coordinates | null>;
+  forecasts: Record<string, WeatherForecast | null>;
+}
+
+/**
+ * Replays recorded provider responses from a JSON file so nothing goes over
+ * the network. Given a live provider, it calls that instead and records what
+ * comes back into the file.
+ */
+export class FixtureWeatherProvider implements WeatherProvider {
+  name = "fixture";
+  private fixtures: WeatherFixtures;
+
+  constructor(private filePath: string, private recordFrom?: WeatherProvider) {
+    this.fixtures = FixtureWeatherProvider.load(filePath);
+  }
+
+  async geocode(location: string): Promise<Coordinates | null> {
+    const key = location.trim().toLowerCase();
+
+    if (this.recordFrom) {
+      this.fixtures.geocodes[key] = await this.recordFrom.geocode(location);
+      this.save();
+    }
+
+    return this.fixtures.geocodes[key] ?? null;
+  }
+
+  async getForecast(coordinates: Coordinates, date: Date): Promise<WeatherForecast | null> {
+    const key = `${coordinates.latitude.toFixed(2)},${coordinates.longitude.toFixed(2)}@${hourKey(date)}`;
+
+    if (this.recordFrom) {
+      this.fixtures.forecasts[key] = await this.recordFrom.getForecast(coordinates, date);
+      this.save();
+    }
+
+    const forecast = this.fixtures.forecasts[key];
+    return forecast ? { ...forecast, date } : null;
+  }
+
+  private save(): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(this.filePath, JSON.stringify(this.fixtures, null, 2) + "\n");
+  }
+
+  private static load(filePath: string): WeatherFixtures {
+    if (!fs.existsSync(filePath)) {
+      return { geocodes: {}, forecasts: {} };
+    }
+
+    const data = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+    return { geocodes: data.geocodes || {}, forecasts: data.forecasts || {} };
+  }
+}
+
+/**
+ * Create a provider by name
+ * @param name "open-meteo", "openweather", "mock" or "fixture"
+ */
+export function createWeatherProvider(name: string): WeatherProvider {
+  switch (name) {
+    case "open-meteo":
+      return new OpenMeteoProvider();
+    case "openweather":
+      if (!WEATHER.OPENWEATHER_API_KEY) {
+        throw new Error("OPENWEATHER_API_KEY must be set to use the OpenWeather provider");
+      }
+      return new OpenWeatherProvider(WEATHER.OPENWEATHER_API_KEY);
+    case "fixture":
+      return new FixtureWeatherProvider(
+        path.resolve(process.cwd(), WEATHER.FIXTURE_PATH),
+        WEATHER.FIXTURE_RECORD_FROM ? createWeatherProvider(WEATHER.FIXTURE_RECORD_FROM) : undefined
+      );
+    case "mock":
+      return new MockWeatherProvider();
+    default:
+      throw new Error(`Unknown weather provider: ${name}`);
+  }
+}
+
+/**
+ * Small seeded random number generator (mulberry32) so mock data is repeatable
+ */
+function seededRandom(seed: string): () => number {
+  let state = 0;
+  for (let i = 0; i < seed.length; i++) {
+    state = (Math.imul(31, state) + seed.charCodeAt(i)) | 0;
+  }
+
+  return () => {
+    state = (state + 0x6D2B79F5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
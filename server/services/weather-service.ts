@@ -1,36 +1,117 @@
 /**
  * Weather Service - Fetches and manages weather forecasts for football matches
+ *
+ * Handles:
+ * - Choosing the configured weather provider
+ * - Geocoding booking locations, cached per location
+ * - Caching forecasts so repeated lookups don't hit the provider
+ * - Checking refreshed forecasts against team weather rules
  */
 import { storage } from "../storage";
+import { Booking } from "@shared/schema";
+import { WEATHER } from "../config";
+import { Coordinates, WeatherForecast, WeatherProvider, createWeatherProvider } from "./weather-providers";
+import { checkWeatherRules } from "./weather-alert-service";
+import { schedulePeriodicJob } from "./job-service";
 
-// Weather forecast data structure
-export interface WeatherForecast {
-  date: Date;
-  temperature: number;      // in Celsius
-  precipitation: number;    // Probability of precipitation (0-100%)
-  windSpeed: number;        // in km/h
-  humidity: number;         // in percentage (0-100%)
-  condition: string;        // e.g., "clear", "cloudy", "rain", "snow"
-  conditionDescription: string; // More detailed description
-  icon: string;             // Icon code for the weather condition
+export type { WeatherForecast } from "./weather-providers";
+
+let provider: WeatherProvider | null = null;
+
+// Forecasts fetched recently, keyed by location and hour
+const forecastCache = new Map<string, { forecast: WeatherForecast, fetchedAt: number }>();
+
+/**
+ * Get the weather provider, creating the configured one on first use
+ */
+export function getWeatherProvider(): WeatherProvider {
+  if (!provider) {
+    provider = createWeatherProvider(WEATHER.PROVIDER);
+  }
+  return provider;
+}
+
+/**
+ * Swap the weather provider, e.g. for a fixture provider in tests.
+ * Cached forecasts from the previous provider are dropped.
+ */
+export function setWeatherProvider(newProvider: WeatherProvider): void {
+  provider = newProvider;
+  forecastCache.clear();
+}
+
+// Locations are cached case- and whitespace-insensitively
+function normaliseLocation(location: string): string {
+  return location.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+/**
+ * Find the coordinates of a booking location, geocoding it only the first time
+ * @param location Free-text location, as entered on the booking
+ * @returns null if the provider couldn't find the location
+ */
+export async function resolveCoordinates(location: string): Promise<Coordinates | null> {
+  const query = normaliseLocation(location);
+  const weatherProvider = getWeatherProvider();
+
+  const cached = await storage.getLocationGeocode(query);
+  if (cached && cached.provider === weatherProvider.name) {
+    return {
+      latitude: cached.latitude,
+      longitude: cached.longitude,
+      name: cached.resolvedName || undefined
+    };
+  }
+
+  const coordinates = await weatherProvider.geocode(location);
+  if (!coordinates) return null;
+
+  await storage.saveLocationGeocode({
+    query,
+    latitude: coordinates.latitude,
+    longitude: coordinates.longitude,
+    resolvedName: coordinates.name || null,
+    provider: weatherProvider.name
+  });
+
+  return coordinates;
 }
 
 /**
  * Fetch weather forecast for a specific location and date
- * This would normally connect to a weather API service like OpenWeatherMap, AccuWeather, etc.
- * For development purposes, we'll generate some mock weather data
- * 
+ * Forecasts are cached for WEATHER.FORECAST_CACHE_MINUTES
+ *
  * @param location The location to get weather for
  * @param date The date to get weather for
+ * @param coordinates Where the location is, if already known, to skip geocoding it
  */
-export async function fetchWeatherForecast(location: string, date: Date): Promise<WeatherForecast> {
+export async function fetchWeatherForecast(
+  location: string,
+  date: Date,
+  coordinates?: Coordinates
+): Promise<WeatherForecast> {
   try {
-    // In a production environment, replace this with actual API call
-    // For example: return await axios.get(`${WEATHER_API_URL}?location=${encodeURIComponent(location)}&date=${date.toISOString()}...`)
-    
-    // For development, generate some realistic random weather data
-    const weather = generateMockWeather(date);
-    
+    const place = coordinates
+      ? `${coordinates.latitude.toFixed(3)},${coordinates.longitude.toFixed(3)}`
+      : normaliseLocation(location);
+    const cacheKey = `${place}@${date.toISOString().slice(0, 13)}`;
+    const cached = forecastCache.get(cacheKey);
+    if (cached && Date.now() - cached.fetchedAt < WEATHER.FORECAST_CACHE_MINUTES * 60 * 1000) {
+      return { ...cached.forecast, date };
+    }
+
+    const resolved = coordinates || await resolveCoordinates(location);
+    if (!resolved) {
+      throw new Error(`Location not found: ${location}`);
+    }
+
+    const weather = await getWeatherProvider().getForecast(resolved, date);
+    if (!weather) {
+      throw new Error("No forecast available for this time");
+    }
+
+    forecastCache.set(cacheKey, { forecast: weather, fetchedAt: Date.now() });
+
     console.log(`Fetched weather forecast for ${location} on ${date.toLocaleDateString()}`);
     return weather;
   } catch (error) {
@@ -49,6 +130,21 @@ export async function fetchWeatherForecast(location: string, date: Date): Promis
   }
 }
 
+/**
+ * Fetch the forecast for a booking, using its venue's coordinates when the
+ * venue has them. Otherwise the venue's address, or for bookings without a
+ * venue the location text, is geocoded.
+ * @param booking The booking to get weather for
+ */
+export async function fetchBookingForecast(booking: Booking): Promise<WeatherForecast> {
+  const venue = booking.venueId ? await storage.getVenue(booking.venueId) : undefined;
+  const coordinates = venue && venue.latitude !== null && venue.longitude !== null
+    ? { latitude: venue.latitude, longitude: venue.longitude, name: venue.name }
+    : undefined;
+
+  return fetchWeatherForecast(venue?.address || booking.location, new Date(booking.startTime), coordinates);
+}
+
 /**
  * Update weather forecasts for all upcoming bookings
  * This should be scheduled to run once or twice daily
@@ -58,20 +154,21 @@ export async function updateWeatherForecasts(): Promise<void> {
     const now = new Date();
     const allBookings = await storage.getAllBookings();
     
-    // Filter to only upcoming bookings within the next 7 days
+    // Filter to only upcoming bookings within the forecast window
     // (weather forecasts beyond that are typically less accurate)
     const upcomingBookings = allBookings.filter(booking => {
+      if (booking.status === "canceled") return false;
       const bookingDate = new Date(booking.startTime);
       const diffTime = bookingDate.getTime() - now.getTime();
       const diffDays = diffTime / (1000 * 60 * 60 * 24);
-      return diffDays > 0 && diffDays <= 7;
+      return diffDays > 0 && diffDays <= WEATHER.FORECAST_DAYS_AHEAD;
     });
     
     console.log(`Updating weather forecasts for ${upcomingBookings.length} upcoming bookings`);
     
     // Update weather for each upcoming booking
     for (const booking of upcomingBookings) {
-      const forecast = await fetchWeatherForecast(booking.location, new Date(booking.startTime));
+      const forecast = await fetchBookingForecast(booking);
       
       // Store the forecast in the booking's weatherData field
       await storage.updateBooking(booking.id, {
@@ -79,6 +176,9 @@ export async function updateWeatherForecasts(): Promise<void> {
       });
       
       console.log(`Updated weather forecast for booking ${booking.id} - ${booking.title}`);
+      
+      // Warn players (and the owner, if asked to) when the forecast trips a team rule
+      await checkWeatherRules(booking, forecast);
     }
     
     console.log('Weather forecast update completed');
@@ -105,7 +205,7 @@ export async function getWeatherForBooking(bookingId: number): Promise<WeatherFo
     }
     
     // Otherwise fetch new weather data
-    const forecast = await fetchWeatherForecast(booking.location, new Date(booking.startTime));
+    const forecast = await fetchBookingForecast(booking);
     
     // Store the forecast for future reference
     await storage.updateBooking(booking.id, {
@@ -124,104 +224,11 @@ export async function getWeatherForBooking(bookingId: number): Promise<WeatherFo
  * Should be called on server startup
  */
 export function scheduleWeatherUpdates(): void {
-  // Schedule to run twice daily (every 12 hours)
-  setInterval(() => {
+  // Runs every WEATHER.UPDATE_INTERVAL_HOURS (twice daily by default)
+  schedulePeriodicJob('weather_update', WEATHER.UPDATE_INTERVAL_HOURS * 60, async () => {
     console.log('Running scheduled weather forecast update...');
-    updateWeatherForecasts();
-  }, 12 * 60 * 60 * 1000);
-  
-  // Also run immediately on server start
-  updateWeatherForecasts();
+    await updateWeatherForecasts();
+  });
   
   console.log('Weather forecast scheduler initialized');
 }
-
-/**
- * Generate mock weather data for testing purposes
- * This produces realistic but randomized weather data
- */
-function generateMockWeather(date: Date): WeatherForecast {
-  // Get month to make seasonally appropriate weather
-  const month = date.getMonth(); // 0-11 (Jan-Dec)
-  const isWinter = month >= 11 || month <= 1; // Dec-Feb
-  const isSpring = month >= 2 && month <= 4;  // Mar-May
-  const isSummer = month >= 5 && month <= 7;  // Jun-Aug
-  const isAutumn = month >= 8 && month <= 10; // Sep-Nov
-  
-  // Generate temperature based on season
-  let tempBase = 15; // Base temperature
-  if (isWinter) tempBase = 5;
-  if (isSpring) tempBase = 15;
-  if (isSummer) tempBase = 25;
-  if (isAutumn) tempBase = 15;
-  
-  // Add some random variation
-  const temperature = tempBase + (Math.random() * 10 - 5);
-  
-  // Generate precipitation chance based on season
-  let precipitationBase = 30; // Base precipitation chance
-  if (isWinter) precipitationBase = 40;
-  if (isSpring) precipitationBase = 50;
-  if (isSummer) precipitationBase = 20;
-  if (isAutumn) precipitationBase = 60;
-  
-  // Add some random variation
-  const precipitation = Math.min(100, Math.max(0, precipitationBase + (Math.random() * 40 - 20)));
-  
-  // Generate humidity based on precipitation and season
-  let humidityBase = 60;
-  if (precipitation > 50) humidityBase = 80;
-  if (isSummer && precipitation < 30) humidityBase = 50;
-  if (isWinter) humidityBase = 70;
-  
-  // Add some random variation
-  const humidity = Math.min(100, Math.max(0, humidityBase + (Math.random() * 20 - 10)));
-  
-  // Generate wind speed
-  const windSpeed = Math.random() * 30;
-  
-  // Determine weather condition based on precipitation
-  let condition: string;
-  let conditionDescription: string;
-  let icon: string;
-  
-  if (precipitation < 20) {
-    condition = "clear";
-    conditionDescription = "Clear skies";
-    icon = "wb_sunny";
-  } else if (precipitation < 40) {
-    condition = "partly_cloudy";
-    conditionDescription = "Partly cloudy";
-    icon = "partly_cloudy_day";
-  } else if (precipitation < 60) {
-    condition = "cloudy";
-    conditionDescription = "Cloudy";
-    icon = "cloud";
-  } else if (precipitation < 80) {
-    condition = "rain";
-    conditionDescription = "Rain showers";
-    icon = "rainy";
-  } else {
-    condition = "heavy_rain";
-    conditionDescription = "Heavy rain";
-    icon = "thunderstorm";
-  }
-  
-  // Adjust for winter (snow instead of rain)
-  if (isWinter && temperature < 3 && precipitation > 50) {
-    condition = "snow";
-    conditionDescription = "Snow";
-    icon = "ac_unit";
-  }
-  
-  return {
-    date,
-    temperature: parseFloat(temperature.toFixed(1)),
-    precipitation: Math.round(precipitation),
-    windSpeed: parseFloat(windSpeed.toFixed(1)),
-    humidity: Math.round(humidity),
-    condition,
-    conditionDescription,
-    icon
-  };
-}
\ No newline at end of file
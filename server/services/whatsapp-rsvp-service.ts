@@ -0,0 +1,282 @@
+/**
+ * WhatsApp RSVP Service - Lets players answer match messages on WhatsApp
+ *
+ * Handles:
+ * - Checking the signature on WhatsApp (Meta Cloud API) webhook calls
+ * - Reading replies out of webhook payloads
+ * - Joining, cancelling or waitlisting a player from their IN / OUT / WAITLIST reply
+ * - Opting players out of (and back in to) messages when they reply STOP / START
+ * - Sending match messages that players can reply to
+ */
+
+import { createHmac, timingSafeEqual } from "crypto";
+import { storage } from "../storage";
+import { Booking, User } from "@shared/schema";
+import { WHATSAPP } from "../config";
+import { whatsappService, canMessageOnWhatsApp, fromWhatsAppNumber, shouldDeliverOnWhatsApp, toWhatsAppNumber } from "./whatsapp-service";
+import { setWhatsAppConsent } from "./phone-verification-service";
+import { NotificationType } from "./notification-types";
+import { renderMessage } from "./message-template-service";
+import { getActivePlayerBooking, getWaitlist, joinBooking, confirmWaitlistOffer } from "./waitlist-service";
+import { processCancellation } from "./cancellation-service";
+
+export type RsvpReply = "IN" | "OUT" | "WAITLIST";
+
+// A text reply pulled out of a webhook payload
+export interface InboundWhatsAppMessage {
+  messageId: string;
+  from: string;               // Sender's WhatsApp number: digits only with country code
+  text: string;
+  contextMessageId?: string;  // The message being replied to, if the player used "reply"
+}
+
+// The result of handling a player's reply
+export interface RsvpResult {
+  success: boolean;
+  message: string;            // Sent back to the player
+  bookingId?: number;
+}
+
+/**
+ * Check the X-Hub-Signature-256 header Meta sends with every webhook call
+ * @param rawBody Request body exactly as received
+ * @param signatureHeader Header value, e.g. "sha256=abc123..."
+ */
+export function verifyWebhookSignature(rawBody: Buffer | undefined, signatureHeader: string | undefined): boolean {
+  if (!WHATSAPP.APP_SECRET || !rawBody || !signatureHeader?.startsWith("sha256=")) return false;
+
+  const expected = createHmac("sha256", WHATSAPP.APP_SECRET).update(rawBody).digest();
+  const received = Buffer.from(signatureHeader.slice("sha256=".length), "hex");
+
+  return received.length === expected.length && timingSafeEqual(received, expected);
+}
+
+/**
+ * Work out which RSVP a reply is, ignoring case, spacing and trailing punctuation
+ * @returns The reply, or null if it isn't one we understand
+ */
+export function parseRsvpReply(text: string): RsvpReply | null {
+  const reply = text.trim().replace(/[.!]+$/, "").toUpperCase();
+  return WHATSAPP.RSVP_REPLIES.includes(reply) ? reply as RsvpReply : null;
+}
+
+/**
+ * Work out whether a reply opts the player out of (false) or back in to
+ * (true) WhatsApp messages
+ * @returns null if the reply isn't about consent
+ */
+export function parseConsentReply(text: string): boolean | null {
+  const reply = text.trim().replace(/[.!]+$/, "").toUpperCase();
+  if (WHATSAPP.OPT_OUT_REPLIES.includes(reply)) return false;
+  if (WHATSAPP.OPT_IN_REPLIES.includes(reply)) return true;
+  return null;
+}
+
+/**
+ * Pull the players' text replies out of a webhook payload. Status updates
+ * and media messages are skipped.
+ * @param payload Body of a Meta Cloud API webhook call
+ */
+export function extractInboundMessages(payload: any): InboundWhatsAppMessage[] {
+  const messages: InboundWhatsAppMessage[] = [];
+
+  for (const entry of payload?.entry || []) {
+    for (const change of entry?.changes || []) {
+      for (const message of change?.value?.messages || []) {
+        // Quick-reply buttons come through as their button text
+        const text = message.text?.body
+          ?? message.button?.text
+          ?? message.interactive?.button_reply?.title;
+
+        if (!message.id || !message.from || typeof text !== "string") continue;
+
+        messages.push({
+          messageId: message.id,
+          from: message.from,
+          text,
+          contextMessageId: message.context?.id
+        });
+      }
+    }
+  }
+
+  return messages;
+}
+
+/**
+ * Find the booking a reply is about: the match message it replies to, or
+ * otherwise the player's next upcoming match
+ */
+async function findReplyBooking(user: User, contextMessageId?: string): Promise<Booking | undefined> {
+  if (contextMessageId) {
+    const original = await storage.getWhatsAppMessage(contextMessageId);
+    if (original?.bookingId) {
+      const booking = await storage.getBooking(original.bookingId);
+      if (booking && booking.teamId === user.teamId) return booking;
+    }
+  }
+
+  if (!user.teamId) return undefined;
+
+  const now = new Date();
+  return (await storage.getBookingsByTeam(user.teamId))
+    .filter(booking => booking.status !== "canceled" && new Date(booking.startTime) > now)
+    .sort((a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime())[0];
+}
+
+/**
+ * Act on a player's RSVP for a booking
+ * @param user Player who replied
+ * @param booking Booking the reply is about
+ * @param reply What they replied
+ */
+export async function applyRsvpReply(user: User, booking: Booking, reply: RsvpReply): Promise<RsvpResult> {
+  if (new Date(booking.startTime) <= new Date()) {
+    return { success: false, message: `${booking.title} has already started`, bookingId: booking.id };
+  }
+
+  const existing = await getActivePlayerBooking(booking.id, user.id);
+
+  if (reply === "OUT") {
+    if (!existing) {
+      return { success: false, message: `You're not down for ${booking.title}`, bookingId: booking.id };
+    }
+
+    const result = await processCancellation(user.id, booking.id, "Replied OUT on WhatsApp");
+    return { success: result.success, message: result.message, bookingId: booking.id };
+  }
+
+  // A spot offered from the waitlist is taken by either reply
+  if (existing?.status === "pending") {
+    const result = await confirmWaitlistOffer(booking.id, user.id);
+    return { success: result.success, message: result.message, bookingId: booking.id };
+  }
+
+  if (reply === "WAITLIST" && !existing) {
+    const waitlist = await getWaitlist(booking.id);
+    if (booking.availableSlots > 0 && waitlist.length === 0) {
+      return {
+        success: false,
+        message: `${booking.title} still has ${booking.availableSlots} spot(s) free. Reply IN to take one.`,
+        bookingId: booking.id
+      };
+    }
+  }
+
+  const result = await joinBooking(booking.id, user.id);
+  return { success: result.success, message: result.message, bookingId: booking.id };
+}
+
+/**
+ * Handle a single reply from a player and answer them on WhatsApp.
+ * Replies already seen (webhook retries) are ignored.
+ * @param message Reply pulled out of the webhook payload
+ * @returns The result, or null if the reply had already been handled
+ */
+export async function handleInboundMessage(message: InboundWhatsAppMessage): Promise<RsvpResult | null> {
+  const phone = fromWhatsAppNumber(message.from);
+  const user = await storage.getUserByPhone(phone);
+
+  const recorded = await storage.createWhatsAppMessage({
+    messageId: message.messageId,
+    direction: "inbound",
+    phone,
+    userId: user?.id ?? null,
+    body: message.text
+  });
+  if (!recorded) return null;
+
+  let result: RsvpResult;
+  const reply = parseRsvpReply(message.text);
+  const consentReply = parseConsentReply(message.text);
+
+  if (!user) {
+    result = {
+      success: false,
+      message: "We don't recognise this number. Add it to your profile to reply to matches on WhatsApp."
+    };
+  } else if (consentReply !== null) {
+    const consent = await setWhatsAppConsent(user, consentReply, "reply");
+    result = {
+      success: consent.success,
+      message: consentReply
+        ? "You'll now get match messages on WhatsApp. Reply STOP at any time to opt out."
+        : "You won't get any more match messages on WhatsApp. Reply START to opt back in."
+    };
+  } else if (!reply) {
+    result = { success: false, message: "Reply IN to play, OUT if you can't make it, or WAITLIST to join the waitlist." };
+  } else {
+    const booking = await findReplyBooking(user, message.contextMessageId);
+    result = booking
+      ? await applyRsvpReply(user, booking, reply)
+      : { success: false, message: "You don't have any upcoming matches to reply to" };
+  }
+
+  await whatsappService.sendTextMessage(message.from, result.message);
+  return result;
+}
+
+/**
+ * Handle every reply in a webhook payload
+ * @param payload Body of a Meta Cloud API webhook call
+ * @returns Number of replies handled
+ */
+export async function processWebhookPayload(payload: any): Promise<number> {
+  let handled = 0;
+
+  for (const message of extractInboundMessages(payload)) {
+    try {
+      if (await handleInboundMessage(message)) handled++;
+    } catch (error) {
+      console.error(`Error handling WhatsApp message ${message.messageId}:`, error);
+    }
+  }
+
+  return handled;
+}
+
+/**
+ * Send a player a match message they can reply IN, OUT or WAITLIST to
+ * @param booking Match to ask about
+ * @param player Player to ask, who must have a verified number, have opted in
+ * and not have turned RSVP requests off
+ * @returns Whether the message was sent
+ */
+export async function sendRsvpRequest(booking: Booking, player: User): Promise<boolean> {
+  if (!(await shouldDeliverOnWhatsApp(player, NotificationType.RSVP_REQUEST, booking.id))) return false;
+  if (!canMessageOnWhatsApp(player)) return false;
+
+  const { body: text } = await renderMessage(NotificationType.RSVP_REQUEST, "whatsapp", { booking, user: player });
+
+  const messageId = await whatsappService.sendTrackedTextMessage(toWhatsAppNumber(player.phone), text);
+  if (!messageId) return false;
+
+  await storage.createWhatsAppMessage({
+    messageId,
+    direction: "outbound",
+    phone: player.phone,
+    userId: player.id,
+    bookingId: booking.id,
+    body: text
+  });
+
+  return true;
+}
+
+/**
+ * Ask every team member who has opted in to WhatsApp and hasn't answered yet
+ * whether they're in for a match
+ * @param booking Match to ask about
+ * @returns Number of players messaged
+ */
+export async function sendRsvpRequests(booking: Booking): Promise<number> {
+  const members = await storage.getTeamMembers(booking.teamId);
+  let sent = 0;
+
+  for (const member of members) {
+    if (await getActivePlayerBooking(booking.id, member.id)) continue;
+    if (await sendRsvpRequest(booking, member)) sent++;
+  }
+
+  return sent;
+}
@@ -1,6 +1,10 @@
 import axios from 'axios';
+import { randomUUID } from 'crypto';
 import { storage } from '../storage';
 import { PlayerBooking, User, Team, Booking } from '@shared/schema';
+import { NotificationType } from './notification-types';
+import { renderMessage } from './message-template-service';
+import { recordSuppression, shouldDeliver } from './notification-preferences';
 
 // Test configuration for WhatsApp Business API
 const TEST_CONFIG = {
@@ -31,6 +35,50 @@ interface WhatsAppMessageTemplate {
   }>;
 }
 
+/**
+ * Whether a player has a verified number and has agreed to WhatsApp messages
+ */
+export function canMessageOnWhatsApp(user: User): user is User & { phone: string } {
+  return !!user.phone && !!user.phoneVerifiedAt && user.whatsappOptIn;
+}
+
+/**
+ * Whether a notification can go to a player on WhatsApp, checking their
+ * consent and preferences. Players with a verified number who were held back
+ * are recorded, so admins can see why they weren't messaged.
+ * @param user - Player the notification is for
+ * @param type - Notification type
+ * @param bookingId - Booking the notification is about, if any
+ */
+export async function shouldDeliverOnWhatsApp(
+  user: User,
+  type: NotificationType,
+  bookingId?: number | null
+): Promise<boolean> {
+  if (!user.phone || !user.phoneVerifiedAt) return false;
+
+  if (!user.whatsappOptIn) {
+    await recordSuppression(user, type, 'whatsapp', 'no_consent', bookingId);
+    return false;
+  }
+
+  return shouldDeliver(user, type, 'whatsapp', bookingId);
+}
+
+/**
+ * A stored number (E.164) as WhatsApp expects it, without the +
+ */
+export function toWhatsAppNumber(phone: string): string {
+  return phone.replace(/^\+/, '');
+}
+
+/**
+ * A number from WhatsApp (no +) in the E.164 format numbers are stored in
+ */
+export function fromWhatsAppNumber(waId: string): string {
+  return waId.startsWith('+') ? waId : `+${waId}`;
+}
+
 /**
  * WhatsApp service to handle sending messages to individual players and groups
  */
@@ -74,20 +122,78 @@ export class WhatsAppService {
    * @returns Success status
    */
   async sendTextMessage(to: string, text: string): Promise<boolean> {
+    return (await this.sendTrackedTextMessage(to, text)) !== null;
+  }
+
+  /**
+   * Send a text message and get back its WhatsApp message ID, so replies
+   * to it can be matched up with what it was about
+   * @param to - Recipient's phone number with country code
+   * @param text - Message text
+   * @returns The message ID, or null if sending failed
+   */
+  async sendTrackedTextMessage(to: string, text: string): Promise<string | null> {
     try {
       // In a real implementation, we would make an actual API call
       console.log(`[WHATSAPP TEST] Sending text message to ${to}: ${text}`);
       
       // Mock successful API response for testing
-      return true;
+      return `wamid.test-${randomUUID()}`;
     } catch (error) {
       console.error('Error sending WhatsApp text message:', error);
-      return false;
+      return null;
+    }
+  }
+
+  /**
+   * Send the same notification to several players, skipping anyone without a
+   * verified number, who hasn't agreed to WhatsApp messages or who has turned
+   * this notification off
+   * @param players - Players to message
+   * @param type - Notification type being sent
+   * @param bookingId - Booking the notification is about
+   * @param send - Sends the message to one player's number
+   * @returns Success status - false if any send failed
+   */
+  private async sendToPlayers(
+    players: User[],
+    type: NotificationType,
+    bookingId: number,
+    send: (to: string, player: User) => Promise<boolean>
+  ): Promise<boolean> {
+    let allSent = true;
+    
+    for (const player of players) {
+      if (!canMessageOnWhatsApp(player) || !(await shouldDeliverOnWhatsApp(player, type, bookingId))) continue;
+      
+      if (!(await send(toWhatsAppNumber(player.phone), player))) {
+        allSent = false;
+      }
+    }
+    
+    return allSent;
+  }
+
+  /**
+   * Get the players booked on to a match
+   * @param bookingId - The booking to look up
+   */
+  private async getBookedPlayers(bookingId: number): Promise<User[]> {
+    const playerBookings = await storage.getPlayerBookingsByBooking(bookingId);
+    const players: User[] = [];
+    
+    for (const playerBooking of playerBookings) {
+      if (playerBooking.status !== 'confirmed') continue;
+      
+      const player = await storage.getUser(playerBooking.playerId);
+      if (player) players.push(player);
     }
+    
+    return players;
   }
 
   /**
-   * Notify team about a new booking
+   * Let the players booked on to a match know who has joined
    * @param booking - The booking that was made
    * @param player - The player who made the booking
    * @param team - The team associated with the booking
@@ -95,43 +201,17 @@ export class WhatsAppService {
    */
   async notifyTeamAboutBooking(booking: Booking, player: User, team: Team): Promise<boolean> {
     try {
-      // Get team owner phone number
-      const teamOwner = await storage.getUser(team.ownerId);
-      if (!teamOwner) {
-        console.error(`Team owner with ID ${team.ownerId} not found`);
-        return false;
-      }
-      
-      // In a real app, the team owner's phone would be stored in the user profile
-      // For testing purposes we'll use a placeholder
-      const ownerPhone = teamOwner.phone || 'test-phone-number';
-      
-      // Format the date and time nicely
-      const date = new Date(booking.startTime).toLocaleDateString();
-      const startTime = new Date(booking.startTime).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
-      const endTime = new Date(booking.endTime).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
-      
-      // Create a message template for booking notification
-      const template: WhatsAppMessageTemplate = {
-        name: 'booking_notification',
-        language: { code: 'en' },
-        components: [
-          {
-            type: 'body',
-            parameters: [
-              { type: 'text', text: player.name },
-              { type: 'text', text: booking.title },
-              { type: 'text', text: date },
-              { type: 'text', text: `${startTime} - ${endTime}` },
-              { type: 'text', text: booking.format },
-              { type: 'text', text: team.name }
-            ]
-          }
-        ]
-      };
+      const recipients = (await this.getBookedPlayers(booking.id)).filter(p => p.id !== player.id);
       
-      // Send the message
-      return this.sendTemplateMessage(ownerPhone, template);
+      return await this.sendToPlayers(recipients, NotificationType.PLAYER_JOINED, booking.id, async (to, recipient) => {
+        const message = await renderMessage(NotificationType.PLAYER_JOINED, 'whatsapp', {
+          booking,
+          team,
+          user: recipient,
+          player
+        });
+        return this.sendTextMessage(to, message.body);
+      });
     } catch (error) {
       console.error('Error notifying team about booking:', error);
       return false;
@@ -139,7 +219,7 @@ export class WhatsAppService {
   }
 
   /**
-   * Send team selection notification
+   * Send the picked sides to every player in them
    * @param booking - The booking with selected teams
    * @param team - The team associated with the booking
    * @param teamA - Array of players in Team A
@@ -153,32 +233,20 @@ export class WhatsAppService {
     teamB: User[]
   ): Promise<boolean> {
     try {
-      // Get team owner
-      const teamOwner = await storage.getUser(team.ownerId);
-      if (!teamOwner) {
-        console.error(`Team owner with ID ${team.ownerId} not found`);
-        return false;
-      }
-      
-      // In a real app, we would have a team chat ID or group admin phone number
-      const ownerPhone = teamOwner.phone || 'test-phone-number';
-      
-      // Format the date
-      const date = new Date(booking.startTime).toLocaleDateString();
-      const time = new Date(booking.startTime).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
-      
-      // Format team lists
-      const teamAString = teamA.map(p => p.name).join(', ');
-      const teamBString = teamB.map(p => p.name).join(', ');
-      
-      // For testing, we'll just send a text message
-      // In a real implementation, you might use a more structured template
-      const message = `🏆 TEAM SELECTION: ${booking.title} - ${date} ${time} (${booking.format})\\n\\n` +
-                      `Team A: ${teamAString}\\n\\n` + 
-                      `Team B: ${teamBString}\\n\\n` +
-                      `Location: ${booking.location}`;
+      const values = {
+        teamA: teamA.map(p => p.name).join(', '),
+        teamB: teamB.map(p => p.name).join(', ')
+      };
       
-      return this.sendTextMessage(ownerPhone, message);
+      return await this.sendToPlayers([...teamA, ...teamB], NotificationType.TEAMS_SELECTED, booking.id, async (to, recipient) => {
+        const message = await renderMessage(NotificationType.TEAMS_SELECTED, 'whatsapp', {
+          booking,
+          team,
+          user: recipient,
+          values
+        });
+        return this.sendTextMessage(to, message.body);
+      });
     } catch (error) {
       console.error('Error sending team selection notification:', error);
       return false;
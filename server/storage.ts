@@ -1,19 +1,49 @@
 import { 
-  users, teams, bookings, playerBookings, matchStats, playerStats, achievements, playerAchievements, creditTransactions, notifications, calendarIntegrations,
+  users, teams, venues, bookings, bookingSeries, playerBookings, matchStats, playerStats, playerRatings, matchLineups, pairConstraints, locationGeocodes, weatherRules, weatherAlerts, pitchCostEntries, whatsappMessages, phoneVerifications, passwordResetTokens, messagingConsents, messageTemplateOverrides, emailDigests, notificationSuppressions, pushSubscriptions, jobs, calendarFeeds, calendarEventLinks, availabilityPolls, availabilityPollOptions, availabilityPollResponses, achievements, playerAchievements, creditTransactions, notifications, calendarIntegrations,
   type User, type InsertUser, type Team, type InsertTeam, type Booking, type InsertBooking,
   type PlayerBooking, type InsertPlayerBooking, type MatchStats, type InsertMatchStats,
   type PlayerStats, type InsertPlayerStats, type Achievement, type PlayerAchievement,
   type CreditTransaction, type InsertCreditTransaction, type Notification, type InsertNotification,
-  type CalendarIntegration, type InsertCalendarIntegration
+  type CalendarIntegration, type InsertCalendarIntegration,
+  type BookingSeries, type InsertBookingSeries, type CreditLedgerEntry, type Venue, type InsertVenue,
+  type PlayerRating, type InsertPlayerRating, type MatchLineupEntry, type InsertMatchLineupEntry,
+  type PairConstraint, type InsertPairConstraint, type LocationGeocode, type InsertLocationGeocode,
+  type WeatherRule, type InsertWeatherRule, type WeatherAlert, type InsertWeatherAlert,
+  type PitchCostEntry, type InsertPitchCostEntry, type WhatsAppMessage, type InsertWhatsAppMessage,
+  type PhoneVerification, type InsertPhoneVerification, type PasswordResetToken, type InsertPasswordResetToken,
+  type MessagingConsent, type InsertMessagingConsent,
+  type MessageTemplateOverride, type InsertMessageTemplateOverride, type EmailDigest, type InsertEmailDigest,
+  type NotificationSuppression, type InsertNotificationSuppression, type PushSubscription, type InsertPushSubscription,
+  type Job, type InsertJob, type CalendarFeed, type InsertCalendarFeed,
+  type CalendarEventLink, type InsertCalendarEventLink,
+  type AvailabilityPoll, type InsertAvailabilityPoll, type AvailabilityPollOption, type InsertAvailabilityPollOption,
+  type AvailabilityPollResponse, type InsertAvailabilityPollResponse,
+  SLOT_HOLDING_STATUSES, BOOKING_CALENDAR_FIELDS
 } from "@shared/schema";
+import { randomUUID } from "crypto";
+import { LEDGER_ACCOUNTS, getLedgerAccountUserId, getLedgerCounterAccount } from "./config";
+
+// A single posting to the credit ledger, moving credits from one account to another
+export interface LedgerTransfer {
+  idempotencyKey: string;   // Unique per posting, e.g. "stripe:pi_123" or "booking-charge:42"
+  fromAccount: string;
+  toAccount: string;
+  amount: number;           // Always positive
+  type: string;
+  bookingId?: number;
+  paymentIntentId?: string;
+  description?: string;
+}
 
 export interface IStorage {
   // Users
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   getUserByEmail(email: string): Promise<User | undefined>;
+  getUserByPhone(phone: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
   updateUser(id: number, user: Partial<User>): Promise<User | undefined>;
+  getAllUsers(): Promise<User[]>;
   
   // Teams
   getTeam(id: number): Promise<Team | undefined>;
@@ -22,6 +52,13 @@ export interface IStorage {
   createTeam(team: InsertTeam): Promise<Team>;
   updateTeam(id: number, team: Partial<Team>): Promise<Team | undefined>;
   
+  // Venues
+  getVenue(id: number): Promise<Venue | undefined>;
+  getVenuesByTeam(teamId: number): Promise<Venue[]>;
+  createVenue(venue: InsertVenue): Promise<Venue>;
+  updateVenue(id: number, venue: Partial<Venue>): Promise<Venue | undefined>;
+  deleteVenue(id: number): Promise<boolean>;
+  
   // Bookings
   getBooking(id: number): Promise<Booking | undefined>;
   getBookingsByTeam(teamId: number): Promise<Booking[]>;
@@ -29,11 +66,20 @@ export interface IStorage {
   createBooking(booking: InsertBooking): Promise<Booking>;
   updateBooking(id: number, booking: Partial<Booking>): Promise<Booking | undefined>;
   deleteBooking(id: number): Promise<boolean>;
+  getBookingsBySeries(seriesId: number): Promise<Booking[]>;
+  
+  // Booking Series
+  getBookingSeries(id: number): Promise<BookingSeries | undefined>;
+  getBookingSeriesByTeam(teamId: number): Promise<BookingSeries[]>;
+  getActiveBookingSeries(): Promise<BookingSeries[]>;
+  createBookingSeries(series: InsertBookingSeries): Promise<BookingSeries>;
+  updateBookingSeries(id: number, series: Partial<BookingSeries>): Promise<BookingSeries | undefined>;
   
   // Player Bookings
   getPlayerBooking(id: number): Promise<PlayerBooking | undefined>;
   getPlayerBookingsByBooking(bookingId: number): Promise<PlayerBooking[]>;
   getPlayerBookingsByPlayer(playerId: number): Promise<PlayerBooking[]>;
+  getPlayerBookingsByStatus(status: string): Promise<PlayerBooking[]>;
   createPlayerBooking(playerBooking: InsertPlayerBooking): Promise<PlayerBooking>;
   updatePlayerBooking(id: number, playerBooking: Partial<PlayerBooking>): Promise<PlayerBooking | undefined>;
   deletePlayerBooking(id: number): Promise<boolean>;
@@ -51,6 +97,23 @@ export interface IStorage {
   createPlayerStats(playerStats: InsertPlayerStats): Promise<PlayerStats>;
   updatePlayerStats(id: number, playerStats: Partial<PlayerStats>): Promise<PlayerStats | undefined>;
   
+  // Match Line-ups
+  getMatchLineup(bookingId: number): Promise<MatchLineupEntry[]>;
+  replaceMatchLineup(bookingId: number, entries: InsertMatchLineupEntry[]): Promise<MatchLineupEntry[]>;
+  
+  // Pair Constraints
+  getPairConstraint(id: number): Promise<PairConstraint | undefined>;
+  getPairConstraintsByTeam(teamId: number): Promise<PairConstraint[]>;
+  getPairConstraintsByBooking(bookingId: number): Promise<PairConstraint[]>;
+  createPairConstraint(constraint: InsertPairConstraint): Promise<PairConstraint>;
+  deletePairConstraint(id: number): Promise<boolean>;
+  
+  // Player Ratings
+  getPlayerRatingHistory(playerId: number): Promise<PlayerRating[]>;
+  getLatestPlayerRating(playerId: number): Promise<PlayerRating | undefined>;
+  getPlayerRatingsByBooking(bookingId: number): Promise<PlayerRating[]>;
+  replaceMatchRatings(bookingId: number, ratings: InsertPlayerRating[]): Promise<PlayerRating[]>;
+  
   // Stripe
   updateUserStripeInfo(userId: number, stripeCustomerId: string, stripeSubscriptionId: string): Promise<User | undefined>;
   
@@ -70,71 +133,304 @@ export interface IStorage {
   markNotificationAsRead(id: number): Promise<boolean>;
   markAllNotificationsAsRead(userId: number): Promise<boolean>;
   deleteNotification(id: number): Promise<boolean>;
+  markNotificationsEmailed(ids: number[], emailedAt: Date): Promise<void>;
+  
+  // Email Digests
+  getEmailDigest(userId: number, frequency: string, period: string): Promise<EmailDigest | undefined>;
+  // Returns undefined if the player has already had this period's digest
+  createEmailDigest(digest: InsertEmailDigest): Promise<EmailDigest | undefined>;
+  
+  // Notification Suppressions
+  createNotificationSuppression(suppression: InsertNotificationSuppression): Promise<NotificationSuppression>;
+  // Newest first, optionally narrowed to one player or booking
+  getNotificationSuppressionsByTeam(
+    teamId: number,
+    filter?: { userId?: number; bookingId?: number }
+  ): Promise<NotificationSuppression[]>;
+  getNotificationSuppressionsByUser(userId: number): Promise<NotificationSuppression[]>;
+  
+  // Push Subscriptions
+  getPushSubscriptionsByUser(userId: number): Promise<PushSubscription[]>;
+  // Replaces any subscription with the same endpoint, e.g. a device another player used before
+  savePushSubscription(subscription: InsertPushSubscription): Promise<PushSubscription>;
+  deletePushSubscription(endpoint: string): Promise<boolean>;
+  markPushSubscriptionUsed(id: number, usedAt: Date): Promise<void>;
+  // Returns the number of subscriptions removed
+  deleteExpiredPushSubscriptions(before: Date): Promise<number>;
+  
+  // Jobs
+  getJob(id: number): Promise<Job | undefined>;
+  getJobByKey(key: string): Promise<Job | undefined>;
+  // Returns undefined if a job with the same key already exists
+  createJob(job: InsertJob): Promise<Job | undefined>;
+  updateJob(id: number, jobData: Partial<Job>): Promise<Job | undefined>;
+  // Marks up to `limit` due jobs as running for this worker, including running
+  // jobs whose lease has run out, and counts the attempt
+  claimDueJobs(workerId: string, now: Date, leaseUntil: Date, limit: number): Promise<Job[]>;
+  // Updates a running job only while the worker still holds it; undefined if another worker took it over
+  updateLeasedJob(id: number, workerId: string, jobData: Partial<Job>): Promise<Job | undefined>;
+  // Newest first
+  getJobs(filter?: { status?: string; type?: string; limit?: number }): Promise<Job[]>;
+  countJobsByStatus(): Promise<Record<string, number>>;
+  // Returns the number of jobs removed
+  deleteFinishedJobs(before: Date): Promise<number>;
   
   // Credits and Transactions
   getUserCredits(userId: number): Promise<number>;
-  addUserCredits(userId: number, amount: number, type: string, description?: string, teamOwnerId?: number): Promise<User>;
+  addUserCredits(userId: number, amount: number, type: string, description?: string, teamOwnerId?: number, idempotencyKey?: string): Promise<User>;
   useUserCredits(userId: number, amount: number, bookingId: number, description?: string): Promise<boolean>;
   getTransactionsByUser(userId: number): Promise<CreditTransaction[]>;
   getTransactionsByTeamOwner(teamOwnerId: number): Promise<CreditTransaction[]>;
   createCreditTransaction(transaction: InsertCreditTransaction): Promise<CreditTransaction>;
   updateTransactionStatus(id: number, status: string): Promise<CreditTransaction | undefined>;
+  getTransactionByPaymentIntent(paymentIntentId: string): Promise<CreditTransaction | undefined>;
+  
+  // Credit Ledger
+  postLedgerTransfer(transfer: LedgerTransfer): Promise<boolean>;
+  getLedgerEntriesByUser(userId: number): Promise<CreditLedgerEntry[]>;
+  getLedgerBalances(): Promise<Map<number, number>>;
+  // Reset a user's cached balance to their ledger sum, with no posting able to land in between
+  resyncUserCredits(userId: number): Promise<User | undefined>;
+  
+  // Booking credit operations - credits, transactions and slots change together or not at all
+  joinBookingWithCredits(bookingId: number, playerId: number): Promise<PlayerBooking>;
+  confirmPlayerBookingWithCredits(playerBookingId: number): Promise<PlayerBooking>;
+  cancelPlayerBookingWithRefund(playerBookingId: number, refundAmount: number, reason: string): Promise<PlayerBooking>;
+  
+  // Waitlist offers - the held slot and the offer change together; undefined if nothing changed
+  offerWaitlistSpot(playerBookingId: number, offerExpiresAt: Date): Promise<PlayerBooking | undefined>; // Only while a slot is free
+  expireWaitlistOffer(playerBookingId: number): Promise<PlayerBooking | undefined>; // Only while the offer is open
+  
+  // Location Geocodes
+  getLocationGeocode(query: string): Promise<LocationGeocode | undefined>;
+  saveLocationGeocode(geocode: InsertLocationGeocode): Promise<LocationGeocode>;
+  
+  // Weather Rules
+  getWeatherRule(id: number): Promise<WeatherRule | undefined>;
+  getWeatherRulesByTeam(teamId: number): Promise<WeatherRule[]>;
+  createWeatherRule(rule: InsertWeatherRule): Promise<WeatherRule>;
+  updateWeatherRule(id: number, rule: Partial<WeatherRule>): Promise<WeatherRule | undefined>;
+  deleteWeatherRule(id: number): Promise<boolean>;
+  
+  // Weather Alerts
+  getWeatherAlert(id: number): Promise<WeatherAlert | undefined>;
+  getWeatherAlertsByBooking(bookingId: number): Promise<WeatherAlert[]>;
+  // Returns undefined if the rule has already alerted for the booking
+  createWeatherAlert(alert: InsertWeatherAlert): Promise<WeatherAlert | undefined>;
+  updateWeatherAlert(id: number, alert: Partial<WeatherAlert>): Promise<WeatherAlert | undefined>;
+  
+  // Pitch Cost Ledger
+  getPitchCostEntryByBooking(bookingId: number): Promise<PitchCostEntry | undefined>;
+  getPitchCostEntriesByTeam(teamId: number): Promise<PitchCostEntry[]>;
+  // Returns undefined if the booking has already been settled
+  createPitchCostEntry(entry: InsertPitchCostEntry): Promise<PitchCostEntry | undefined>;
+  
+  // WhatsApp Messages
+  getWhatsAppMessage(messageId: string): Promise<WhatsAppMessage | undefined>;
+  // Returns undefined if the message has already been recorded
+  createWhatsAppMessage(message: InsertWhatsAppMessage): Promise<WhatsAppMessage | undefined>;
+  
+  // Phone Verifications
+  getLatestPhoneVerification(userId: number): Promise<PhoneVerification | undefined>;
+  createPhoneVerification(verification: InsertPhoneVerification): Promise<PhoneVerification>;
+  updatePhoneVerification(id: number, verification: Partial<PhoneVerification>): Promise<PhoneVerification | undefined>;
+  // Counts a guess against the code; returns undefined once maxAttempts have been used
+  claimPhoneVerificationAttempt(id: number, maxAttempts: number): Promise<PhoneVerification | undefined>;
+  
+  // Password Reset Tokens
+  getPasswordResetTokenByHash(tokenHash: string): Promise<PasswordResetToken | undefined>;
+  getLatestPasswordResetToken(userId: number): Promise<PasswordResetToken | undefined>;
+  createPasswordResetToken(token: InsertPasswordResetToken): Promise<PasswordResetToken>;
+  usePasswordResetToken(id: number): Promise<boolean>; // False if it had already been used
+  expirePasswordResetTokens(userId: number): Promise<void>;
+  
+  // Messaging Consents
+  getMessagingConsentsByUser(userId: number): Promise<MessagingConsent[]>;
+  createMessagingConsent(consent: InsertMessagingConsent): Promise<MessagingConsent>;
+  
+  // Message Template Overrides
+  getMessageTemplateOverridesByTeam(teamId: number): Promise<MessageTemplateOverride[]>;
+  getMessageTemplateOverride(teamId: number, type: string, channel: string, locale: string): Promise<MessageTemplateOverride | undefined>;
+  // Creates the override, or replaces the team's existing one for the same type, channel and locale
+  saveMessageTemplateOverride(override: InsertMessageTemplateOverride): Promise<MessageTemplateOverride>;
+  deleteMessageTemplateOverride(teamId: number, type: string, channel: string, locale: string): Promise<boolean>;
   
   // Calendar Integrations
   getCalendarIntegration(id: number): Promise<CalendarIntegration | undefined>;
   getCalendarIntegrationByUser(userId: number, provider: string): Promise<CalendarIntegration | undefined>;
+  getActiveCalendarIntegrations(): Promise<CalendarIntegration[]>;
   createCalendarIntegration(integration: InsertCalendarIntegration): Promise<CalendarIntegration>;
   updateCalendarIntegration(id: number, update: Partial<CalendarIntegration>): Promise<CalendarIntegration | undefined>;
   deleteCalendarIntegration(id: number): Promise<boolean>;
+  
+  // Calendar Event Links - which external event each booking was synced to
+  getCalendarEventLink(integrationId: number, bookingId: number): Promise<CalendarEventLink | undefined>;
+  getCalendarEventLinksByIntegration(integrationId: number): Promise<CalendarEventLink[]>;
+  getCalendarEventLinksByBooking(bookingId: number): Promise<CalendarEventLink[]>;
+  saveCalendarEventLink(link: InsertCalendarEventLink): Promise<CalendarEventLink>;
+  deleteCalendarEventLink(id: number): Promise<boolean>;
+  
+  // Calendar Feeds
+  getCalendarFeedByUser(userId: number): Promise<CalendarFeed | undefined>;
+  getCalendarFeedByToken(token: string): Promise<CalendarFeed | undefined>;
+  createCalendarFeed(feed: InsertCalendarFeed): Promise<CalendarFeed>;
+  updateCalendarFeed(id: number, update: Partial<CalendarFeed>): Promise<CalendarFeed | undefined>;
+  
+  // Availability Polls
+  getAvailabilityPoll(id: number): Promise<AvailabilityPoll | undefined>;
+  getAvailabilityPollsByTeam(teamId: number): Promise<AvailabilityPoll[]>;
+  createAvailabilityPoll(poll: InsertAvailabilityPoll): Promise<AvailabilityPoll>;
+  updateAvailabilityPoll(id: number, update: Partial<AvailabilityPoll>): Promise<AvailabilityPoll | undefined>;
+  claimAvailabilityPoll(id: number): Promise<AvailabilityPoll | undefined>; // Marks it booked; undefined if it already was
+  getAvailabilityPollOptions(pollId: number): Promise<AvailabilityPollOption[]>;
+  createAvailabilityPollOption(option: InsertAvailabilityPollOption): Promise<AvailabilityPollOption>;
+  getAvailabilityPollResponses(pollId: number): Promise<AvailabilityPollResponse[]>;
+  saveAvailabilityPollResponse(response: InsertAvailabilityPollResponse): Promise<AvailabilityPollResponse>;
 }
 
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
   private teams: Map<number, Team>;
+  private venues: Map<number, Venue>;
   private bookings: Map<number, Booking>;
+  private bookingSeries: Map<number, BookingSeries>;
   private playerBookings: Map<number, PlayerBooking>;
   private matchStats: Map<number, MatchStats>;
   private playerStats: Map<number, PlayerStats>;
+  private playerRatings: Map<number, PlayerRating>;
+  private matchLineups: Map<number, MatchLineupEntry>;
+  private pairConstraints: Map<number, PairConstraint>;
+  private locationGeocodes: Map<string, LocationGeocode>;
+  private weatherRules: Map<number, WeatherRule>;
+  private weatherAlerts: Map<number, WeatherAlert>;
+  private pitchCostEntries: Map<number, PitchCostEntry>;
+  private whatsappMessages: Map<number, WhatsAppMessage>;
+  private phoneVerifications: Map<number, PhoneVerification>;
+  private passwordResetTokens: Map<number, PasswordResetToken>;
+  private messagingConsents: Map<number, MessagingConsent>;
+  private messageTemplateOverrides: Map<number, MessageTemplateOverride>;
+  private emailDigests: Map<number, EmailDigest>;
+  private notificationSuppressions: Map<number, NotificationSuppression>;
+  private pushSubscriptions: Map<number, PushSubscription>;
+  private jobs: Map<number, Job>;
+  private calendarFeeds: Map<number, CalendarFeed>;
+  private calendarEventLinks: Map<number, CalendarEventLink>;
+  private availabilityPolls: Map<number, AvailabilityPoll>;
+  private availabilityPollOptions: Map<number, AvailabilityPollOption>;
+  private availabilityPollResponses: Map<number, AvailabilityPollResponse>;
   private achievements: Map<number, Achievement>;
   private playerAchievements: Map<number, PlayerAchievement>;
   private creditTransactions: Map<number, CreditTransaction>;
+  private creditLedgerEntries: Map<number, CreditLedgerEntry>;
   private notifications: Map<number, Notification>;
   private calendarIntegrations: Map<number, CalendarIntegration>;
   
   private userIdCounter: number;
   private teamIdCounter: number;
+  private venueIdCounter: number;
   private bookingIdCounter: number;
+  private bookingSeriesIdCounter: number;
   private playerBookingIdCounter: number;
   private matchStatsIdCounter: number;
   private playerStatsIdCounter: number;
+  private playerRatingIdCounter: number;
+  private matchLineupIdCounter: number;
+  private pairConstraintIdCounter: number;
+  private locationGeocodeIdCounter: number;
+  private weatherRuleIdCounter: number;
+  private weatherAlertIdCounter: number;
+  private pitchCostEntryIdCounter: number;
+  private whatsappMessageIdCounter: number;
+  private phoneVerificationIdCounter: number;
+  private passwordResetTokenIdCounter: number;
+  private messagingConsentIdCounter: number;
+  private messageTemplateOverrideIdCounter: number;
+  private emailDigestIdCounter: number;
+  private notificationSuppressionIdCounter: number;
+  private pushSubscriptionIdCounter: number;
+  private jobIdCounter: number;
+  private calendarFeedIdCounter: number;
+  private calendarEventLinkIdCounter: number;
+  private availabilityPollIdCounter: number;
+  private availabilityPollOptionIdCounter: number;
+  private availabilityPollResponseIdCounter: number;
   private achievementIdCounter: number;
   private playerAchievementIdCounter: number;
   private creditTransactionIdCounter: number;
+  private creditLedgerEntryIdCounter: number;
   private notificationIdCounter: number;
   private calendarIntegrationIdCounter: number;
 
   constructor() {
     this.users = new Map();
     this.teams = new Map();
+    this.venues = new Map();
     this.bookings = new Map();
+    this.bookingSeries = new Map();
     this.playerBookings = new Map();
     this.matchStats = new Map();
     this.playerStats = new Map();
+    this.playerRatings = new Map();
+    this.matchLineups = new Map();
+    this.pairConstraints = new Map();
+    this.locationGeocodes = new Map();
+    this.weatherRules = new Map();
+    this.weatherAlerts = new Map();
+    this.pitchCostEntries = new Map();
+    this.whatsappMessages = new Map();
+    this.phoneVerifications = new Map();
+    this.passwordResetTokens = new Map();
+    this.messagingConsents = new Map();
+    this.messageTemplateOverrides = new Map();
+    this.emailDigests = new Map();
+    this.notificationSuppressions = new Map();
+    this.pushSubscriptions = new Map();
+    this.jobs = new Map();
+    this.calendarFeeds = new Map();
+    this.calendarEventLinks = new Map();
+    this.availabilityPolls = new Map();
+    this.availabilityPollOptions = new Map();
+    this.availabilityPollResponses = new Map();
     this.achievements = new Map();
     this.playerAchievements = new Map();
     this.creditTransactions = new Map();
+    this.creditLedgerEntries = new Map();
     this.notifications = new Map();
     this.calendarIntegrations = new Map();
     
     this.userIdCounter = 1;
     this.teamIdCounter = 1;
+    this.venueIdCounter = 1;
     this.bookingIdCounter = 1;
+    this.bookingSeriesIdCounter = 1;
     this.playerBookingIdCounter = 1;
     this.matchStatsIdCounter = 1;
     this.playerStatsIdCounter = 1;
+    this.playerRatingIdCounter = 1;
+    this.matchLineupIdCounter = 1;
+    this.pairConstraintIdCounter = 1;
+    this.locationGeocodeIdCounter = 1;
+    this.weatherRuleIdCounter = 1;
+    this.weatherAlertIdCounter = 1;
+    this.pitchCostEntryIdCounter = 1;
+    this.whatsappMessageIdCounter = 1;
+    this.phoneVerificationIdCounter = 1;
+    this.passwordResetTokenIdCounter = 1;
+    this.messagingConsentIdCounter = 1;
+    this.messageTemplateOverrideIdCounter = 1;
+    this.emailDigestIdCounter = 1;
+    this.notificationSuppressionIdCounter = 1;
+    this.pushSubscriptionIdCounter = 1;
+    this.jobIdCounter = 1;
+    this.calendarFeedIdCounter = 1;
+    this.calendarEventLinkIdCounter = 1;
+    this.availabilityPollIdCounter = 1;
+    this.availabilityPollOptionIdCounter = 1;
+    this.availabilityPollResponseIdCounter = 1;
     this.achievementIdCounter = 1;
     this.playerAchievementIdCounter = 1;
     this.creditTransactionIdCounter = 1;
+    this.creditLedgerEntryIdCounter = 1;
     this.notificationIdCounter = 1;
     this.calendarIntegrationIdCounter = 1;
     
@@ -177,9 +473,20 @@ export class MemStorage implements IStorage {
     return Array.from(this.users.values()).find(user => user.email === email);
   }
 
+  async getUserByPhone(phone: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(user => user.phone === phone);
+  }
+
   async createUser(insertUser: InsertUser): Promise<User> {
     const id = this.userIdCounter++;
-    const user: User = { ...insertUser, id, createdAt: new Date() };
+    const user: User = {
+      ...insertUser,
+      id,
+      phone: null,
+      phoneVerifiedAt: null,
+      whatsappOptIn: false,
+      createdAt: new Date()
+    };
     this.users.set(id, user);
     return user;
   }
@@ -193,6 +500,10 @@ export class MemStorage implements IStorage {
     return updatedUser;
   }
 
+  async getAllUsers(): Promise<User[]> {
+    return Array.from(this.users.values());
+  }
+
   // Teams
   async getTeam(id: number): Promise<Team | undefined> {
     return this.teams.get(id);
@@ -222,6 +533,49 @@ export class MemStorage implements IStorage {
     return updatedTeam;
   }
 
+  // Venues
+  async getVenue(id: number): Promise<Venue | undefined> {
+    return this.venues.get(id);
+  }
+
+  async getVenuesByTeam(teamId: number): Promise<Venue[]> {
+    return Array.from(this.venues.values())
+      .filter(venue => venue.teamId === teamId)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async createVenue(insertVenue: InsertVenue): Promise<Venue> {
+    const id = this.venueIdCounter++;
+    const venue: Venue = {
+      address: null,
+      latitude: null,
+      longitude: null,
+      surfaceType: null,
+      isIndoor: false,
+      pitchSizes: [],
+      costPerHour: null,
+      notes: null,
+      ...insertVenue,
+      id,
+      createdAt: new Date()
+    };
+    this.venues.set(id, venue);
+    return venue;
+  }
+
+  async updateVenue(id: number, update: Partial<Venue>): Promise<Venue | undefined> {
+    const venue = this.venues.get(id);
+    if (!venue) return undefined;
+    
+    const updatedVenue = { ...venue, ...update };
+    this.venues.set(id, updatedVenue);
+    return updatedVenue;
+  }
+
+  async deleteVenue(id: number): Promise<boolean> {
+    return this.venues.delete(id);
+  }
+
   // Bookings
   async getBooking(id: number): Promise<Booking | undefined> {
     return this.bookings.get(id);
@@ -233,7 +587,7 @@ export class MemStorage implements IStorage {
 
   async createBooking(insertBooking: InsertBooking): Promise<Booking> {
     const id = this.bookingIdCounter++;
-    const booking: Booking = { ...insertBooking, id, createdAt: new Date() };
+    const booking: Booking = { ...insertBooking, id, calendarSequence: 0, createdAt: new Date() };
     this.bookings.set(id, booking);
     return booking;
   }
@@ -243,6 +597,9 @@ export class MemStorage implements IStorage {
     if (!booking) return undefined;
     
     const updatedBooking = { ...booking, ...update };
+    if (BOOKING_CALENDAR_FIELDS.some(field => field in update)) {
+      updatedBooking.calendarSequence = booking.calendarSequence + 1;
+    }
     this.bookings.set(id, updatedBooking);
     return updatedBooking;
   }
@@ -251,6 +608,53 @@ export class MemStorage implements IStorage {
     return this.bookings.delete(id);
   }
 
+  async getBookingsBySeries(seriesId: number): Promise<Booking[]> {
+    return Array.from(this.bookings.values())
+      .filter(booking => booking.seriesId === seriesId)
+      .sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+  }
+
+  // Booking Series
+  async getBookingSeries(id: number): Promise<BookingSeries | undefined> {
+    return this.bookingSeries.get(id);
+  }
+
+  async getBookingSeriesByTeam(teamId: number): Promise<BookingSeries[]> {
+    return Array.from(this.bookingSeries.values()).filter(series => series.teamId === teamId);
+  }
+
+  async getActiveBookingSeries(): Promise<BookingSeries[]> {
+    return Array.from(this.bookingSeries.values()).filter(series => series.isActive);
+  }
+
+  async createBookingSeries(insertSeries: InsertBookingSeries): Promise<BookingSeries> {
+    const id = this.bookingSeriesIdCounter++;
+    const series: BookingSeries = {
+      creditCost: 1,
+      venueId: null,
+      pitchCost: null,
+      endDate: null,
+      occurrenceCount: null,
+      skipDates: [],
+      isActive: true,
+      ...insertSeries,
+      id,
+      lastMaterializedAt: null,
+      createdAt: new Date()
+    };
+    this.bookingSeries.set(id, series);
+    return series;
+  }
+
+  async updateBookingSeries(id: number, update: Partial<BookingSeries>): Promise<BookingSeries | undefined> {
+    const series = this.bookingSeries.get(id);
+    if (!series) return undefined;
+    
+    const updatedSeries = { ...series, ...update };
+    this.bookingSeries.set(id, updatedSeries);
+    return updatedSeries;
+  }
+
   // Player Bookings
   async getPlayerBooking(id: number): Promise<PlayerBooking | undefined> {
     return this.playerBookings.get(id);
@@ -264,14 +668,18 @@ export class MemStorage implements IStorage {
     return Array.from(this.playerBookings.values()).filter(pb => pb.playerId === playerId);
   }
 
+  async getPlayerBookingsByStatus(status: string): Promise<PlayerBooking[]> {
+    return Array.from(this.playerBookings.values()).filter(pb => pb.status === status);
+  }
+
   async createPlayerBooking(insertPlayerBooking: InsertPlayerBooking): Promise<PlayerBooking> {
     const id = this.playerBookingIdCounter++;
     const playerBooking: PlayerBooking = { ...insertPlayerBooking, id, createdAt: new Date() };
     this.playerBookings.set(id, playerBooking);
     
-    // Update available slots
+    // Update available slots (waitlisted players don't take a slot)
     const booking = await this.getBooking(insertPlayerBooking.bookingId);
-    if (booking && booking.availableSlots > 0) {
+    if (booking && booking.availableSlots > 0 && SLOT_HOLDING_STATUSES.includes(playerBooking.status || "confirmed")) {
       await this.updateBooking(booking.id, { 
         availableSlots: booking.availableSlots - 1 
       });
@@ -295,7 +703,7 @@ export class MemStorage implements IStorage {
     
     // Restore available slot
     const booking = await this.getBooking(playerBooking.bookingId);
-    if (booking) {
+    if (booking && SLOT_HOLDING_STATUSES.includes(playerBooking.status)) {
       await this.updateBooking(booking.id, { 
         availableSlots: booking.availableSlots + 1 
       });
@@ -365,6 +773,94 @@ export class MemStorage implements IStorage {
     
     return updatedStats;
   }
+  // Match Line-ups
+  async getMatchLineup(bookingId: number): Promise<MatchLineupEntry[]> {
+    return Array.from(this.matchLineups.values())
+      .filter(entry => entry.bookingId === bookingId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async replaceMatchLineup(bookingId: number, entries: InsertMatchLineupEntry[]): Promise<MatchLineupEntry[]> {
+    for (const existing of await this.getMatchLineup(bookingId)) {
+      this.matchLineups.delete(existing.id);
+    }
+
+    return entries.map(insertEntry => {
+      const id = this.matchLineupIdCounter++;
+      const entry: MatchLineupEntry = {
+        ...insertEntry,
+        bookingId,
+        id,
+        position: insertEntry.position ?? null,
+        bibColour: insertEntry.bibColour ?? null,
+        isCaptain: insertEntry.isCaptain ?? false,
+        createdAt: new Date()
+      };
+      this.matchLineups.set(id, entry);
+      return entry;
+    });
+  }
+
+  // Pair Constraints
+  async getPairConstraint(id: number): Promise<PairConstraint | undefined> {
+    return this.pairConstraints.get(id);
+  }
+
+  async getPairConstraintsByTeam(teamId: number): Promise<PairConstraint[]> {
+    return Array.from(this.pairConstraints.values())
+      .filter(constraint => constraint.teamId === teamId && constraint.bookingId === null);
+  }
+
+  async getPairConstraintsByBooking(bookingId: number): Promise<PairConstraint[]> {
+    return Array.from(this.pairConstraints.values())
+      .filter(constraint => constraint.bookingId === bookingId);
+  }
+
+  async createPairConstraint(insertConstraint: InsertPairConstraint): Promise<PairConstraint> {
+    const id = this.pairConstraintIdCounter++;
+    const constraint: PairConstraint = {
+      ...insertConstraint,
+      id,
+      bookingId: insertConstraint.bookingId ?? null,
+      createdAt: new Date()
+    };
+    this.pairConstraints.set(id, constraint);
+    return constraint;
+  }
+
+  async deletePairConstraint(id: number): Promise<boolean> {
+    return this.pairConstraints.delete(id);
+  }
+
+  // Player Ratings
+  async getPlayerRatingHistory(playerId: number): Promise<PlayerRating[]> {
+    return Array.from(this.playerRatings.values())
+      .filter(rating => rating.playerId === playerId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async getLatestPlayerRating(playerId: number): Promise<PlayerRating | undefined> {
+    const history = await this.getPlayerRatingHistory(playerId);
+    return history[history.length - 1];
+  }
+
+  async getPlayerRatingsByBooking(bookingId: number): Promise<PlayerRating[]> {
+    return Array.from(this.playerRatings.values()).filter(rating => rating.bookingId === bookingId);
+  }
+
+  async replaceMatchRatings(bookingId: number, ratings: InsertPlayerRating[]): Promise<PlayerRating[]> {
+    for (const existing of await this.getPlayerRatingsByBooking(bookingId)) {
+      this.playerRatings.delete(existing.id);
+    }
+
+    return ratings.map(insertRating => {
+      const id = this.playerRatingIdCounter++;
+      const rating: PlayerRating = { ...insertRating, bookingId, id, createdAt: new Date() };
+      this.playerRatings.set(id, rating);
+      return rating;
+    });
+  }
+
   
   // Stripe
   async updateUserStripeInfo(userId: number, stripeCustomerId: string, stripeSubscriptionId: string): Promise<User | undefined> {
@@ -479,6 +975,7 @@ export class MemStorage implements IStorage {
     const id = this.notificationIdCounter++;
     const newNotification: Notification = {
       ...notification,
+      emailedAt: notification.emailedAt ?? null,
       id,
       createdAt: new Date()
     };
@@ -511,41 +1008,276 @@ export class MemStorage implements IStorage {
     return this.notifications.delete(id);
   }
 
+  async markNotificationsEmailed(ids: number[], emailedAt: Date): Promise<void> {
+    for (const id of ids) {
+      const notification = this.notifications.get(id);
+      if (notification) {
+        this.notifications.set(id, { ...notification, emailedAt });
+      }
+    }
+  }
+
+  // Email Digests
+  async getEmailDigest(userId: number, frequency: string, period: string): Promise<EmailDigest | undefined> {
+    return Array.from(this.emailDigests.values()).find(digest =>
+      digest.userId === userId && digest.frequency === frequency && digest.period === period
+    );
+  }
+
+  async createEmailDigest(insertDigest: InsertEmailDigest): Promise<EmailDigest | undefined> {
+    if (await this.getEmailDigest(insertDigest.userId, insertDigest.frequency, insertDigest.period)) {
+      return undefined;
+    }
+
+    const id = this.emailDigestIdCounter++;
+    const digest: EmailDigest = {
+      ...insertDigest,
+      id,
+      createdAt: new Date()
+    };
+    this.emailDigests.set(id, digest);
+    return digest;
+  }
+
+  // Notification Suppressions
+  async createNotificationSuppression(insertSuppression: InsertNotificationSuppression): Promise<NotificationSuppression> {
+    const id = this.notificationSuppressionIdCounter++;
+    const suppression: NotificationSuppression = {
+      ...insertSuppression,
+      teamId: insertSuppression.teamId ?? null,
+      bookingId: insertSuppression.bookingId ?? null,
+      id,
+      createdAt: new Date()
+    };
+    this.notificationSuppressions.set(id, suppression);
+    return suppression;
+  }
+
+  async getNotificationSuppressionsByTeam(
+    teamId: number,
+    filter: { userId?: number; bookingId?: number } = {}
+  ): Promise<NotificationSuppression[]> {
+    return Array.from(this.notificationSuppressions.values())
+      .filter(suppression =>
+        suppression.teamId === teamId &&
+        (filter.userId === undefined || suppression.userId === filter.userId) &&
+        (filter.bookingId === undefined || suppression.bookingId === filter.bookingId)
+      )
+      .sort((a, b) => b.id - a.id);
+  }
+
+  async getNotificationSuppressionsByUser(userId: number): Promise<NotificationSuppression[]> {
+    return Array.from(this.notificationSuppressions.values())
+      .filter(suppression => suppression.userId === userId)
+      .sort((a, b) => b.id - a.id);
+  }
+
+  // Push Subscriptions
+  async getPushSubscriptionsByUser(userId: number): Promise<PushSubscription[]> {
+    return Array.from(this.pushSubscriptions.values())
+      .filter(subscription => subscription.userId === userId);
+  }
+
+  async savePushSubscription(insertSubscription: InsertPushSubscription): Promise<PushSubscription> {
+    const existing = Array.from(this.pushSubscriptions.values())
+      .find(subscription => subscription.endpoint === insertSubscription.endpoint);
+    
+    const subscription: PushSubscription = {
+      ...insertSubscription,
+      userAgent: insertSubscription.userAgent ?? null,
+      expiresAt: insertSubscription.expiresAt ?? null,
+      lastUsedAt: insertSubscription.lastUsedAt ?? null,
+      id: existing?.id ?? this.pushSubscriptionIdCounter++,
+      createdAt: existing?.createdAt ?? new Date()
+    };
+    this.pushSubscriptions.set(subscription.id, subscription);
+    return subscription;
+  }
+
+  async deletePushSubscription(endpoint: string): Promise<boolean> {
+    const subscription = Array.from(this.pushSubscriptions.values())
+      .find(subscription => subscription.endpoint === endpoint);
+    return subscription ? this.pushSubscriptions.delete(subscription.id) : false;
+  }
+
+  async markPushSubscriptionUsed(id: number, usedAt: Date): Promise<void> {
+    const subscription = this.pushSubscriptions.get(id);
+    if (subscription) {
+      this.pushSubscriptions.set(id, { ...subscription, lastUsedAt: usedAt });
+    }
+  }
+
+  async deleteExpiredPushSubscriptions(before: Date): Promise<number> {
+    let deleted = 0;
+    for (const subscription of Array.from(this.pushSubscriptions.values())) {
+      if (subscription.expiresAt && subscription.expiresAt <= before) {
+        this.pushSubscriptions.delete(subscription.id);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+
+  // Jobs
+  async getJob(id: number): Promise<Job | undefined> {
+    return this.jobs.get(id);
+  }
+
+  async getJobByKey(key: string): Promise<Job | undefined> {
+    return Array.from(this.jobs.values()).find(job => job.key === key);
+  }
+
+  async createJob(insertJob: InsertJob): Promise<Job | undefined> {
+    if (insertJob.key && await this.getJobByKey(insertJob.key)) {
+      return undefined;
+    }
+    
+    const id = this.jobIdCounter++;
+    const now = new Date();
+    const job: Job = {
+      ...insertJob,
+      key: insertJob.key ?? null,
+      payload: insertJob.payload ?? null,
+      status: insertJob.status ?? "pending",
+      runAt: insertJob.runAt ?? now,
+      attempts: insertJob.attempts ?? 0,
+      maxAttempts: insertJob.maxAttempts ?? 5,
+      lockedBy: insertJob.lockedBy ?? null,
+      lockedUntil: insertJob.lockedUntil ?? null,
+      lastError: insertJob.lastError ?? null,
+      completedAt: insertJob.completedAt ?? null,
+      id,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.jobs.set(id, job);
+    return job;
+  }
+
+  async updateJob(id: number, jobData: Partial<Job>): Promise<Job | undefined> {
+    const job = this.jobs.get(id);
+    if (!job) return undefined;
+    
+    const updatedJob = { ...job, ...jobData, updatedAt: new Date() };
+    this.jobs.set(id, updatedJob);
+    return updatedJob;
+  }
+
+  async claimDueJobs(workerId: string, now: Date, leaseUntil: Date, limit: number): Promise<Job[]> {
+    const due = Array.from(this.jobs.values())
+      .filter(job =>
+        (job.status === "pending" && job.runAt <= now) ||
+        (job.status === "running" && !!job.lockedUntil && job.lockedUntil < now)
+      )
+      .sort((a, b) => a.runAt.getTime() - b.runAt.getTime())
+      .slice(0, limit);
+    
+    return due.map(job => {
+      const claimed: Job = {
+        ...job,
+        status: "running",
+        lockedBy: workerId,
+        lockedUntil: leaseUntil,
+        attempts: job.attempts + 1,
+        updatedAt: now
+      };
+      this.jobs.set(job.id, claimed);
+      return claimed;
+    });
+  }
+
+  async updateLeasedJob(id: number, workerId: string, jobData: Partial<Job>): Promise<Job | undefined> {
+    const job = this.jobs.get(id);
+    if (!job || job.status !== "running" || job.lockedBy !== workerId) return undefined;
+    
+    return this.updateJob(id, jobData);
+  }
+
+  async getJobs(filter: { status?: string; type?: string; limit?: number } = {}): Promise<Job[]> {
+    return Array.from(this.jobs.values())
+      .filter(job =>
+        (filter.status === undefined || job.status === filter.status) &&
+        (filter.type === undefined || job.type === filter.type)
+      )
+      .sort((a, b) => b.id - a.id)
+      .slice(0, filter.limit ?? 100);
+  }
+
+  async countJobsByStatus(): Promise<Record<string, number>> {
+    const counts: Record<string, number> = {};
+    for (const job of Array.from(this.jobs.values())) {
+      counts[job.status] = (counts[job.status] || 0) + 1;
+    }
+    return counts;
+  }
+
+  async deleteFinishedJobs(before: Date): Promise<number> {
+    let deleted = 0;
+    for (const job of Array.from(this.jobs.values())) {
+      if ((job.status === "completed" || job.status === "failed") && job.updatedAt < before) {
+        this.jobs.delete(job.id);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+
   // Get all bookings (for notification service)
   async getAllBookings(): Promise<Booking[]> {
     return Array.from(this.bookings.values());
   }
 
   // Credits and Transactions
+  // The ledger is the source of truth; users.credits is a cached copy kept in step by each posting
   async getUserCredits(userId: number): Promise<number> {
-    const user = await this.getUser(userId);
-    if (!user) return 0;
-    return user.credits || 0;
+    const account = LEDGER_ACCOUNTS.user(userId);
+    return Array.from(this.creditLedgerEntries.values())
+      .filter(entry => entry.account === account)
+      .reduce((sum, entry) => sum + entry.amount, 0);
   }
 
-  async addUserCredits(userId: number, amount: number, type: string, description?: string, teamOwnerId?: number): Promise<User> {
+  async addUserCredits(
+    userId: number,
+    amount: number,
+    type: string,
+    description?: string,
+    teamOwnerId?: number,
+    idempotencyKey?: string
+  ): Promise<User> {
     const user = await this.getUser(userId);
     if (!user) {
       throw new Error(`User with ID ${userId} not found`);
     }
 
-    const currentCredits = user.credits || 0;
-    const updatedUser = await this.updateUser(userId, { credits: currentCredits + amount });
-    
-    if (!updatedUser) {
-      throw new Error(`Failed to update user ${userId} with credits`);
-    }
+    const counterAccount = getLedgerCounterAccount(type, teamOwnerId);
+    const userAccount = LEDGER_ACCOUNTS.user(userId);
 
-    // Create a transaction record
-    await this.createCreditTransaction({
-      userId,
-      amount,
+    const posted = await this.postLedgerTransfer({
+      idempotencyKey: idempotencyKey || `${type}:${userId}:${randomUUID()}`,
+      fromAccount: amount >= 0 ? counterAccount : userAccount,
+      toAccount: amount >= 0 ? userAccount : counterAccount,
+      amount: Math.abs(amount),
       type,
-      description: description || `Credit adjustment: ${type}`,
-      teamOwnerId,
-      status: "completed"
+      description: description || `Credit adjustment: ${type}`
     });
 
+    // A replayed posting has already been recorded
+    if (posted) {
+      await this.createCreditTransaction({
+        userId,
+        amount,
+        type,
+        description: description || `Credit adjustment: ${type}`,
+        teamOwnerId,
+        status: "completed"
+      });
+    }
+
+    const updatedUser = await this.getUser(userId);
+    if (!updatedUser) {
+      throw new Error(`Failed to update user ${userId} with credits`);
+    }
+
     return updatedUser;
   }
 
@@ -560,42 +1292,30 @@ export class MemStorage implements IStorage {
       return false; // Not enough credits
     }
 
-    // Deduct credits (negative amount)
-    await this.updateUser(userId, { credits: currentCredits - amount });
+    const booking = await this.getBooking(bookingId);
+    const team = booking ? await this.getTeam(booking.teamId) : undefined;
 
-    // Create a transaction record with negative amount to indicate usage
-    await this.createCreditTransaction({
-      userId,
-      amount: -amount,
+    // Credits go to the team owner's earnings account
+    const posted = await this.postLedgerTransfer({
+      idempotencyKey: `booking-use:${bookingId}:user:${userId}`,
+      fromAccount: LEDGER_ACCOUNTS.user(userId),
+      toAccount: team ? LEDGER_ACCOUNTS.teamOwner(team.ownerId) : LEDGER_ACCOUNTS.ADJUSTMENTS,
+      amount,
       type: "booking",
       bookingId,
-      description: description || `Booking payment: ID ${bookingId}`,
-      status: "completed"
+      description: description || `Booking payment: ID ${bookingId}`
     });
 
-    // Find the team owner to credit them
-    const booking = await this.getBooking(bookingId);
-    if (booking) {
-      const team = await this.getTeam(booking.teamId);
-      if (team) {
-        // Create a transaction record for the team owner (crediting them)
-        await this.createCreditTransaction({
-          userId: team.ownerId,
-          amount: amount, // Positive amount for the team owner
-          type: "booking_payment",
-          bookingId,
-          description: `Payment for booking ID ${bookingId}`,
-          teamOwnerId: team.ownerId,
-          status: "completed"
-        });
-
-        // Add credits to the team owner
-        const teamOwner = await this.getUser(team.ownerId);
-        if (teamOwner) {
-          const ownerCredits = teamOwner.credits || 0;
-          await this.updateUser(team.ownerId, { credits: ownerCredits + amount });
-        }
-      }
+    if (posted) {
+      await this.createCreditTransaction({
+        userId,
+        amount: -amount,
+        type: "booking",
+        bookingId,
+        description: description || `Booking payment: ID ${bookingId}`,
+        teamOwnerId: team?.ownerId,
+        status: "completed"
+      });
     }
 
     return true;
@@ -629,6 +1349,516 @@ export class MemStorage implements IStorage {
     return updatedTransaction;
   }
   
+  async getTransactionByPaymentIntent(paymentIntentId: string): Promise<CreditTransaction | undefined> {
+    return Array.from(this.creditTransactions.values()).find(tx => tx.paymentIntentId === paymentIntentId);
+  }
+  
+  // Credit Ledger
+  async postLedgerTransfer(transfer: LedgerTransfer): Promise<boolean> {
+    if (transfer.amount <= 0) {
+      throw new Error("Ledger transfers must move a positive amount");
+    }
+    
+    const alreadyPosted = Array.from(this.creditLedgerEntries.values())
+      .some(entry => entry.idempotencyKey === transfer.idempotencyKey);
+    if (alreadyPosted) return false;
+    
+    const sides = [
+      { account: transfer.fromAccount, amount: -transfer.amount },
+      { account: transfer.toAccount, amount: transfer.amount }
+    ];
+    
+    for (const side of sides) {
+      const id = this.creditLedgerEntryIdCounter++;
+      const entry: CreditLedgerEntry = {
+        id,
+        idempotencyKey: transfer.idempotencyKey,
+        account: side.account,
+        userId: getLedgerAccountUserId(side.account),
+        amount: side.amount,
+        type: transfer.type,
+        bookingId: transfer.bookingId || null,
+        paymentIntentId: transfer.paymentIntentId || null,
+        description: transfer.description || null,
+        createdAt: new Date()
+      };
+      this.creditLedgerEntries.set(id, entry);
+      
+      // Keep the cached balance in step with the ledger
+      if (entry.userId) {
+        const user = this.users.get(entry.userId);
+        if (user) {
+          this.users.set(user.id, { ...user, credits: (user.credits || 0) + entry.amount });
+        }
+      }
+    }
+    
+    return true;
+  }
+  
+  async getLedgerEntriesByUser(userId: number): Promise<CreditLedgerEntry[]> {
+    const account = LEDGER_ACCOUNTS.user(userId);
+    return Array.from(this.creditLedgerEntries.values())
+      .filter(entry => entry.account === account)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+  
+  async getLedgerBalances(): Promise<Map<number, number>> {
+    const balances = new Map<number, number>();
+    for (const entry of Array.from(this.creditLedgerEntries.values())) {
+      if (!entry.userId) continue;
+      balances.set(entry.userId, (balances.get(entry.userId) || 0) + entry.amount);
+    }
+    return balances;
+  }
+  
+  async resyncUserCredits(userId: number): Promise<User | undefined> {
+    return this.updateUser(userId, { credits: await this.getUserCredits(userId) });
+  }
+  
+  // Booking credit operations
+  // All checks run before anything is written so a failure leaves nothing half-applied
+  async joinBookingWithCredits(bookingId: number, playerId: number): Promise<PlayerBooking> {
+    const booking = await this.getBooking(bookingId);
+    if (!booking) {
+      throw new Error("Booking not found");
+    }
+    
+    if (booking.availableSlots <= 0) {
+      throw new Error("No available slots for this booking");
+    }
+    
+    await this.checkCanPayForBooking(playerId, booking);
+    
+    // createPlayerBooking takes the slot
+    const playerBooking = await this.createPlayerBooking({ playerId, bookingId, status: "confirmed" });
+    await this.chargeForPlayerBooking(playerBooking, booking);
+    
+    return playerBooking;
+  }
+  
+  async confirmPlayerBookingWithCredits(playerBookingId: number): Promise<PlayerBooking> {
+    const playerBooking = this.playerBookings.get(playerBookingId);
+    if (!playerBooking || playerBooking.status !== "pending") {
+      throw new Error("No spot is currently offered to this player");
+    }
+    
+    const booking = await this.getBooking(playerBooking.bookingId);
+    if (!booking) {
+      throw new Error("Booking not found");
+    }
+    
+    await this.checkCanPayForBooking(playerBooking.playerId, booking);
+    await this.chargeForPlayerBooking(playerBooking, booking);
+    
+    // The slot was already held while the offer was open
+    const confirmed = { ...playerBooking, status: "confirmed", waitlistPosition: null, offerExpiresAt: null };
+    this.playerBookings.set(playerBookingId, confirmed);
+    return confirmed;
+  }
+  
+  async cancelPlayerBookingWithRefund(playerBookingId: number, refundAmount: number, reason: string): Promise<PlayerBooking> {
+    const playerBooking = this.playerBookings.get(playerBookingId);
+    if (!playerBooking || !SLOT_HOLDING_STATUSES.includes(playerBooking.status)) {
+      throw new Error("Player booking is not active");
+    }
+    
+    const booking = await this.getBooking(playerBooking.bookingId);
+    if (!booking) {
+      throw new Error("Booking not found");
+    }
+    
+    const user = await this.getUser(playerBooking.playerId);
+    if (!user) {
+      throw new Error(`User with ID ${playerBooking.playerId} not found`);
+    }
+    
+    const team = await this.getTeam(booking.teamId);
+    
+    if (refundAmount > 0) {
+      // Refunds come back out of the team owner's earnings
+      const posted = await this.postLedgerTransfer({
+        idempotencyKey: `booking-refund:${playerBooking.id}`,
+        fromAccount: team ? LEDGER_ACCOUNTS.teamOwner(team.ownerId) : LEDGER_ACCOUNTS.ADJUSTMENTS,
+        toAccount: LEDGER_ACCOUNTS.user(user.id),
+        amount: refundAmount,
+        type: "refund",
+        bookingId: booking.id,
+        description: `Refund for ${booking.title}: ${reason}`
+      });
+      
+      if (posted) {
+        await this.createCreditTransaction({
+          userId: user.id,
+          amount: refundAmount,
+          type: "refund",
+          bookingId: booking.id,
+          teamOwnerId: team?.ownerId,
+          description: `Refund for ${booking.title}: ${reason}`,
+          status: "completed"
+        });
+      }
+    }
+    
+    const canceled = {
+      ...playerBooking,
+      status: "canceled",
+      cancellationReason: reason,
+      refundAmount: refundAmount > 0 ? refundAmount : null,
+      offerExpiresAt: null,
+      canceledAt: new Date()
+    };
+    this.playerBookings.set(playerBookingId, canceled);
+    
+    // Release the slot
+    await this.updateBooking(booking.id, { availableSlots: booking.availableSlots + 1 });
+    
+    return canceled;
+  }
+  
+  async offerWaitlistSpot(playerBookingId: number, offerExpiresAt: Date): Promise<PlayerBooking | undefined> {
+    const playerBooking = this.playerBookings.get(playerBookingId);
+    if (!playerBooking || playerBooking.status !== "waitlisted") return undefined;
+    
+    const booking = await this.getBooking(playerBooking.bookingId);
+    if (!booking || booking.availableSlots <= 0) return undefined;
+    
+    await this.updateBooking(booking.id, { availableSlots: booking.availableSlots - 1 });
+    
+    const offered = { ...playerBooking, status: "pending", offerExpiresAt };
+    this.playerBookings.set(playerBookingId, offered);
+    return offered;
+  }
+  
+  async expireWaitlistOffer(playerBookingId: number): Promise<PlayerBooking | undefined> {
+    const playerBooking = this.playerBookings.get(playerBookingId);
+    if (!playerBooking || playerBooking.status !== "pending") return undefined;
+    
+    const expired = { ...playerBooking, status: "expired", offerExpiresAt: null };
+    this.playerBookings.set(playerBookingId, expired);
+    
+    const booking = await this.getBooking(playerBooking.bookingId);
+    if (booking) {
+      await this.updateBooking(booking.id, { availableSlots: booking.availableSlots + 1 });
+    }
+    
+    return expired;
+  }
+  
+  private async checkCanPayForBooking(playerId: number, booking: Booking): Promise<void> {
+    const user = await this.getUser(playerId);
+    if (!user) {
+      throw new Error(`User with ID ${playerId} not found`);
+    }
+    
+    if ((user.credits || 0) < (booking.creditCost || 0)) {
+      throw new Error("Insufficient credits to join this booking");
+    }
+  }
+  
+  private async chargeForPlayerBooking(playerBooking: PlayerBooking, booking: Booking): Promise<void> {
+    const cost = booking.creditCost || 0;
+    if (cost <= 0) return;
+    
+    const team = await this.getTeam(booking.teamId);
+    
+    const posted = await this.postLedgerTransfer({
+      idempotencyKey: `booking-charge:${playerBooking.id}`,
+      fromAccount: LEDGER_ACCOUNTS.user(playerBooking.playerId),
+      toAccount: team ? LEDGER_ACCOUNTS.teamOwner(team.ownerId) : LEDGER_ACCOUNTS.ADJUSTMENTS,
+      amount: cost,
+      type: "booking",
+      bookingId: booking.id,
+      description: `Booking payment: ${booking.title}`
+    });
+    
+    if (posted) {
+      await this.createCreditTransaction({
+        userId: playerBooking.playerId,
+        amount: -cost,
+        type: "booking",
+        bookingId: booking.id,
+        teamOwnerId: team?.ownerId,
+        description: `Booking payment: ${booking.title}`,
+        status: "completed"
+      });
+    }
+  }
+  
+  // Location Geocode methods
+  async getLocationGeocode(query: string): Promise<LocationGeocode | undefined> {
+    return this.locationGeocodes.get(query);
+  }
+  
+  async saveLocationGeocode(insertGeocode: InsertLocationGeocode): Promise<LocationGeocode> {
+    const existing = this.locationGeocodes.get(insertGeocode.query);
+    const geocode: LocationGeocode = {
+      ...insertGeocode,
+      id: existing?.id ?? this.locationGeocodeIdCounter++,
+      resolvedName: insertGeocode.resolvedName ?? null,
+      createdAt: new Date()
+    };
+    this.locationGeocodes.set(geocode.query, geocode);
+    return geocode;
+  }
+  
+  // Weather Rule methods
+  async getWeatherRule(id: number): Promise<WeatherRule | undefined> {
+    return this.weatherRules.get(id);
+  }
+  
+  async getWeatherRulesByTeam(teamId: number): Promise<WeatherRule[]> {
+    return Array.from(this.weatherRules.values())
+      .filter(rule => rule.teamId === teamId);
+  }
+  
+  async createWeatherRule(insertRule: InsertWeatherRule): Promise<WeatherRule> {
+    const id = this.weatherRuleIdCounter++;
+    const rule: WeatherRule = {
+      ...insertRule,
+      id,
+      action: insertRule.action ?? "warn",
+      isActive: insertRule.isActive ?? true,
+      createdAt: new Date()
+    };
+    this.weatherRules.set(id, rule);
+    return rule;
+  }
+  
+  async updateWeatherRule(id: number, updateData: Partial<WeatherRule>): Promise<WeatherRule | undefined> {
+    const rule = this.weatherRules.get(id);
+    if (!rule) return undefined;
+    
+    const updatedRule = { ...rule, ...updateData };
+    this.weatherRules.set(id, updatedRule);
+    return updatedRule;
+  }
+  
+  async deleteWeatherRule(id: number): Promise<boolean> {
+    return this.weatherRules.delete(id);
+  }
+  
+  // Weather Alert methods
+  async getWeatherAlert(id: number): Promise<WeatherAlert | undefined> {
+    return this.weatherAlerts.get(id);
+  }
+  
+  async getWeatherAlertsByBooking(bookingId: number): Promise<WeatherAlert[]> {
+    return Array.from(this.weatherAlerts.values())
+      .filter(alert => alert.bookingId === bookingId);
+  }
+  
+  async createWeatherAlert(insertAlert: InsertWeatherAlert): Promise<WeatherAlert | undefined> {
+    const existing = Array.from(this.weatherAlerts.values())
+      .find(alert => alert.bookingId === insertAlert.bookingId && alert.ruleId === insertAlert.ruleId);
+    if (existing) return undefined;
+    
+    const id = this.weatherAlertIdCounter++;
+    const alert: WeatherAlert = {
+      ...insertAlert,
+      id,
+      resolvedBy: insertAlert.resolvedBy ?? null,
+      resolvedAt: insertAlert.resolvedAt ?? null,
+      createdAt: new Date()
+    };
+    this.weatherAlerts.set(id, alert);
+    return alert;
+  }
+  
+  async updateWeatherAlert(id: number, updateData: Partial<WeatherAlert>): Promise<WeatherAlert | undefined> {
+    const alert = this.weatherAlerts.get(id);
+    if (!alert) return undefined;
+    
+    const updatedAlert = { ...alert, ...updateData };
+    this.weatherAlerts.set(id, updatedAlert);
+    return updatedAlert;
+  }
+  
+  // Pitch Cost Ledger methods
+  async getPitchCostEntryByBooking(bookingId: number): Promise<PitchCostEntry | undefined> {
+    return Array.from(this.pitchCostEntries.values())
+      .find(entry => entry.bookingId === bookingId);
+  }
+  
+  async getPitchCostEntriesByTeam(teamId: number): Promise<PitchCostEntry[]> {
+    return Array.from(this.pitchCostEntries.values())
+      .filter(entry => entry.teamId === teamId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+  
+  async createPitchCostEntry(insertEntry: InsertPitchCostEntry): Promise<PitchCostEntry | undefined> {
+    if (await this.getPitchCostEntryByBooking(insertEntry.bookingId)) return undefined;
+    
+    const id = this.pitchCostEntryIdCounter++;
+    const entry: PitchCostEntry = { ...insertEntry, id, createdAt: new Date() };
+    this.pitchCostEntries.set(id, entry);
+    return entry;
+  }
+  
+  // WhatsApp Message methods
+  async getWhatsAppMessage(messageId: string): Promise<WhatsAppMessage | undefined> {
+    return Array.from(this.whatsappMessages.values())
+      .find(message => message.messageId === messageId);
+  }
+  
+  async createWhatsAppMessage(insertMessage: InsertWhatsAppMessage): Promise<WhatsAppMessage | undefined> {
+    if (await this.getWhatsAppMessage(insertMessage.messageId)) return undefined;
+    
+    const id = this.whatsappMessageIdCounter++;
+    const message: WhatsAppMessage = {
+      ...insertMessage,
+      userId: insertMessage.userId ?? null,
+      bookingId: insertMessage.bookingId ?? null,
+      body: insertMessage.body ?? null,
+      id,
+      createdAt: new Date()
+    };
+    this.whatsappMessages.set(id, message);
+    return message;
+  }
+  
+  // Phone Verification methods
+  async getLatestPhoneVerification(userId: number): Promise<PhoneVerification | undefined> {
+    return Array.from(this.phoneVerifications.values())
+      .filter(verification => verification.userId === userId)
+      .sort((a, b) => b.id - a.id)[0];
+  }
+  
+  async createPhoneVerification(insertVerification: InsertPhoneVerification): Promise<PhoneVerification> {
+    const id = this.phoneVerificationIdCounter++;
+    const verification: PhoneVerification = {
+      ...insertVerification,
+      attempts: insertVerification.attempts ?? 0,
+      verifiedAt: insertVerification.verifiedAt ?? null,
+      id,
+      createdAt: new Date()
+    };
+    this.phoneVerifications.set(id, verification);
+    return verification;
+  }
+  
+  async updatePhoneVerification(id: number, updateData: Partial<PhoneVerification>): Promise<PhoneVerification | undefined> {
+    const verification = this.phoneVerifications.get(id);
+    if (!verification) return undefined;
+    
+    const updatedVerification = { ...verification, ...updateData };
+    this.phoneVerifications.set(id, updatedVerification);
+    return updatedVerification;
+  }
+  
+  async claimPhoneVerificationAttempt(id: number, maxAttempts: number): Promise<PhoneVerification | undefined> {
+    const verification = this.phoneVerifications.get(id);
+    if (!verification || verification.attempts >= maxAttempts) return undefined;
+    
+    return this.updatePhoneVerification(id, { attempts: verification.attempts + 1 });
+  }
+  
+  // Password Reset Token methods
+  async getPasswordResetTokenByHash(tokenHash: string): Promise<PasswordResetToken | undefined> {
+    return Array.from(this.passwordResetTokens.values()).find(token => token.tokenHash === tokenHash);
+  }
+  
+  async getLatestPasswordResetToken(userId: number): Promise<PasswordResetToken | undefined> {
+    return Array.from(this.passwordResetTokens.values())
+      .filter(token => token.userId === userId)
+      .sort((a, b) => b.id - a.id)[0];
+  }
+  
+  async createPasswordResetToken(insertToken: InsertPasswordResetToken): Promise<PasswordResetToken> {
+    const id = this.passwordResetTokenIdCounter++;
+    const token: PasswordResetToken = {
+      ...insertToken,
+      usedAt: insertToken.usedAt ?? null,
+      id,
+      createdAt: new Date()
+    };
+    this.passwordResetTokens.set(id, token);
+    return token;
+  }
+  
+  async usePasswordResetToken(id: number): Promise<boolean> {
+    const token = this.passwordResetTokens.get(id);
+    if (!token || token.usedAt) return false;
+    
+    this.passwordResetTokens.set(id, { ...token, usedAt: new Date() });
+    return true;
+  }
+  
+  async expirePasswordResetTokens(userId: number): Promise<void> {
+    for (const token of Array.from(this.passwordResetTokens.values())) {
+      if (token.userId === userId && !token.usedAt) {
+        this.passwordResetTokens.set(token.id, { ...token, usedAt: new Date() });
+      }
+    }
+  }
+  
+  // Messaging Consent methods
+  async getMessagingConsentsByUser(userId: number): Promise<MessagingConsent[]> {
+    return Array.from(this.messagingConsents.values())
+      .filter(consent => consent.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+  
+  async createMessagingConsent(insertConsent: InsertMessagingConsent): Promise<MessagingConsent> {
+    const id = this.messagingConsentIdCounter++;
+    const consent: MessagingConsent = {
+      ...insertConsent,
+      phone: insertConsent.phone ?? null,
+      id,
+      createdAt: new Date()
+    };
+    this.messagingConsents.set(id, consent);
+    return consent;
+  }
+  
+  // Message Template Override methods
+  async getMessageTemplateOverridesByTeam(teamId: number): Promise<MessageTemplateOverride[]> {
+    return Array.from(this.messageTemplateOverrides.values())
+      .filter(override => override.teamId === teamId);
+  }
+  
+  async getMessageTemplateOverride(
+    teamId: number,
+    type: string,
+    channel: string,
+    locale: string
+  ): Promise<MessageTemplateOverride | undefined> {
+    return Array.from(this.messageTemplateOverrides.values()).find(override =>
+      override.teamId === teamId &&
+      override.type === type &&
+      override.channel === channel &&
+      override.locale === locale
+    );
+  }
+  
+  async saveMessageTemplateOverride(insertOverride: InsertMessageTemplateOverride): Promise<MessageTemplateOverride> {
+    const locale = insertOverride.locale ?? "en";
+    const existing = await this.getMessageTemplateOverride(
+      insertOverride.teamId,
+      insertOverride.type,
+      insertOverride.channel,
+      locale
+    );
+    
+    const now = new Date();
+    const override: MessageTemplateOverride = {
+      ...insertOverride,
+      locale,
+      subject: insertOverride.subject ?? null,
+      updatedBy: insertOverride.updatedBy ?? null,
+      id: existing?.id ?? this.messageTemplateOverrideIdCounter++,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now
+    };
+    this.messageTemplateOverrides.set(override.id, override);
+    return override;
+  }
+  
+  async deleteMessageTemplateOverride(teamId: number, type: string, channel: string, locale: string): Promise<boolean> {
+    const override = await this.getMessageTemplateOverride(teamId, type, channel, locale);
+    return override ? this.messageTemplateOverrides.delete(override.id) : false;
+  }
+  
   // Calendar Integration methods
   async getCalendarIntegration(id: number): Promise<CalendarIntegration | undefined> {
     return this.calendarIntegrations.get(id);
@@ -639,6 +1869,170 @@ export class MemStorage implements IStorage {
       .find(integration => integration.userId === userId && integration.provider === provider);
   }
   
+  async getActiveCalendarIntegrations(): Promise<CalendarIntegration[]> {
+    return Array.from(this.calendarIntegrations.values())
+      .filter(integration => integration.isActive);
+  }
+  
+  // Calendar Event Link methods
+  async getCalendarEventLink(integrationId: number, bookingId: number): Promise<CalendarEventLink | undefined> {
+    return Array.from(this.calendarEventLinks.values())
+      .find(link => link.integrationId === integrationId && link.bookingId === bookingId);
+  }
+  
+  async getCalendarEventLinksByIntegration(integrationId: number): Promise<CalendarEventLink[]> {
+    return Array.from(this.calendarEventLinks.values())
+      .filter(link => link.integrationId === integrationId);
+  }
+  
+  async getCalendarEventLinksByBooking(bookingId: number): Promise<CalendarEventLink[]> {
+    return Array.from(this.calendarEventLinks.values())
+      .filter(link => link.bookingId === bookingId);
+  }
+  
+  async saveCalendarEventLink(insertLink: InsertCalendarEventLink): Promise<CalendarEventLink> {
+    const existing = await this.getCalendarEventLink(insertLink.integrationId, insertLink.bookingId);
+    if (existing) {
+      const updatedLink = { ...existing, ...insertLink, syncedAt: insertLink.syncedAt ?? new Date() };
+      this.calendarEventLinks.set(existing.id, updatedLink);
+      return updatedLink;
+    }
+    
+    const id = this.calendarEventLinkIdCounter++;
+    const link: CalendarEventLink = {
+      ...insertLink,
+      syncedAt: insertLink.syncedAt ?? new Date(),
+      id,
+      createdAt: new Date()
+    };
+    this.calendarEventLinks.set(id, link);
+    return link;
+  }
+  
+  async deleteCalendarEventLink(id: number): Promise<boolean> {
+    return this.calendarEventLinks.delete(id);
+  }
+  
+  // Calendar Feed methods
+  async getCalendarFeedByUser(userId: number): Promise<CalendarFeed | undefined> {
+    return Array.from(this.calendarFeeds.values()).find(feed => feed.userId === userId);
+  }
+  
+  async getCalendarFeedByToken(token: string): Promise<CalendarFeed | undefined> {
+    return Array.from(this.calendarFeeds.values()).find(feed => feed.token === token);
+  }
+  
+  async createCalendarFeed(insertFeed: InsertCalendarFeed): Promise<CalendarFeed> {
+    const id = this.calendarFeedIdCounter++;
+    const feed: CalendarFeed = {
+      ...insertFeed,
+      scope: insertFeed.scope ?? "booked",
+      lastAccessedAt: insertFeed.lastAccessedAt ?? null,
+      rotatedAt: insertFeed.rotatedAt ?? null,
+      id,
+      createdAt: new Date()
+    };
+    this.calendarFeeds.set(id, feed);
+    return feed;
+  }
+  
+  async updateCalendarFeed(id: number, update: Partial<CalendarFeed>): Promise<CalendarFeed | undefined> {
+    const feed = this.calendarFeeds.get(id);
+    if (!feed) return undefined;
+    
+    const updatedFeed = { ...feed, ...update };
+    this.calendarFeeds.set(id, updatedFeed);
+    return updatedFeed;
+  }
+  
+  // Availability Poll methods
+  async getAvailabilityPoll(id: number): Promise<AvailabilityPoll | undefined> {
+    return this.availabilityPolls.get(id);
+  }
+  
+  async getAvailabilityPollsByTeam(teamId: number): Promise<AvailabilityPoll[]> {
+    return Array.from(this.availabilityPolls.values())
+      .filter(poll => poll.teamId === teamId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+  
+  async createAvailabilityPoll(insertPoll: InsertAvailabilityPoll): Promise<AvailabilityPoll> {
+    const id = this.availabilityPollIdCounter++;
+    const poll: AvailabilityPoll = {
+      ...insertPoll,
+      status: insertPoll.status ?? "open",
+      closesAt: insertPoll.closesAt ?? null,
+      chosenOptionId: insertPoll.chosenOptionId ?? null,
+      bookingId: insertPoll.bookingId ?? null,
+      id,
+      createdAt: new Date()
+    };
+    this.availabilityPolls.set(id, poll);
+    return poll;
+  }
+  
+  async updateAvailabilityPoll(id: number, update: Partial<AvailabilityPoll>): Promise<AvailabilityPoll | undefined> {
+    const poll = this.availabilityPolls.get(id);
+    if (!poll) return undefined;
+    
+    const updatedPoll = { ...poll, ...update };
+    this.availabilityPolls.set(id, updatedPoll);
+    return updatedPoll;
+  }
+  
+  async claimAvailabilityPoll(id: number): Promise<AvailabilityPoll | undefined> {
+    const poll = this.availabilityPolls.get(id);
+    if (!poll || poll.status === "booked") return undefined;
+    
+    const claimedPoll = { ...poll, status: "booked" };
+    this.availabilityPolls.set(id, claimedPoll);
+    return claimedPoll;
+  }
+  
+  async getAvailabilityPollOptions(pollId: number): Promise<AvailabilityPollOption[]> {
+    return Array.from(this.availabilityPollOptions.values())
+      .filter(option => option.pollId === pollId)
+      .sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+  }
+  
+  async createAvailabilityPollOption(insertOption: InsertAvailabilityPollOption): Promise<AvailabilityPollOption> {
+    const id = this.availabilityPollOptionIdCounter++;
+    const option: AvailabilityPollOption = {
+      ...insertOption,
+      venueId: insertOption.venueId ?? null,
+      id,
+      createdAt: new Date()
+    };
+    this.availabilityPollOptions.set(id, option);
+    return option;
+  }
+  
+  async getAvailabilityPollResponses(pollId: number): Promise<AvailabilityPollResponse[]> {
+    return Array.from(this.availabilityPollResponses.values())
+      .filter(response => response.pollId === pollId);
+  }
+  
+  async saveAvailabilityPollResponse(insertResponse: InsertAvailabilityPollResponse): Promise<AvailabilityPollResponse> {
+    const existing = Array.from(this.availabilityPollResponses.values())
+      .find(response => response.optionId === insertResponse.optionId && response.userId === insertResponse.userId);
+    
+    if (existing) {
+      const updatedResponse = { ...existing, answer: insertResponse.answer, updatedAt: new Date() };
+      this.availabilityPollResponses.set(existing.id, updatedResponse);
+      return updatedResponse;
+    }
+    
+    const id = this.availabilityPollResponseIdCounter++;
+    const response: AvailabilityPollResponse = {
+      ...insertResponse,
+      id,
+      updatedAt: new Date(),
+      createdAt: new Date()
+    };
+    this.availabilityPollResponses.set(id, response);
+    return response;
+  }
+  
   async createCalendarIntegration(integration: InsertCalendarIntegration): Promise<CalendarIntegration> {
     const id = this.calendarIntegrationIdCounter++;
     const newIntegration: CalendarIntegration = { 
@@ -6,8 +6,11 @@ import { z } from "zod";
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
   username: text("username").notNull().unique(),
-  password: text("password").notNull(),
+  password: text("password").notNull(), // bcrypt hash; older rows may be plain text until the user next logs in
   email: text("email").notNull().unique(),
+  phone: text("phone").unique(), // Verified number in E.164 format (e.g. +447123456789)
+  phoneVerifiedAt: timestamp("phone_verified_at"),
+  whatsappOptIn: boolean("whatsapp_opt_in").notNull().default(false), // Consent to be messaged on WhatsApp
   name: text("name").notNull(),
   role: text("role").notNull().default("player"), // admin or player
   teamId: integer("team_id"),
@@ -20,9 +23,15 @@ export const users = pgTable("users", {
   cancellationsThisMonth: integer("cancellations_this_month").default(0),
   lastCancellationReset: timestamp("last_cancellation_reset"),
   notificationSettings: json("notification_settings"),
+  preferredPosition: text("preferred_position"), // GK, DEF, MID, ATT
+  secondaryPosition: text("secondary_position"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Positions players can choose and line-ups are built from
+export const PLAYER_POSITIONS = ["GK", "DEF", "MID", "ATT"] as const;
+export type PlayerPosition = typeof PLAYER_POSITIONS[number];
+
 export const teams = pgTable("teams", {
   id: serial("id").primaryKey(),
   name: text("name").notNull(),
@@ -32,6 +41,7 @@ export const teams = pgTable("teams", {
   allowPlayerBookingManagement: boolean("allow_player_booking_management").default(false),
   invitationCode: text("invitation_code"),
   creditValue: integer("credit_value").default(7), // Default value per credit (in £)
+  costRounding: text("cost_rounding").default("up"), // How pitch cost shares are rounded to whole credits: up, nearest, down
   cancellationPolicy: json("cancellation_policy"), // Custom cancellation policy
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
@@ -40,17 +50,101 @@ export const bookings = pgTable("bookings", {
   id: serial("id").primaryKey(),
   teamId: integer("team_id").notNull(),
   title: text("title").notNull(),
-  location: text("location").notNull(),
+  location: text("location").notNull(), // Free text for bookings made before venues; the venue's name and address otherwise
+  venueId: integer("venue_id"),
   format: text("format").notNull(), // 5-a-side, 7-a-side, 11-a-side
   startTime: timestamp("start_time").notNull(),
   endTime: timestamp("end_time").notNull(),
   totalSlots: integer("total_slots").notNull(),
   availableSlots: integer("available_slots").notNull(),
   isRecurring: boolean("is_recurring").default(false),
+  seriesId: integer("series_id"), // Recurring series this occurrence was generated from
+  seriesOccurrenceStart: timestamp("series_occurrence_start"), // Originally scheduled start within the series
+  isSeriesException: boolean("is_series_exception").default(false), // Edited individually, so series edits skip it
   creditCost: integer("credit_cost").default(1), // Number of credits per player
+  pitchCost: real("pitch_cost"), // Pitch hire (in £). When set, creditCost is worked out from it
   weatherData: json("weather_data"), // Store weather forecast data
   status: text("status").notNull().default("active"), // active, canceled
   cancelReason: text("cancel_reason"),
+  calendarSequence: integer("calendar_sequence").notNull().default(0), // iCal SEQUENCE; goes up whenever a calendar field changes
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Booking fields shown in calendars; changing any of them bumps calendarSequence
+export const BOOKING_CALENDAR_FIELDS = ["title", "location", "venueId", "startTime", "endTime", "status"] as const;
+
+// A poll of which dates/times/venues players can make, run before a pitch is booked
+export const availabilityPolls = pgTable("availability_polls", {
+  id: serial("id").primaryKey(),
+  teamId: integer("team_id").notNull(),
+  createdBy: integer("created_by").notNull(),
+  title: text("title").notNull(), // Also the title of the booking it becomes
+  format: text("format").notNull(), // 5-a-side, 7-a-side, 11-a-side
+  totalSlots: integer("total_slots").notNull(),
+  status: text("status").notNull().default("open"), // open, closed, booked
+  closesAt: timestamp("closes_at"), // No more answers after this
+  chosenOptionId: integer("chosen_option_id"), // Option that was booked
+  bookingId: integer("booking_id"), // Booking made from the chosen option
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// One date/time/venue a poll asks about
+export const availabilityPollOptions = pgTable("availability_poll_options", {
+  id: serial("id").primaryKey(),
+  pollId: integer("poll_id").notNull(),
+  startTime: timestamp("start_time").notNull(),
+  endTime: timestamp("end_time").notNull(),
+  venueId: integer("venue_id"),
+  location: text("location").notNull(), // The venue's name and address, or free text
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// A player's answer for one option; answering again replaces it
+export const availabilityPollResponses = pgTable("availability_poll_responses", {
+  id: serial("id").primaryKey(),
+  pollId: integer("poll_id").notNull(),
+  optionId: integer("option_id").notNull(),
+  userId: integer("user_id").notNull(),
+  answer: text("answer").notNull(), // yes, maybe, no
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Pitches a team plays at
+export const venues = pgTable("venues", {
+  id: serial("id").primaryKey(),
+  teamId: integer("team_id").notNull(),
+  name: text("name").notNull(),
+  address: text("address"),
+  latitude: real("latitude"),
+  longitude: real("longitude"),
+  surfaceType: text("surface_type"), // grass, artificial_grass, 3g, 4g, indoor_court
+  isIndoor: boolean("is_indoor").default(false),
+  pitchSizes: json("pitch_sizes"), // Array of formats the venue has pitches for, e.g. ["5-a-side", "7-a-side"]
+  costPerHour: real("cost_per_hour"), // Pitch hire (in £)
+  notes: text("notes"), // Parking, door codes, changing rooms, etc.
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const bookingSeries = pgTable("booking_series", {
+  id: serial("id").primaryKey(),
+  teamId: integer("team_id").notNull(),
+  createdBy: integer("created_by").notNull(),
+  title: text("title").notNull(),
+  location: text("location").notNull(),
+  venueId: integer("venue_id"),
+  format: text("format").notNull(),
+  firstStartTime: timestamp("first_start_time").notNull(), // Start of the first occurrence, anchors the rule
+  durationMinutes: integer("duration_minutes").notNull(),
+  totalSlots: integer("total_slots").notNull(),
+  creditCost: integer("credit_cost").default(1),
+  pitchCost: real("pitch_cost"), // Pitch hire per occurrence (in £)
+  frequency: text("frequency").notNull(), // weekly, fortnightly, monthly
+  endDate: timestamp("end_date"), // Stop generating after this date
+  occurrenceCount: integer("occurrence_count"), // Or stop after this many occurrences
+  skipDates: json("skip_dates"), // Array of yyyy-MM-dd dates to leave out
+  isActive: boolean("is_active").notNull().default(true),
+  lastMaterializedAt: timestamp("last_materialized_at"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -58,13 +152,18 @@ export const playerBookings = pgTable("player_bookings", {
   id: serial("id").primaryKey(),
   playerId: integer("player_id").notNull(),
   bookingId: integer("booking_id").notNull(),
-  status: text("status").notNull().default("confirmed"), // confirmed, pending, canceled, refunded
+  status: text("status").notNull().default("confirmed"), // confirmed, pending, waitlisted, expired, canceled, refunded, no_show
   cancellationReason: text("cancellation_reason"),
   refundAmount: integer("refund_amount"), // Amount of credits refunded
+  waitlistPosition: integer("waitlist_position"), // Order in the waitlist, lowest is promoted first
+  offerExpiresAt: timestamp("offer_expires_at"), // Deadline to confirm a spot offered from the waitlist
   createdAt: timestamp("created_at").defaultNow().notNull(),
   canceledAt: timestamp("canceled_at"),
 });
 
+// Player booking statuses that take up one of a booking's slots
+export const SLOT_HOLDING_STATUSES = ["confirmed", "pending"];
+
 export const matchStats = pgTable("match_stats", {
   id: serial("id").primaryKey(),
   bookingId: integer("booking_id").notNull(),
@@ -89,6 +188,47 @@ export const playerStats = pgTable("player_stats", {
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Which side each player is on for a match. Side "A" is the team whose
+// score is recorded as teamScore in matchStats.
+export const matchLineups = pgTable("match_lineups", {
+  id: serial("id").primaryKey(),
+  bookingId: integer("booking_id").notNull(),
+  playerId: integer("player_id").notNull(),
+  side: text("side").notNull(), // "A", "B"
+  position: text("position"), // e.g. "GK", "DEF", "MID", "ATT"
+  bibColour: text("bib_colour"),
+  isCaptain: boolean("is_captain").notNull().default(false),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Pairs of players that must be on the same side, or on opposite sides, when
+// teams are generated. Team-wide constraints have no bookingId; constraints
+// for a single match have one.
+export const pairConstraints = pgTable("pair_constraints", {
+  id: serial("id").primaryKey(),
+  teamId: integer("team_id").notNull(),
+  bookingId: integer("booking_id"),
+  playerAId: integer("player_a_id").notNull(),
+  playerBId: integer("player_b_id").notNull(),
+  type: text("type").notNull(), // "together", "apart"
+  createdBy: integer("created_by").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Rating history - one row per player per rated match. A player's current
+// rating is their most recent row.
+export const playerRatings = pgTable("player_ratings", {
+  id: serial("id").primaryKey(),
+  playerId: integer("player_id").notNull(),
+  bookingId: integer("booking_id").notNull(),
+  rating: real("rating").notNull(), // Rating after this match
+  previousRating: real("previous_rating").notNull(),
+  change: real("change").notNull(),
+  gamesPlayed: integer("games_played").notNull(), // Rated matches including this one
+  result: text("result").notNull(), // "win", "draw", "loss"
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
 export const achievements = pgTable("achievements", {
   id: serial("id").primaryKey(),
   title: text("title").notNull(),
@@ -114,29 +254,244 @@ export const notifications = pgTable("notifications", {
   bookingId: integer("booking_id"),
   isRead: boolean("is_read").default(false),
   metadata: json("metadata"), // For storing additional data like achievementId, teamId, etc.
+  emailedAt: timestamp("emailed_at"), // When the notification went out by email, on its own or in a digest
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// A digest email sent to a player, one per player per digest period
+export const emailDigests = pgTable("email_digests", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  frequency: text("frequency").notNull(), // "daily", "weekly"
+  period: text("period").notNull(), // First day of the period, e.g. "2026-10-19"
+  notificationCount: integer("notification_count").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// A notification that wasn't sent on a channel because of the player's own
+// preferences, so admins can see why a player wasn't told
+export const notificationSuppressions = pgTable("notification_suppressions", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  teamId: integer("team_id"), // Player's team at the time
+  bookingId: integer("booking_id"),
+  type: text("type").notNull(), // NotificationType
+  channel: text("channel").notNull(), // "in_app", "whatsapp", "email", "push"
+  reason: text("reason").notNull(), // "type_disabled", "channel_disabled", "type_channel_disabled", "quiet_hours", "no_consent"
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// A browser a player has allowed push notifications on, one row per device
+export const pushSubscriptions = pgTable("push_subscriptions", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  endpoint: text("endpoint").notNull(), // Push service URL, unique per device
+  p256dh: text("p256dh").notNull(), // Browser's public key for encrypting payloads
+  auth: text("auth").notNull(), // Browser's auth secret
+  userAgent: text("user_agent"),
+  expiresAt: timestamp("expires_at"), // When the push service will stop accepting messages, if it says
+  lastUsedAt: timestamp("last_used_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// A player's private iCal feed URL, which calendar apps subscribe to
+export const calendarFeeds = pgTable("calendar_feeds", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  token: text("token").notNull(), // Secret in the feed URL; rotating it cuts off old subscriptions
+  scope: text("scope").notNull().default("booked"), // "booked" (matches the player is in) or "team" (the team's whole schedule)
+  lastAccessedAt: timestamp("last_accessed_at"),
+  rotatedAt: timestamp("rotated_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// The event a booking was synced to in a connected calendar, so re-syncing
+// updates or removes it rather than adding another
+export const calendarEventLinks = pgTable("calendar_event_links", {
+  id: serial("id").primaryKey(),
+  integrationId: integer("integration_id").notNull(),
+  bookingId: integer("booking_id").notNull(),
+  externalEventId: text("external_event_id").notNull(), // The provider's ID for the event
+  syncedSequence: integer("synced_sequence").notNull(), // Booking's calendar sequence when it was last synced
+  syncedAt: timestamp("synced_at").defaultNow().notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Background work, picked up by whichever server instance claims it first
+export const jobs = pgTable("jobs", {
+  id: serial("id").primaryKey(),
+  type: text("type").notNull(), // Which handler runs it, e.g. "match_reminder"
+  key: text("key"), // Unique per piece of work, e.g. "reminder:booking:42:24h", so it's only queued once
+  payload: json("payload"),
+  status: text("status").notNull().default("pending"), // pending, running, completed, failed
+  runAt: timestamp("run_at").defaultNow().notNull(),
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(5),
+  lockedBy: text("locked_by"), // Instance running it
+  lockedUntil: timestamp("locked_until"), // Lease; another instance can take the job over after this
+  lastError: text("last_error"),
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
 export const creditTransactions = pgTable("credit_transactions", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").notNull(),
   amount: integer("amount").notNull(), // Can be positive (purchase) or negative (usage)
-  type: text("type").notNull(), // "purchase", "booking", "cancellation", "refund", "referral_bonus", "admin_adjustment"
+  type: text("type").notNull(), // "purchase", "booking", "cancellation", "refund", "referral_bonus", "admin_adjustment", "no_show_penalty", "cost_adjustment"
   bookingId: integer("booking_id"), // Optional, only for booking transactions
   description: text("description"),
   teamOwnerId: integer("team_owner_id"), // To track which team owner gets paid
+  paymentIntentId: text("payment_intent_id"), // Stripe PaymentIntent for purchases
   status: text("status").notNull().default("completed"), // "pending", "completed", "failed", "refunded"
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Immutable double-entry ledger. Every posting is two entries sharing an idempotency
+// key - a debit from one account and a credit to another - so each posting sums to zero
+// and a user's balance is the sum of the entries on their account.
+export const creditLedgerEntries = pgTable("credit_ledger_entries", {
+  id: serial("id").primaryKey(),
+  idempotencyKey: text("idempotency_key").notNull(), // Shared by both sides of a posting
+  account: text("account").notNull(), // e.g. "user:12", "team-owner:3", "platform:stripe"
+  userId: integer("user_id"), // Set when the account is a user's credit wallet
+  amount: integer("amount").notNull(), // Positive credits the account, negative debits it
+  type: text("type").notNull(), // "purchase", "booking", "refund", "referral_bonus", "admin_adjustment", "opening_balance"
+  bookingId: integer("booking_id"),
+  paymentIntentId: text("payment_intent_id"),
+  description: text("description"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// One-off data migrations that have run, e.g. seeding the ledger's opening balances
+export const migrationMarkers = pgTable("migration_markers", {
+  name: text("name").primaryKey(),
+  appliedAt: timestamp("applied_at").defaultNow().notNull(),
+});
+
+// Coordinates looked up for free-text locations, so each place is only geocoded once
+export const locationGeocodes = pgTable("location_geocodes", {
+  id: serial("id").primaryKey(),
+  query: text("query").notNull().unique(), // Normalised location text
+  latitude: real("latitude").notNull(),
+  longitude: real("longitude").notNull(),
+  resolvedName: text("resolved_name"),
+  provider: text("provider").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Per-team weather rules, e.g. "warn when wind is above 40 km/h"
+export const weatherRules = pgTable("weather_rules", {
+  id: serial("id").primaryKey(),
+  teamId: integer("team_id").notNull(),
+  metric: text("metric").notNull(), // "wind_speed", "precipitation", "temperature", "humidity"
+  comparison: text("comparison").notNull(), // "above", "below"
+  threshold: real("threshold").notNull(),
+  action: text("action").notNull().default("warn"), // "warn", or "suggest_cancel" to also ask the owner to call the match off
+  isActive: boolean("is_active").default(true),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// A weather rule tripped by a booking's forecast. Each rule alerts at most once per booking.
+export const weatherAlerts = pgTable("weather_alerts", {
+  id: serial("id").primaryKey(),
+  bookingId: integer("booking_id").notNull(),
+  ruleId: integer("rule_id").notNull(),
+  value: real("value").notNull(), // Forecast value that tripped the rule
+  status: text("status").notNull(), // "warned", "pending_approval", "approved", "dismissed"
+  resolvedBy: integer("resolved_by"),
+  resolvedAt: timestamp("resolved_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// The organiser's account of pitch hire: once a match is played, what the
+// players paid towards it against what the pitch cost. One row per booking.
+export const pitchCostEntries = pgTable("pitch_cost_entries", {
+  id: serial("id").primaryKey(),
+  teamId: integer("team_id").notNull(),
+  bookingId: integer("booking_id").notNull().unique(),
+  pitchCost: real("pitch_cost").notNull(), // in £
+  playerCount: integer("player_count").notNull(),
+  creditsPerPlayer: integer("credits_per_player").notNull(),
+  creditValue: integer("credit_value").notNull(), // £ per credit at the time
+  collected: real("collected").notNull(), // What the players actually paid (in £)
+  amount: real("amount").notNull(), // Positive is a surplus, negative is topped up by the organiser (in £)
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// WhatsApp messages sent to and received from players. Outbound match
+// messages remember their booking so replies to them can be matched up;
+// inbound messages are kept so webhook retries aren't processed twice.
+export const whatsappMessages = pgTable("whatsapp_messages", {
+  id: serial("id").primaryKey(),
+  messageId: text("message_id").notNull().unique(), // WhatsApp's message ID (wamid)
+  direction: text("direction").notNull(), // "inbound", "outbound"
+  phone: text("phone").notNull(),
+  userId: integer("user_id"),
+  bookingId: integer("booking_id"),
+  body: text("body"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// A one-time code sent to confirm a player owns a phone number. The number
+// only goes on the player's profile once the code is entered.
+export const phoneVerifications = pgTable("phone_verifications", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  phone: text("phone").notNull(), // E.164
+  codeHash: text("code_hash").notNull(), // SHA-256 of the code - the code itself isn't kept
+  channel: text("channel").notNull(), // Sender used: "whatsapp", "sms", "test"
+  attempts: integer("attempts").notNull().default(0),
+  expiresAt: timestamp("expires_at").notNull(),
+  verifiedAt: timestamp("verified_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Links emailed to reset a forgotten password; each works once, until it expires
+export const passwordResetTokens = pgTable("password_reset_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  tokenHash: text("token_hash").notNull().unique(), // SHA-256 of the token - the token itself is only in the email
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"), // Set when the password is reset, or when a newer link replaces this one
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// History of players opting in to and out of messages, for proof of consent
+export const messagingConsents = pgTable("messaging_consents", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  channel: text("channel").notNull(), // "whatsapp"
+  optedIn: boolean("opted_in").notNull(),
+  source: text("source").notNull(), // "profile", "verification", "reply"
+  phone: text("phone"), // Number the consent was given for
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// A team's own wording for a message, replacing the built-in template for
+// one notification type, channel and language
+export const messageTemplateOverrides = pgTable("message_template_overrides", {
+  id: serial("id").primaryKey(),
+  teamId: integer("team_id").notNull(),
+  type: text("type").notNull(), // NotificationType, e.g. "match_reminder"
+  channel: text("channel").notNull(), // "in_app", "whatsapp", "email"
+  locale: text("locale").notNull().default("en"),
+  subject: text("subject"), // Title for in-app messages, subject line for email
+  body: text("body").notNull(), // Text with {{variables}}, e.g. "{{booking.title}} starts at {{booking.time}}"
+  updatedBy: integer("updated_by"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
 export const calendarIntegrations = pgTable("calendar_integrations", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").notNull(),
-  provider: text("provider").notNull(), // "google", "apple"
-  accessToken: text("access_token"),
+  provider: text("provider").notNull(), // "google", "microsoft" or "caldav"
+  accessToken: text("access_token"), // For CalDAV, the base64 "username:password" sent as Basic auth
   refreshToken: text("refresh_token"),
   expiresAt: timestamp("expires_at"),
-  calendarId: text("calendar_id"), // The external calendar ID where events are created
+  calendarId: text("calendar_id"), // The external calendar ID where events are created (the calendar's URL for CalDAV)
   isActive: boolean("is_active").default(true),
   lastSyncedAt: timestamp("last_synced_at"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
@@ -147,19 +502,206 @@ export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
   createdAt: true,
   stripeCustomerId: true,
-  stripeSubscriptionId: true
+  stripeSubscriptionId: true,
+  // Only set once a player verifies their number
+  phone: true,
+  phoneVerifiedAt: true,
+  whatsappOptIn: true
+});
+
+export const playerPositionsSchema = z.object({
+  preferredPosition: z.enum(PLAYER_POSITIONS).nullable(),
+  secondaryPosition: z.enum(PLAYER_POSITIONS).nullable()
+}).refine(
+  data => !data.preferredPosition || data.preferredPosition !== data.secondaryPosition,
+  { message: "Secondary position must differ from the preferred position", path: ["secondaryPosition"] }
+);
+
+// Phone numbers are stored in E.164 format: + then the country code and number
+export const phoneNumberSchema = z.preprocess(
+  value => typeof value === "string" ? value.replace(/[\s\-().]/g, "").replace(/^00/, "+") : value,
+  z.string().regex(/^\+[1-9]\d{7,14}$/, "Enter a phone number with its country code, e.g. +44 7123 456789")
+);
+
+export const playerPhoneSchema = z.object({
+  phone: phoneNumberSchema
+});
+
+export const phoneVerificationCodeSchema = z.object({
+  code: z.string().trim().regex(/^\d{4,8}$/, "Enter the code from your message"),
+  whatsappOptIn: z.boolean().optional()
+});
+
+export const messagingConsentSchema = z.object({
+  whatsappOptIn: z.boolean()
+});
+
+// bcrypt only looks at the first 72 bytes, so longer passwords are refused rather than cut short
+export const newPasswordSchema = z.string()
+  .min(8, "Password must be at least 8 characters")
+  .refine(password => new TextEncoder().encode(password).length <= 72, "Password must be at most 72 bytes");
+
+export const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1, "Enter your current password"),
+  newPassword: newPasswordSchema
+});
+
+export const passwordResetRequestSchema = z.object({
+  email: z.string().trim().email("Enter a valid email address")
+});
+
+export const passwordResetSchema = z.object({
+  token: z.string().min(1),
+  newPassword: newPasswordSchema
+});
+
+export const MESSAGE_CHANNELS = ["in_app", "whatsapp", "email", "push"] as const;
+export type MessageChannel = typeof MESSAGE_CHANNELS[number];
+
+export const EMAIL_DIGEST_FREQUENCIES = ["off", "daily", "weekly"] as const;
+export type EmailDigestFrequency = typeof EMAIL_DIGEST_FREQUENCIES[number];
+
+// A player's notification preferences, stored in users.notification_settings
+export const notificationSettingsSchema = z.object({
+  emailNotifications: z.boolean(),
+  emailDigest: z.enum(EMAIL_DIGEST_FREQUENCIES), // Batch emails into a digest instead of sending each one
+  pushNotifications: z.boolean(),
+  matchReminders: z.boolean(),
+  bookingConfirmations: z.boolean(),
+  cancellationAlerts: z.boolean(),
+  teamUpdates: z.boolean(),
+  statsUpdates: z.boolean(),
+  teamAnnouncements: z.boolean(),
+  // No email, WhatsApp or push messages between these times; in-app notifications still arrive
+  quietHours: z.object({
+    enabled: z.boolean(),
+    start: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Use HH:MM"),
+    end: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Use HH:MM"),
+    // IANA time zone the times are in, e.g. "Europe/London"; server time if not set
+    timezone: z.string().refine(timeZone => {
+      try {
+        new Intl.DateTimeFormat("en", { timeZone });
+        return true;
+      } catch {
+        return false;
+      }
+    }, "Unknown time zone").optional()
+  }),
+  // Channels turned off for a single notification type, e.g. { match_reminder: { email: false } }
+  types: z.record(z.string(), z.record(z.enum(MESSAGE_CHANNELS), z.boolean()))
+}).partial();
+
+// An admin's edit to a message template
+export const messageTemplateOverrideSchema = z.object({
+  subject: z.string().trim().max(200).nullable().optional(),
+  body: z.string().trim().min(1, "Message text is required").max(2000),
+  locale: z.string().regex(/^[a-z]{2}(-[A-Z]{2})?$/, "Locale must look like \"en\" or \"en-GB\"").optional()
 });
 
-export const insertTeamSchema = createInsertSchema(teams).omit({
+export const COST_ROUNDING_RULES = ["up", "nearest", "down"] as const;
+export type CostRounding = typeof COST_ROUNDING_RULES[number];
+
+export const insertTeamSchema = createInsertSchema(teams, {
+  costRounding: z.enum(COST_ROUNDING_RULES).optional(),
+}).omit({
   id: true,
   createdAt: true
 });
 
+// A refund band: cancelling at least `hoursBefore` hours before kickoff refunds `refundPercent`
+export const refundTierSchema = z.object({
+  hoursBefore: z.number().min(0),
+  refundPercent: z.number().int().min(0).max(100),
+});
+
+// Shape of teams.cancellationPolicy
+export const cancellationPolicySchema = z.object({
+  maxCancellationsPerMonth: z.number().int().min(0),
+  minHoursBeforeForCancellation: z.number().min(0),
+  refundTiers: z.array(refundTierSchema)
+    .min(1, "At least one refund tier is required")
+    .refine(
+      tiers => new Set(tiers.map(tier => tier.hoursBefore)).size === tiers.length,
+      "Each refund tier must have a different number of hours"
+    ),
+  noShowPenaltyCredits: z.number().int().min(0),
+  exemptPlayerIds: z.array(z.number().int()),
+  allowTeamOwnerOverride: z.boolean(),
+});
+
 export const insertBookingSchema = createInsertSchema(bookings).omit({
+  id: true,
+  calendarSequence: true,
+  createdAt: true
+});
+
+export const insertAvailabilityPollSchema = createInsertSchema(availabilityPolls).omit({
+  id: true,
+  createdAt: true
+});
+
+export const insertAvailabilityPollOptionSchema = createInsertSchema(availabilityPollOptions).omit({
+  id: true,
+  createdAt: true
+});
+
+export const insertAvailabilityPollResponseSchema = createInsertSchema(availabilityPollResponses).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true
+});
+
+export const AVAILABILITY_ANSWERS = ["yes", "maybe", "no"] as const;
+export type AvailabilityAnswer = typeof AVAILABILITY_ANSWERS[number];
+
+// What an admin fills in to start a poll
+export const createAvailabilityPollSchema = z.object({
+  title: z.string().min(1).max(100),
+  format: z.string().min(1),
+  totalSlots: z.number().int().positive(),
+  closesAt: z.coerce.date().nullable().optional(),
+  options: z.array(z.object({
+    startTime: z.coerce.date(),
+    endTime: z.coerce.date(),
+    venueId: z.number().int().nullable().optional(),
+    location: z.string().max(200).optional()
+  }).refine(
+    option => option.endTime > option.startTime,
+    { message: "Each option must end after it starts", path: ["endTime"] }
+  ).refine(
+    option => !!option.venueId || !!option.location?.trim(),
+    { message: "Each option needs a venue or a location", path: ["location"] }
+  )).min(2, "A poll needs at least two options").max(10)
+});
+
+// A player's answers, one per option they're answering
+export const availabilityAnswersSchema = z.object({
+  answers: z.array(z.object({
+    optionId: z.number().int(),
+    answer: z.enum(AVAILABILITY_ANSWERS)
+  })).min(1)
+});
+
+export const VENUE_SURFACE_TYPES = ["grass", "artificial_grass", "3g", "4g", "indoor_court"] as const;
+
+export const insertVenueSchema = createInsertSchema(venues, {
+  name: z.string().min(1, "Name is required"),
+  surfaceType: z.enum(VENUE_SURFACE_TYPES).nullable().optional(),
+  pitchSizes: z.array(z.enum(["5-a-side", "7-a-side", "11-a-side"])).optional(),
+  latitude: z.number().min(-90).max(90).nullable().optional(),
+  longitude: z.number().min(-180).max(180).nullable().optional(),
+  costPerHour: z.number().min(0).nullable().optional(),
+}).omit({
   id: true,
   createdAt: true
 });
 
+export const insertBookingSeriesSchema = createInsertSchema(bookingSeries).omit({
+  id: true,
+  createdAt: true,
+  lastMaterializedAt: true
+});
+
 export const insertPlayerBookingSchema = createInsertSchema(playerBookings).omit({
   id: true,
   createdAt: true
@@ -175,32 +717,201 @@ export const insertPlayerStatsSchema = createInsertSchema(playerStats).omit({
   createdAt: true
 });
 
+export const insertMatchLineupSchema = createInsertSchema(matchLineups).omit({
+  id: true,
+  createdAt: true
+});
+
+// A manual edit to a match line-up - every player's side, position, bib and captaincy
+export const lineupUpdateSchema = z.object({
+  players: z.array(z.object({
+    playerId: z.number().int(),
+    side: z.enum(["A", "B"]),
+    position: z.string().max(20).nullable().optional(),
+    bibColour: z.string().max(30).nullable().optional(),
+    isCaptain: z.boolean().optional()
+  })).min(1)
+}).refine(
+  data => new Set(data.players.map(p => p.playerId)).size === data.players.length,
+  { message: "Each player can only appear once in a line-up", path: ["players"] }
+).refine(
+  data => ["A", "B"].every(side => data.players.filter(p => p.side === side && p.isCaptain).length <= 1),
+  { message: "Each side can only have one captain", path: ["players"] }
+);
+
+export const insertPairConstraintSchema = createInsertSchema(pairConstraints, {
+  type: z.enum(["together", "apart"])
+}).omit({
+  id: true,
+  createdAt: true
+}).refine(
+  data => data.playerAId !== data.playerBId,
+  { message: "A constraint needs two different players", path: ["playerBId"] }
+);
+
+export const insertPlayerRatingSchema = createInsertSchema(playerRatings).omit({
+  id: true,
+  createdAt: true
+});
+
 export const insertCreditTransactionSchema = createInsertSchema(creditTransactions).omit({
   id: true,
   createdAt: true
 });
 
+export const insertCreditLedgerEntrySchema = createInsertSchema(creditLedgerEntries).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertLocationGeocodeSchema = createInsertSchema(locationGeocodes).omit({
+  id: true,
+  createdAt: true
+});
+
+export const WEATHER_RULE_METRICS = ["wind_speed", "precipitation", "temperature", "humidity"] as const;
+
+export const insertWeatherRuleSchema = createInsertSchema(weatherRules, {
+  metric: z.enum(WEATHER_RULE_METRICS),
+  comparison: z.enum(["above", "below"]),
+  threshold: z.number(),
+  action: z.enum(["warn", "suggest_cancel"]).default("warn"),
+}).omit({
+  id: true,
+  createdAt: true
+});
+
+export const insertWeatherAlertSchema = createInsertSchema(weatherAlerts).omit({
+  id: true,
+  createdAt: true
+});
+
+export const insertPitchCostEntrySchema = createInsertSchema(pitchCostEntries).omit({
+  id: true,
+  createdAt: true
+});
+
+export const insertWhatsAppMessageSchema = createInsertSchema(whatsappMessages).omit({
+  id: true,
+  createdAt: true
+});
+
+export const insertPhoneVerificationSchema = createInsertSchema(phoneVerifications).omit({
+  id: true,
+  createdAt: true
+});
+
+export const insertPasswordResetTokenSchema = createInsertSchema(passwordResetTokens).omit({
+  id: true,
+  createdAt: true
+});
+
+export const insertMessagingConsentSchema = createInsertSchema(messagingConsents).omit({
+  id: true,
+  createdAt: true
+});
+
+export const insertMessageTemplateOverrideSchema = createInsertSchema(messageTemplateOverrides).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true
+});
+
 export const insertNotificationSchema = createInsertSchema(notifications).omit({
   id: true,
   createdAt: true
 });
 
+export const insertEmailDigestSchema = createInsertSchema(emailDigests).omit({
+  id: true,
+  createdAt: true
+});
+
+export const insertNotificationSuppressionSchema = createInsertSchema(notificationSuppressions).omit({
+  id: true,
+  createdAt: true
+});
+
+export const insertPushSubscriptionSchema = createInsertSchema(pushSubscriptions).omit({
+  id: true,
+  createdAt: true
+});
+
+export const CALENDAR_FEED_SCOPES = ["booked", "team"] as const;
+export type CalendarFeedScope = typeof CALENDAR_FEED_SCOPES[number];
+
+export const insertCalendarFeedSchema = createInsertSchema(calendarFeeds).omit({
+  id: true,
+  createdAt: true
+});
+
+export const insertCalendarEventLinkSchema = createInsertSchema(calendarEventLinks).omit({
+  id: true,
+  createdAt: true
+});
+
+export const calendarFeedScopeSchema = z.object({
+  scope: z.enum(CALENDAR_FEED_SCOPES)
+});
+
+export const JOB_STATUSES = ["pending", "running", "completed", "failed"] as const;
+export type JobStatus = typeof JOB_STATUSES[number];
+
+export const insertJobSchema = createInsertSchema(jobs).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true
+});
+
+// A subscription as the browser's PushSubscription.toJSON() gives it
+export const pushSubscriptionSchema = z.object({
+  endpoint: z.string().url(),
+  expirationTime: z.number().nullable().optional(),
+  keys: z.object({
+    p256dh: z.string().min(1),
+    auth: z.string().min(1)
+  })
+});
+
 export const insertCalendarIntegrationSchema = createInsertSchema(calendarIntegrations).omit({
   id: true,
   createdAt: true,
   lastSyncedAt: true
 });
 
+export const CALENDAR_PROVIDERS = ["google", "microsoft", "caldav"] as const;
+export type CalendarProviderName = typeof CALENDAR_PROVIDERS[number];
+
+// Connecting a CalDAV calendar (iCloud, Fastmail, Nextcloud...)
+export const caldavConnectionSchema = z.object({
+  // Plain http is only for the local development stand-in, which the server checks for
+  serverUrl: z.string().url().refine(url => {
+    const { protocol, hostname } = new URL(url);
+    return protocol === "https:" || (protocol === "http:" && hostname === "localhost");
+  }, "Use an https:// address"),
+  username: z.string().min(1),
+  password: z.string().min(1) // Usually an app password made for KickBook
+});
+
 // Types
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 
 export type Team = typeof teams.$inferSelect;
 export type InsertTeam = z.infer<typeof insertTeamSchema>;
+export type PlayerPositions = z.infer<typeof playerPositionsSchema>;
+export type RefundTier = z.infer<typeof refundTierSchema>;
+export type CancellationPolicy = z.infer<typeof cancellationPolicySchema>;
 
 export type Booking = typeof bookings.$inferSelect;
 export type InsertBooking = z.infer<typeof insertBookingSchema>;
 
+export type Venue = typeof venues.$inferSelect;
+export type InsertVenue = z.infer<typeof insertVenueSchema>;
+
+export type BookingSeries = typeof bookingSeries.$inferSelect;
+export type InsertBookingSeries = z.infer<typeof insertBookingSeriesSchema>;
+
 export type PlayerBooking = typeof playerBookings.$inferSelect;
 export type InsertPlayerBooking = z.infer<typeof insertPlayerBookingSchema>;
 
@@ -210,11 +921,60 @@ export type InsertMatchStats = z.infer<typeof insertMatchStatsSchema>;
 export type PlayerStats = typeof playerStats.$inferSelect;
 export type InsertPlayerStats = z.infer<typeof insertPlayerStatsSchema>;
 
+export type MatchLineupEntry = typeof matchLineups.$inferSelect;
+export type InsertMatchLineupEntry = z.infer<typeof insertMatchLineupSchema>;
+export type LineupUpdate = z.infer<typeof lineupUpdateSchema>;
+
+export type PairConstraint = typeof pairConstraints.$inferSelect;
+export type InsertPairConstraint = z.infer<typeof insertPairConstraintSchema>;
+
+export type PlayerRating = typeof playerRatings.$inferSelect;
+export type InsertPlayerRating = z.infer<typeof insertPlayerRatingSchema>;
+
 export type Achievement = typeof achievements.$inferSelect;
 export type PlayerAchievement = typeof playerAchievements.$inferSelect;
 export type Notification = typeof notifications.$inferSelect;
 export type InsertNotification = z.infer<typeof insertNotificationSchema>;
+export type NotificationSettings = z.infer<typeof notificationSettingsSchema>;
+export type EmailDigest = typeof emailDigests.$inferSelect;
+export type InsertEmailDigest = z.infer<typeof insertEmailDigestSchema>;
+export type NotificationSuppression = typeof notificationSuppressions.$inferSelect;
+export type InsertNotificationSuppression = z.infer<typeof insertNotificationSuppressionSchema>;
+export type PushSubscription = typeof pushSubscriptions.$inferSelect;
+export type InsertPushSubscription = z.infer<typeof insertPushSubscriptionSchema>;
+export type CalendarFeed = typeof calendarFeeds.$inferSelect;
+export type InsertCalendarFeed = z.infer<typeof insertCalendarFeedSchema>;
+export type AvailabilityPoll = typeof availabilityPolls.$inferSelect;
+export type InsertAvailabilityPoll = z.infer<typeof insertAvailabilityPollSchema>;
+export type AvailabilityPollOption = typeof availabilityPollOptions.$inferSelect;
+export type InsertAvailabilityPollOption = z.infer<typeof insertAvailabilityPollOptionSchema>;
+export type AvailabilityPollResponse = typeof availabilityPollResponses.$inferSelect;
+export type InsertAvailabilityPollResponse = z.infer<typeof insertAvailabilityPollResponseSchema>;
+export type CalendarEventLink = typeof calendarEventLinks.$inferSelect;
+export type InsertCalendarEventLink = z.infer<typeof insertCalendarEventLinkSchema>;
+export type Job = typeof jobs.$inferSelect;
+export type InsertJob = z.infer<typeof insertJobSchema>;
 export type CreditTransaction = typeof creditTransactions.$inferSelect;
 export type InsertCreditTransaction = z.infer<typeof insertCreditTransactionSchema>;
+export type CreditLedgerEntry = typeof creditLedgerEntries.$inferSelect;
+export type InsertCreditLedgerEntry = z.infer<typeof insertCreditLedgerEntrySchema>;
+export type LocationGeocode = typeof locationGeocodes.$inferSelect;
+export type InsertLocationGeocode = z.infer<typeof insertLocationGeocodeSchema>;
+export type WeatherRule = typeof weatherRules.$inferSelect;
+export type InsertWeatherRule = z.infer<typeof insertWeatherRuleSchema>;
+export type WeatherAlert = typeof weatherAlerts.$inferSelect;
+export type InsertWeatherAlert = z.infer<typeof insertWeatherAlertSchema>;
+export type PitchCostEntry = typeof pitchCostEntries.$inferSelect;
+export type InsertPitchCostEntry = z.infer<typeof insertPitchCostEntrySchema>;
+export type WhatsAppMessage = typeof whatsappMessages.$inferSelect;
+export type InsertWhatsAppMessage = z.infer<typeof insertWhatsAppMessageSchema>;
+export type PhoneVerification = typeof phoneVerifications.$inferSelect;
+export type InsertPhoneVerification = z.infer<typeof insertPhoneVerificationSchema>;
+export type PasswordResetToken = typeof passwordResetTokens.$inferSelect;
+export type InsertPasswordResetToken = z.infer<typeof insertPasswordResetTokenSchema>;
+export type MessagingConsent = typeof messagingConsents.$inferSelect;
+export type InsertMessagingConsent = z.infer<typeof insertMessagingConsentSchema>;
+export type MessageTemplateOverride = typeof messageTemplateOverrides.$inferSelect;
+export type InsertMessageTemplateOverride = z.infer<typeof insertMessageTemplateOverrideSchema>;
 export type CalendarIntegration = typeof calendarIntegrations.$inferSelect;
 export type InsertCalendarIntegration = z.infer<typeof insertCalendarIntegrationSchema>;
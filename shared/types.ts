@@ -2,6 +2,9 @@ export interface User {
   id: number;
   username: string;
   email: string;
+  phone: string | null;
+  phoneVerifiedAt: Date | null;
+  whatsappOptIn: boolean;
   name: string;
   role: string;
   teamId: number | null;
@@ -9,6 +12,8 @@ export interface User {
   credits: number | null;
   referralCode: string | null;
   notificationSettings: any;
+  preferredPosition: string | null;
+  secondaryPosition: string | null;
   stripeCustomerId?: string | null;
   stripeSubscriptionId?: string | null;
 }
@@ -23,6 +28,7 @@ export interface Team {
   allowPlayerBookingManagement: boolean | null;
   invitationCode: string | null;
   creditValue: number | null;
+  costRounding: string | null;
   cancellationPolicy: any;
 }
 
@@ -31,19 +37,46 @@ export interface Booking {
   teamId: number;
   title: string;
   location: string;
+  venueId: number | null;
   format: string;
   startTime: Date;
   endTime: Date;
   totalSlots: number;
   availableSlots: number;
   isRecurring: boolean | null;
+  seriesId: number | null;
+  seriesOccurrenceStart: Date | null;
+  isSeriesException: boolean | null;
   creditCost: number | null;
+  pitchCost: number | null;
   weatherData: any;
   status: string;
   cancelReason: string | null;
   createdAt: Date;
 }
 
+export interface BookingSeries {
+  id: number;
+  teamId: number;
+  createdBy: number;
+  title: string;
+  location: string;
+  venueId: number | null;
+  format: string;
+  firstStartTime: Date;
+  durationMinutes: number;
+  totalSlots: number;
+  creditCost: number | null;
+  pitchCost: number | null;
+  frequency: string;
+  endDate: Date | null;
+  occurrenceCount: number | null;
+  skipDates: string[] | null;
+  isActive: boolean;
+  lastMaterializedAt: Date | null;
+  createdAt: Date;
+}
+
 export interface PlayerBooking {
   id: number;
   bookingId: number;
@@ -51,6 +84,8 @@ export interface PlayerBooking {
   status: string;
   cancellationReason: string | null;
   refundAmount: number | null;
+  waitlistPosition: number | null;
+  offerExpiresAt: Date | null;
   canceledAt: Date | null;
   createdAt: Date;
 }
@@ -74,6 +109,20 @@ export interface CreditTransaction {
   description: string | null;
   teamOwnerId: number | null;
   bookingId: number | null;
+  paymentIntentId: string | null;
+  createdAt: Date;
+}
+
+export interface CreditLedgerEntry {
+  id: number;
+  idempotencyKey: string;
+  account: string;
+  userId: number | null;
+  amount: number;
+  type: string;
+  bookingId: number | null;
+  paymentIntentId: string | null;
+  description: string | null;
   createdAt: Date;
 }
 
@@ -126,6 +175,157 @@ export interface PlayerStats {
   createdAt: Date;
 }
 
+export interface MatchLineupEntry {
+  id: number;
+  bookingId: number;
+  playerId: number;
+  side: string;
+  position: string | null;
+  bibColour: string | null;
+  isCaptain: boolean;
+  createdAt: Date;
+}
+
+export interface PairConstraint {
+  id: number;
+  teamId: number;
+  bookingId: number | null;
+  playerAId: number;
+  playerBId: number;
+  type: string;
+  createdBy: number;
+  createdAt: Date;
+}
+
+export interface PlayerRating {
+  id: number;
+  playerId: number;
+  bookingId: number;
+  rating: number;
+  previousRating: number;
+  change: number;
+  gamesPlayed: number;
+  result: string;
+  createdAt: Date;
+}
+
+export interface LocationGeocode {
+  id: number;
+  query: string;
+  latitude: number;
+  longitude: number;
+  resolvedName: string | null;
+  provider: string;
+  createdAt: Date;
+}
+
+export interface WhatsAppMessage {
+  id: number;
+  messageId: string;
+  direction: string;
+  phone: string;
+  userId: number | null;
+  bookingId: number | null;
+  body: string | null;
+  createdAt: Date;
+}
+
+export interface MessageTemplateOverride {
+  id: number;
+  teamId: number;
+  type: string;
+  channel: string;
+  locale: string;
+  subject: string | null;
+  body: string;
+  updatedBy: number | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface NotificationSuppression {
+  id: number;
+  userId: number;
+  teamId: number | null;
+  bookingId: number | null;
+  type: string;
+  channel: string;
+  reason: string;
+  createdAt: Date;
+}
+
+export interface PhoneVerification {
+  id: number;
+  userId: number;
+  phone: string;
+  codeHash: string;
+  channel: string;
+  attempts: number;
+  expiresAt: Date;
+  verifiedAt: Date | null;
+  createdAt: Date;
+}
+
+export interface MessagingConsent {
+  id: number;
+  userId: number;
+  channel: string;
+  optedIn: boolean;
+  source: string;
+  phone: string | null;
+  createdAt: Date;
+}
+
+export interface Venue {
+  id: number;
+  teamId: number;
+  name: string;
+  address: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  surfaceType: string | null;
+  isIndoor: boolean | null;
+  pitchSizes: string[] | null;
+  costPerHour: number | null;
+  notes: string | null;
+  createdAt: Date;
+}
+
+export interface PitchCostEntry {
+  id: number;
+  teamId: number;
+  bookingId: number;
+  pitchCost: number;
+  playerCount: number;
+  creditsPerPlayer: number;
+  creditValue: number;
+  collected: number;
+  amount: number;
+  createdAt: Date;
+}
+
+export interface WeatherRule {
+  id: number;
+  teamId: number;
+  metric: string;
+  comparison: string;
+  threshold: number;
+  action: string;
+  isActive: boolean | null;
+  createdAt: Date;
+}
+
+export interface WeatherAlert {
+  id: number;
+  bookingId: number;
+  ruleId: number;
+  value: number;
+  status: string;
+  resolvedBy: number | null;
+  resolvedAt: Date | null;
+  createdAt: Date;
+}
+
 export enum UserRole {
   ADMIN = "admin",
   PLAYER = "player",